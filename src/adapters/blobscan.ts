@@ -1,48 +1,68 @@
 // Blobscan API adapter (free, no key needed)
 // Per-blob granularity and real-time blobspace stats
-import { cachedFetch, TTL } from '../utils/cache.js';
-import { RateLimiter } from '../utils/security.js';
+import { cachedFetch, CacheOptions, FOREVER, requestCacheKey, TTL } from '../utils/cache.js';
+import { currentSignal } from '../utils/context.js';
+import { tracedFetch } from '../utils/logging.js';
+import { waitForSlot } from '../utils/ratelimit.js';
+import { httpError, withRetry } from '../utils/retry.js';
 
 const BASE_URL = 'https://api.blobscan.com';
 
-// Rate limiter: ~60 req/min, use 50 to be safe
-const rateLimiter = new RateLimiter(50, 60 * 1000);
-
 async function request(endpoint: string): Promise<any> {
-  await rateLimiter.waitForSlot();
+  return withRetry('blobscan', async () => {
+    // ~60 req/min, limited to 50 to be safe
+    await waitForSlot('blobscan', '', 'free');
+
+    const response = await tracedFetch('blobscan', endpoint, `${BASE_URL}${endpoint}`, {
+      headers: {
+        Accept: 'application/json',
+      },
+      signal: currentSignal(),
+    });
+
+    if (!response.ok) {
+      if (response.status === 429) {
+        throw httpError(response, 'Blobscan rate limit exceeded. Please wait a moment.');
+      }
+      throw httpError(response, `Blobscan API error: ${response.statusText}`);
+    }
 
-  const response = await fetch(`${BASE_URL}${endpoint}`, {
-    headers: {
-      Accept: 'application/json',
-    },
+    return response.json();
   });
+}
 
-  if (!response.ok) {
-    if (response.status === 429) {
-      throw new Error('Blobscan rate limit exceeded. Please wait a moment.');
-    }
-    throw new Error(`Blobscan API error: ${response.statusText}`);
-  }
-
-  return response.json();
+// Cached request, keyed on the complete endpoint including its query string
+async function cachedRequest(
+  endpoint: string,
+  ttl: number,
+  noCache = false,
+  options: CacheOptions<any> = {}
+): Promise<any> {
+  return cachedFetch(
+    requestCacheKey('blobscan', endpoint),
+    ttl,
+    () => request(endpoint),
+    noCache,
+    options
+  );
 }
 
 // Get a specific blob by versioned hash
 export async function getBlob(hash: string, noCache = false): Promise<any> {
-  return cachedFetch(
-    `blobscan:blob:${hash}`,
+  return cachedRequest(
+    `/blobs/${hash}`,
     TTL.STATIC, // Blobs are immutable
-    () => request(`/blobs/${hash}`),
-    noCache
+    noCache,
+    // Versioned hashes commit to the blob's content
+    { ttlFor: (blob) => (blob ? FOREVER : TTL.STATIC) }
   );
 }
 
 // Get recent blobs
 export async function getRecentBlobs(limit: number = 10, noCache = false): Promise<any[]> {
-  const data = await cachedFetch(
-    `blobscan:recent:${limit}`,
+  const data = await cachedRequest(
+    `/blobs?ps=${Math.min(limit, 100)}&sort=desc`,
     30 * 1000, // 30 second cache
-    () => request(`/blobs?ps=${Math.min(limit, 100)}&sort=desc`),
     noCache
   );
   return data.blobs || data || [];
@@ -120,20 +140,18 @@ export async function getTransactionCount(noCache = false): Promise<number> {
 
 // Get latest block with blobs
 export async function getLatestBlock(noCache = false): Promise<any> {
-  return cachedFetch(
-    'blobscan:latest-block',
+  return cachedRequest(
+    '/blocks/latest',
     30 * 1000, // 30 second cache
-    () => request('/blocks/latest'),
     noCache
   );
 }
 
 // Get transactions with blobs
 export async function getTransactions(limit: number = 10, noCache = false): Promise<any[]> {
-  const data = await cachedFetch(
-    `blobscan:transactions:${limit}`,
+  const data = await cachedRequest(
+    `/transactions?ps=${Math.min(limit, 100)}&sort=desc`,
     30 * 1000,
-    () => request(`/transactions?ps=${Math.min(limit, 100)}&sort=desc`),
     noCache
   );
   return data.transactions || data || [];
@@ -141,22 +159,16 @@ export async function getTransactions(limit: number = 10, noCache = false): Prom
 
 // Get transaction by hash
 export async function getTransaction(hash: string, noCache = false): Promise<any> {
-  return cachedFetch(
-    `blobscan:tx:${hash}`,
+  return cachedRequest(
+    `/transactions/${hash}`,
     TTL.STATIC, // Transactions are immutable
-    () => request(`/transactions/${hash}`),
     noCache
   );
 }
 
 // Search across blobs, blocks, transactions, addresses
 export async function search(query: string, noCache = false): Promise<any> {
-  return cachedFetch(
-    `blobscan:search:${query}`,
-    60 * 1000,
-    () => request(`/search?query=${encodeURIComponent(query)}`),
-    noCache
-  );
+  return cachedRequest(`/search?query=${encodeURIComponent(query)}`, 60 * 1000, noCache);
 }
 
 // Get blobs by address (sender)
@@ -165,10 +177,9 @@ export async function getBlobsByAddress(
   limit: number = 10,
   noCache = false
 ): Promise<any[]> {
-  const data = await cachedFetch(
-    `blobscan:address:${address}:${limit}`,
+  const data = await cachedRequest(
+    `/blobs?from=${address}&ps=${Math.min(limit, 100)}&sort=desc`,
     30 * 1000,
-    () => request(`/blobs?from=${address}&ps=${Math.min(limit, 100)}&sort=desc`),
     noCache
   );
   return data.blobs || data || [];
@@ -176,10 +187,9 @@ export async function getBlobsByAddress(
 
 // Get block with blobs
 export async function getBlockBlobs(blockNumber: number | string, noCache = false): Promise<any> {
-  return cachedFetch(
-    `blobscan:block:${blockNumber}`,
+  return cachedRequest(
+    `/blocks/${blockNumber}`,
     TTL.STATIC, // Blocks are immutable
-    () => request(`/blocks/${blockNumber}`),
     noCache
   );
 }
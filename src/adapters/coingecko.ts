@@ -1,27 +1,24 @@
 // CoinGecko API adapter (free demo tier + optional Pro API)
-import { cachedFetch, TTL } from '../utils/cache.js';
-import { RateLimiter } from '../utils/security.js';
+import { cachedFetch, CacheOptions, requestCacheKey, TTL } from '../utils/cache.js';
+import { getSession } from '../utils/session.js';
+import { currentSignal } from '../utils/context.js';
+import { tracedFetch } from '../utils/logging.js';
+import { waitForSlot } from '../utils/ratelimit.js';
+import { httpError, withRetry } from '../utils/retry.js';
 
 const DEMO_URL = 'https://api.coingecko.com/api/v3';
 const PRO_URL = 'https://pro-api.coingecko.com/api/v3';
 
-let coingeckoApiKey = process.env.COINGECKO_API_KEY || '';
-
-// Rate limiter: 30 requests per minute for demo, 500 for pro
-let rateLimiter = new RateLimiter(30, 60 * 1000);
-
 export function isProConfigured(): boolean {
-  return !!coingeckoApiKey;
+  return !!getSession().coingeckoApiKey;
 }
 
 export function setApiKey(key: string): void {
-  coingeckoApiKey = key;
-  // Pro tier has much higher rate limits (500/min for Analyst plan)
-  rateLimiter = new RateLimiter(500, 60 * 1000);
+  getSession().coingeckoApiKey = key;
 }
 
 async function request(endpoint: string, requiresPro = false): Promise<any> {
-  await rateLimiter.waitForSlot();
+  const coingeckoApiKey = getSession().coingeckoApiKey;
 
   const baseUrl = coingeckoApiKey ? PRO_URL : DEMO_URL;
   let url = `${baseUrl}${endpoint}`;
@@ -40,14 +37,41 @@ async function request(endpoint: string, requiresPro = false): Promise<any> {
     headers['x-cg-pro-api-key'] = coingeckoApiKey;
   }
 
-  const response = await fetch(url, { headers });
-  if (!response.ok) {
-    if (response.status === 429) {
-      throw new Error('CoinGecko rate limit exceeded. Please wait a moment.');
+  return withRetry('coingecko', async () => {
+    // Per API key (keyless demo calls share one): 30 requests per minute for demo, 500 for pro
+    await waitForSlot('coingecko', coingeckoApiKey, coingeckoApiKey ? 'pro' : 'free');
+    const response = await tracedFetch('coingecko', endpoint, url, {
+      headers,
+      signal: currentSignal(),
+    });
+    if (!response.ok) {
+      if (response.status === 429) {
+        throw httpError(response, 'CoinGecko rate limit exceeded. Please wait a moment.');
+      }
+      throw httpError(response, `CoinGecko API error: ${response.statusText}`);
     }
-    throw new Error(`CoinGecko API error: ${response.statusText}`);
-  }
-  return response.json();
+    return response.json();
+  });
+}
+
+interface RequestOptions extends CacheOptions<any> {
+  requiresPro?: boolean;
+}
+
+// Cached request, keyed on the complete endpoint including its query string
+async function cachedRequest(
+  endpoint: string,
+  ttl: number,
+  noCache = false,
+  { requiresPro = false, ...options }: RequestOptions = {}
+): Promise<any> {
+  return cachedFetch(
+    requestCacheKey('coingecko', endpoint),
+    ttl,
+    () => request(endpoint, requiresPro),
+    noCache,
+    options
+  );
 }
 
 // ============================================
@@ -61,16 +85,12 @@ export async function getPrice(
   noCache = false
 ): Promise<Record<string, Record<string, number>>> {
   const idList = Array.isArray(ids) ? ids.join(',') : ids;
-  const cacheKey = `coingecko:price:${idList}:${vsCurrencies}`;
 
-  return cachedFetch(
-    cacheKey,
+  return cachedRequest(
+    `/simple/price?ids=${idList}&vs_currencies=${vsCurrencies}&include_24hr_change=true&include_market_cap=true&include_last_updated_at=true`,
     TTL.PRICE,
-    () =>
-      request(
-        `/simple/price?ids=${idList}&vs_currencies=${vsCurrencies}&include_24hr_change=true&include_market_cap=true`
-      ),
-    noCache
+    noCache,
+    { staleFor: TTL.PRICE }
   );
 }
 
@@ -84,25 +104,17 @@ export async function getTokenPriceByContract(
   const addresses = Array.isArray(contractAddresses)
     ? contractAddresses.join(',')
     : contractAddresses;
-  return cachedFetch(
-    `coingecko:tokenprice:${platform}:${addresses}`,
+  return cachedRequest(
+    `/simple/token_price/${platform}?contract_addresses=${addresses}&vs_currencies=${vsCurrencies}&include_24hr_change=true&include_market_cap=true&include_last_updated_at=true`,
     TTL.PRICE,
-    () =>
-      request(
-        `/simple/token_price/${platform}?contract_addresses=${addresses}&vs_currencies=${vsCurrencies}&include_24hr_change=true&include_market_cap=true`
-      ),
-    noCache
+    noCache,
+    { staleFor: TTL.PRICE }
   );
 }
 
 // Get supported vs currencies
 export async function getSupportedCurrencies(noCache = false): Promise<string[]> {
-  return cachedFetch(
-    'coingecko:currencies',
-    TTL.STATIC,
-    () => request('/simple/supported_vs_currencies'),
-    noCache
-  );
+  return cachedRequest('/simple/supported_vs_currencies', TTL.STATIC, noCache);
 }
 
 // ============================================
@@ -111,54 +123,36 @@ export async function getSupportedCurrencies(noCache = false): Promise<string[]>
 
 // Get all coins list (ID map)
 export async function getCoinsList(noCache = false): Promise<any[]> {
-  return cachedFetch('coingecko:coins:list', TTL.STATIC, () => request('/coins/list'), noCache);
+  return cachedRequest('/coins/list', TTL.STATIC, noCache);
 }
 
 // Get top coins by market cap
 export async function getTopCoins(limit: number = 20, noCache = false): Promise<any[]> {
-  return cachedFetch(
-    `coingecko:top:${limit}`,
+  return cachedRequest(
+    `/coins/markets?vs_currency=usd&order=market_cap_desc&per_page=${limit}&page=1&sparkline=false`,
     TTL.PRICE,
-    () =>
-      request(
-        `/coins/markets?vs_currency=usd&order=market_cap_desc&per_page=${limit}&page=1&sparkline=false`
-      ),
     noCache
   );
 }
 
 // Get coin details
 export async function getCoinDetails(id: string, noCache = false): Promise<any> {
-  return cachedFetch(
-    `coingecko:coin:${id}`,
+  return cachedRequest(
+    `/coins/${id}?localization=false&tickers=false&community_data=false&developer_data=false`,
     TTL.PROTOCOL,
-    () =>
-      request(
-        `/coins/${id}?localization=false&tickers=false&community_data=false&developer_data=false`
-      ),
     noCache
   );
 }
 
 // Get coin tickers (exchanges where coin is traded)
 export async function getCoinTickers(id: string, noCache = false): Promise<any> {
-  return cachedFetch(
-    `coingecko:tickers:${id}`,
-    TTL.PRICE,
-    () => request(`/coins/${id}/tickers`),
-    noCache
-  );
+  return cachedRequest(`/coins/${id}/tickers`, TTL.PRICE, noCache);
 }
 
 // Get historical data for a coin on a specific date
 export async function getCoinHistory(id: string, date: string, noCache = false): Promise<any> {
   // date format: dd-mm-yyyy
-  return cachedFetch(
-    `coingecko:history:${id}:${date}`,
-    TTL.STATIC,
-    () => request(`/coins/${id}/history?date=${date}`),
-    noCache
-  );
+  return cachedRequest(`/coins/${id}/history?date=${date}`, TTL.STATIC, noCache);
 }
 
 // Get historical market chart data
@@ -167,12 +161,7 @@ export async function getCoinMarketChart(
   days: number | string = 30,
   noCache = false
 ): Promise<any> {
-  return cachedFetch(
-    `coingecko:chart:${id}:${days}`,
-    TTL.TVL,
-    () => request(`/coins/${id}/market_chart?vs_currency=usd&days=${days}`),
-    noCache
-  );
+  return cachedRequest(`/coins/${id}/market_chart?vs_currency=usd&days=${days}`, TTL.TVL, noCache);
 }
 
 // Get historical market chart in time range
@@ -182,22 +171,16 @@ export async function getCoinMarketChartRange(
   to: number,
   noCache = false
 ): Promise<any> {
-  return cachedFetch(
-    `coingecko:chartrange:${id}:${from}:${to}`,
+  return cachedRequest(
+    `/coins/${id}/market_chart/range?vs_currency=usd&from=${from}&to=${to}`,
     TTL.TVL,
-    () => request(`/coins/${id}/market_chart/range?vs_currency=usd&from=${from}&to=${to}`),
     noCache
   );
 }
 
 // Get OHLC data
 export async function getCoinOHLC(id: string, days: number = 30, noCache = false): Promise<any[]> {
-  return cachedFetch(
-    `coingecko:ohlc:${id}:${days}`,
-    TTL.PRICE,
-    () => request(`/coins/${id}/ohlc?vs_currency=usd&days=${days}`),
-    noCache
-  );
+  return cachedRequest(`/coins/${id}/ohlc?vs_currency=usd&days=${days}`, TTL.PRICE, noCache);
 }
 
 // Get coin data by contract address
@@ -206,12 +189,7 @@ export async function getCoinByContract(
   contractAddress: string,
   noCache = false
 ): Promise<any> {
-  return cachedFetch(
-    `coingecko:contract:${platform}:${contractAddress}`,
-    TTL.PROTOCOL,
-    () => request(`/coins/${platform}/contract/${contractAddress}`),
-    noCache
-  );
+  return cachedRequest(`/coins/${platform}/contract/${contractAddress}`, TTL.PROTOCOL, noCache);
 }
 
 // Get coin market chart by contract address
@@ -221,13 +199,9 @@ export async function getCoinChartByContract(
   days: number = 30,
   noCache = false
 ): Promise<any> {
-  return cachedFetch(
-    `coingecko:contractchart:${platform}:${contractAddress}:${days}`,
+  return cachedRequest(
+    `/coins/${platform}/contract/${contractAddress}/market_chart?vs_currency=usd&days=${days}`,
     TTL.TVL,
-    () =>
-      request(
-        `/coins/${platform}/contract/${contractAddress}/market_chart?vs_currency=usd&days=${days}`
-      ),
     noCache
   );
 }
@@ -238,22 +212,17 @@ export async function getCoinChartByContract(
 
 // Get asset platforms (blockchains)
 export async function getAssetPlatforms(noCache = false): Promise<any[]> {
-  return cachedFetch('coingecko:platforms', TTL.STATIC, () => request('/asset_platforms'), noCache);
+  return cachedRequest('/asset_platforms', TTL.STATIC, noCache);
 }
 
 // Get categories list
 export async function getCategoriesList(noCache = false): Promise<any[]> {
-  return cachedFetch(
-    'coingecko:categories:list',
-    TTL.STATIC,
-    () => request('/coins/categories/list'),
-    noCache
-  );
+  return cachedRequest('/coins/categories/list', TTL.STATIC, noCache);
 }
 
 // Get categories with market data
 export async function getCategories(noCache = false): Promise<any[]> {
-  return cachedFetch('coingecko:categories', TTL.TVL, () => request('/coins/categories'), noCache);
+  return cachedRequest('/coins/categories', TTL.TVL, noCache);
 }
 
 // ============================================
@@ -262,42 +231,22 @@ export async function getCategories(noCache = false): Promise<any[]> {
 
 // Get all exchanges
 export async function getExchanges(limit: number = 100, noCache = false): Promise<any[]> {
-  return cachedFetch(
-    `coingecko:exchanges:${limit}`,
-    TTL.TVL,
-    () => request(`/exchanges?per_page=${limit}`),
-    noCache
-  );
+  return cachedRequest(`/exchanges?per_page=${limit}`, TTL.TVL, noCache);
 }
 
 // Get exchanges list (ID map)
 export async function getExchangesList(noCache = false): Promise<any[]> {
-  return cachedFetch(
-    'coingecko:exchanges:list',
-    TTL.STATIC,
-    () => request('/exchanges/list'),
-    noCache
-  );
+  return cachedRequest('/exchanges/list', TTL.STATIC, noCache);
 }
 
 // Get exchange details
 export async function getExchange(id: string, noCache = false): Promise<any> {
-  return cachedFetch(
-    `coingecko:exchange:${id}`,
-    TTL.TVL,
-    () => request(`/exchanges/${id}`),
-    noCache
-  );
+  return cachedRequest(`/exchanges/${id}`, TTL.TVL, noCache);
 }
 
 // Get exchange tickers
 export async function getExchangeTickers(id: string, noCache = false): Promise<any> {
-  return cachedFetch(
-    `coingecko:exchangetickers:${id}`,
-    TTL.PRICE,
-    () => request(`/exchanges/${id}/tickers`),
-    noCache
-  );
+  return cachedRequest(`/exchanges/${id}/tickers`, TTL.PRICE, noCache);
 }
 
 // Get exchange volume chart
@@ -306,12 +255,7 @@ export async function getExchangeVolumeChart(
   days: number = 30,
   noCache = false
 ): Promise<any[]> {
-  return cachedFetch(
-    `coingecko:exchangevolume:${id}:${days}`,
-    TTL.TVL,
-    () => request(`/exchanges/${id}/volume_chart?days=${days}`),
-    noCache
-  );
+  return cachedRequest(`/exchanges/${id}/volume_chart?days=${days}`, TTL.TVL, noCache);
 }
 
 // ============================================
@@ -320,27 +264,17 @@ export async function getExchangeVolumeChart(
 
 // Get all derivatives tickers
 export async function getDerivatives(noCache = false): Promise<any[]> {
-  return cachedFetch('coingecko:derivatives', TTL.PRICE, () => request('/derivatives'), noCache);
+  return cachedRequest('/derivatives', TTL.PRICE, noCache);
 }
 
 // Get derivatives exchanges
 export async function getDerivativesExchanges(noCache = false): Promise<any[]> {
-  return cachedFetch(
-    'coingecko:derivatives:exchanges',
-    TTL.TVL,
-    () => request('/derivatives/exchanges'),
-    noCache
-  );
+  return cachedRequest('/derivatives/exchanges', TTL.TVL, noCache);
 }
 
 // Get specific derivatives exchange
 export async function getDerivativesExchange(id: string, noCache = false): Promise<any> {
-  return cachedFetch(
-    `coingecko:derivatives:exchange:${id}`,
-    TTL.TVL,
-    () => request(`/derivatives/exchanges/${id}`),
-    noCache
-  );
+  return cachedRequest(`/derivatives/exchanges/${id}`, TTL.TVL, noCache);
 }
 
 // ============================================
@@ -349,42 +283,27 @@ export async function getDerivativesExchange(id: string, noCache = false): Promi
 
 // Search for coins
 export async function searchCoins(query: string, noCache = false): Promise<any> {
-  return cachedFetch(
-    `coingecko:search:${query}`,
-    TTL.PROTOCOL,
-    () => request(`/search?query=${encodeURIComponent(query)}`),
-    noCache
-  );
+  return cachedRequest(`/search?query=${encodeURIComponent(query)}`, TTL.PROTOCOL, noCache);
 }
 
 // Get trending coins
 export async function getTrending(noCache = false): Promise<any> {
-  return cachedFetch('coingecko:trending', TTL.TVL, () => request('/search/trending'), noCache);
+  return cachedRequest('/search/trending', TTL.TVL, noCache);
 }
 
 // Get global market data
 export async function getGlobalData(noCache = false): Promise<any> {
-  return cachedFetch('coingecko:global', TTL.PRICE, () => request('/global'), noCache);
+  return cachedRequest('/global', TTL.PRICE, noCache);
 }
 
 // Get global DeFi data
 export async function getGlobalDefiData(noCache = false): Promise<any> {
-  return cachedFetch(
-    'coingecko:global:defi',
-    TTL.PRICE,
-    () => request('/global/decentralized_finance_defi'),
-    noCache
-  );
+  return cachedRequest('/global/decentralized_finance_defi', TTL.PRICE, noCache);
 }
 
 // Get exchange rates (BTC to other currencies)
 export async function getExchangeRates(noCache = false): Promise<any> {
-  return cachedFetch(
-    'coingecko:exchangerates',
-    TTL.PRICE,
-    () => request('/exchange_rates'),
-    noCache
-  );
+  return cachedRequest('/exchange_rates', TTL.PRICE, noCache);
 }
 
 // ============================================
@@ -393,12 +312,12 @@ export async function getExchangeRates(noCache = false): Promise<any> {
 
 // Get NFTs list
 export async function getNftsList(noCache = false): Promise<any[]> {
-  return cachedFetch('coingecko:nfts:list', TTL.STATIC, () => request('/nfts/list'), noCache);
+  return cachedRequest('/nfts/list', TTL.STATIC, noCache);
 }
 
 // Get NFT collection details
 export async function getNftDetails(id: string, noCache = false): Promise<any> {
-  return cachedFetch(`coingecko:nft:${id}`, TTL.TVL, () => request(`/nfts/${id}`), noCache);
+  return cachedRequest(`/nfts/${id}`, TTL.TVL, noCache);
 }
 
 // Get NFT by contract address
@@ -407,12 +326,7 @@ export async function getNftByContract(
   contractAddress: string,
   noCache = false
 ): Promise<any> {
-  return cachedFetch(
-    `coingecko:nftcontract:${platform}:${contractAddress}`,
-    TTL.TVL,
-    () => request(`/nfts/${platform}/contract/${contractAddress}`),
-    noCache
-  );
+  return cachedRequest(`/nfts/${platform}/contract/${contractAddress}`, TTL.TVL, noCache);
 }
 
 // ============================================
@@ -421,7 +335,7 @@ export async function getNftByContract(
 
 // Get API usage (Pro)
 export async function getApiUsage(noCache = false): Promise<any> {
-  return cachedFetch('coingecko:key', TTL.PRICE, () => request('/key', true), noCache);
+  return cachedRequest('/key', TTL.PRICE, noCache, { requiresPro: true });
 }
 
 // Get top gainers and losers (Pro)
@@ -430,22 +344,17 @@ export async function getTopMovers(
   duration: string = '24h',
   noCache = false
 ): Promise<any> {
-  return cachedFetch(
-    `coingecko:movers:${vsCurrency}:${duration}`,
+  return cachedRequest(
+    `/coins/top_gainers_losers?vs_currency=${vsCurrency}&duration=${duration}`,
     TTL.PRICE,
-    () => request(`/coins/top_gainers_losers?vs_currency=${vsCurrency}&duration=${duration}`, true),
-    noCache
+    noCache,
+    { requiresPro: true }
   );
 }
 
 // Get recently added coins (Pro)
 export async function getNewCoins(noCache = false): Promise<any[]> {
-  return cachedFetch(
-    'coingecko:coins:new',
-    TTL.TVL,
-    () => request('/coins/list/new', true),
-    noCache
-  );
+  return cachedRequest('/coins/list/new', TTL.TVL, noCache, { requiresPro: true });
 }
 
 // Get exchange volume chart range (Pro)
@@ -455,22 +364,17 @@ export async function getExchangeVolumeChartRange(
   to: number,
   noCache = false
 ): Promise<any[]> {
-  return cachedFetch(
-    `coingecko:exchangevolumerange:${id}:${from}:${to}`,
+  return cachedRequest(
+    `/exchanges/${id}/volume_chart/range?from=${from}&to=${to}`,
     TTL.TVL,
-    () => request(`/exchanges/${id}/volume_chart/range?from=${from}&to=${to}`, true),
-    noCache
+    noCache,
+    { requiresPro: true }
   );
 }
 
 // Get NFT markets (Pro)
 export async function getNftMarkets(limit: number = 100, noCache = false): Promise<any[]> {
-  return cachedFetch(
-    `coingecko:nfts:markets:${limit}`,
-    TTL.TVL,
-    () => request(`/nfts/markets?per_page=${limit}`, true),
-    noCache
-  );
+  return cachedRequest(`/nfts/markets?per_page=${limit}`, TTL.TVL, noCache, { requiresPro: true });
 }
 
 // Get NFT market chart (Pro)
@@ -479,32 +383,21 @@ export async function getNftMarketChart(
   days: number = 30,
   noCache = false
 ): Promise<any> {
-  return cachedFetch(
-    `coingecko:nft:chart:${id}:${days}`,
-    TTL.TVL,
-    () => request(`/nfts/${id}/market_chart?days=${days}`, true),
-    noCache
-  );
+  return cachedRequest(`/nfts/${id}/market_chart?days=${days}`, TTL.TVL, noCache, {
+    requiresPro: true,
+  });
 }
 
 // Get NFT tickers (Pro)
 export async function getNftTickers(id: string, noCache = false): Promise<any> {
-  return cachedFetch(
-    `coingecko:nft:tickers:${id}`,
-    TTL.PRICE,
-    () => request(`/nfts/${id}/tickers`, true),
-    noCache
-  );
+  return cachedRequest(`/nfts/${id}/tickers`, TTL.PRICE, noCache, { requiresPro: true });
 }
 
 // Get global market cap chart (Pro)
 export async function getGlobalMarketCapChart(days: number = 30, noCache = false): Promise<any> {
-  return cachedFetch(
-    `coingecko:global:chart:${days}`,
-    TTL.TVL,
-    () => request(`/global/market_cap_chart?days=${days}`, true),
-    noCache
-  );
+  return cachedRequest(`/global/market_cap_chart?days=${days}`, TTL.TVL, noCache, {
+    requiresPro: true,
+  });
 }
 
 // ============================================
@@ -518,8 +411,8 @@ export async function getFormattedTopCoins(
   Array<{
     name: string;
     symbol: string;
-    price: number;
-    marketCap: number;
+    price: number | null;
+    marketCap: number | null;
     change24h: number;
   }>
 > {
@@ -527,8 +420,8 @@ export async function getFormattedTopCoins(
   return coins.map((c: any) => ({
     name: c.name,
     symbol: c.symbol.toUpperCase(),
-    price: c.current_price,
-    marketCap: c.market_cap,
+    price: c.current_price ?? null,
+    marketCap: c.market_cap ?? null,
     change24h: c.price_change_percentage_24h || 0,
   }));
 }
@@ -537,14 +430,14 @@ export async function getFormattedTrending(noCache = false): Promise<
   Array<{
     name: string;
     symbol: string;
-    marketCapRank: number;
+    marketCapRank: number | null;
   }>
 > {
   const data = await getTrending(noCache);
   return data.coins.map((item: any) => ({
     name: item.item.name,
     symbol: item.item.symbol.toUpperCase(),
-    marketCapRank: item.item.market_cap_rank || 'N/A',
+    marketCapRank: item.item.market_cap_rank ?? null,
   }));
 }
 
@@ -1,5 +1,10 @@
 // DefiLlama API adapter (free tier + optional Pro API)
-import { cachedFetch, TTL } from '../utils/cache.js';
+import { cachedFetch, CacheOptions, requestCacheKey, TTL } from '../utils/cache.js';
+import { getSession } from '../utils/session.js';
+import { currentSignal } from '../utils/context.js';
+import { tracedFetch } from '../utils/logging.js';
+import { waitForSlot } from '../utils/ratelimit.js';
+import { httpError, withRetry } from '../utils/retry.js';
 
 const BASE_URL = 'https://api.llama.fi';
 const PRO_BASE_URL = 'https://pro-api.llama.fi';
@@ -7,17 +12,16 @@ const YIELDS_URL = 'https://yields.llama.fi';
 const STABLECOINS_URL = 'https://stablecoins.llama.fi';
 const COINS_URL = 'https://coins.llama.fi';
 
-let defillamaApiKey = process.env.DEFILLAMA_API_KEY || '';
-
 export function isProConfigured(): boolean {
-  return !!defillamaApiKey;
+  return !!getSession().defillamaApiKey;
 }
 
 export function setApiKey(key: string): void {
-  defillamaApiKey = key;
+  getSession().defillamaApiKey = key;
 }
 
 async function request(baseUrl: string, endpoint: string, requiresPro = false): Promise<any> {
+  const defillamaApiKey = getSession().defillamaApiKey;
   let url = `${baseUrl}${endpoint}`;
 
   // Use Pro API if key is set and endpoint requires it
@@ -31,67 +35,71 @@ async function request(baseUrl: string, endpoint: string, requiresPro = false):
     );
   }
 
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error(`DefiLlama API error: ${response.statusText}`);
-  }
-  return response.json();
+  return withRetry('defillama', async () => {
+    // Only the Pro API is rate limited
+    if (requiresPro) await waitForSlot('defillama', defillamaApiKey, 'pro');
+    // The Pro key is part of the URL, so only the endpoint is logged
+    const response = await tracedFetch('defillama', endpoint, url, { signal: currentSignal() });
+    if (!response.ok) {
+      throw httpError(response, `DefiLlama API error: ${response.statusText}`);
+    }
+    return response.json();
+  });
+}
+
+interface RequestOptions extends CacheOptions<any> {
+  requiresPro?: boolean;
+}
+
+// Cached request, keyed on the API host and the complete endpoint including its query string
+async function cachedRequest(
+  baseUrl: string,
+  endpoint: string,
+  ttl: number,
+  noCache = false,
+  { requiresPro = false, ...options }: RequestOptions = {}
+): Promise<any> {
+  return cachedFetch(
+    requestCacheKey('defillama', endpoint, { host: new URL(baseUrl).host }),
+    ttl,
+    () => request(baseUrl, endpoint, requiresPro),
+    noCache,
+    options
+  );
 }
 
 // Cached fetchers
 export async function getChains(noCache = false): Promise<any[]> {
-  return cachedFetch('defillama:chains', TTL.TVL, () => request(BASE_URL, '/v2/chains'), noCache);
+  return cachedRequest(BASE_URL, '/v2/chains', TTL.TVL, noCache, {
+    staleFor: TTL.TVL,
+  });
 }
 
 export async function getProtocolTvl(protocol: string, noCache = false): Promise<number> {
-  return cachedFetch(
-    `defillama:tvl:${protocol}`,
-    TTL.TVL,
-    () => request(BASE_URL, `/tvl/${protocol}`),
-    noCache
-  );
+  return cachedRequest(BASE_URL, `/tvl/${protocol}`, TTL.TVL, noCache, { staleFor: TTL.TVL });
 }
 
 export async function getProtocol(protocol: string, noCache = false): Promise<any> {
-  return cachedFetch(
-    `defillama:protocol:${protocol}`,
-    TTL.PROTOCOL,
-    () => request(BASE_URL, `/protocol/${protocol}`),
-    noCache
-  );
+  return cachedRequest(BASE_URL, `/protocol/${protocol}`, TTL.PROTOCOL, noCache);
 }
 
 export async function getProtocols(noCache = false): Promise<any[]> {
-  return cachedFetch(
-    'defillama:protocols',
-    TTL.PROTOCOL,
-    () => request(BASE_URL, '/protocols'),
-    noCache
-  );
+  return cachedRequest(BASE_URL, '/protocols', TTL.PROTOCOL, noCache, { staleFor: TTL.PROTOCOL });
 }
 
 export async function getYieldPools(noCache = false): Promise<any> {
-  return cachedFetch('defillama:yields', TTL.TVL, () => request(YIELDS_URL, '/pools'), noCache);
+  return cachedRequest(YIELDS_URL, '/pools', TTL.TVL, noCache);
 }
 
 export async function getStablecoins(noCache = false): Promise<any> {
-  return cachedFetch(
-    'defillama:stablecoins',
-    TTL.TVL,
-    () => request(STABLECOINS_URL, '/stablecoins?includePrices=true'),
-    noCache
-  );
+  return cachedRequest(STABLECOINS_URL, '/stablecoins?includePrices=true', TTL.TVL, noCache);
 }
 
 export async function getDexVolumes(noCache = false): Promise<any> {
-  return cachedFetch(
-    'defillama:dexvolumes',
+  return cachedRequest(
+    BASE_URL,
+    '/overview/dexs?excludeTotalDataChart=true&excludeTotalDataChartBreakdown=true&dataType=dailyVolume',
     TTL.TVL,
-    () =>
-      request(
-        BASE_URL,
-        '/overview/dexs?excludeTotalDataChart=true&excludeTotalDataChartBreakdown=true&dataType=dailyVolume'
-      ),
     noCache
   );
 }
@@ -168,21 +176,11 @@ export async function getTopDexes(limit: number = 15, noCache = false): Promise<
 // ============================================
 
 export async function getHistoricalChainTvl(noCache = false): Promise<any[]> {
-  return cachedFetch(
-    'defillama:historicalchaintvl',
-    TTL.TVL,
-    () => request(BASE_URL, '/v2/historicalChainTvl'),
-    noCache
-  );
+  return cachedRequest(BASE_URL, '/v2/historicalChainTvl', TTL.TVL, noCache);
 }
 
 export async function getHistoricalChainTvlByChain(chain: string, noCache = false): Promise<any[]> {
-  return cachedFetch(
-    `defillama:historicalchaintvl:${chain}`,
-    TTL.TVL,
-    () => request(BASE_URL, `/v2/historicalChainTvl/${chain}`),
-    noCache
-  );
+  return cachedRequest(BASE_URL, `/v2/historicalChainTvl/${chain}`, TTL.TVL, noCache);
 }
 
 // ============================================
@@ -191,11 +189,12 @@ export async function getHistoricalChainTvlByChain(chain: string, noCache = fals
 
 // coins format: "ethereum:0x...,bsc:0x..." or "coingecko:bitcoin"
 export async function getCoinPrices(coins: string, noCache = false): Promise<any> {
-  return cachedFetch(
-    `defillama:coinprices:${coins}`,
+  return cachedRequest(
+    COINS_URL,
+    `/prices/current/${encodeURIComponent(coins)}`,
     TTL.PRICE,
-    () => request(COINS_URL, `/prices/current/${encodeURIComponent(coins)}`),
-    noCache
+    noCache,
+    { staleFor: TTL.PRICE }
   );
 }
 
@@ -204,10 +203,10 @@ export async function getCoinPricesHistorical(
   timestamp: number,
   noCache = false
 ): Promise<any> {
-  return cachedFetch(
-    `defillama:coinpriceshistorical:${coins}:${timestamp}`,
+  return cachedRequest(
+    COINS_URL,
+    `/prices/historical/${timestamp}/${encodeURIComponent(coins)}`,
     TTL.STATIC,
-    () => request(COINS_URL, `/prices/historical/${timestamp}/${encodeURIComponent(coins)}`),
     noCache
   );
 }
@@ -225,28 +224,18 @@ export async function getCoinChart(
   if (end) endpoint += `end=${end}&`;
   if (span) endpoint += `span=${span}&`;
   if (period) endpoint += `period=${period}&`;
-  return cachedFetch(
-    `defillama:coinchart:${coins}:${start}:${end}:${span}:${period}`,
-    TTL.TVL,
-    () => request(COINS_URL, endpoint),
-    noCache
-  );
+  return cachedRequest(COINS_URL, endpoint, TTL.TVL, noCache);
 }
 
 export async function getCoinPercentChange(coins: string, noCache = false): Promise<any> {
-  return cachedFetch(
-    `defillama:coinpercent:${coins}`,
-    TTL.PRICE,
-    () => request(COINS_URL, `/percentage/${encodeURIComponent(coins)}`),
-    noCache
-  );
+  return cachedRequest(COINS_URL, `/percentage/${encodeURIComponent(coins)}`, TTL.PRICE, noCache);
 }
 
 export async function getCoinFirstPrice(coins: string, noCache = false): Promise<any> {
-  return cachedFetch(
-    `defillama:coinfirst:${coins}`,
+  return cachedRequest(
+    COINS_URL,
+    `/prices/first/${encodeURIComponent(coins)}`,
     TTL.STATIC,
-    () => request(COINS_URL, `/prices/first/${encodeURIComponent(coins)}`),
     noCache
   );
 }
@@ -256,12 +245,7 @@ export async function getBlockByTimestamp(
   timestamp: number,
   noCache = false
 ): Promise<any> {
-  return cachedFetch(
-    `defillama:block:${chain}:${timestamp}`,
-    TTL.STATIC,
-    () => request(COINS_URL, `/block/${chain}/${timestamp}`),
-    noCache
-  );
+  return cachedRequest(COINS_URL, `/block/${chain}/${timestamp}`, TTL.STATIC, noCache);
 }
 
 // ============================================
@@ -269,49 +253,24 @@ export async function getBlockByTimestamp(
 // ============================================
 
 export async function getStablecoinDominance(chain: string, noCache = false): Promise<any> {
-  return cachedFetch(
-    `defillama:stabledominance:${chain}`,
-    TTL.TVL,
-    () => request(STABLECOINS_URL, `/stablecoindominance/${chain}`),
-    noCache
-  );
+  return cachedRequest(STABLECOINS_URL, `/stablecoindominance/${chain}`, TTL.TVL, noCache);
 }
 
 export async function getStablecoinCharts(chain?: string, noCache = false): Promise<any[]> {
   const endpoint = chain ? `/stablecoincharts/${chain}` : '/stablecoincharts/all';
-  return cachedFetch(
-    `defillama:stablecharts:${chain || 'all'}`,
-    TTL.TVL,
-    () => request(STABLECOINS_URL, endpoint),
-    noCache
-  );
+  return cachedRequest(STABLECOINS_URL, endpoint, TTL.TVL, noCache);
 }
 
 export async function getStablecoinDetail(asset: string, noCache = false): Promise<any> {
-  return cachedFetch(
-    `defillama:stablecoin:${asset}`,
-    TTL.TVL,
-    () => request(STABLECOINS_URL, `/stablecoin/${asset}`),
-    noCache
-  );
+  return cachedRequest(STABLECOINS_URL, `/stablecoin/${asset}`, TTL.TVL, noCache);
 }
 
 export async function getStablecoinChains(noCache = false): Promise<any[]> {
-  return cachedFetch(
-    'defillama:stablechains',
-    TTL.TVL,
-    () => request(STABLECOINS_URL, '/stablecoinchains'),
-    noCache
-  );
+  return cachedRequest(STABLECOINS_URL, '/stablecoinchains', TTL.TVL, noCache);
 }
 
 export async function getStablecoinPrices(noCache = false): Promise<any> {
-  return cachedFetch(
-    'defillama:stableprices',
-    TTL.PRICE,
-    () => request(STABLECOINS_URL, '/stablecoinprices'),
-    noCache
-  );
+  return cachedRequest(STABLECOINS_URL, '/stablecoinprices', TTL.PRICE, noCache);
 }
 
 // ============================================
@@ -319,23 +278,19 @@ export async function getStablecoinPrices(noCache = false): Promise<any> {
 // ============================================
 
 export async function getDexVolumesByChain(chain: string, noCache = false): Promise<any> {
-  return cachedFetch(
-    `defillama:dexvolumes:${chain}`,
+  return cachedRequest(
+    BASE_URL,
+    `/overview/dexs/${chain}?excludeTotalDataChart=true&excludeTotalDataChartBreakdown=true&dataType=dailyVolume`,
     TTL.TVL,
-    () =>
-      request(
-        BASE_URL,
-        `/overview/dexs/${chain}?excludeTotalDataChart=true&excludeTotalDataChartBreakdown=true&dataType=dailyVolume`
-      ),
     noCache
   );
 }
 
 export async function getDexProtocol(protocol: string, noCache = false): Promise<any> {
-  return cachedFetch(
-    `defillama:dexprotocol:${protocol}`,
+  return cachedRequest(
+    BASE_URL,
+    `/summary/dexs/${protocol}?dataType=dailyVolume`,
     TTL.TVL,
-    () => request(BASE_URL, `/summary/dexs/${protocol}?dataType=dailyVolume`),
     noCache
   );
 }
@@ -345,38 +300,25 @@ export async function getDexProtocol(protocol: string, noCache = false): Promise
 // ============================================
 
 export async function getOptionsVolumes(noCache = false): Promise<any> {
-  return cachedFetch(
-    'defillama:options',
+  return cachedRequest(
+    BASE_URL,
+    '/overview/options?excludeTotalDataChart=true&excludeTotalDataChartBreakdown=true',
     TTL.TVL,
-    () =>
-      request(
-        BASE_URL,
-        '/overview/options?excludeTotalDataChart=true&excludeTotalDataChartBreakdown=true'
-      ),
     noCache
   );
 }
 
 export async function getOptionsVolumesByChain(chain: string, noCache = false): Promise<any> {
-  return cachedFetch(
-    `defillama:options:${chain}`,
+  return cachedRequest(
+    BASE_URL,
+    `/overview/options/${chain}?excludeTotalDataChart=true&excludeTotalDataChartBreakdown=true`,
     TTL.TVL,
-    () =>
-      request(
-        BASE_URL,
-        `/overview/options/${chain}?excludeTotalDataChart=true&excludeTotalDataChartBreakdown=true`
-      ),
     noCache
   );
 }
 
 export async function getOptionsProtocol(protocol: string, noCache = false): Promise<any> {
-  return cachedFetch(
-    `defillama:optionsprotocol:${protocol}`,
-    TTL.TVL,
-    () => request(BASE_URL, `/summary/options/${protocol}`),
-    noCache
-  );
+  return cachedRequest(BASE_URL, `/summary/options/${protocol}`, TTL.TVL, noCache);
 }
 
 // ============================================
@@ -384,38 +326,25 @@ export async function getOptionsProtocol(protocol: string, noCache = false): Pro
 // ============================================
 
 export async function getFees(noCache = false): Promise<any> {
-  return cachedFetch(
-    'defillama:fees',
+  return cachedRequest(
+    BASE_URL,
+    '/overview/fees?excludeTotalDataChart=true&excludeTotalDataChartBreakdown=true',
     TTL.TVL,
-    () =>
-      request(
-        BASE_URL,
-        '/overview/fees?excludeTotalDataChart=true&excludeTotalDataChartBreakdown=true'
-      ),
     noCache
   );
 }
 
 export async function getFeesByChain(chain: string, noCache = false): Promise<any> {
-  return cachedFetch(
-    `defillama:fees:${chain}`,
+  return cachedRequest(
+    BASE_URL,
+    `/overview/fees/${chain}?excludeTotalDataChart=true&excludeTotalDataChartBreakdown=true`,
     TTL.TVL,
-    () =>
-      request(
-        BASE_URL,
-        `/overview/fees/${chain}?excludeTotalDataChart=true&excludeTotalDataChartBreakdown=true`
-      ),
     noCache
   );
 }
 
 export async function getProtocolFees(protocol: string, noCache = false): Promise<any> {
-  return cachedFetch(
-    `defillama:protocolFees:${protocol}`,
-    TTL.TVL,
-    () => request(BASE_URL, `/summary/fees/${protocol}`),
-    noCache
-  );
+  return cachedRequest(BASE_URL, `/summary/fees/${protocol}`, TTL.TVL, noCache);
 }
 
 // ============================================
@@ -424,167 +353,87 @@ export async function getProtocolFees(protocol: string, noCache = false): Promis
 
 // Yields - Pro endpoints
 export async function getYieldPoolChart(pool: string, noCache = false): Promise<any> {
-  return cachedFetch(
-    `defillama:yieldchart:${pool}`,
-    TTL.TVL,
-    () => request(YIELDS_URL, `/chart/${pool}`, true),
-    noCache
-  );
+  return cachedRequest(YIELDS_URL, `/chart/${pool}`, TTL.TVL, noCache, { requiresPro: true });
 }
 
 export async function getBorrowRates(noCache = false): Promise<any> {
-  return cachedFetch(
-    'defillama:borrowrates',
-    TTL.TVL,
-    () => request(YIELDS_URL, '/poolsBorrow', true),
-    noCache
-  );
+  return cachedRequest(YIELDS_URL, '/poolsBorrow', TTL.TVL, noCache, { requiresPro: true });
 }
 
 export async function getLendBorrowChart(pool: string, noCache = false): Promise<any> {
-  return cachedFetch(
-    `defillama:lendborrow:${pool}`,
-    TTL.TVL,
-    () => request(YIELDS_URL, `/chartLendBorrow/${pool}`, true),
-    noCache
-  );
+  return cachedRequest(YIELDS_URL, `/chartLendBorrow/${pool}`, TTL.TVL, noCache, {
+    requiresPro: true,
+  });
 }
 
 export async function getPerpsRates(noCache = false): Promise<any> {
-  return cachedFetch(
-    'defillama:perps',
-    TTL.TVL,
-    () => request(YIELDS_URL, '/perps', true),
-    noCache
-  );
+  return cachedRequest(YIELDS_URL, '/perps', TTL.TVL, noCache, { requiresPro: true });
 }
 
 export async function getLsdRates(noCache = false): Promise<any> {
-  return cachedFetch(
-    'defillama:lsdrates',
-    TTL.TVL,
-    () => request(YIELDS_URL, '/lsdRates', true),
-    noCache
-  );
+  return cachedRequest(YIELDS_URL, '/lsdRates', TTL.TVL, noCache, { requiresPro: true });
 }
 
 // Derivatives
 export async function getDerivativesVolumes(noCache = false): Promise<any> {
-  return cachedFetch(
-    'defillama:derivatives',
+  return cachedRequest(
+    BASE_URL,
+    '/overview/derivatives?excludeTotalDataChart=true&excludeTotalDataChartBreakdown=true',
     TTL.TVL,
-    () =>
-      request(
-        BASE_URL,
-        '/overview/derivatives?excludeTotalDataChart=true&excludeTotalDataChartBreakdown=true',
-        true
-      ),
-    noCache
+    noCache,
+    { requiresPro: true }
   );
 }
 
 export async function getDerivativesProtocol(protocol: string, noCache = false): Promise<any> {
-  return cachedFetch(
-    `defillama:derivativesprotocol:${protocol}`,
-    TTL.TVL,
-    () => request(BASE_URL, `/summary/derivatives/${protocol}`, true),
-    noCache
-  );
+  return cachedRequest(BASE_URL, `/summary/derivatives/${protocol}`, TTL.TVL, noCache, {
+    requiresPro: true,
+  });
 }
 
 // Emissions/Unlocks
 export async function getEmissions(noCache = false): Promise<any> {
-  return cachedFetch(
-    'defillama:emissions',
-    TTL.TVL,
-    () => request(BASE_URL, '/emissions', true),
-    noCache
-  );
+  return cachedRequest(BASE_URL, '/emissions', TTL.TVL, noCache, { requiresPro: true });
 }
 
 export async function getEmission(protocol: string, noCache = false): Promise<any> {
-  return cachedFetch(
-    `defillama:emission:${protocol}`,
-    TTL.TVL,
-    () => request(BASE_URL, `/emission/${protocol}`, true),
-    noCache
-  );
+  return cachedRequest(BASE_URL, `/emission/${protocol}`, TTL.TVL, noCache, { requiresPro: true });
 }
 
 // Ecosystem data
 export async function getCategories(noCache = false): Promise<any> {
-  return cachedFetch(
-    'defillama:categories',
-    TTL.TVL,
-    () => request(BASE_URL, '/categories', true),
-    noCache
-  );
+  return cachedRequest(BASE_URL, '/categories', TTL.TVL, noCache, { requiresPro: true });
 }
 
 export async function getForks(noCache = false): Promise<any> {
-  return cachedFetch('defillama:forks', TTL.TVL, () => request(BASE_URL, '/forks', true), noCache);
+  return cachedRequest(BASE_URL, '/forks', TTL.TVL, noCache, { requiresPro: true });
 }
 
 export async function getOracles(noCache = false): Promise<any> {
-  return cachedFetch(
-    'defillama:oracles',
-    TTL.TVL,
-    () => request(BASE_URL, '/oracles', true),
-    noCache
-  );
+  return cachedRequest(BASE_URL, '/oracles', TTL.TVL, noCache, { requiresPro: true });
 }
 
 export async function getTreasuries(noCache = false): Promise<any> {
-  return cachedFetch(
-    'defillama:treasuries',
-    TTL.TVL,
-    () => request(BASE_URL, '/treasuries', true),
-    noCache
-  );
+  return cachedRequest(BASE_URL, '/treasuries', TTL.TVL, noCache, { requiresPro: true });
 }
 
 export async function getHacks(noCache = false): Promise<any> {
-  return cachedFetch(
-    'defillama:hacks',
-    TTL.STATIC,
-    () => request(BASE_URL, '/hacks', true),
-    noCache
-  );
+  return cachedRequest(BASE_URL, '/hacks', TTL.STATIC, noCache, { requiresPro: true });
 }
 
 export async function getRaises(noCache = false): Promise<any> {
-  return cachedFetch(
-    'defillama:raises',
-    TTL.TVL,
-    () => request(BASE_URL, '/raises', true),
-    noCache
-  );
+  return cachedRequest(BASE_URL, '/raises', TTL.TVL, noCache, { requiresPro: true });
 }
 
 // Bridges
 export async function getBridges(noCache = false): Promise<any> {
-  return cachedFetch(
-    'defillama:bridges',
-    TTL.TVL,
-    () => request(BASE_URL, '/bridges', true),
-    noCache
-  );
+  return cachedRequest(BASE_URL, '/bridges', TTL.TVL, noCache, { requiresPro: true });
 }
 
 export async function getBridge(id: number, noCache = false): Promise<any> {
-  return cachedFetch(
-    `defillama:bridge:${id}`,
-    TTL.TVL,
-    () => request(BASE_URL, `/bridge/${id}`, true),
-    noCache
-  );
+  return cachedRequest(BASE_URL, `/bridge/${id}`, TTL.TVL, noCache, { requiresPro: true });
 }
 
 export async function getBridgeVolume(chain: string, noCache = false): Promise<any> {
-  return cachedFetch(
-    `defillama:bridgevolume:${chain}`,
-    TTL.TVL,
-    () => request(BASE_URL, `/bridgevolume/${chain}`, true),
-    noCache
-  );
+  return cachedRequest(BASE_URL, `/bridgevolume/${chain}`, TTL.TVL, noCache, { requiresPro: true });
 }
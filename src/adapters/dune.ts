@@ -1,44 +1,64 @@
 // Dune Analytics API adapter
 // Requires API key (paid - Dune Pro)
+import { getSession } from '../utils/session.js';
+import {
+  currentSignal,
+  reportProgress,
+  runInBackground,
+  runWithSignal,
+  sleep,
+} from '../utils/context.js';
+import { tracedFetch } from '../utils/logging.js';
+import { waitForSlot } from '../utils/ratelimit.js';
+import { httpError, withRetry } from '../utils/retry.js';
 
 const DUNE_BASE_URL = 'https://api.dune.com/api/v1';
-let duneApiKey = process.env.DUNE_API_KEY || '';
 
 export function isConfigured(): boolean {
-  return !!duneApiKey;
+  return !!getSession().duneApiKey;
 }
 
 export function setApiKey(key: string): void {
-  duneApiKey = key;
+  getSession().duneApiKey = key;
 }
 
 async function request(endpoint: string, method: string = 'GET', body?: any): Promise<any> {
+  const duneApiKey = getSession().duneApiKey;
   if (!duneApiKey) {
     throw new Error('Dune API key not configured. Get one at dune.com (requires Dune Pro).');
   }
 
-  const response = await fetch(`${DUNE_BASE_URL}${endpoint}`, {
-    method,
-    headers: {
-      'X-Dune-API-Key': duneApiKey,
-      'Content-Type': 'application/json',
-    },
-    body: body ? JSON.stringify(body) : undefined,
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    let errorMsg: string;
-    try {
-      const errorJson = JSON.parse(errorText);
-      errorMsg = errorJson.error || errorJson.message || JSON.stringify(errorJson);
-    } catch {
-      errorMsg = errorText;
-    }
-    throw new Error(`Dune API error (${response.status}): ${errorMsg}`);
-  }
+  // A POST starts or cancels an execution: not repeated unless Dune turned it away
+  return withRetry(
+    'dune',
+    async () => {
+      await waitForSlot('dune', duneApiKey, 'free');
+      const response = await tracedFetch('dune', endpoint, `${DUNE_BASE_URL}${endpoint}`, {
+        method,
+        headers: {
+          'X-Dune-API-Key': duneApiKey,
+          'Content-Type': 'application/json',
+        },
+        body: body ? JSON.stringify(body) : undefined,
+        signal: currentSignal(),
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        let errorMsg: string;
+        try {
+          const errorJson = JSON.parse(errorText);
+          errorMsg = errorJson.error || errorJson.message || JSON.stringify(errorJson);
+        } catch {
+          errorMsg = errorText;
+        }
+        throw httpError(response, `Dune API error (${response.status}): ${errorMsg}`);
+      }
 
-  return response.json();
+      return response.json();
+    },
+    { idempotent: method === 'GET' }
+  );
 }
 
 // Execute a query and wait for results
@@ -53,12 +73,27 @@ export async function executeQuery(
 
   const executionId = execution.execution_id;
 
-  // Poll for results (max 60 seconds)
+  try {
+    return await pollExecution(executionId);
+  } catch (error) {
+    // The tool call was cancelled: stop the execution too, so it doesn't keep
+    // running (and using credits) on Dune's side
+    if (currentSignal()?.aborted) {
+      await runWithSignal(undefined, () => cancelExecution(executionId)).catch(() => {});
+    }
+    throw error;
+  }
+}
+
+// Poll an execution until it finishes (max 60 seconds), reporting each state as progress
+async function pollExecution(executionId: string): Promise<any> {
   const maxAttempts = 30;
   for (let i = 0; i < maxAttempts; i++) {
-    await new Promise((r) => setTimeout(r, 2000));
+    await sleep(2000);
 
-    const status = await request(`/execution/${executionId}/status`);
+    // Polls wait behind other calls for the key's rate limit
+    const status = await runInBackground(() => request(`/execution/${executionId}/status`));
+    await reportProgress(i + 1, maxAttempts, `Dune execution ${executionId}: ${status.state}`);
 
     if (status.state === 'QUERY_STATE_COMPLETED') {
       const results = await request(`/execution/${executionId}/results`);
@@ -117,21 +152,27 @@ export async function cancelExecution(executionId: string): Promise<any> {
 
 // Get results as CSV (returns raw CSV string)
 export async function getResultsCsv(queryId: number): Promise<string> {
+  const duneApiKey = getSession().duneApiKey;
   if (!duneApiKey) {
     throw new Error('Dune API key not configured.');
   }
 
-  const response = await fetch(`${DUNE_BASE_URL}/query/${queryId}/results/csv`, {
-    headers: {
-      'X-Dune-API-Key': duneApiKey,
-    },
-  });
-
-  if (!response.ok) {
-    throw new Error(`Dune API error (${response.status}): ${await response.text()}`);
-  }
+  const endpoint = `/query/${queryId}/results/csv`;
+  return withRetry('dune', async () => {
+    await waitForSlot('dune', duneApiKey, 'free');
+    const response = await tracedFetch('dune', endpoint, `${DUNE_BASE_URL}${endpoint}`, {
+      headers: {
+        'X-Dune-API-Key': duneApiKey,
+      },
+      signal: currentSignal(),
+    });
+
+    if (!response.ok) {
+      throw httpError(response, `Dune API error (${response.status}): ${await response.text()}`);
+    }
 
-  return response.text();
+    return response.text();
+  });
 }
 
 // ============================================
@@ -141,22 +182,30 @@ export async function getResultsCsv(queryId: number): Promise<string> {
 const ECHO_BASE_URL = 'https://api.dune.com/api';
 
 async function echoRequest(endpoint: string): Promise<any> {
+  const duneApiKey = getSession().duneApiKey;
   if (!duneApiKey) {
     throw new Error('Dune API key not configured.');
   }
 
-  const response = await fetch(`${ECHO_BASE_URL}${endpoint}`, {
-    headers: {
-      'X-Dune-API-Key': duneApiKey,
-      'Content-Type': 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    throw new Error(`Dune Echo API error (${response.status}): ${await response.text()}`);
-  }
+  return withRetry('dune', async () => {
+    await waitForSlot('dune', duneApiKey, 'free');
+    const response = await tracedFetch('dune', endpoint, `${ECHO_BASE_URL}${endpoint}`, {
+      headers: {
+        'X-Dune-API-Key': duneApiKey,
+        'Content-Type': 'application/json',
+      },
+      signal: currentSignal(),
+    });
+
+    if (!response.ok) {
+      throw httpError(
+        response,
+        `Dune Echo API error (${response.status}): ${await response.text()}`
+      );
+    }
 
-  return response.json();
+    return response.json();
+  });
 }
 
 // EigenLayer preset endpoints
@@ -187,22 +236,30 @@ export async function getEigenLayerOperatorAvsMapping(): Promise<any> {
 const BALANCES_BASE_URL = 'https://api.dune.com/api/beta';
 
 async function balancesRequest(endpoint: string): Promise<any> {
+  const duneApiKey = getSession().duneApiKey;
   if (!duneApiKey) {
     throw new Error('Dune API key not configured.');
   }
 
-  const response = await fetch(`${BALANCES_BASE_URL}${endpoint}`, {
-    headers: {
-      'X-Dune-API-Key': duneApiKey,
-      'Content-Type': 'application/json',
-    },
-  });
-
-  if (!response.ok) {
-    throw new Error(`Dune Balances API error (${response.status}): ${await response.text()}`);
-  }
+  return withRetry('dune', async () => {
+    await waitForSlot('dune', duneApiKey, 'free');
+    const response = await tracedFetch('dune', endpoint, `${BALANCES_BASE_URL}${endpoint}`, {
+      headers: {
+        'X-Dune-API-Key': duneApiKey,
+        'Content-Type': 'application/json',
+      },
+      signal: currentSignal(),
+    });
+
+    if (!response.ok) {
+      throw httpError(
+        response,
+        `Dune Balances API error (${response.status}): ${await response.text()}`
+      );
+    }
 
-  return response.json();
+    return response.json();
+  });
 }
 
 // Get token balances for an address
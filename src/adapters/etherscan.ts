@@ -1,76 +1,34 @@
 // Etherscan API adapter - supports 60+ chains via Etherscan V2 API
-import { cachedFetch, TTL } from '../utils/cache.js';
+import { cachedFetch, CacheOptions, FOREVER, requestCacheKey, TTL } from '../utils/cache.js';
 import { sanitizeError } from '../utils/security.js';
+import { getSession } from '../utils/session.js';
+import { currentSignal, reportProgress } from '../utils/context.js';
+import { chainName, SUPPORTED_CHAINS, resolveChainId } from '../utils/chains.js';
+import { ClassifiedError } from '../utils/errors.js';
+import { blockTtl, tagTtl, txTtl } from '../utils/finality.js';
+import { reportBodyError, tracedFetch, withTrace } from '../utils/logging.js';
+import { waitForSlot } from '../utils/ratelimit.js';
+import { httpError, withRetry } from '../utils/retry.js';
 
 const ETHERSCAN_BASE_URL = 'https://api.etherscan.io/v2/api';
-let etherscanApiKey = process.env.ETHERSCAN_API_KEY || '';
-let defaultChainId = '1'; // Ethereum mainnet
-
-// Supported chains with their chain IDs
-export const SUPPORTED_CHAINS: Record<string, string> = {
-  // Mainnets
-  ethereum: '1',
-  bnb: '56',
-  polygon: '137',
-  base: '8453',
-  arbitrum: '42161',
-  'arbitrum-nova': '42170',
-  optimism: '10',
-  linea: '59144',
-  blast: '81457',
-  avalanche: '43114',
-  gnosis: '100',
-  celo: '42220',
-  mantle: '5000',
-  scroll: '534352',
-  taiko: '167000',
-  moonbeam: '1284',
-  moonriver: '1285',
-  fantom: '250',
-  cronos: '25',
-  fraxtal: '252',
-  opbnb: '204',
-  world: '480',
-  sonic: '146',
-  unichain: '130',
-  abstract: '2741',
-  berachain: '80094',
-  sei: '1329',
-  apechain: '33139',
-  xdc: '50',
-  bittorrent: '199',
-  // Testnets
-  sepolia: '11155111',
-  holesky: '17000',
-  'base-sepolia': '84532',
-  'arbitrum-sepolia': '421614',
-  'optimism-sepolia': '11155420',
-};
+
+export { SUPPORTED_CHAINS };
 
 export function isConfigured(): boolean {
-  return !!etherscanApiKey;
+  return !!getSession().etherscanApiKey;
 }
 
 export function setApiKey(key: string): void {
-  etherscanApiKey = key;
+  getSession().etherscanApiKey = key;
 }
 
 export function setDefaultChain(chainId: string): void {
-  defaultChainId = chainId;
+  getSession().defaultChainId = chainId;
 }
 
 export function getChainId(chainNameOrId?: string): string {
-  if (!chainNameOrId) return defaultChainId;
-  // If it's already a number, use it directly
-  if (/^\d+$/.test(chainNameOrId)) return chainNameOrId;
-  // Otherwise look up by name
-  const chainId = SUPPORTED_CHAINS[chainNameOrId.toLowerCase()];
-  if (!chainId) {
-    throw new Error(
-      `Unknown chain: ${chainNameOrId}. Use chain ID directly or one of: ${Object.keys(SUPPORTED_CHAINS).join(', ')}`
-    );
-  }
-  return chainId;
+  if (!chainNameOrId) return getSession().defaultChainId;
+  return resolveChainId(chainNameOrId);
 }
 
 export function getSupportedChains(): string[] {
@@ -78,6 +36,7 @@ export function getSupportedChains(): string[] {
 }
 
 export async function request(params: Record<string, string>, chainId?: string): Promise<any> {
+  const etherscanApiKey = getSession().etherscanApiKey;
   if (!etherscanApiKey) {
     throw new Error(
       'Need Etherscan API key. Ask user for their key (free at etherscan.io/apis), then call set_etherscan_key.'
@@ -92,36 +51,99 @@ export async function request(params: Record<string, string>, chainId?: string):
   }
 
   try {
-    const response = await fetch(url.toString());
-    const data = await response.json();
-
-    if (
-      data.status === '0' &&
-      data.message !== 'No transactions found' &&
-      data.message !== 'No records found'
-    ) {
-      throw new Error(data.result || data.message || 'Etherscan API error');
-    }
+    // The URL carries the API key, so only module, action and chain are logged
+    const chainId = url.searchParams.get('chainid')!;
+    const endpoint = `${params.module}/${params.action} (chain ${chainId})`;
+    return await withRetry('etherscan', async () => {
+      await waitForSlot('etherscan', etherscanApiKey, 'free');
+      const response = await withTrace({ chain: chainName(chainId) }, () =>
+        tracedFetch('etherscan', endpoint, url.toString(), { signal: currentSignal() })
+      );
+      if (!response.ok) {
+        throw httpError(response, `Etherscan API error: HTTP ${response.status}`);
+      }
+      const data = await response.json();
+
+      // Rate limits come back as HTTP 200 with a "Max rate limit reached" result
+      if (
+        data.status === '0' &&
+        data.message !== 'No transactions found' &&
+        data.message !== 'No records found'
+      ) {
+        const message = data.result || data.message || 'Etherscan API error';
+        reportBodyError(response, message);
+        throw new Error(message);
+      }
 
-    return data.result;
+      return data.result;
+    });
   } catch (error) {
+    // Our own errors carry no key; keep them as they are for their status and reason
+    if (error instanceof ClassifiedError) throw error;
     throw new Error(sanitizeError(error, [etherscanApiKey]));
   }
 }
 
-// Cached request wrapper
+// Cached request wrapper, keyed on the complete params
 export async function cachedRequest(
-  cacheKey: string,
   ttl: number,
   params: Record<string, string>,
   noCache: boolean = false,
-  chainId?: string
+  chainId?: string,
+  options: CacheOptions<any> = {}
 ): Promise<any> {
   const chain = getChainId(chainId);
   return cachedFetch(
-    `etherscan:${chain}:${cacheKey}`,
+    requestCacheKey('etherscan', `${params.module}/${params.action}`, params, chain),
     ttl,
     () => request(params, chainId),
+    noCache,
+    options
+  );
+}
+
+// Etherscan caps list endpoints at page * offset <= 10,000 rows
+const MAX_LIST_ROWS = 10000;
+const LIST_PAGE_SIZE = 1000;
+
+// Cached list request for up to `limit` rows. Large limits are fetched a page at a time,
+// reporting progress and stopping between pages if the call is cancelled.
+export async function cachedListRequest(
+  ttl: number,
+  params: Record<string, string>,
+  limit: number,
+  noCache: boolean = false,
+  chainId?: string
+): Promise<any> {
+  const chain = getChainId(chainId);
+  const total = Math.min(limit, MAX_LIST_ROWS);
+  return cachedFetch(
+    requestCacheKey(
+      'etherscan',
+      `${params.module}/${params.action}`,
+      { ...params, limit: total },
+      chain
+    ),
+    ttl,
+    async () => {
+      if (total <= LIST_PAGE_SIZE) {
+        return request({ ...params, page: '1', offset: String(total) }, chainId);
+      }
+
+      const rows: any[] = [];
+      for (let page = 1; rows.length < total; page++) {
+        currentSignal()?.throwIfAborted();
+        const batch = await request(
+          { ...params, page: String(page), offset: String(LIST_PAGE_SIZE) },
+          chainId
+        );
+        if (!Array.isArray(batch)) return rows.length > 0 ? rows : batch;
+        rows.push(...batch);
+        await reportProgress(Math.min(rows.length, total), total, `Fetched ${rows.length} rows`);
+        if (batch.length < LIST_PAGE_SIZE) break;
+      }
+      return rows.slice(0, total);
+    },
     noCache
   );
 }
@@ -149,8 +171,11 @@ export async function resolveAddress(addressOrEns: string): Promise<string> {
   // If it looks like an ENS name, try to resolve it
   if (addressOrEns.includes('.')) {
     try {
-      const ensResponse = await fetch(
-        `https://api.ensdata.net/${encodeURIComponent(addressOrEns)}`
+      const ensResponse = await tracedFetch(
+        'ensdata',
+        `/${addressOrEns}`,
+        `https://api.ensdata.net/${encodeURIComponent(addressOrEns)}`,
+        { signal: currentSignal() }
       );
 
       if (ensResponse.ok) {
@@ -179,13 +204,17 @@ export async function resolveAddress(addressOrEns: string): Promise<string> {
 }
 
 // API methods
-export async function getBalance(addressOrEns: string, noCache = false): Promise<string> {
+export async function getBalance(
+  addressOrEns: string,
+  noCache = false,
+  chainId?: string
+): Promise<string> {
   const address = await resolveAddress(addressOrEns);
   const balance = await cachedRequest(
-    `balance:${address}`,
     TTL.PRICE,
     { module: 'account', action: 'balance', address, tag: 'latest' },
-    noCache
+    noCache,
+    chainId
   );
   return weiToEth(balance);
 }
@@ -197,7 +226,6 @@ export async function getTransactions(
 ): Promise<any[]> {
   const address = await resolveAddress(addressOrEns);
   const txs = await cachedRequest(
-    `txs:${address}:${limit}`,
     TTL.TVL,
     {
       module: 'account',
@@ -234,8 +262,7 @@ export async function getInternalTransactions(
   summary: { totalIn: string; totalOut: string; netFlow: string };
 }> {
   const address = await resolveAddress(addressOrEns);
-  const txs = await cachedRequest(
-    `internaltxs:${address}:${limit}`,
+  const txs = await cachedListRequest(
     TTL.TVL,
     {
       module: 'account',
@@ -243,10 +270,9 @@ export async function getInternalTransactions(
       address,
       startblock: '0',
       endblock: '99999999',
-      page: '1',
-      offset: String(Math.min(limit, 10000)),
       sort: 'desc',
     },
+    limit,
     noCache
   );
 
@@ -294,21 +320,16 @@ export async function getInternalTransactions(
   };
 }
 
-export async function getGasPrice(noCache = false): Promise<any> {
-  return cachedRequest(
-    'gasoracle',
-    TTL.GAS,
-    { module: 'gastracker', action: 'gasoracle' },
-    noCache
-  );
+export async function getGasPrice(noCache = false, chainId?: string): Promise<any> {
+  return cachedRequest(TTL.GAS, { module: 'gastracker', action: 'gasoracle' }, noCache, chainId);
 }
 
-export async function getBlockNumber(noCache = false): Promise<number> {
+export async function getBlockNumber(noCache = false, chainId?: string): Promise<number> {
   const blockNumber = await cachedRequest(
-    'blocknumber',
     TTL.GAS,
     { module: 'proxy', action: 'eth_blockNumber' },
-    noCache
+    noCache,
+    chainId
   );
   return parseInt(blockNumber, 16);
 }
@@ -319,7 +340,6 @@ export async function getTokenBalance(
   noCache = false
 ): Promise<string> {
   return cachedRequest(
-    `token:${address}:${contractAddress}`,
     TTL.PRICE,
     {
       module: 'account',
@@ -332,25 +352,35 @@ export async function getTokenBalance(
   );
 }
 
-export async function getContractAbi(address: string, noCache = false): Promise<string> {
+export async function getContractAbi(
+  address: string,
+  noCache = false,
+  chainId?: string
+): Promise<string> {
   return cachedRequest(
-    `abi:${address}`,
     TTL.STATIC,
     { module: 'contract', action: 'getabi', address },
-    noCache
+    noCache,
+    chainId,
+    { ttlFor: (abi) => (typeof abi === 'string' && abi.startsWith('[') ? FOREVER : TTL.STATIC) }
   );
 }
 
-export async function getEthPrice(noCache = false): Promise<{ usd: number; btc: string }> {
+export async function getEthPrice(
+  noCache = false
+): Promise<{ usd: number; btc: string; timestamp: number }> {
   const price = await cachedRequest(
-    'ethprice',
     TTL.PRICE,
     { module: 'stats', action: 'ethprice' },
-    noCache
+    noCache,
+    undefined,
+    { staleFor: TTL.PRICE }
   );
   return {
     usd: parseFloat(price.ethusd),
     btc: price.ethbtc,
+    // Unix seconds of the quote
+    timestamp: parseInt(price.ethusd_timestamp, 10),
   };
 }
 
@@ -366,20 +396,13 @@ export async function getTokenTransfers(
     module: 'account',
     action: 'tokentx',
     address,
-    page: '1',
-    offset: String(Math.min(limit, 10000)),
     sort: 'desc',
   };
   if (contractAddress) {
     params.contractaddress = contractAddress;
   }
 
-  const txs = await cachedRequest(
-    `tokentx:${address}:${contractAddress || 'all'}:${limit}`,
-    TTL.TVL,
-    params,
-    noCache
-  );
+  const txs = await cachedListRequest(TTL.TVL, params, limit, noCache);
 
   if (!Array.isArray(txs)) return [];
 
@@ -408,20 +431,13 @@ export async function getNFTTransfers(
     module: 'account',
     action: 'tokennfttx',
     address,
-    page: '1',
-    offset: String(Math.min(limit, 10000)),
     sort: 'desc',
   };
   if (contractAddress) {
     params.contractaddress = contractAddress;
   }
 
-  const txs = await cachedRequest(
-    `nfttx:${address}:${contractAddress || 'all'}:${limit}`,
-    TTL.TVL,
-    params,
-    noCache
-  );
+  const txs = await cachedListRequest(TTL.TVL, params, limit, noCache);
 
   if (!Array.isArray(txs)) return [];
 
@@ -440,10 +456,18 @@ export async function getNFTTransfers(
 // Contract Source Code
 export async function getContractSourceCode(address: string, noCache = false): Promise<any> {
   const result = await cachedRequest(
-    `sourcecode:${address}`,
     TTL.STATIC,
     { module: 'contract', action: 'getsourcecode', address },
-    noCache
+    noCache,
+    undefined,
+    // Unverified contracts come back with empty source; they may be verified later. A proxy's
+    // result names its implementation, which changes when it is upgraded.
+    {
+      ttlFor: (result) =>
+        Array.isArray(result) && result[0]?.SourceCode && result[0].Proxy !== '1'
+          ? FOREVER
+          : TTL.STATIC,
+    }
   );
   if (!Array.isArray(result) || result.length === 0) {
     return null;
@@ -472,7 +496,6 @@ export async function getContractCreation(
   chainId?: string
 ): Promise<any[]> {
   const result = await cachedRequest(
-    `creation:${addresses.join(',')}`,
     TTL.STATIC,
     {
       module: 'contract',
@@ -480,7 +503,11 @@ export async function getContractCreation(
       contractaddresses: addresses.join(','),
     },
     noCache,
-    chainId
+    chainId,
+    {
+      ttlFor: (result) =>
+        Array.isArray(result) && result.length === addresses.length ? FOREVER : TTL.STATIC,
+    }
   );
   if (!Array.isArray(result)) return [];
   return result.map((item: any) => ({
@@ -503,7 +530,6 @@ export async function getBalanceHistory(
 ): Promise<string> {
   const address = await resolveAddress(addressOrEns);
   const balance = await cachedRequest(
-    `balancehistory:${address}:${blockno}`,
     TTL.STATIC,
     { module: 'account', action: 'balancehistory', address, blockno: String(blockno) },
     noCache,
@@ -525,19 +551,11 @@ export async function getERC1155Transfers(
     module: 'account',
     action: 'token1155tx',
     address,
-    page: '1',
-    offset: String(Math.min(limit, 10000)),
     sort: 'desc',
   };
   if (contractAddress) params.contractaddress = contractAddress;
 
-  const txs = await cachedRequest(
-    `erc1155tx:${address}:${contractAddress || 'all'}:${limit}`,
-    TTL.TVL,
-    params,
-    noCache,
-    chainId
-  );
+  const txs = await cachedListRequest(TTL.TVL, params, limit, noCache, chainId);
 
   if (!Array.isArray(txs)) return [];
   return txs.map((tx: any) => ({
@@ -561,17 +579,15 @@ export async function getBeaconWithdrawals(
   chainId?: string
 ): Promise<any[]> {
   const address = await resolveAddress(addressOrEns);
-  const result = await cachedRequest(
-    `beaconwithdrawals:${address}:${limit}`,
+  const result = await cachedListRequest(
     TTL.TVL,
     {
       module: 'account',
       action: 'txsbeaconwithdrawal',
       address,
-      page: '1',
-      offset: String(Math.min(limit, 10000)),
       sort: 'desc',
     },
+    limit,
     noCache,
     chainId
   );
@@ -587,7 +603,6 @@ export async function getAddressTokenBalance(
 ): Promise<any[]> {
   const address = await resolveAddress(addressOrEns);
   const result = await cachedRequest(
-    `addresstokenbalance:${address}`,
     TTL.PRICE,
     { module: 'account', action: 'addresstokenbalance', address, page: '1', offset: '100' },
     noCache,
@@ -605,7 +620,6 @@ export async function getAddressNFTBalance(
 ): Promise<any[]> {
   const address = await resolveAddress(addressOrEns);
   const result = await cachedRequest(
-    `addressnftbalance:${address}`,
     TTL.PRICE,
     { module: 'account', action: 'addresstokennftbalance', address, page: '1', offset: '100' },
     noCache,
@@ -625,7 +639,6 @@ export async function getBlockReward(
   chainId?: string
 ): Promise<any> {
   return cachedRequest(
-    `blockreward:${blockno}`,
     TTL.STATIC,
     { module: 'block', action: 'getblockreward', blockno: String(blockno) },
     noCache,
@@ -639,7 +652,6 @@ export async function getBlockCountdown(
   chainId?: string
 ): Promise<any> {
   return cachedRequest(
-    `blockcountdown:${blockno}`,
     TTL.GAS,
     { module: 'block', action: 'getblockcountdown', blockno: String(blockno) },
     noCache,
@@ -654,7 +666,6 @@ export async function getBlockByTimestamp(
   chainId?: string
 ): Promise<number> {
   const result = await cachedRequest(
-    `blockbytime:${timestamp}:${closest}`,
     TTL.STATIC,
     { module: 'block', action: 'getblocknobytime', timestamp: String(timestamp), closest },
     noCache,
@@ -675,11 +686,11 @@ export async function getBlockByNumber(
 ): Promise<any> {
   const tag = typeof blockNumber === 'number' ? `0x${blockNumber.toString(16)}` : blockNumber;
   return cachedRequest(
-    `block:${tag}:${fullTx}`,
     TTL.STATIC,
     { module: 'proxy', action: 'eth_getBlockByNumber', tag, boolean: String(fullTx) },
     noCache,
-    chainId
+    chainId,
+    { ttlFor: (block) => blockTtl(tag, block) }
   );
 }
 
@@ -689,11 +700,11 @@ export async function getTransactionByHash(
   chainId?: string
 ): Promise<any> {
   return cachedRequest(
-    `tx:${txhash}`,
     TTL.STATIC,
     { module: 'proxy', action: 'eth_getTransactionByHash', txhash },
     noCache,
-    chainId
+    chainId,
+    { ttlFor: (tx) => txTtl(tx, () => getBlockNumber(false, chainId)) }
   );
 }
 
@@ -703,11 +714,11 @@ export async function getTransactionReceipt(
   chainId?: string
 ): Promise<any> {
   return cachedRequest(
-    `txreceipt:${txhash}`,
     TTL.STATIC,
     { module: 'proxy', action: 'eth_getTransactionReceipt', txhash },
     noCache,
-    chainId
+    chainId,
+    { ttlFor: (receipt) => txTtl(receipt, () => getBlockNumber(false, chainId)) }
   );
 }
 
@@ -719,7 +730,6 @@ export async function ethCall(
   chainId?: string
 ): Promise<string> {
   return cachedRequest(
-    `ethcall:${to}:${data}:${tag}`,
     TTL.GAS,
     { module: 'proxy', action: 'eth_call', to, data, tag },
     noCache,
@@ -734,11 +744,11 @@ export async function getCode(
   chainId?: string
 ): Promise<string> {
   return cachedRequest(
-    `code:${address}:${tag}`,
     TTL.STATIC,
     { module: 'proxy', action: 'eth_getCode', address, tag },
     noCache,
-    chainId
+    chainId,
+    { ttlFor: () => tagTtl(tag, () => getBlockNumber(false, chainId)) }
   );
 }
 
@@ -750,7 +760,6 @@ export async function getStorageAt(
   chainId?: string
 ): Promise<string> {
   return cachedRequest(
-    `storage:${address}:${position}:${tag}`,
     TTL.GAS,
     { module: 'proxy', action: 'eth_getStorageAt', address, position, tag },
     noCache,
@@ -766,7 +775,6 @@ export async function estimateGas(
   chainId?: string
 ): Promise<string> {
   return cachedRequest(
-    `estimategas:${to}:${data}`,
     TTL.GAS,
     { module: 'proxy', action: 'eth_estimateGas', to, data, value },
     noCache,
@@ -802,11 +810,12 @@ export async function getLogs(
   if (topic3) params.topic3 = topic3;
 
   const result = await cachedRequest(
-    `logs:${address}:${fromBlock}:${toBlock}:${topic0 || ''}`,
     TTL.TVL,
     params,
     noCache,
-    chainId
+    chainId,
+    // The range's logs are settled once toBlock is
+    { ttlFor: () => tagTtl(toBlock, () => getBlockNumber(false, chainId)) }
   );
   if (!Array.isArray(result)) return [];
   return result;
@@ -818,7 +827,6 @@ export async function getLogs(
 
 export async function getEthSupply(noCache = false, chainId?: string): Promise<string> {
   const result = await cachedRequest(
-    'ethsupply',
     TTL.TVL,
     { module: 'stats', action: 'ethsupply' },
     noCache,
@@ -828,40 +836,36 @@ export async function getEthSupply(noCache = false, chainId?: string): Promise<s
 }
 
 export async function getEthSupply2(noCache = false, chainId?: string): Promise<any> {
-  return cachedRequest(
-    'ethsupply2',
-    TTL.TVL,
-    { module: 'stats', action: 'ethsupply2' },
-    noCache,
-    chainId
-  );
+  return cachedRequest(TTL.TVL, { module: 'stats', action: 'ethsupply2' }, noCache, chainId);
 }
 
 export async function getNodeCount(noCache = false, chainId?: string): Promise<any> {
-  return cachedRequest(
-    'nodecount',
-    TTL.TVL,
-    { module: 'stats', action: 'nodecount' },
-    noCache,
-    chainId
-  );
+  return cachedRequest(TTL.TVL, { module: 'stats', action: 'nodecount' }, noCache, chainId);
 }
 
 // ============================================
 // TRANSACTION STATUS ENDPOINTS
 // ============================================
 
+// The status endpoints don't say which block the transaction is in: their answers are
+// cached as long as its receipt would be, so one from a block that may still be reorged
+// out doesn't outlive it
+async function statusTtl(txhash: string, chainId?: string): Promise<number> {
+  const receipt = await getTransactionReceipt(txhash, false, chainId);
+  return txTtl(receipt, () => getBlockNumber(false, chainId));
+}
+
 export async function getTransactionStatus(
   txhash: string,
   noCache = false,
   chainId?: string
 ): Promise<{ isError: boolean; errDescription: string }> {
   const result = await cachedRequest(
-    `txstatus:${txhash}`,
     TTL.STATIC,
     { module: 'transaction', action: 'getstatus', txhash },
     noCache,
-    chainId
+    chainId,
+    { ttlFor: () => statusTtl(txhash, chainId) }
   );
   return {
     isError: result.isError === '1',
@@ -875,11 +879,12 @@ export async function getTransactionReceiptStatus(
   chainId?: string
 ): Promise<boolean> {
   const result = await cachedRequest(
-    `txreceiptstatus:${txhash}`,
     TTL.STATIC,
     { module: 'transaction', action: 'gettxreceiptstatus', txhash },
     noCache,
-    chainId
+    chainId,
+    // Empty status: not mined yet
+    { ttlFor: (result) => (result?.status ? statusTtl(txhash, chainId) : 0) }
   );
   return result.status === '1';
 }
@@ -894,7 +899,6 @@ export async function getTokenSupply(
   chainId?: string
 ): Promise<string> {
   return cachedRequest(
-    `tokensupply:${contractAddress}`,
     TTL.PRICE,
     { module: 'stats', action: 'tokensupply', contractaddress: contractAddress },
     noCache,
@@ -908,7 +912,6 @@ export async function getTokenInfo(
   chainId?: string
 ): Promise<any> {
   const result = await cachedRequest(
-    `tokeninfo:${contractAddress}`,
     TTL.STATIC,
     { module: 'token', action: 'tokeninfo', contractaddress: contractAddress },
     noCache,
@@ -926,7 +929,6 @@ export async function getTokenHolders(
   chainId?: string
 ): Promise<any[]> {
   const result = await cachedRequest(
-    `tokenholders:${contractAddress}:${page}:${offset}`,
     TTL.TVL,
     {
       module: 'token',
@@ -953,7 +955,6 @@ export async function getBalanceMulti(
   chainId?: string
 ): Promise<any[]> {
   const result = await cachedRequest(
-    `balancemulti:${addresses.join(',')}`,
     TTL.PRICE,
     { module: 'account', action: 'balancemulti', address: addresses.join(','), tag: 'latest' },
     noCache,
@@ -977,7 +978,6 @@ export async function getMinedBlocks(
 ): Promise<any[]> {
   const address = await resolveAddress(addressOrEns);
   const result = await cachedRequest(
-    `minedblocks:${address}:${blocktype}:${page}:${offset}`,
     TTL.TVL,
     {
       module: 'account',
@@ -1005,7 +1005,6 @@ export async function getTransactionCount(
   chainId?: string
 ): Promise<number> {
   const result = await cachedRequest(
-    `txcount:${address}:${tag}`,
     TTL.GAS,
     { module: 'proxy', action: 'eth_getTransactionCount', address, tag },
     noCache,
@@ -1016,7 +1015,6 @@ export async function getTransactionCount(
 
 export async function getGasPriceProxy(noCache = false, chainId?: string): Promise<string> {
   const result = await cachedRequest(
-    'gasprice_proxy',
     TTL.GAS,
     { module: 'proxy', action: 'eth_gasPrice' },
     noCache,
@@ -1035,7 +1033,6 @@ export async function getGasEstimate(
   chainId?: string
 ): Promise<string> {
   return cachedRequest(
-    `gasestimate:${gasprice}`,
     TTL.GAS,
     { module: 'gastracker', action: 'gasestimate', gasprice: String(gasprice) },
     noCache,
@@ -1055,7 +1052,6 @@ export async function getDailyAvgBlockSize(
   chainId?: string
 ): Promise<any[]> {
   const result = await cachedRequest(
-    `dailyavgblocksize:${startdate}:${enddate}`,
     TTL.STATIC,
     { module: 'stats', action: 'dailyavgblocksize', startdate, enddate, sort },
     noCache,
@@ -1073,7 +1069,6 @@ export async function getDailyBlockCount(
   chainId?: string
 ): Promise<any[]> {
   const result = await cachedRequest(
-    `dailyblkcount:${startdate}:${enddate}`,
     TTL.STATIC,
     { module: 'stats', action: 'dailyblkcount', startdate, enddate, sort },
     noCache,
@@ -1091,7 +1086,6 @@ export async function getDailyBlockRewards(
   chainId?: string
 ): Promise<any[]> {
   const result = await cachedRequest(
-    `dailyblockrewards:${startdate}:${enddate}`,
     TTL.STATIC,
     { module: 'stats', action: 'dailyblockrewards', startdate, enddate, sort },
     noCache,
@@ -1109,7 +1103,6 @@ export async function getDailyAvgBlockTime(
   chainId?: string
 ): Promise<any[]> {
   const result = await cachedRequest(
-    `dailyavgblocktime:${startdate}:${enddate}`,
     TTL.STATIC,
     { module: 'stats', action: 'dailyavgblocktime', startdate, enddate, sort },
     noCache,
@@ -1127,7 +1120,6 @@ export async function getDailyUncleCount(
   chainId?: string
 ): Promise<any[]> {
   const result = await cachedRequest(
-    `dailyuncleblkcount:${startdate}:${enddate}`,
     TTL.STATIC,
     { module: 'stats', action: 'dailyuncleblkcount', startdate, enddate, sort },
     noCache,
@@ -1145,7 +1137,6 @@ export async function getDailyAvgGasLimit(
   chainId?: string
 ): Promise<any[]> {
   const result = await cachedRequest(
-    `dailyavggaslimit:${startdate}:${enddate}`,
     TTL.STATIC,
     { module: 'stats', action: 'dailyavggaslimit', startdate, enddate, sort },
     noCache,
@@ -1163,7 +1154,6 @@ export async function getDailyGasUsed(
   chainId?: string
 ): Promise<any[]> {
   const result = await cachedRequest(
-    `dailygasused:${startdate}:${enddate}`,
     TTL.STATIC,
     { module: 'stats', action: 'dailygasused', startdate, enddate, sort },
     noCache,
@@ -1181,7 +1171,6 @@ export async function getDailyAvgGasPrice(
   chainId?: string
 ): Promise<any[]> {
   const result = await cachedRequest(
-    `dailyavggasprice:${startdate}:${enddate}`,
     TTL.STATIC,
     { module: 'stats', action: 'dailyavggasprice', startdate, enddate, sort },
     noCache,
@@ -1199,7 +1188,6 @@ export async function getDailyTxnFee(
   chainId?: string
 ): Promise<any[]> {
   const result = await cachedRequest(
-    `dailytxnfee:${startdate}:${enddate}`,
     TTL.STATIC,
     { module: 'stats', action: 'dailytxnfee', startdate, enddate, sort },
     noCache,
@@ -1217,7 +1205,6 @@ export async function getDailyNewAddress(
   chainId?: string
 ): Promise<any[]> {
   const result = await cachedRequest(
-    `dailynewaddress:${startdate}:${enddate}`,
     TTL.STATIC,
     { module: 'stats', action: 'dailynewaddress', startdate, enddate, sort },
     noCache,
@@ -1235,7 +1222,6 @@ export async function getDailyNetUtilization(
   chainId?: string
 ): Promise<any[]> {
   const result = await cachedRequest(
-    `dailynetutilization:${startdate}:${enddate}`,
     TTL.STATIC,
     { module: 'stats', action: 'dailynetutilization', startdate, enddate, sort },
     noCache,
@@ -1253,7 +1239,6 @@ export async function getDailyAvgHashrate(
   chainId?: string
 ): Promise<any[]> {
   const result = await cachedRequest(
-    `dailyavghashrate:${startdate}:${enddate}`,
     TTL.STATIC,
     { module: 'stats', action: 'dailyavghashrate', startdate, enddate, sort },
     noCache,
@@ -1271,7 +1256,6 @@ export async function getDailyTxCount(
   chainId?: string
 ): Promise<any[]> {
   const result = await cachedRequest(
-    `dailytx:${startdate}:${enddate}`,
     TTL.STATIC,
     { module: 'stats', action: 'dailytx', startdate, enddate, sort },
     noCache,
@@ -1,6 +1,9 @@
 // growthepie API adapter (free, no key needed)
 // L2 metrics and analytics
-import { cachedFetch, TTL } from '../utils/cache.js';
+import { cachedFetch, CacheOptions, requestCacheKey, TTL } from '../utils/cache.js';
+import { currentSignal } from '../utils/context.js';
+import { tracedFetch } from '../utils/logging.js';
+import { httpError, withRetry } from '../utils/retry.js';
 
 const BASE_URL = 'https://api.growthepie.com/v1';
 
@@ -22,11 +25,31 @@ export const AVAILABLE_METRICS = [
 export type MetricKey = (typeof AVAILABLE_METRICS)[number];
 
 async function request(endpoint: string): Promise<any> {
-  const response = await fetch(`${BASE_URL}${endpoint}`);
-  if (!response.ok) {
-    throw new Error(`growthepie API error: ${response.statusText}`);
-  }
-  return response.json();
+  return withRetry('growthepie', async () => {
+    const response = await tracedFetch('growthepie', endpoint, `${BASE_URL}${endpoint}`, {
+      signal: currentSignal(),
+    });
+    if (!response.ok) {
+      throw httpError(response, `growthepie API error: ${response.statusText}`);
+    }
+    return response.json();
+  });
+}
+
+// Cached request, keyed on the complete endpoint
+async function cachedRequest(
+  endpoint: string,
+  ttl: number,
+  noCache = false,
+  options: CacheOptions<any> = {}
+): Promise<any> {
+  return cachedFetch(
+    requestCacheKey('growthepie', endpoint),
+    ttl,
+    () => request(endpoint),
+    noCache,
+    options
+  );
 }
 
 // Process flat array into chain -> metrics map
@@ -62,28 +85,18 @@ function processData(data: any[]): Map<string, Map<string, number>> {
 
 // Get master data (chain metadata)
 export async function getMaster(noCache = false): Promise<any> {
-  return cachedFetch('growthepie:master', TTL.STATIC, () => request('/master.json'), noCache);
+  return cachedRequest('/master.json', TTL.STATIC, noCache);
 }
 
 // Get fundamentals data (cached)
 async function getFundamentals(noCache = false): Promise<Map<string, Map<string, number>>> {
-  const data = await cachedFetch(
-    'growthepie:fundamentals',
-    TTL.TVL,
-    () => request('/fundamentals.json'),
-    noCache
-  );
+  const data = await cachedRequest('/fundamentals.json', TTL.TVL, noCache, { staleFor: TTL.TVL });
   return processData(data);
 }
 
 // Get specific metric data with historical values
 export async function getMetricData(metric: MetricKey, noCache = false): Promise<any[]> {
-  return cachedFetch(
-    `growthepie:metric:${metric}`,
-    TTL.TVL,
-    () => request(`/export/${metric}.json`),
-    noCache
-  );
+  return cachedRequest(`/export/${metric}.json`, TTL.TVL, noCache, { staleFor: TTL.TVL });
 }
 
 // ============================================
@@ -1,12 +1,34 @@
 // JSON-RPC adapter for local/self-hosted Ethereum nodes
-import { cachedFetch, TTL } from '../utils/cache.js';
-import { sanitizeError } from '../utils/security.js';
+//
+// A session can have several nodes, on one chain or many. Each call goes to the nodes on
+// its chain, best health first, failing over to the next when a node doesn't answer.
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { cachedFetch, CacheOptions, requestCacheKey, TTL } from '../utils/cache.js';
+import { chainName, resolveChainId } from '../utils/chains.js';
+import { blockTagNumber, blockTtl, tagTtl, txTtl } from '../utils/finality.js';
+import {
+  getNodeHealth,
+  NodeHealth,
+  nodeId,
+  rankNodes,
+  recordNodeFailure,
+  recordNodeSuccess,
+} from '../utils/nodes.js';
+import { redactUrl, sanitizeError } from '../utils/security.js';
+import { ClassifiedError, isNetworkError, TransientUpstreamError } from '../utils/errors.js';
+import { httpError, isRetryable, withRetry } from '../utils/retry.js';
+import { getSession, NodeEntry } from '../utils/session.js';
+import { currentSignal, timeoutSignal } from '../utils/context.js';
+import { reportBodyError, tracedFetch, withTrace } from '../utils/logging.js';
 
-let nodeUrl = process.env.ETH_NODE_URL || '';
-let nodeChainId: string | null = null;
 let requestId = 1;
 
 const RPC_TIMEOUT_MS = 30_000;
+// list_nodes probes every node; a dead one shouldn't hold up the listing
+const PROBE_TIMEOUT_MS = 5_000;
+
+const NO_NODE_MESSAGE =
+  'ETH_NODE_URL not set. Call set_node_url with your node URL (e.g. http://localhost:8545).';
 
 // ============================================
 // VALIDATORS
@@ -44,23 +66,6 @@ function validateBlockTag(tag: string | number): void {
 // URL SANITIZATION
 // ============================================
 
-function sanitizeUrl(raw: string): string {
-  let parsed: URL;
-  try {
-    parsed = new URL(raw);
-  } catch {
-    return '[invalid URL]';
-  }
-
-  if (parsed.username) parsed.username = '[REDACTED]';
-  if (parsed.password) parsed.password = '[REDACTED]';
-
-  // Mask 32+ hex path segments (Infura keys, Alchemy keys, etc.)
-  parsed.pathname = parsed.pathname.replace(/[a-fA-F0-9]{32,}/g, '[REDACTED]');
-
-  return parsed.toString();
-}
-
 function buildSensitiveKeys(url: string): string[] {
   const keys: string[] = [];
   try {
@@ -80,56 +85,187 @@ function buildSensitiveKeys(url: string): string[] {
 // EXPORTS: state accessors
 // ============================================
 
+// The primary node: the first one, the last set with set_node_url. It is only listed first;
+// calls go to the best nodes on their chain.
 export function getNodeChainId(): string | null {
-  return nodeChainId;
+  return getSession().nodes[0]?.chainId ?? null;
 }
 
 export function getNodeUrl(): string {
-  return nodeUrl;
+  return getSession().nodes[0]?.url ?? '';
 }
 
 export function getNodeUrlDisplay(): string {
+  const nodeUrl = getNodeUrl();
   if (!nodeUrl) return '';
-  return sanitizeUrl(nodeUrl);
+  return redactUrl(nodeUrl);
 }
 
 export function isConfigured(): boolean {
-  return !!nodeUrl;
+  return getSession().nodes.length > 0;
+}
+
+// Whether a healthy node may serve the chain: one known to be on it, or one not asked yet
+export function hasNodeFor(chainId: string): boolean {
+  return getSession().nodes.some(
+    (node) => (node.chainId === null || node.chainId === chainId) && getNodeHealth(node.url).healthy
+  );
 }
 
 // ============================================
-// setNodeUrl -- async with validation
+// CHAIN SCOPE
 // ============================================
 
-export async function setNodeUrl(url: string): Promise<{ chainId: string; blockNumber: number }> {
-  // Validate URL format
+const chainScope = new AsyncLocalStorage<string>();
+
+// Runs fn with its calls going to the given chain's nodes. Without a chain they go to the
+// session's default chain (set_chain).
+export function withChain<T>(chainId: string | undefined, fn: () => T): T {
+  return chainId ? chainScope.run(chainId, fn) : fn();
+}
+
+const nodeScope = new AsyncLocalStorage<NodeEntry>();
+
+// Runs fn with its calls going to one node only, uncached and without failover, so
+// answers from different nodes can be compared
+export function withNode<T>(node: NodeEntry, fn: () => T): T {
+  return nodeScope.run(node, fn);
+}
+
+// The healthy nodes that may be on the chain (the session's default chain by default), best
+// first, after asking any unknown ones
+export async function healthyNodesFor(chainId?: string): Promise<NodeEntry[]> {
+  if (!isConfigured()) return [];
+  const nodes = await withChain(chainId, nodesForCall).catch(() => []);
+  return nodes.filter((node) => getNodeHealth(node.url).healthy);
+}
+
+// Asks a node for its chain; leaves it unknown if the node doesn't answer
+async function resolveNodeChain(node: NodeEntry): Promise<string | null> {
+  if (node.chainId === null && getNodeHealth(node.url).healthy) {
+    try {
+      node.chainId = parseInt(await rpcCall('eth_chainId', [], node.url), 16).toString();
+    } catch {
+      // Recorded in the node's health; it is skipped until it answers
+    }
+  }
+  return node.chainId;
+}
+
+// Chain the current call targets: the scoped one, else the session's default chain
+function callChainId(): string {
+  return chainScope.getStore() ?? getSession().defaultChainId;
+}
+
+// Nodes to try for the current call, in order
+async function nodesForCall(): Promise<NodeEntry[]> {
+  const pinned = nodeScope.getStore();
+  if (pinned) return [pinned];
+  const { nodes } = getSession();
+  if (nodes.length === 0) {
+    throw new Error(NO_NODE_MESSAGE);
+  }
+  const chainId = callChainId();
+  await Promise.all(nodes.map(resolveNodeChain));
+  const candidates = nodes.filter((node) => node.chainId === chainId);
+  if (candidates.length === 0) {
+    throw new Error(`No JSON-RPC node for chain ${chainId}. Add one with add_node.`);
+  }
+  return rankNodes(candidates);
+}
+
+// ============================================
+// NODE MANAGEMENT -- async with validation
+// ============================================
+
+function validateNodeUrl(url: string): void {
   try {
     new URL(url);
   } catch {
     throw new Error(`Invalid URL: "${url}" is not a valid URL. Expected something like http://localhost:8545`);
   }
+}
 
-  const previousUrl = nodeUrl;
-  const previousChainId = nodeChainId;
+// Asks a candidate node directly, before the session uses it
+async function probeNode(url: string): Promise<{ chainId: string; blockNumber: number }> {
+  validateNodeUrl(url);
+  const chainIdHex = await rpcCall('eth_chainId', [], url);
+  const blockNumberHex = await rpcCall('eth_blockNumber', [], url);
+  return { chainId: parseInt(chainIdHex, 16).toString(), blockNumber: parseInt(blockNumberHex, 16) };
+}
 
-  // Temporarily set so rpcCall can use it
-  nodeUrl = url;
+// Makes the node the primary one, listed first
+export async function setNodeUrl(url: string): Promise<{ chainId: string; blockNumber: number }> {
+  const probe = await probeNode(url);
+  const session = getSession();
+  session.nodes = [{ url, chainId: probe.chainId }, ...session.nodes.filter((node) => node.url !== url)];
+  return probe;
+}
 
-  try {
-    const chainIdHex = await rpcCall('eth_chainId');
-    const blockNumberHex = await rpcCall('eth_blockNumber');
+// Adds a node after the existing ones. With `chain`, the node must be on that chain.
+export async function addNode(
+  url: string,
+  chain?: string
+): Promise<{ id: string; chainId: string; blockNumber: number; nodesOnChain: number }> {
+  const expectedChainId = chain ? resolveChainId(chain) : undefined;
+  const probe = await probeNode(url);
+  if (expectedChainId && probe.chainId !== expectedChainId) {
+    throw new Error(`Invalid node: it is on chain ${probe.chainId}, not ${expectedChainId}`);
+  }
 
-    const chainId = parseInt(chainIdHex, 16).toString();
-    const blockNumber = parseInt(blockNumberHex, 16);
+  const session = getSession();
+  const existing = session.nodes.find((node) => node.url === url);
+  if (existing) {
+    existing.chainId = probe.chainId;
+  } else {
+    session.nodes.push({ url, chainId: probe.chainId });
+  }
+  const nodesOnChain = session.nodes.filter((node) => node.chainId === probe.chainId).length;
+  return { id: nodeId(url), ...probe, nodesOnChain };
+}
 
-    nodeChainId = chainId;
-    return { chainId, blockNumber };
-  } catch (error) {
-    // Rollback
-    nodeUrl = previousUrl;
-    nodeChainId = previousChainId;
-    throw error;
+// Removes a node by its ID (from list_nodes) or URL
+export function removeNode(idOrUrl: string): { id: string; url: string; remaining: number } {
+  const session = getSession();
+  const node = session.nodes.find((entry) => entry.url === idOrUrl || nodeId(entry.url) === idOrUrl);
+  if (!node) {
+    throw new Error(`Node not found: "${idOrUrl}". Use list_nodes to see node IDs.`);
   }
+  session.nodes = session.nodes.filter((entry) => entry !== node);
+  return { id: nodeId(node.url), url: node.url, remaining: session.nodes.length };
+}
+
+export interface NodeStatus extends NodeHealth {
+  id: string;
+  url: string;
+  chainId: string | null;
+  primary: boolean;
+  blockNumber: number | null;
+}
+
+// Every node of the session, after asking each for its head block so health is current
+export async function listNodes(): Promise<NodeStatus[]> {
+  const { nodes } = getSession();
+  return Promise.all(
+    nodes.map(async (node, i) => {
+      let blockNumber: number | null = null;
+      try {
+        await resolveNodeChain(node);
+        const hex = await rpcCall('eth_blockNumber', [], node.url, PROBE_TIMEOUT_MS);
+        blockNumber = parseInt(hex, 16);
+      } catch {
+        // Shown through the node's health
+      }
+      return {
+        id: nodeId(node.url),
+        url: redactUrl(node.url),
+        chainId: node.chainId,
+        primary: i === 0,
+        blockNumber,
+        ...getNodeHealth(node.url),
+      };
+    })
+  );
 }
 
 // ============================================
@@ -154,13 +290,76 @@ function hexToGwei(hex: string): string {
 // CORE JSON-RPC 2.0
 // ============================================
 
-async function rpcCall(method: string, params: any[] = []): Promise<any> {
-  if (!nodeUrl) {
-    throw new Error(
-      'ETH_NODE_URL not set. Call set_node_url with your node URL (e.g. http://localhost:8545).'
-    );
+// One POST to one node, recording the node's health. A JSON-RPC error in the response
+// still counts as the node answering, though as a failed request in the metrics.
+async function postToNode(
+  nodeUrl: string,
+  label: string,
+  body: string,
+  timeoutMs: number = RPC_TIMEOUT_MS
+): Promise<any> {
+  const started = Date.now();
+  try {
+    // Node URLs often embed API keys, so only the method is logged
+    const response = await tracedFetch('jsonrpc', label, nodeUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+      signal: timeoutSignal(timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw httpError(response, `Node returned HTTP ${response.status}`);
+    }
+
+    const data = await response.json();
+    if (data?.error) {
+      reportBodyError(response, data.error.message || JSON.stringify(data.error));
+    }
+    recordNodeSuccess(nodeUrl, Date.now() - started);
+    return data;
+  } catch (error) {
+    const message = sanitizeError(error, buildSensitiveKeys(nodeUrl));
+    // A cancelled call says nothing about the node
+    if (!currentSignal()?.aborted) {
+      recordNodeFailure(nodeUrl, message);
+    }
+    // Our own errors carry no URL; keep them as they are for their status and reason
+    if (error instanceof ClassifiedError) throw error;
+    throw isNetworkError(error) ? new TransientUpstreamError(message) : new Error(message);
   }
+}
 
+// Sends to the call's nodes in order until one answers. A retry goes round them again.
+async function postWithFailover(label: string, body: string): Promise<any> {
+  return withRetry('jsonrpc', async () => {
+    const nodes = await nodesForCall();
+    const errors: string[] = [];
+    let retryable = true;
+    for (const node of nodes) {
+      // Traced under the node's own chain, once the node has told us which it is
+      const trace = node.chainId ? { chain: chainName(node.chainId) } : {};
+      try {
+        return await withTrace(trace, () => postToNode(node.url, label, body));
+      } catch (error) {
+        if (nodes.length === 1 || currentSignal()?.aborted) throw error;
+        errors.push(`${nodeId(node.url)}: ${(error as Error).message}`);
+        retryable &&= isRetryable(error);
+      }
+    }
+    // Worth another round only if every node may answer next time
+    const message = `All ${nodes.length} nodes failed: ${errors.join('; ')}`;
+    throw retryable ? new TransientUpstreamError(message) : new Error(message);
+  });
+}
+
+// Calls the current call's nodes, or only `nodeUrl` when given (probes of one node)
+async function rpcCall(
+  method: string,
+  params: any[] = [],
+  nodeUrl?: string,
+  timeoutMs?: number
+): Promise<any> {
   if (requestId >= Number.MAX_SAFE_INTEGER) {
     requestId = 1;
   }
@@ -173,44 +372,47 @@ async function rpcCall(method: string, params: any[] = []): Promise<any> {
     id,
   });
 
-  try {
-    const response = await fetch(nodeUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body,
-      signal: AbortSignal.timeout(RPC_TIMEOUT_MS),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Node returned HTTP ${response.status}`);
-    }
+  const data = nodeUrl
+    ? await postToNode(nodeUrl, method, body, timeoutMs)
+    : await postWithFailover(method, body);
 
-    const data = await response.json();
+  if (data.error) {
+    throw new Error(data.error.message || JSON.stringify(data.error));
+  }
 
-    if (data.error) {
-      throw new Error(data.error.message || JSON.stringify(data.error));
-    }
+  return data.result;
+}
 
-    return data.result;
-  } catch (error) {
-    const sensitiveKeys = buildSensitiveKeys(nodeUrl);
-    throw new Error(sanitizeError(error, sensitiveKeys));
-  }
+// Cache entries are scoped to the call's chain, since different sessions may default to
+// different chains. Answers that may come from a node the session brought itself
+// (x-eth-node-url, set_node_url, add_node) are scoped to those nodes too, so no other
+// session reads them. Nodes are named by their IDs: cache keys show up in logs, and node
+// URLs often embed API keys.
+async function nodeCacheScope(): Promise<string> {
+  const chainId = callChainId();
+  const ownNodes = (await nodesForCall())
+    .filter((node) => !node.shared)
+    .map((node) => nodeId(node.url))
+    .sort();
+  return [chainId, ...ownNodes].join(':');
 }
 
-// Cached RPC wrapper
+// Cached RPC wrapper, keyed on the method and complete params
 async function cachedRpcCall(
-  cacheKey: string,
   ttl: number,
   method: string,
   params: any[] = [],
-  noCache: boolean = false
+  noCache: boolean = false,
+  options: CacheOptions<any> = {}
 ): Promise<any> {
+  // A node's answer must not stand in for the others'
+  if (nodeScope.getStore()) return rpcCall(method, params);
   return cachedFetch(
-    `jsonrpc:${cacheKey}`,
+    requestCacheKey('jsonrpc', method, params, await nodeCacheScope()),
     ttl,
     () => rpcCall(method, params),
-    noCache
+    noCache,
+    options
   );
 }
 
@@ -218,21 +420,35 @@ async function cachedRpcCall(
 // API METHODS
 // ============================================
 
-export async function getBalance(address: string, noCache = false): Promise<string> {
+export async function getBalance(
+  address: string,
+  tag: string = 'latest',
+  noCache = false
+): Promise<string> {
+  return weiToEth(await getBalanceWei(address, tag, noCache));
+}
+
+// Balance in wei, as a decimal string
+export async function getBalanceWei(
+  address: string,
+  tag: string = 'latest',
+  noCache = false
+): Promise<string> {
   validateAddress(address);
+  validateBlockTag(tag);
+  // Balances at a block number never change once the block is final
   const result = await cachedRpcCall(
-    `balance:${address}`,
     TTL.PRICE,
     'eth_getBalance',
-    [address, 'latest'],
-    noCache
+    [address, tag],
+    noCache,
+    blockTagNumber(tag) === null ? {} : { ttlFor: () => tagTtl(tag, () => getBlockNumber()) }
   );
-  return weiToEth(BigInt(result).toString());
+  return BigInt(result).toString();
 }
 
 export async function getBlockNumber(noCache = false): Promise<number> {
   const result = await cachedRpcCall(
-    'blocknumber',
     TTL.GAS,
     'eth_blockNumber',
     [],
@@ -249,33 +465,33 @@ export async function getBlockByNumber(
   validateBlockTag(blockNumber);
   const tag = typeof blockNumber === 'number' ? `0x${blockNumber.toString(16)}` : blockNumber;
   return cachedRpcCall(
-    `block:${tag}:${fullTx}`,
     TTL.STATIC,
     'eth_getBlockByNumber',
     [tag, fullTx],
-    noCache
+    noCache,
+    { ttlFor: (block) => blockTtl(tag, block) }
   );
 }
 
 export async function getTransactionByHash(txhash: string, noCache = false): Promise<any> {
   validateHex(txhash, 'transaction hash');
   return cachedRpcCall(
-    `tx:${txhash}`,
     TTL.STATIC,
     'eth_getTransactionByHash',
     [txhash],
-    noCache
+    noCache,
+    { ttlFor: (tx) => txTtl(tx, () => getBlockNumber()) }
   );
 }
 
 export async function getTransactionReceipt(txhash: string, noCache = false): Promise<any> {
   validateHex(txhash, 'transaction hash');
   return cachedRpcCall(
-    `txreceipt:${txhash}`,
     TTL.STATIC,
     'eth_getTransactionReceipt',
     [txhash],
-    noCache
+    noCache,
+    { ttlFor: (receipt) => txTtl(receipt, () => getBlockNumber()) }
   );
 }
 
@@ -289,7 +505,6 @@ export async function ethCall(
   validateHex(data, 'call data');
   validateBlockTag(tag);
   return cachedRpcCall(
-    `ethcall:${to}:${data}:${tag}`,
     TTL.GAS,
     'eth_call',
     [{ to, data }, tag],
@@ -305,11 +520,11 @@ export async function getCode(
   validateAddress(address);
   validateBlockTag(tag);
   return cachedRpcCall(
-    `code:${address}:${tag}`,
     TTL.STATIC,
     'eth_getCode',
     [address, tag],
-    noCache
+    noCache,
+    { ttlFor: () => tagTtl(tag, () => getBlockNumber()) }
   );
 }
 
@@ -323,7 +538,6 @@ export async function getStorageAt(
   validateHex(position, 'storage position');
   validateBlockTag(tag);
   return cachedRpcCall(
-    `storage:${address}:${position}:${tag}`,
     TTL.GAS,
     'eth_getStorageAt',
     [address, position, tag],
@@ -341,7 +555,6 @@ export async function estimateGas(
   validateHex(data, 'call data');
   validateHex(value, 'value');
   return cachedRpcCall(
-    `estimategas:${to}:${data}`,
     TTL.GAS,
     'eth_estimateGas',
     [{ to, data, value }],
@@ -352,7 +565,6 @@ export async function estimateGas(
 // Returns gas price in Etherscan gasoracle format so existing tool formatting works
 export async function getGasPrice(noCache = false): Promise<any> {
   const result = await cachedRpcCall(
-    'gasprice',
     TTL.GAS,
     'eth_gasPrice',
     [],
@@ -369,7 +581,6 @@ export async function getGasPrice(noCache = false): Promise<any> {
 // Raw hex gas price for proxy-style calls
 export async function getGasPriceRaw(noCache = false): Promise<string> {
   return cachedRpcCall(
-    'gasprice_raw',
     TTL.GAS,
     'eth_gasPrice',
     [],
@@ -422,11 +633,12 @@ export async function getLogs(
   if (topics.length > 0) filter.topics = topics;
 
   const result = await cachedRpcCall(
-    `logs:${address}:${fromBlock}:${toBlock}:${topic0 || ''}`,
     TTL.TVL,
     'eth_getLogs',
     [filter],
-    noCache
+    noCache,
+    // The range's logs are settled once toBlock is
+    { ttlFor: () => tagTtl(toBlock, () => getBlockNumber()) }
   );
   if (!Array.isArray(result)) return [];
   return result;
@@ -440,7 +652,6 @@ export async function getTransactionCount(
   validateAddress(address);
   validateBlockTag(tag);
   const result = await cachedRpcCall(
-    `txcount:${address}:${tag}`,
     TTL.GAS,
     'eth_getTransactionCount',
     [address, tag],
@@ -458,10 +669,8 @@ export async function getBalanceMulti(
     validateAddress(addr);
   }
 
-  if (!nodeUrl) {
-    throw new Error(
-      'ETH_NODE_URL not set. Call set_node_url with your node URL (e.g. http://localhost:8545).'
-    );
+  if (!isConfigured()) {
+    throw new Error(NO_NODE_MESSAGE);
   }
 
   // Build JSON-RPC 2.0 batch request
@@ -478,18 +687,8 @@ export async function getBalanceMulti(
   requestId = startId + addresses.length;
 
   try {
-    const response = await fetch(nodeUrl, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(batchBody),
-      signal: AbortSignal.timeout(RPC_TIMEOUT_MS),
-    });
-
-    if (!response.ok) {
-      throw new Error(`Node returned HTTP ${response.status}`);
-    }
-
-    const data = await response.json();
+    const endpoint = `eth_getBalance x${addresses.length} (batch)`;
+    const data = await postWithFailover(endpoint, JSON.stringify(batchBody));
 
     // If response is not an array, node doesn't support batch -- fall back to parallel individual calls
     if (!Array.isArray(data)) {
@@ -507,11 +706,10 @@ export async function getBalanceMulti(
     });
   } catch (error) {
     // If batch fails entirely, try parallel individual calls
-    const sensitiveKeys = buildSensitiveKeys(nodeUrl);
     try {
       return await fallbackGetBalanceMulti(addresses, noCache);
     } catch {
-      throw new Error(sanitizeError(error, sensitiveKeys));
+      throw error;
     }
   }
 }
@@ -522,7 +720,7 @@ async function fallbackGetBalanceMulti(
 ): Promise<any[]> {
   const results = await Promise.all(
     addresses.map(async (address) => {
-      const balance = await getBalance(address, noCache);
+      const balance = await getBalance(address, 'latest', noCache);
       return { account: address, balance };
     })
   );
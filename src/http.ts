@@ -0,0 +1,273 @@
+// Streamable HTTP transport (with legacy SSE fallback) for shared deployments
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from 'node:http';
+import { createHash, randomUUID, timingSafeEqual } from 'node:crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { createServer, McpEnv } from './server.js';
+import { disableCacheClearing } from './utils/cache.js';
+import { disableConfigWrites } from './utils/config.js';
+
+export interface HttpOptions {
+  port: number;
+  host: string;
+  // Host names (without port) clients may reach the server by; see allowedHostsFor()
+  allowedHosts?: string[];
+  // When set, every request must carry `Authorization: Bearer <token>`
+  authToken?: string;
+}
+
+const MCP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+const LOCAL_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+const WILDCARD_HOSTS = ['0.0.0.0', '::', '[::]'];
+// Sessions without a request for this long are closed, freeing their server and settings
+const SESSION_IDLE_MS = 30 * 60 * 1000;
+const SESSION_SWEEP_MS = 60 * 1000;
+
+// Clients can bring their own keys per connection; anything not sent falls back to process env
+const ENV_HEADERS: Record<keyof McpEnv, string> = {
+  ETHERSCAN_API_KEY: 'x-etherscan-api-key',
+  COINGECKO_API_KEY: 'x-coingecko-api-key',
+  DEFILLAMA_API_KEY: 'x-defillama-api-key',
+  DUNE_API_KEY: 'x-dune-api-key',
+  ETH_NODE_URL: 'x-eth-node-url',
+};
+
+function envFromHeaders(req: IncomingMessage): McpEnv {
+  const env: McpEnv = {};
+  for (const [key, header] of Object.entries(ENV_HEADERS) as Array<[keyof McpEnv, string]>) {
+    const value = req.headers[header];
+    if (typeof value === 'string' && value.length > 0) {
+      env[key] = value;
+    }
+  }
+  return env;
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(chunk);
+  }
+  const raw = Buffer.concat(chunks).toString('utf8');
+  return raw ? JSON.parse(raw) : undefined;
+}
+
+// The loopback names, plus the bound host unless it is a wildcard address
+function allowedHostsFor(options: HttpOptions): string[] {
+  if (options.allowedHosts && options.allowedHosts.length > 0) {
+    return options.allowedHosts.map((host) => host.toLowerCase());
+  }
+  const bound = options.host.toLowerCase();
+  return WILDCARD_HOSTS.includes(bound) ? LOCAL_HOSTS : [...new Set([...LOCAL_HOSTS, bound])];
+}
+
+function hostnameOf(value: string, prefix = ''): string | undefined {
+  try {
+    return new URL(prefix + value).hostname.toLowerCase();
+  } catch {
+    return undefined;
+  }
+}
+
+// Guards against DNS rebinding: a web page whose name was rebound to this server still
+// sends that name as Host and as Origin, so both must be one of the allowed names.
+// Returns why the request is refused, if it is.
+function checkHost(req: IncomingMessage, allowedHosts: string[]): string | undefined {
+  const host = req.headers.host;
+  if (!host) return 'Missing Host header';
+  const hostname = hostnameOf(host, 'http://');
+  if (!hostname || !allowedHosts.includes(hostname)) {
+    return `Host not allowed: ${host}`;
+  }
+  const origin = req.headers.origin;
+  // Browsers send Origin; other clients usually don't
+  if (origin !== undefined) {
+    const originHost = hostnameOf(origin);
+    if (!originHost || !allowedHosts.includes(originHost)) {
+      return `Origin not allowed: ${origin}`;
+    }
+  }
+  return undefined;
+}
+
+// Compared as hashes so the comparison takes the same time whatever the token's length
+function checkAuth(req: IncomingMessage, authToken: string): boolean {
+  const header = req.headers.authorization ?? '';
+  const match = /^Bearer (.+)$/.exec(header);
+  if (!match) return false;
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(match[1]), digest(authToken));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+  if (res.headersSent) return;
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify({ jsonrpc: '2.0', error: { code: -32000, message }, id: null }));
+}
+
+export async function startHttpServer(options: HttpOptions): Promise<void> {
+  // One client's persisted key would otherwise become every other client's fallback
+  disableConfigWrites();
+  // One client could otherwise empty the cache every other client relies on
+  disableCacheClearing();
+
+  const allowedHosts = allowedHostsFor(options);
+  const streamableTransports = new Map<string, StreamableHTTPServerTransport>();
+  const sseTransports = new Map<string, SSEServerTransport>();
+  // When each session last had a request, for closing idle ones
+  const lastActive = new Map<string, number>();
+
+  const touch = (sessionId: string) => lastActive.set(sessionId, Date.now());
+
+  // ============================================
+  // STREAMABLE HTTP (/mcp)
+  // ============================================
+
+  async function handleStreamable(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const sessionId = req.headers['mcp-session-id'];
+    const existing =
+      typeof sessionId === 'string' ? streamableTransports.get(sessionId) : undefined;
+
+    if (req.method !== 'POST') {
+      // GET opens the server->client stream, DELETE ends the session
+      if (!existing) {
+        sendJsonRpcError(res, 400, 'Bad Request: missing or unknown session ID');
+        return;
+      }
+      touch(sessionId as string);
+      await existing.handleRequest(req, res);
+      return;
+    }
+
+    const body = await readJsonBody(req);
+
+    if (existing) {
+      touch(sessionId as string);
+      await existing.handleRequest(req, res, body);
+      return;
+    }
+
+    if (!isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Bad Request: no valid session ID provided');
+      return;
+    }
+
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        streamableTransports.set(id, transport);
+        touch(id);
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        streamableTransports.delete(transport.sessionId);
+        lastActive.delete(transport.sessionId);
+      }
+    };
+
+    const server = createServer(envFromHeaders(req));
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  // ============================================
+  // LEGACY SSE (/sse + /messages)
+  // ============================================
+
+  async function handleSseConnect(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    sseTransports.set(transport.sessionId, transport);
+    touch(transport.sessionId);
+    res.on('close', () => {
+      sseTransports.delete(transport.sessionId);
+      lastActive.delete(transport.sessionId);
+    });
+
+    const server = createServer(envFromHeaders(req));
+    await server.connect(transport);
+  }
+
+  async function handleSseMessage(
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL
+  ): Promise<void> {
+    const sessionId = url.searchParams.get('sessionId') || '';
+    const transport = sseTransports.get(sessionId);
+    if (!transport) {
+      sendJsonRpcError(res, 400, `No SSE session found for sessionId "${sessionId}"`);
+      return;
+    }
+    touch(sessionId);
+    const body = await readJsonBody(req);
+    await transport.handlePostMessage(req, res, body);
+  }
+
+  const httpServer = createHttpServer(async (req, res) => {
+    const refused = checkHost(req, allowedHosts);
+    if (refused) {
+      sendJsonRpcError(res, 403, `Forbidden: ${refused}`);
+      return;
+    }
+    if (options.authToken && !checkAuth(req, options.authToken)) {
+      sendJsonRpcError(res, 401, 'Unauthorized: missing or invalid bearer token');
+      return;
+    }
+    const url = new URL(req.url || '/', `http://${req.headers.host}`);
+    try {
+      if (url.pathname === MCP_PATH) {
+        await handleStreamable(req, res);
+      } else if (url.pathname === SSE_PATH && req.method === 'GET') {
+        await handleSseConnect(req, res);
+      } else if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+        await handleSseMessage(req, res, url);
+      } else {
+        res.writeHead(404, { 'Content-Type': 'text/plain' }).end('Not found');
+      }
+    } catch (error: any) {
+      console.error('HTTP request error:', error);
+      sendJsonRpcError(res, 500, error.message || 'Internal server error');
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => resolve());
+  });
+
+  const sweep = setInterval(() => {
+    const cutoff = Date.now() - SESSION_IDLE_MS;
+    for (const [id, at] of lastActive) {
+      if (at >= cutoff) continue;
+      lastActive.delete(id);
+      const transport = streamableTransports.get(id) ?? sseTransports.get(id);
+      transport?.close().catch(() => {});
+    }
+  }, SESSION_SWEEP_MS);
+  sweep.unref();
+
+  const shutdown = async () => {
+    clearInterval(sweep);
+    for (const transport of [...streamableTransports.values(), ...sseTransports.values()]) {
+      await transport.close().catch(() => {});
+    }
+    httpServer.close();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+
+  console.error(`Streamable HTTP endpoint: http://${options.host}:${options.port}${MCP_PATH}`);
+  console.error(`Legacy SSE endpoint: http://${options.host}:${options.port}${SSE_PATH}`);
+  console.error(`Allowed hosts: ${allowedHosts.join(', ')}`);
+}
@@ -2,12 +2,51 @@
 
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { createServer } from './server.js';
+import { startHttpServer } from './http.js';
+import { checkToolSelection } from './tools/index.js';
+
+const DEFAULT_HTTP_PORT = 3000;
+const DEFAULT_HTTP_HOST = '127.0.0.1';
+
+// Reads `--name value` or `--name=value` from argv
+function getArg(name: string): string | undefined {
+  const args = process.argv.slice(2);
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === `--${name}`) return args[i + 1];
+    if (args[i].startsWith(`--${name}=`)) return args[i].slice(name.length + 3);
+  }
+  return undefined;
+}
 
 async function main() {
-  const server = createServer();
-  const transport = new StdioServerTransport();
-  await server.connect(transport);
-  console.error('Ethereum MCP server v2.0 running');
+  // A bad MCP_TOOL_PROFILE or allow/deny list stops the server before it starts
+  try {
+    checkToolSelection();
+  } catch (error) {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+
+  const useHttp = process.argv.includes('--http') || process.env.MCP_TRANSPORT === 'http';
+
+  if (useHttp) {
+    const port =
+      parseInt(getArg('port') || process.env.MCP_HTTP_PORT || '', 10) || DEFAULT_HTTP_PORT;
+    const host = getArg('host') || process.env.MCP_HTTP_HOST || DEFAULT_HTTP_HOST;
+    const allowedHosts = (getArg('allowed-hosts') || process.env.MCP_HTTP_ALLOWED_HOSTS || '')
+      .split(',')
+      .map((name) => name.trim())
+      .filter(Boolean);
+    // Only read from env: command lines are visible to other users of the machine
+    const authToken = process.env.MCP_HTTP_AUTH_TOKEN || undefined;
+    await startHttpServer({ port, host, allowedHosts, authToken });
+    console.error('Ethereum MCP server v2.0 running (HTTP)');
+  } else {
+    const server = createServer();
+    const transport = new StdioServerTransport();
+    await server.connect(transport);
+    console.error('Ethereum MCP server v2.0 running');
+  }
   console.error(
     'Data sources: Etherscan, JSON-RPC, DefiLlama, CoinGecko, growthepie, Blobscan, Dune (optional)'
   );
@@ -0,0 +1,125 @@
+// MCP prompts - reusable multi-step research workflows built on the registered tools
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { z } from 'zod';
+
+function userMessage(text: string) {
+  return {
+    messages: [{ role: 'user' as const, content: { type: 'text' as const, text } }],
+  };
+}
+
+export function registerPrompts(server: McpServer): void {
+  server.registerPrompt(
+    'wallet_due_diligence',
+    {
+      title: 'Wallet due diligence',
+      description: 'Profile an address: holdings, activity, counterparties and red flags',
+      argsSchema: {
+        address: z.string().describe('Address (0x...) or ENS name'),
+        chain: z.string().optional().describe('Chain name or ID (default: ethereum)'),
+      },
+    },
+    ({ address, chain }) => {
+      const chainArg = chain ? ` with chain "${chain}"` : '';
+      return userMessage(`Run due diligence on the wallet ${address}${chain ? ` on ${chain}` : ''}.
+
+Call these tools in order:
+1. get_eth_balance for ${address}${chainArg}, to get the native balance.
+2. get_address_tokens${chainArg}, for the ERC-20 portfolio, and get_address_nfts for NFTs.
+3. get_transaction_count${chainArg}, for the nonce, which shows how active the wallet is.
+4. get_transactions and get_internal_transactions, for recent activity and ETH flows via contracts.
+5. get_token_transfers, for recent token movements.
+6. If get_code${chainArg} returns bytecode, the address is a contract: also call get_contract_source and get_contract_creator.
+
+Then summarise:
+- What the wallet holds, with approximate USD values (use smart_get_price for major tokens)
+- How old and how active it is, and its main counterparties
+- Anything unusual: large recent inflows or outflows, interactions with unverified contracts, dust or spam tokens, mixer-like patterns
+
+Cite the data source of each figure.`);
+    }
+  );
+
+  server.registerPrompt(
+    'compare_l2s',
+    {
+      title: 'Compare L2s',
+      description:
+        'Side-by-side comparison of Layer 2 networks on fees, activity, TVL and economics',
+      argsSchema: {
+        chains: z.string().describe("Comma-separated L2 names (e.g., 'arbitrum, optimism, base')"),
+      },
+    },
+    ({ chains }) => {
+      const list = chains
+        .split(',')
+        .map((c) => c.trim())
+        .filter(Boolean);
+      return userMessage(`Compare these Layer 2 networks: ${list.join(', ')}.
+
+Call these tools in order:
+1. get_l2_chain for each of: ${list.join(', ')}. This gives the full metric set for each chain.
+2. get_l2_fees, for median transaction costs across L2s.
+3. get_l2_activity and get_l2_profitability, for daily active addresses and onchain profit.
+4. smart_get_l2_tvl for each chain, to cross-check TVL against a second source.
+5. get_blob_data, for what each chain pays Ethereum for data availability.
+
+Then present a comparison table with one row per chain and these columns: TVL, daily active addresses, transaction count, median fee, rent paid to L1, and profit.
+Finish with a short assessment of where each chain leads or lags. Note any metric a source did not report rather than guessing it.`);
+    }
+  );
+
+  server.registerPrompt(
+    'protocol_deep_dive',
+    {
+      title: 'Protocol deep-dive',
+      description: 'In-depth look at a DeFi protocol: TVL, chains, fees, revenue, yields and token',
+      argsSchema: {
+        protocol: z.string().describe("DefiLlama protocol slug (e.g., 'aave', 'uniswap', 'lido')"),
+      },
+    },
+    ({ protocol }) =>
+      userMessage(`Do a deep-dive on the DeFi protocol "${protocol}" (DefiLlama slug).
+
+Call these tools in order:
+1. get_protocol_info for ${protocol}, for its description, category and TVL broken down by chain.
+2. get_protocol_tvl for ${protocol}, for the current headline TVL.
+3. get_protocol_fees for ${protocol}, for fees and revenue.
+4. get_top_yields, filtered to this protocol's pools where possible, for yield opportunities.
+5. If the protocol has a governance token, look it up with search_tokens and then get_coin_details, for market cap, FDV and price history.
+6. If it is a DEX, also call get_dex_protocol for ${protocol}.
+
+Then summarise:
+- What the protocol does, and where its TVL sits by chain
+- Its TVL trend
+- Fees against revenue, and the valuation implied by token market cap relative to revenue
+- Notable risks
+
+Cite the data source of each figure.`)
+  );
+
+  server.registerPrompt(
+    'investigate_failed_tx',
+    {
+      title: 'Investigate a failed transaction',
+      description: 'Work out why a transaction reverted or failed',
+      argsSchema: {
+        txhash: z.string().describe('Transaction hash (0x...)'),
+        chain: z.string().optional().describe('Chain name or ID (default: ethereum)'),
+      },
+    },
+    ({ txhash, chain }) => {
+      const chainArg = chain ? ` with chain "${chain}"` : '';
+      return userMessage(`Investigate why transaction ${txhash}${chain ? ` on ${chain}` : ''} failed.
+
+Call these tools in order:
+1. get_tx_status for ${txhash}${chainArg}, for the success or failure flag and any error description.
+2. get_transaction for ${txhash}${chainArg}, for the sender, target, value, calldata, gas limit and nonce.
+3. get_tx_receipt for ${txhash}${chainArg}, for gas used compared with the gas limit, and for the emitted logs.
+4. get_contract_source for the target contract (the transaction's "to" address), to identify the function being called from the first 4 bytes of calldata.
+5. get_block${chainArg} for the transaction's block, for its base fee and context.
+
+Then explain the most likely cause, for example: out of gas (gas used equals the gas limit), a revert reason, slippage or deadline checks, insufficient allowance or balance, or a nonce or fee problem. Say what the sender would need to change for the transaction to succeed.`);
+    }
+  );
+}
@@ -0,0 +1,119 @@
+// MCP resources - chain data addressable by URI so clients can attach it as context
+import { McpServer, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Variables } from '@modelcontextprotocol/sdk/shared/uriTemplate.js';
+
+import * as etherscan from './adapters/etherscan.js';
+import * as router from './router/index.js';
+import { FOREVER } from './utils/cache.js';
+import { blockTtl, txTtl } from './utils/finality.js';
+
+const JSON_MIME = 'application/json';
+
+// Template variables can arrive as arrays for exploded parts; we only use simple ones
+function variable(variables: Variables, name: string): string {
+  const value = variables[name];
+  return decodeURIComponent(Array.isArray(value) ? value[0] : value);
+}
+
+function completeChain(value: string): string[] {
+  const q = value.toLowerCase();
+  return etherscan.getSupportedChains().filter((c) => c.startsWith(q));
+}
+
+// Blocks and transactions past any reorg never change, so clients may cache them
+// indefinitely. The finality rules are the cache's: immutable when it would keep them forever.
+function jsonContents(uri: URL, data: unknown, immutable = false) {
+  return {
+    contents: [
+      {
+        uri: uri.href,
+        mimeType: JSON_MIME,
+        text: JSON.stringify(data, null, 2),
+        ...(immutable ? { _meta: { immutable: true } } : {}),
+      },
+    ],
+  };
+}
+
+export function registerResources(server: McpServer): void {
+  server.registerResource(
+    'chains',
+    'eth://chains',
+    {
+      title: 'Supported chains',
+      description: 'All chains supported by the Etherscan V2 API, with their chain IDs',
+      mimeType: JSON_MIME,
+    },
+    async (uri) => jsonContents(uri, etherscan.SUPPORTED_CHAINS)
+  );
+
+  server.registerResource(
+    'block',
+    new ResourceTemplate('eth://{chain}/block/{number}', {
+      list: undefined,
+      complete: { chain: completeChain },
+    }),
+    {
+      title: 'Block',
+      description:
+        'Block header and transaction hashes by number (decimal or hex) or tag (latest, finalized, ...)',
+      mimeType: JSON_MIME,
+    },
+    async (uri, variables) => {
+      const chain = variable(variables, 'chain');
+      const raw = variable(variables, 'number');
+      const blockNumber = /^\d+$/.test(raw) ? parseInt(raw, 10) : raw;
+      const { result: block } = await router.getBlock(blockNumber, false, chain);
+      if (!block) {
+        throw new Error(`Block ${raw} not found on ${chain}`);
+      }
+      return jsonContents(uri, block, blockTtl(blockNumber, block) === FOREVER);
+    }
+  );
+
+  server.registerResource(
+    'transaction',
+    new ResourceTemplate('eth://{chain}/tx/{hash}', {
+      list: undefined,
+      complete: { chain: completeChain },
+    }),
+    {
+      title: 'Transaction',
+      description: 'Transaction details by hash',
+      mimeType: JSON_MIME,
+    },
+    async (uri, variables) => {
+      const chain = variable(variables, 'chain');
+      const hash = variable(variables, 'hash');
+      const { result: tx } = await router.getTransaction(hash, chain);
+      if (!tx) {
+        throw new Error(`Transaction ${hash} not found on ${chain}`);
+      }
+      // Pending transactions, and those in recent blocks, may still be replaced or reorged
+      const ttl = await txTtl(tx, async () => (await router.getBlockNumber(chain)).result);
+      return jsonContents(uri, tx, ttl === FOREVER);
+    }
+  );
+
+  server.registerResource(
+    'contract-abi',
+    new ResourceTemplate('eth://{chain}/address/{addr}/abi', {
+      list: undefined,
+      complete: { chain: completeChain },
+    }),
+    {
+      title: 'Contract ABI',
+      description: 'ABI of a verified contract (requires Etherscan API key)',
+      mimeType: JSON_MIME,
+    },
+    async (uri, variables) => {
+      const chain = variable(variables, 'chain');
+      const addr = variable(variables, 'addr');
+      const abi = await etherscan.getContractAbi(addr, false, etherscan.getChainId(chain));
+      // Etherscan returns the ABI as a JSON string; pass it through as-is
+      return {
+        contents: [{ uri: uri.href, mimeType: JSON_MIME, text: abi, _meta: { immutable: true } }],
+      };
+    }
+  );
+}
@@ -8,68 +8,245 @@
  * - Cross-source result normalization
  */
 
+import { createHash } from 'node:crypto';
+
 import * as etherscan from '../adapters/etherscan.js';
 import * as jsonrpc from '../adapters/jsonrpc.js';
 import * as defillama from '../adapters/defillama.js';
 import * as coingecko from '../adapters/coingecko.js';
 import * as growthepie from '../adapters/growthepie.js';
 import * as blobscan from '../adapters/blobscan.js';
+import { Cache, CACHE_MAX_ENTRIES, canonicalJson, TTL } from '../utils/cache.js';
+import { currentSignal, runWithSignal, timeoutSignal } from '../utils/context.js';
+import { chainName } from '../utils/chains.js';
+import {
+  CircuitBreakerPolicy,
+  getConfig,
+  RoutingCapability,
+  RoutingPolicy,
+} from '../utils/config.js';
+import { classifyError } from '../utils/errors.js';
+import { blockTagNumber } from '../utils/finality.js';
+import { CircuitStateName, log, withTrace } from '../utils/logging.js';
+import { recordSourceSkipped } from '../utils/metrics.js';
+import { nodeId } from '../utils/nodes.js';
+import { sanitizeError } from '../utils/security.js';
+import { getSession, SessionContext } from '../utils/session.js';
 
 // ============================================
 // CIRCUIT BREAKER
 // ============================================
 
+// One breaker per source, chain, capability and identity: a source failing for one chain
+// or kind of data keeps serving the others, and one session's bad API key or broken node
+// doesn't take the source away from other sessions. Answers that only turn the request
+// down (invalid input, nothing found) don't count as failures. After failureThreshold
+// consecutive failures the breaker opens and the source is skipped. Once recoveryMs has
+// passed it goes half-open and lets a single trial call through, which closes it on success
+// and reopens it on failure; other calls keep skipping the source until then.
+
+const DEFAULT_BREAKER_POLICY: Required<CircuitBreakerPolicy> = {
+  failureThreshold: 3,
+  recoveryMs: 60 * 1000,
+};
+
+// State changes kept per breaker
+const CIRCUIT_HISTORY_SIZE = 20;
+
+export interface CircuitTransition {
+  at: string;
+  from: CircuitStateName;
+  to: CircuitStateName;
+  reason: string;
+}
+
 interface CircuitState {
+  source: string;
+  chain: string;
+  capability: RoutingCapability;
+  identity: string;
+  state: CircuitStateName;
+  // Consecutive failures
   failures: number;
-  lastFailure: number;
-  isOpen: boolean;
+  openedAt: number;
+  // Start of the half-open trial call; null while none is running
+  trialStartedAt: number | null;
+  lastError: string | null;
+  history: CircuitTransition[];
 }
 
-const FAILURE_THRESHOLD = 3; // Open circuit after 3 consecutive failures
-const RECOVERY_TIME = 60 * 1000; // Try again after 60 seconds
+export interface CircuitStatus {
+  source: string;
+  chain: string;
+  capability: RoutingCapability;
+  state: CircuitStateName;
+  failures: number;
+  failureThreshold: number;
+  recoveryMs: number;
+  // When an open breaker lets its trial call through
+  retryAt: string | null;
+  lastError: string | null;
+  history: CircuitTransition[];
+}
+
+interface CircuitKey {
+  source: string;
+  chain: string;
+  capability: RoutingCapability;
+  // Who the source answers for, from sourceIdentity()
+  identity: string;
+}
 
 const circuitBreakers: Map<string, CircuitState> = new Map();
 
-function getCircuit(source: string): CircuitState {
-  if (!circuitBreakers.has(source)) {
-    circuitBreakers.set(source, { failures: 0, lastFailure: 0, isOpen: false });
+function circuitBreakerPolicy(source: string): Required<CircuitBreakerPolicy> {
+  const { circuitBreaker = {} } = getConfig();
+  return {
+    ...DEFAULT_BREAKER_POLICY,
+    ...circuitBreaker.default,
+    ...circuitBreaker[source.toLowerCase()],
+  };
+}
+
+// The session's API key for the source, hashed, or for json-rpc the session's own nodes
+// (the operator's nodes are shared by every session). Empty when the source is reached
+// the same way for everyone.
+function sourceIdentity(source: string): string {
+  const session = getSession();
+  const keys: Record<string, string> = {
+    etherscan: session.etherscanApiKey,
+    coingecko: session.coingeckoApiKey,
+    defillama: session.defillamaApiKey,
+  };
+  const name = source.toLowerCase();
+  if (name === 'json-rpc') {
+    return session.nodes
+      .filter((node) => !node.shared)
+      .map((node) => nodeId(node.url))
+      .sort()
+      .join(',');
   }
-  return circuitBreakers.get(source)!;
+  const key = keys[name];
+  return key ? createHash('sha256').update(key).digest('hex').slice(0, 12) : '';
 }
 
-function recordSuccess(source: string): void {
-  const circuit = getCircuit(source);
-  circuit.failures = 0;
-  circuit.isOpen = false;
+function circuitKey(source: string, chain: string, capability: RoutingCapability): CircuitKey {
+  return { source, chain, capability, identity: sourceIdentity(source) };
 }
 
-function recordFailure(source: string): void {
-  const circuit = getCircuit(source);
-  circuit.failures++;
-  circuit.lastFailure = Date.now();
-  if (circuit.failures >= FAILURE_THRESHOLD) {
-    circuit.isOpen = true;
+function getCircuit({ source, chain, capability, identity }: CircuitKey): CircuitState {
+  const key = `${source.toLowerCase()}:${chain}:${capability}:${identity}`;
+  let circuit = circuitBreakers.get(key);
+  if (!circuit) {
+    circuit = {
+      source: source.toLowerCase(),
+      chain,
+      capability,
+      identity,
+      state: 'closed',
+      failures: 0,
+      openedAt: 0,
+      trialStartedAt: null,
+      lastError: null,
+      history: [],
+    };
+    circuitBreakers.set(key, circuit);
   }
+  return circuit;
 }
 
-function isCircuitOpen(source: string): boolean {
-  const circuit = getCircuit(source);
-  if (!circuit.isOpen) return false;
+function transition(circuit: CircuitState, to: CircuitStateName, reason: string): void {
+  const from = circuit.state;
+  circuit.state = to;
+  circuit.history.push({ at: new Date().toISOString(), from, to, reason });
+  if (circuit.history.length > CIRCUIT_HISTORY_SIZE) circuit.history.shift();
+  log(to === 'open' ? 'warning' : 'info', {
+    event: 'circuit_state',
+    source: circuit.source,
+    chain: circuit.chain,
+    capability: circuit.capability,
+    from,
+    to,
+    reason,
+  });
+}
 
-  // Check if recovery time has passed
-  if (Date.now() - circuit.lastFailure > RECOVERY_TIME) {
-    circuit.isOpen = false; // Half-open: allow one request through
+// Whether a call may go to the source. Past the recovery time the first caller becomes the
+// half-open trial; a trial that never reports back stops blocking after another recovery time.
+function acquireCircuit(key: CircuitKey): boolean {
+  const circuit = getCircuit(key);
+  const { recoveryMs } = circuitBreakerPolicy(circuit.source);
+  const now = Date.now();
+
+  if (circuit.state === 'closed') return true;
+  if (circuit.state === 'open') {
+    if (now - circuit.openedAt < recoveryMs) return false;
+    transition(circuit, 'half-open', `Recovery time of ${recoveryMs}ms passed`);
+  } else if (circuit.trialStartedAt !== null && now - circuit.trialStartedAt < recoveryMs) {
     return false;
   }
+  circuit.trialStartedAt = now;
   return true;
 }
 
-export function getCircuitStatus(): Record<string, { isOpen: boolean; failures: number }> {
-  const status: Record<string, { isOpen: boolean; failures: number }> = {};
-  for (const [source, state] of circuitBreakers) {
-    status[source] = { isOpen: state.isOpen, failures: state.failures };
+// A cancelled trial call says nothing about the source: let the next caller try instead
+function releaseCircuit(key: CircuitKey): void {
+  getCircuit(key).trialStartedAt = null;
+}
+
+function recordSuccess(key: CircuitKey): void {
+  const circuit = getCircuit(key);
+  circuit.failures = 0;
+  circuit.trialStartedAt = null;
+  if (circuit.state !== 'closed') {
+    transition(circuit, 'closed', 'Trial call succeeded');
   }
-  return status;
+}
+
+function recordFailure(key: CircuitKey, error: string): void {
+  const circuit = getCircuit(key);
+  const { failureThreshold } = circuitBreakerPolicy(circuit.source);
+  circuit.failures++;
+  // Breakers outlive the call: keep keys out of what api_health_check and the log show
+  const message = sanitizeError(error);
+  circuit.lastError = message;
+  circuit.trialStartedAt = null;
+
+  if (circuit.state === 'half-open') {
+    circuit.openedAt = Date.now();
+    transition(circuit, 'open', `Trial call failed: ${message}`);
+  } else if (circuit.state === 'closed' && circuit.failures >= failureThreshold) {
+    circuit.openedAt = Date.now();
+    transition(circuit, 'open', `${circuit.failures} consecutive failures, last: ${message}`);
+  }
+}
+
+function circuitState(key: CircuitKey): CircuitStateName {
+  return getCircuit(key).state;
+}
+
+// The breakers the router has used for the current session's keys and nodes, with their
+// recent state changes
+export function getCircuitStatus(): CircuitStatus[] {
+  const ownCircuits = Array.from(circuitBreakers.values()).filter(
+    (circuit) => circuit.identity === sourceIdentity(circuit.source)
+  );
+  return ownCircuits.map((circuit) => {
+    const { failureThreshold, recoveryMs } = circuitBreakerPolicy(circuit.source);
+    return {
+      source: circuit.source,
+      chain: circuit.chain,
+      capability: circuit.capability,
+      state: circuit.state,
+      failures: circuit.failures,
+      failureThreshold,
+      recoveryMs,
+      retryAt:
+        circuit.state === 'open' ? new Date(circuit.openedAt + recoveryMs).toISOString() : null,
+      lastError: circuit.lastError,
+      history: [...circuit.history],
+    };
+  });
 }
 
 // ============================================
@@ -77,47 +254,240 @@ export function getCircuitStatus(): Record<string, { isOpen: boolean; failures:
 // ============================================
 
 interface FallbackOptions<T> {
+  // Picks the routing policy that orders, filters and bounds the sources
+  capability: RoutingCapability;
+  // Chain the data is for, by name or ID; defaults to the session's default chain
+  chain?: string;
   sources: Array<{
     name: string;
     fn: () => Promise<T>;
   }>;
   validate?: (result: T) => boolean;
+  // The number the policy's minValue/maxValue apply to
+  value?: (result: T) => number;
+  // Cancels the remaining sources; defaults to the signal of the current tool call
+  signal?: AbortSignal;
+  // Identifies the call so its last good result can stand in once every source has failed
+  staleKey?: string;
+}
+
+// Set on results served from an earlier call because every source failed
+export interface StaleInfo {
+  ageSeconds: number;
+  // Why no source could answer now
+  reason: string;
+}
+
+type LastResults = Cache<{ result: unknown; source: string }>;
+
+// Last good result per staleKey, kept for TTL.STALE_IF_ERROR. Kept per session: the result
+// came from that session's keys, nodes and routing policy.
+const lastResultsBySession = new WeakMap<SessionContext, LastResults>();
+
+function lastResults(): LastResults {
+  const session = getSession();
+  let results = lastResultsBySession.get(session);
+  if (!results) {
+    results = new Cache(CACHE_MAX_ENTRIES);
+    lastResultsBySession.set(session, results);
+  }
+  return results;
+}
+
+// Sources each capability can use, in their default order (by contract address, token
+// prices try DefiLlama first)
+export const ROUTING_SOURCES: Record<RoutingCapability, string[]> = {
+  ethPrice: ['etherscan', 'coingecko', 'defillama'],
+  tokenPrice: ['coingecko', 'defillama'],
+  l2Tvl: ['growthepie', 'defillama'],
+  blobStats: ['blobscan', 'growthepie'],
+  onChain: ['json-rpc', 'etherscan'],
+};
+
+// A capability's policy: the session's set_routing_policy overrides, field by field, over
+// the config file's
+export function routingPolicy(capability: RoutingCapability): RoutingPolicy {
+  return {
+    ...getConfig().routing?.policies?.[capability],
+    ...getSession().routingPolicies[capability],
+  };
+}
+
+// Sources a capability tries, in order, under its current policy
+export function routingOrder(capability: RoutingCapability): string[] {
+  const sources = ROUTING_SOURCES[capability].map((name) => ({ name, fn: async () => name }));
+  return applyRoutingPreferences(sources, routingPolicy(capability)).map(({ name }) => name);
+}
+
+// Sources the policy or the config file turns off, lowercased
+function disabledSourceNames(policy: RoutingPolicy): string[] {
+  const { disabledSources = [] } = getConfig().routing ?? {};
+  return [...(policy.disabled ?? []), ...disabledSources].map((name) => name.toLowerCase());
+}
+
+// Routing preferences: sources disabled globally or for the capability are dropped. The
+// policy's order goes first, then the global preferred sources, then the chain's own order.
+function applyRoutingPreferences<T>(
+  sources: FallbackOptions<T>['sources'],
+  policy: RoutingPolicy
+): FallbackOptions<T>['sources'] {
+  const { preferredSources = [] } = getConfig().routing ?? {};
+  const preferred = [...(policy.order ?? []), ...preferredSources].map((name) =>
+    name.toLowerCase()
+  );
+  const disabled = disabledSourceNames(policy);
+  const rank = (name: string) => {
+    const index = preferred.indexOf(name.toLowerCase());
+    return index === -1 ? preferred.length : index;
+  };
+  return sources
+    .filter(({ name }) => !disabled.includes(name.toLowerCase()))
+    .sort((a, b) => rank(a.name) - rank(b.name));
+}
+
+// Runs one source, giving up after the policy's timeout even if the source ignores its
+// signal. The caller's own cancellation still surfaces as its abort reason.
+function runSource<T>(
+  fn: () => Promise<T>,
+  signal: AbortSignal | undefined,
+  timeoutMs: number | undefined
+): Promise<T> {
+  if (!timeoutMs) return runWithSignal(signal, fn);
+  const sourceSignal = timeoutSignal(timeoutMs, signal);
+  return Promise.race([
+    runWithSignal(sourceSignal, fn),
+    new Promise<never>((_, reject) => {
+      sourceSignal.addEventListener(
+        'abort',
+        () => reject(signal?.aborted ? signal.reason : new Error(`Timed out after ${timeoutMs}ms`)),
+        { once: true }
+      );
+    }),
+  ]);
+}
+
+// The policy's bounds on the result's value, as a reason to reject it
+function outOfBounds(value: number, policy: RoutingPolicy): string | null {
+  if (policy.minValue !== undefined && value < policy.minValue) {
+    return `Validation failed: ${value} is below the policy minimum ${policy.minValue}`;
+  }
+  if (policy.maxValue !== undefined && value > policy.maxValue) {
+    return `Validation failed: ${value} is above the policy maximum ${policy.maxValue}`;
+  }
+  return null;
 }
 
 async function executeWithFallback<T>(options: FallbackOptions<T>): Promise<{
   result: T;
   source: string;
   fallbacksUsed: number;
+  stale?: StaleInfo;
 }> {
   const errors: Array<{ source: string; error: string }> = [];
+  const signal = options.signal ?? currentSignal();
+  const policy = routingPolicy(options.capability);
+  const sources = applyRoutingPreferences(options.sources, policy);
+  const chain = chainName(options.chain ?? getSession().defaultChainId);
+  let fallbackReason: string | undefined;
+
+  // Why the validator or the policy's bounds turn the result down, or null
+  const rejectionOf = (result: T): string | null => {
+    if (options.validate && !options.validate(result)) return 'Validation failed';
+    return options.value ? outOfBounds(options.value(result), policy) : null;
+  };
 
-  for (let i = 0; i < options.sources.length; i++) {
-    const { name, fn } = options.sources[i];
+  if (sources.length === 0) {
+    throw new Error(
+      `No source enabled for ${options.capability}: the routing policy disables ${options.sources.map(({ name }) => name).join(', ')}`
+    );
+  }
 
-    // Skip if circuit is open
-    if (isCircuitOpen(name)) {
-      errors.push({ source: name, error: 'Circuit breaker open' });
+  for (let i = 0; i < sources.length; i++) {
+    const { name, fn } = sources[i];
+    const circuit = circuitKey(name, chain, options.capability);
+    signal?.throwIfAborted();
+
+    // Skip while the breaker is open, or half-open with its trial call under way
+    if (!acquireCircuit(circuit)) {
+      const state = circuitState(circuit);
+      recordSourceSkipped(name, chain);
+      errors.push({ source: name, error: `Circuit breaker ${state}` });
+      log('warning', {
+        event: 'source_skipped',
+        source: name,
+        chain,
+        circuit: state,
+        fallbackReason,
+      });
+      fallbackReason = `${name}: circuit breaker ${state}`;
       continue;
     }
 
+    // Set once the source has answered, so an answer failing validation still counts
+    let answered = false;
     try {
-      const result = await fn();
+      const trace = { fallbackReason, circuit: circuitState(circuit), chain };
+      const result = await withTrace(trace, () => runSource(fn, signal, policy.timeoutMs));
+      answered = true;
 
-      // Validate result if validator provided
-      if (options.validate && !options.validate(result)) {
-        throw new Error('Validation failed');
+      const rejection = rejectionOf(result);
+      if (rejection) {
+        throw new Error(rejection);
       }
 
-      recordSuccess(name);
+      recordSuccess(circuit);
+      if (options.staleKey) {
+        lastResults().set(options.staleKey, { result, source: name }, 0, TTL.STALE_IF_ERROR);
+      }
+      if (i > 0) {
+        log('info', { event: 'fallback_used', source: name, fallbacksUsed: i, fallbackReason });
+      }
       return { result, source: name, fallbacksUsed: i };
     } catch (error: any) {
-      recordFailure(name);
-      errors.push({ source: name, error: error.message || String(error) });
+      // A cancelled call is not the source's fault: don't trip its breaker or fall back
+      if (signal?.aborted) {
+        releaseCircuit(circuit);
+        throw error;
+      }
+      const message = error.message || String(error);
+      // Turning down a bad request, or having no data for it, says nothing about the
+      // source's health
+      const reason = classifyError(error);
+      if (!answered && (reason === 'invalid_input' || reason === 'not_found')) {
+        releaseCircuit(circuit);
+      } else {
+        recordFailure(circuit, message);
+      }
+      errors.push({ source: name, error: message });
+      log('warning', {
+        event: 'source_failed',
+        source: name,
+        error: message,
+        chain,
+        circuit: circuitState(circuit),
+        fallbackReason,
+      });
+      fallbackReason = `${name}: ${message}`;
     }
   }
 
   // All sources failed
+  log('error', { event: 'all_sources_failed', errors });
   const errorSummary = errors.map((e) => `${e.source}: ${e.error}`).join('; ');
+
+  // A stale result is held to the current policy too: bounds set since it was stored, or
+  // that turned down every source's answer just now, must not be bypassed
+  const last = options.staleKey ? lastResults().getStale(options.staleKey) : undefined;
+  if (last && !rejectionOf(last.value.result as T)) {
+    const ageSeconds = Math.round(last.ageMs / 1000);
+    log('warning', { event: 'stale_served', source: last.value.source, ageSeconds });
+    return {
+      result: last.value.result as T,
+      source: last.value.source,
+      fallbacksUsed: sources.length,
+      stale: { ageSeconds, reason: `All sources failed: ${errorSummary}` },
+    };
+  }
   throw new Error(`All sources failed: ${errorSummary}`);
 }
 
@@ -132,6 +502,7 @@ export interface PriceResult {
   change24h?: number;
   marketCap?: number;
   fallbacksUsed: number;
+  stale?: StaleInfo;
 }
 
 interface NormalizedPrice {
@@ -145,7 +516,9 @@ interface NormalizedPrice {
  * Get ETH price with fallback chain: Etherscan → CoinGecko → DefiLlama
  */
 export async function getEthPrice(): Promise<PriceResult> {
-  const { result, source, fallbacksUsed } = await executeWithFallback<NormalizedPrice>({
+  const { result, source, fallbacksUsed, stale } = await executeWithFallback<NormalizedPrice>({
+    capability: 'ethPrice',
+    chain: 'ethereum',
     sources: [
       {
         name: 'etherscan',
@@ -191,9 +564,11 @@ export async function getEthPrice(): Promise<PriceResult> {
       },
     ],
     validate: (r) => r.price > 0,
+    value: (r) => r.price,
+    staleKey: 'eth-price',
   });
 
-  return { ...result, source, fallbacksUsed };
+  return { ...result, source, fallbacksUsed, stale };
 }
 
 /**
@@ -209,7 +584,9 @@ export async function getTokenPrice(
 
   if (isContract) {
     // Contract address: DefiLlama first (native format)
-    const { result, source, fallbacksUsed } = await executeWithFallback<NormalizedPrice>({
+    const { result, source, fallbacksUsed, stale } = await executeWithFallback<NormalizedPrice>({
+      capability: 'tokenPrice',
+      chain,
       sources: [
         {
           name: 'defillama',
@@ -241,11 +618,15 @@ export async function getTokenPrice(
         },
       ],
       validate: (r) => r.price > 0,
+      value: (r) => r.price,
+      staleKey: `price:${chain}:${token.toLowerCase()}`,
     });
-    return { ...result, source, fallbacksUsed };
+    return { ...result, source, fallbacksUsed, stale };
   } else {
     // Token name: CoinGecko first (better name resolution)
-    const { result, source, fallbacksUsed } = await executeWithFallback<NormalizedPrice>({
+    const { result, source, fallbacksUsed, stale } = await executeWithFallback<NormalizedPrice>({
+      capability: 'tokenPrice',
+      chain,
       sources: [
         {
           name: 'coingecko',
@@ -291,8 +672,10 @@ export async function getTokenPrice(
         },
       ],
       validate: (r) => r.price > 0,
+      value: (r) => r.price,
+      staleKey: `price:${token.toLowerCase()}`,
     });
-    return { ...result, source, fallbacksUsed };
+    return { ...result, source, fallbacksUsed, stale };
   }
 }
 
@@ -305,6 +688,7 @@ export interface TvlResult {
   source: string;
   fallbacksUsed: number;
   breakdown?: Record<string, number>;
+  stale?: StaleInfo;
 }
 
 interface NormalizedTvl {
@@ -318,7 +702,9 @@ interface NormalizedTvl {
 export async function getL2Tvl(chain: string): Promise<TvlResult> {
   const normalizedChain = chain.toLowerCase();
 
-  const { result, source, fallbacksUsed } = await executeWithFallback<NormalizedTvl>({
+  const { result, source, fallbacksUsed, stale } = await executeWithFallback<NormalizedTvl>({
+    capability: 'l2Tvl',
+    chain: normalizedChain,
     sources: [
       {
         name: 'growthepie',
@@ -345,9 +731,11 @@ export async function getL2Tvl(chain: string): Promise<TvlResult> {
       },
     ],
     validate: (r) => r.tvl >= 0,
+    value: (r) => r.tvl,
+    staleKey: `l2tvl:${normalizedChain}`,
   });
 
-  return { ...result, source, fallbacksUsed };
+  return { ...result, source, fallbacksUsed, stale };
 }
 
 /**
@@ -371,6 +759,7 @@ export interface BlobStatsResult {
   avgBlobSize: number;
   source: string;
   fallbacksUsed: number;
+  stale?: StaleInfo;
 }
 
 interface NormalizedBlobStats {
@@ -382,7 +771,9 @@ interface NormalizedBlobStats {
  * Get blob stats with fallback: Blobscan → growthepie
  */
 export async function getBlobStats(): Promise<BlobStatsResult> {
-  const { result, source, fallbacksUsed } = await executeWithFallback<NormalizedBlobStats>({
+  const { result, source, fallbacksUsed, stale } = await executeWithFallback<NormalizedBlobStats>({
+    capability: 'blobStats',
+    chain: 'ethereum',
     sources: [
       {
         name: 'blobscan',
@@ -408,9 +799,11 @@ export async function getBlobStats(): Promise<BlobStatsResult> {
       },
     ],
     validate: (r) => r.recentBlobCount >= 0,
+    value: (r) => r.recentBlobCount,
+    staleKey: 'blobstats',
   });
 
-  return { ...result, source, fallbacksUsed };
+  return { ...result, source, fallbacksUsed, stale };
 }
 
 // ============================================
@@ -430,23 +823,16 @@ function onChainSources<T>(
   const sources: Array<{ name: string; fn: () => Promise<T> }> = [];
 
   if (jsonrpc.isConfigured()) {
-    let includeJsonRpc = true;
-
-    if (requestedChain) {
-      try {
-        const requestedChainId = etherscan.getChainId(requestedChain);
-        const nodeChainId = jsonrpc.getNodeChainId();
-        if (nodeChainId && requestedChainId !== nodeChainId) {
-          includeJsonRpc = false;
-        }
-      } catch {
-        // Unknown chain name -- skip JSON-RPC, let Etherscan handle it
-        includeJsonRpc = false;
+    try {
+      // The chain asked for, or the session's default chain (set_chain), never the chain the
+      // primary node happens to be on
+      const chainId = etherscan.getChainId(requestedChain);
+      // Only when a healthy node may be on the chain; the adapter picks the best of them
+      if (jsonrpc.hasNodeFor(chainId)) {
+        sources.push({ name: 'JSON-RPC', fn: () => jsonrpc.withChain(chainId, jsonrpcFn) });
       }
-    }
-
-    if (includeJsonRpc) {
-      sources.push({ name: 'JSON-RPC', fn: jsonrpcFn });
+    } catch {
+      // Unknown chain name -- skip JSON-RPC, let Etherscan handle it
     }
   }
 
@@ -466,21 +852,27 @@ function onChainSources<T>(
   return sources;
 }
 
-export async function getBalance(address: string): Promise<OnChainResult<string>> {
+export async function getBalance(address: string, chain?: string): Promise<OnChainResult<string>> {
   const { result, source } = await executeWithFallback({
+    capability: 'onChain',
+    chain,
     sources: onChainSources(
       () => jsonrpc.getBalance(address),
-      () => etherscan.getBalance(address)
+      () => etherscan.getBalance(address, false, chain),
+      chain
     ),
   });
   return { result, source };
 }
 
-export async function getBlockNumber(): Promise<OnChainResult<number>> {
+export async function getBlockNumber(chain?: string): Promise<OnChainResult<number>> {
   const { result, source } = await executeWithFallback({
+    capability: 'onChain',
+    chain,
     sources: onChainSources(
       () => jsonrpc.getBlockNumber(),
-      () => etherscan.getBlockNumber()
+      () => etherscan.getBlockNumber(false, chain),
+      chain
     ),
   });
   return { result, source };
@@ -492,6 +884,8 @@ export async function getBlock(
   chain?: string
 ): Promise<OnChainResult<any>> {
   const { result, source } = await executeWithFallback({
+    capability: 'onChain',
+    chain,
     sources: onChainSources(
       () => jsonrpc.getBlockByNumber(blockNumber, fullTx),
       () => etherscan.getBlockByNumber(blockNumber, fullTx, false, chain),
@@ -503,6 +897,8 @@ export async function getBlock(
 
 export async function getTransaction(txhash: string, chain?: string): Promise<OnChainResult<any>> {
   const { result, source } = await executeWithFallback({
+    capability: 'onChain',
+    chain,
     sources: onChainSources(
       () => jsonrpc.getTransactionByHash(txhash),
       () => etherscan.getTransactionByHash(txhash, false, chain),
@@ -514,6 +910,8 @@ export async function getTransaction(txhash: string, chain?: string): Promise<On
 
 export async function getTransactionReceipt(txhash: string, chain?: string): Promise<OnChainResult<any>> {
   const { result, source } = await executeWithFallback({
+    capability: 'onChain',
+    chain,
     sources: onChainSources(
       () => jsonrpc.getTransactionReceipt(txhash),
       () => etherscan.getTransactionReceipt(txhash, false, chain),
@@ -530,6 +928,8 @@ export async function onChainEthCall(
   chain?: string
 ): Promise<OnChainResult<string>> {
   const { result, source } = await executeWithFallback({
+    capability: 'onChain',
+    chain,
     sources: onChainSources(
       () => jsonrpc.ethCall(to, data, tag),
       () => etherscan.ethCall(to, data, tag, false, chain),
@@ -541,6 +941,8 @@ export async function onChainEthCall(
 
 export async function getCode(address: string, chain?: string): Promise<OnChainResult<string>> {
   const { result, source } = await executeWithFallback({
+    capability: 'onChain',
+    chain,
     sources: onChainSources(
       () => jsonrpc.getCode(address),
       () => etherscan.getCode(address, 'latest', false, chain),
@@ -556,6 +958,8 @@ export async function getStorageAt(
   chain?: string
 ): Promise<OnChainResult<string>> {
   const { result, source } = await executeWithFallback({
+    capability: 'onChain',
+    chain,
     sources: onChainSources(
       () => jsonrpc.getStorageAt(address, position),
       () => etherscan.getStorageAt(address, position, 'latest', false, chain),
@@ -572,6 +976,8 @@ export async function onChainEstimateGas(
   chain?: string
 ): Promise<OnChainResult<string>> {
   const { result, source } = await executeWithFallback({
+    capability: 'onChain',
+    chain,
     sources: onChainSources(
       () => jsonrpc.estimateGas(to, data, value),
       () => etherscan.estimateGas(to, data, value, false, chain),
@@ -581,11 +987,14 @@ export async function onChainEstimateGas(
   return { result, source };
 }
 
-export async function getGasPrice(): Promise<OnChainResult<any>> {
+export async function getGasPrice(chain?: string): Promise<OnChainResult<any>> {
   const { result, source } = await executeWithFallback({
+    capability: 'onChain',
+    chain,
     sources: onChainSources(
       () => jsonrpc.getGasPrice(),
-      () => etherscan.getGasPrice()
+      () => etherscan.getGasPrice(false, chain),
+      chain
     ),
   });
   return { result, source };
@@ -602,6 +1011,8 @@ export async function onChainGetLogs(
   chain?: string
 ): Promise<OnChainResult<any[]>> {
   const { result, source } = await executeWithFallback({
+    capability: 'onChain',
+    chain,
     sources: onChainSources(
       () => jsonrpc.getLogs(address, fromBlock, toBlock, topic0, topic1, topic2, topic3),
       () => etherscan.getLogs(address, fromBlock, toBlock, topic0, topic1, topic2, topic3, false, chain),
@@ -616,6 +1027,8 @@ export async function onChainGetTransactionCount(
   chain?: string
 ): Promise<OnChainResult<number>> {
   const { result, source } = await executeWithFallback({
+    capability: 'onChain',
+    chain,
     sources: onChainSources(
       () => jsonrpc.getTransactionCount(address),
       () => etherscan.getTransactionCount(address, 'latest', false, chain),
@@ -630,6 +1043,8 @@ export async function onChainGetBalanceMulti(
   chain?: string
 ): Promise<OnChainResult<any[]>> {
   const { result, source } = await executeWithFallback({
+    capability: 'onChain',
+    chain,
     sources: onChainSources(
       () => jsonrpc.getBalanceMulti(addresses),
       () => etherscan.getBalanceMulti(addresses, false, chain),
@@ -639,6 +1054,258 @@ export async function onChainGetBalanceMulti(
   return { result, source };
 }
 
+// ============================================
+// VERIFIED READS (cross-source quorum)
+// ============================================
+
+// Asks every source (each healthy node on the chain, plus Etherscan) for the same data at
+// the same block and compares the answers. Slower than the fallback chain, and uncached
+// for the nodes, but a lagging or misbehaving source shows up instead of being trusted.
+
+export interface VerifiedRead<T> {
+  // The value most sources agree on
+  result: T | null;
+  chainId: string;
+  // Height every source was asked at
+  block: number;
+  // Every source answered and all answers match
+  agreed: boolean;
+  agreeing: number;
+  answered: number;
+  sources: Array<{
+    source: string;
+    value: T | null;
+    // Whether the value matches the result
+    agrees: boolean;
+    latencyMs: number;
+    error?: string;
+  }>;
+}
+
+interface VerifiedReadOptions<T> {
+  // Reads at a hex block tag
+  jsonrpcFn: (tag: string) => Promise<T>;
+  // Left out where Etherscan can't read at a given block
+  etherscanFn?: (tag: string, chainId: string) => Promise<T>;
+  blockTag?: string | number;
+  chain?: string;
+  // What has to match between sources; the whole value by default
+  compareBy?: (value: T) => unknown;
+}
+
+interface VerifiedSource<T> {
+  name: string;
+  head: () => Promise<number>;
+  read: (tag: string) => Promise<T>;
+}
+
+function verifiedSources<T>(
+  nodes: Awaited<ReturnType<typeof jsonrpc.healthyNodesFor>>,
+  options: VerifiedReadOptions<T>,
+  chainId: string
+): Array<VerifiedSource<T>> {
+  const disabled = disabledSourceNames(routingPolicy('onChain'));
+  const sources: Array<VerifiedSource<T>> = [];
+
+  if (!disabled.includes('json-rpc')) {
+    for (const node of nodes) {
+      sources.push({
+        name: `JSON-RPC ${nodeId(node.url)}`,
+        head: () => jsonrpc.withNode(node, () => jsonrpc.getBlockNumber(true)),
+        read: (tag) => jsonrpc.withNode(node, () => options.jsonrpcFn(tag)),
+      });
+    }
+  }
+  const { etherscanFn } = options;
+  if (etherscanFn && etherscan.isConfigured() && !disabled.includes('etherscan')) {
+    sources.push({
+      name: 'Etherscan',
+      head: () => etherscan.getBlockNumber(true, chainId),
+      read: (tag) => etherscanFn(tag, chainId),
+    });
+  }
+  return sources;
+}
+
+// Block to read at: the given one, or for "latest" the lowest head among the sources,
+// which every one of them has
+async function pinBlock<T>(
+  blockTag: string | number,
+  sources: Array<VerifiedSource<T>>
+): Promise<number> {
+  if (blockTag === 'earliest') return 0;
+  if (blockTag !== 'latest') {
+    const blockNumber = blockTagNumber(blockTag);
+    if (blockNumber === null) {
+      throw new Error(
+        `Invalid block tag for a verified read: "${blockTag}". Use "latest" or a block number.`
+      );
+    }
+    return blockNumber;
+  }
+
+  const heads = await Promise.allSettled(sources.map((source) => source.head()));
+  const known = heads.flatMap((head) => (head.status === 'fulfilled' ? [head.value] : []));
+  if (known.length === 0) {
+    throw new Error('Could not get the latest block from any source');
+  }
+  return Math.min(...known);
+}
+
+async function verifiedRead<T>(options: VerifiedReadOptions<T>): Promise<VerifiedRead<T>> {
+  const chainId = etherscan.getChainId(options.chain);
+  const nodes = await jsonrpc.healthyNodesFor(chainId);
+  const sources = verifiedSources(nodes, options, chainId);
+  if (sources.length < 2) {
+    throw new Error(
+      `A verified read needs at least two sources on chain ${chainId}, found ${sources.length}. Add nodes with add_node${options.etherscanFn ? ' or set an Etherscan API key' : ''}.`
+    );
+  }
+
+  const block = await pinBlock(options.blockTag ?? 'latest', sources);
+  const tag = `0x${block.toString(16)}`;
+  const answers = await Promise.all(
+    sources.map(async ({ name, read }) => {
+      const start = Date.now();
+      try {
+        const value = await read(tag);
+        return { source: name, value, latencyMs: Date.now() - start };
+      } catch (error: any) {
+        currentSignal()?.throwIfAborted();
+        return {
+          source: name,
+          value: null,
+          latencyMs: Date.now() - start,
+          error: error.message || String(error),
+        };
+      }
+    })
+  );
+
+  const failed = answers.filter((answer) => answer.error !== undefined);
+  if (failed.length === answers.length) {
+    throw new Error(
+      `All sources failed: ${failed.map((answer) => `${answer.source}: ${answer.error}`).join('; ')}`
+    );
+  }
+
+  // Group matching answers; the biggest group wins, ties going to the earlier source
+  const compareBy = options.compareBy ?? ((value: T) => value);
+  const keyOf = (answer: (typeof answers)[number]) =>
+    answer.error === undefined ? canonicalJson(compareBy(answer.value as T)) : null;
+  const counts = new Map<string, number>();
+  for (const answer of answers) {
+    const key = keyOf(answer);
+    if (key !== null) counts.set(key, (counts.get(key) ?? 0) + 1);
+  }
+  const [majority, agreeing] = [...counts].reduce<[string | null, number]>(
+    (best, [key, count]) => (count > best[1] ? [key, count] : best),
+    [null, 0]
+  );
+
+  const answered = answers.length - failed.length;
+  const agreed = answered === sources.length && counts.size === 1;
+  if (!agreed) {
+    log('warning', { event: 'verification_diverged', chainId, block, answered, agreeing });
+  }
+  return {
+    result: (answers.find((answer) => keyOf(answer) === majority)?.value ?? null) as T | null,
+    chainId,
+    block,
+    agreed,
+    agreeing,
+    answered,
+    sources: answers.map((answer) => ({
+      ...answer,
+      agrees: majority !== null && keyOf(answer) === majority,
+    })),
+  };
+}
+
+// Balances in wei. Etherscan's balance endpoint only reads the latest block, so balances
+// are checked between nodes only.
+export async function verifyBalance(
+  address: string,
+  blockTag: string | number = 'latest',
+  chain?: string
+): Promise<VerifiedRead<string>> {
+  return verifiedRead({
+    jsonrpcFn: (tag) => jsonrpc.getBalanceWei(address, tag),
+    blockTag,
+    chain,
+  });
+}
+
+// Blocks match by hash: nodes and Etherscan return different sets of optional fields
+export async function verifyBlock(
+  blockTag: string | number = 'latest',
+  chain?: string
+): Promise<VerifiedRead<any>> {
+  return verifiedRead({
+    jsonrpcFn: (tag) => jsonrpc.getBlockByNumber(tag),
+    etherscanFn: (tag, chainId) => etherscan.getBlockByNumber(tag, false, false, chainId),
+    blockTag,
+    chain,
+    compareBy: (block) => block?.hash ?? null,
+  });
+}
+
+export async function verifyEthCall(
+  to: string,
+  data: string,
+  blockTag: string | number = 'latest',
+  chain?: string
+): Promise<VerifiedRead<string>> {
+  return verifiedRead({
+    jsonrpcFn: (tag) => jsonrpc.ethCall(to, data, tag),
+    etherscanFn: (tag, chainId) => etherscan.ethCall(to, data, tag, false, chainId),
+    blockTag,
+    chain,
+  });
+}
+
+export async function verifyCode(
+  address: string,
+  blockTag: string | number = 'latest',
+  chain?: string
+): Promise<VerifiedRead<string>> {
+  return verifiedRead({
+    jsonrpcFn: (tag) => jsonrpc.getCode(address, tag),
+    etherscanFn: (tag, chainId) => etherscan.getCode(address, tag, false, chainId),
+    blockTag,
+    chain,
+  });
+}
+
+export async function verifyStorageAt(
+  address: string,
+  position: string,
+  blockTag: string | number = 'latest',
+  chain?: string
+): Promise<VerifiedRead<string>> {
+  return verifiedRead({
+    jsonrpcFn: (tag) => jsonrpc.getStorageAt(address, position, tag),
+    etherscanFn: (tag, chainId) =>
+      etherscan.getStorageAt(address, position, tag, false, chainId),
+    blockTag,
+    chain,
+  });
+}
+
+export async function verifyTransactionCount(
+  address: string,
+  blockTag: string | number = 'latest',
+  chain?: string
+): Promise<VerifiedRead<number>> {
+  return verifiedRead({
+    jsonrpcFn: (tag) => jsonrpc.getTransactionCount(address, tag),
+    etherscanFn: (tag, chainId) =>
+      etherscan.getTransactionCount(address, tag, false, chainId),
+    blockTag,
+    chain,
+  });
+}
+
 // ============================================
 // HEALTH CHECK
 // ============================================
@@ -650,13 +1317,17 @@ export interface HealthStatus {
   error?: string;
 }
 
+// Longest a probe may take before its source is reported down
+const HEALTH_CHECK_TIMEOUT_MS = 10 * 1000;
+
 export async function checkHealth(): Promise<HealthStatus[]> {
   const checks: Array<{ source: string; fn: () => Promise<any> }> = [];
 
   if (jsonrpc.isConfigured()) {
+    const { defaultChainId } = getSession();
     checks.push({
-      source: 'jsonrpc',
-      fn: () => jsonrpc.getBlockNumber(),
+      source: 'json-rpc',
+      fn: () => jsonrpc.withChain(defaultChainId, () => jsonrpc.getBlockNumber()),
     });
   }
 
@@ -683,28 +1354,27 @@ export async function checkHealth(): Promise<HealthStatus[]> {
     },
   );
 
-  const results: HealthStatus[] = [];
-
-  for (const check of checks) {
-    const start = Date.now();
-    try {
-      await check.fn();
-      results.push({
-        source: check.source,
-        healthy: true,
-        latencyMs: Date.now() - start,
-      });
-    } catch (error: any) {
-      results.push({
-        source: check.source,
-        healthy: false,
-        latencyMs: Date.now() - start,
-        error: error.message || String(error),
-      });
-    }
-  }
-
-  return results;
+  // All at once: a slow or hanging source fails its own probe, not the others'
+  return Promise.all(
+    checks.map(async (check): Promise<HealthStatus> => {
+      const start = Date.now();
+      try {
+        await runSource(check.fn, currentSignal(), HEALTH_CHECK_TIMEOUT_MS);
+        return {
+          source: check.source,
+          healthy: true,
+          latencyMs: Date.now() - start,
+        };
+      } catch (error: any) {
+        return {
+          source: check.source,
+          healthy: false,
+          latencyMs: Date.now() - start,
+          error: error.message || String(error),
+        };
+      }
+    })
+  );
 }
 
 // ============================================
@@ -783,3 +1453,278 @@ export async function compareEthPrice(): Promise<SourceComparison> {
 
   return { query: 'ETH Price (USD)', results };
 }
+
+// ============================================
+// PRICE CONSENSUS
+// ============================================
+
+// Asks every price source at once and takes the median. A single source's price for an
+// illiquid token is often badly off, so answers too far from the median are flagged as
+// outliers and the confidence says how many sources back the price. With fewer than three
+// current answers there is no telling which one is off, so none are flagged; two that are
+// further apart than the threshold are reported as disagreeing, with no price.
+
+export interface PriceQuery {
+  // Symbol ("ETH") or CoinGecko id ("ethereum")
+  token?: string;
+  // Contract address on `chain`
+  contract?: string;
+  chain?: string;
+}
+
+export interface PriceConsensus {
+  // CoinGecko id, or chain:contract
+  token: string;
+  // Median of the answers that are recent enough; null if none are, or if they disagree
+  price: number | null;
+  currency: string;
+  // 0 to 1: the share of sources asked that agree with the median, at most 0.5 when fewer
+  // than three could answer and 0 when they disagree
+  confidence: number;
+  outlierThresholdPct: number;
+  // Fewer than MIN_CONSENSUS_SOURCES current answers: outliers can't be told apart
+  insufficientSources: boolean;
+  // The only two current answers are further apart than outlierThresholdPct: their average
+  // would match neither, and there is no telling which one is right
+  disagreement: boolean;
+  sources: Array<{
+    source: string;
+    price: number | null;
+    // When the source last updated its price
+    timestamp: string | null;
+    deviationPct: number | null;
+    outlier: boolean;
+    // Older than an hour: shown, but left out of the median
+    stale: boolean;
+    latencyMs: number;
+    error?: string;
+  }>;
+}
+
+interface QuotedPrice {
+  price: number;
+  // Unix seconds; null when the source doesn't say
+  timestamp: number | null;
+}
+
+// Prices last updated longer ago than this don't count
+const MAX_PRICE_AGE_S = 60 * 60;
+// Current answers needed before any of them is flagged as an outlier
+const MIN_CONSENSUS_SOURCES = 3;
+// Per source, unless the routing policy sets a timeout
+const CONSENSUS_TIMEOUT_MS = 10 * 1000;
+
+// CoinGecko and DefiLlama name some chains differently from the rest of the server
+const COINGECKO_PLATFORMS: Record<string, string> = {
+  arbitrum: 'arbitrum-one',
+  optimism: 'optimistic-ethereum',
+  polygon: 'polygon-pos',
+  bnb: 'binance-smart-chain',
+};
+const DEFILLAMA_CHAINS: Record<string, string> = { bnb: 'bsc' };
+
+// Common symbols, so they don't need a CoinGecko search
+const COIN_IDS: Record<string, string> = {
+  eth: 'ethereum',
+  weth: 'weth',
+  btc: 'bitcoin',
+  usdc: 'usd-coin',
+  usdt: 'tether',
+  dai: 'dai',
+};
+
+// CoinGecko id for a symbol or id: a known symbol, an exact id match, or the largest coin
+// with that symbol. Without CoinGecko search (the tokenPrice policy disables it), the token
+// is taken as an id.
+async function resolveCoinId(token: string): Promise<string> {
+  const query = token.toLowerCase();
+  if (COIN_IDS[query]) return COIN_IDS[query];
+  if (disabledSourceNames(routingPolicy('tokenPrice')).includes('coingecko')) return query;
+  try {
+    const { coins = [] } = await coingecko.searchCoins(query);
+    const exactId = coins.find((coin: any) => coin.id === query);
+    if (exactId) return exactId.id;
+    const bySymbol = coins
+      .filter((coin: any) => coin.symbol?.toLowerCase() === query)
+      .sort((a: any, b: any) => (a.market_cap_rank ?? Infinity) - (b.market_cap_rank ?? Infinity));
+    return bySymbol[0]?.id ?? query;
+  } catch {
+    // Search unavailable: try it as an id
+    return query;
+  }
+}
+
+function defillamaQuote(data: any): QuotedPrice {
+  const coin = Object.values(data.coins || data)[0] as any;
+  if (!coin?.price) throw new Error('Token not found');
+  return { price: coin.price, timestamp: coin.timestamp ?? null };
+}
+
+async function consensusSources(
+  query: PriceQuery
+): Promise<{ token: string; sources: FallbackOptions<QuotedPrice>['sources'] }> {
+  if (query.contract) {
+    const chain = chainName(query.chain ?? 'ethereum');
+    const contract = query.contract.toLowerCase();
+    const platform = COINGECKO_PLATFORMS[chain] ?? chain;
+    return {
+      token: `${chain}:${contract}`,
+      sources: [
+        {
+          name: 'coingecko',
+          fn: async () => {
+            const data = await coingecko.getTokenPriceByContract(platform, contract);
+            const quote = data?.[contract];
+            if (!quote?.usd) throw new Error('Token not found');
+            return { price: quote.usd, timestamp: quote.last_updated_at ?? null };
+          },
+        },
+        {
+          name: 'defillama',
+          fn: async () =>
+            defillamaQuote(
+              await defillama.getCoinPrices(`${DEFILLAMA_CHAINS[chain] ?? chain}:${contract}`)
+            ),
+        },
+      ],
+    };
+  }
+
+  if (!query.token) {
+    throw new Error('Give a token symbol or id, or a contract address');
+  }
+  const id = await resolveCoinId(query.token);
+  const sources: FallbackOptions<QuotedPrice>['sources'] = [
+    {
+      name: 'coingecko',
+      fn: async () => {
+        const quote = (await coingecko.getPrice(id))[id];
+        if (!quote?.usd) throw new Error('Token not found');
+        return { price: quote.usd, timestamp: quote.last_updated_at ?? null };
+      },
+    },
+    {
+      name: 'defillama',
+      fn: async () => defillamaQuote(await defillama.getCoinPrices(`coingecko:${id}`)),
+    },
+  ];
+  if (id === 'ethereum' && etherscan.isConfigured()) {
+    sources.push({
+      name: 'etherscan',
+      fn: async () => {
+        const { usd, timestamp } = await etherscan.getEthPrice();
+        return { price: usd, timestamp: Number.isFinite(timestamp) ? timestamp : null };
+      },
+    });
+  }
+  return { token: id, sources };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Price of any token from every price source at once: the median, outliers further than
+ * outlierThresholdPct from it (given at least three current answers) or a disagreement
+ * (given two), and a confidence score. Sources disabled by the tokenPrice (or, for ETH,
+ * ethPrice) routing policy are left out.
+ */
+export async function getPriceConsensus(
+  query: PriceQuery,
+  outlierThresholdPct = 2
+): Promise<PriceConsensus> {
+  const { token, sources: allSources } = await consensusSources(query);
+  const policy = routingPolicy(token === 'ethereum' ? 'ethPrice' : 'tokenPrice');
+  const sources = applyRoutingPreferences(allSources, policy);
+  if (sources.length === 0) {
+    throw new Error('No price source enabled: the routing policy disables all of them');
+  }
+
+  const signal = currentSignal();
+  const answers = await Promise.all(
+    sources.map(async ({ name, fn }) => {
+      const start = Date.now();
+      try {
+        const quote = await runSource(fn, signal, policy.timeoutMs ?? CONSENSUS_TIMEOUT_MS);
+        return { source: name, quote, latencyMs: Date.now() - start };
+      } catch (error: any) {
+        signal?.throwIfAborted();
+        return {
+          source: name,
+          latencyMs: Date.now() - start,
+          error: error.message || String(error),
+        };
+      }
+    })
+  );
+  if (answers.every(({ quote }) => !quote)) {
+    throw new Error(
+      `All sources failed: ${answers.map((a) => `${a.source}: ${a.error}`).join('; ')}`
+    );
+  }
+
+  const now = Date.now() / 1000;
+  const isStale = (quote: QuotedPrice) =>
+    quote.timestamp !== null && now - quote.timestamp > MAX_PRICE_AGE_S;
+  const current = answers.flatMap(({ quote }) => (quote && !isStale(quote) ? [quote.price] : []));
+  const middle = current.length > 0 ? median(current) : null;
+  const insufficientSources = current.length < MIN_CONSENSUS_SOURCES;
+  const disagreement =
+    current.length === 2 &&
+    middle !== null &&
+    ((Math.max(...current) - Math.min(...current)) / middle) * 100 > outlierThresholdPct;
+  const price = disagreement ? null : middle;
+
+  const results = answers.map(({ source, quote, latencyMs, error }) => {
+    const deviationPct =
+      quote && middle !== null ? (Math.abs(quote.price - middle) / middle) * 100 : null;
+    return {
+      source,
+      price: quote?.price ?? null,
+      timestamp:
+        quote?.timestamp != null ? new Date(quote.timestamp * 1000).toISOString() : null,
+      deviationPct: deviationPct === null ? null : Math.round(deviationPct * 1000) / 1000,
+      outlier:
+        !insufficientSources && deviationPct !== null && deviationPct > outlierThresholdPct,
+      stale: quote ? isStale(quote) : false,
+      latencyMs,
+      ...(error ? { error } : {}),
+    };
+  });
+
+  const agreeing = disagreement
+    ? 0
+    : results.filter((r) => r.price !== null && !r.stale && !r.outlier).length;
+  const confidence = Math.min(agreeing / sources.length, insufficientSources ? 0.5 : 1);
+  if (disagreement) {
+    log('warning', {
+      event: 'price_disagreement',
+      token,
+      prices: results
+        .filter((r) => r.price !== null && !r.stale)
+        .map(({ source, price }) => ({ source, price })),
+    });
+  }
+  if (results.some((r) => r.outlier)) {
+    log('warning', {
+      event: 'price_outlier',
+      token,
+      median: price,
+      outliers: results.filter((r) => r.outlier).map(({ source, price }) => ({ source, price })),
+    });
+  }
+
+  return {
+    token,
+    price,
+    currency: 'USD',
+    confidence: Math.round(confidence * 100) / 100,
+    outlierThresholdPct,
+    insufficientSources,
+    disagreement,
+    sources: results,
+  };
+}
@@ -389,6 +389,52 @@ async function testRouter(): Promise<void> {
     () => router.compareEthPrice(),
     (r) => r.results.length > 0
   );
+
+  // Median across every price source
+  await runTest(
+    'getPriceConsensus("ETH")',
+    'router',
+    () => router.getPriceConsensus({ token: 'ETH' }),
+    (r) => r.price > 0 && r.sources.length > 1
+  );
+  await runTest(
+    'getPriceConsensus(WETH contract)',
+    'router',
+    () => router.getPriceConsensus({ contract: TEST_CONTRACT, chain: 'ethereum' }),
+    (r) => r.price > 0 && !r.disagreement
+  );
+
+  // Routing policies and breakers
+  await runTest(
+    'routingOrder("ethPrice")',
+    'router',
+    async () => router.routingOrder('ethPrice'),
+    (r) => Array.isArray(r) && r.length > 0
+  );
+  await runTest(
+    'getCircuitStatus',
+    'router',
+    async () => router.getCircuitStatus(),
+    (r) => Array.isArray(r) && r.every((c: any) => typeof c.state === 'string')
+  );
+
+  // Verified reads need a node and Etherscan to compare
+  if (process.env.ETH_NODE_URL && process.env.ETHERSCAN_API_KEY) {
+    await runTest(
+      'verifyBlock',
+      'router',
+      () => router.verifyBlock(TEST_BLOCK),
+      (r) => r.block === TEST_BLOCK && r.answered >= 2 && r.agreed
+    );
+    await runTest(
+      'verifyCode',
+      'router',
+      () => router.verifyCode(TEST_CONTRACT, TEST_BLOCK),
+      (r) => r.agreed && r.result?.length > 2
+    );
+  } else {
+    console.log('  [SKIP] Verified reads skipped - ETH_NODE_URL and ETHERSCAN_API_KEY needed');
+  }
 }
 
 // ============================================
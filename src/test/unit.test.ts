@@ -0,0 +1,60 @@
+/**
+ * Unit Tests
+ *
+ * Run with: npm run test:unit
+ *
+ * Tests the server's own logic against a fake fetch(), so no network or API key is
+ * needed. Each area's tests live in test/unit/; the modules under test get their own
+ * config file (see test/unit/setup.ts).
+ */
+
+import { testCircuitBreakers } from './unit/breakers.js';
+import { testCache } from './unit/cache.js';
+import { testConfig } from './unit/config.js';
+import { testPriceConsensus } from './unit/consensus.js';
+import { testDiskCache } from './unit/disk.js';
+import { testErrors } from './unit/errors.js';
+import { testFinality } from './unit/finality.js';
+import { report } from './unit/harness.js';
+import { testHttp } from './unit/http.js';
+import { testMetrics } from './unit/metrics.js';
+import { testNodes } from './unit/nodes.js';
+import { testProfiles } from './unit/profiles.js';
+import { testRateLimit } from './unit/ratelimit.js';
+import { testRetry } from './unit/retry.js';
+import { testRouting } from './unit/routing.js';
+import { testSessions } from './unit/session.js';
+import { testVerifiedReads } from './unit/verify.js';
+
+async function main(): Promise<void> {
+  console.log('===========================================================');
+  console.log('  ETHEREUM MCP - UNIT TESTS');
+  console.log('===========================================================');
+
+  const startTime = Date.now();
+
+  await testSessions();
+  await testProfiles();
+  await testErrors();
+  await testConfig();
+  await testCache();
+  await testDiskCache();
+  await testFinality();
+  await testNodes();
+  await testVerifiedReads();
+  await testRouting();
+  await testCircuitBreakers();
+  await testMetrics();
+  await testPriceConsensus();
+  await testRateLimit();
+  await testRetry();
+  // Last: see testHttp()
+  await testHttp();
+
+  report(startTime);
+}
+
+main().catch((error) => {
+  console.error('Test runner error:', error);
+  process.exit(1);
+});
@@ -0,0 +1,73 @@
+import { errorOf, mockUpstream, requests, runTest, testSession } from './harness.js';
+
+import * as router from '../../router/index.js';
+import { sleep } from '../../utils/context.js';
+import { runWithSession } from '../../utils/session.js';
+
+export async function testCircuitBreakers(): Promise<void> {
+  console.log('\n[CIRCUIT BREAKERS]');
+
+  // CoinGecko only, and a breaker that opens after 2 failures for 200ms
+  const tokenPrice = { disabled: ['defillama'] };
+  const session = testSession({
+    coingeckoApiKey: 'breaker-key',
+    routingPolicies: { tokenPrice },
+  });
+  const coingeckoBreaker = () =>
+    router
+      .getCircuitStatus()
+      .find((circuit) => circuit.source === 'coingecko' && circuit.capability === 'tokenPrice');
+
+  await runTest(
+    'opens after consecutive failures',
+    'breaker',
+    () =>
+      runWithSession(session, async () => {
+        mockUpstream(() => new Response('down', { status: 503 }));
+        await errorOf(router.getTokenPrice('breakercoin'));
+        await errorOf(router.getTokenPrice('breakercoin'));
+        return coingeckoBreaker();
+      }),
+    (r) => r?.state === 'open' && r.failures === 2
+  );
+
+  await runTest('skips the source while open', 'breaker', () =>
+    runWithSession(session, async () => {
+      mockUpstream(() => ({ breakercoin: { usd: 5 } }));
+      const error = await errorOf(router.getTokenPrice('breakercoin'));
+      return error.includes('Circuit breaker open') && requests.length === 0;
+    })
+  );
+
+  await runTest('keeps breakers per API key', 'breaker', () =>
+    runWithSession(
+      testSession({ coingeckoApiKey: 'other-key', routingPolicies: { tokenPrice } }),
+      async () => coingeckoBreaker() === undefined
+    )
+  );
+
+  await runTest('closes after a successful trial call', 'breaker', () =>
+    runWithSession(session, async () => {
+      await sleep(250);
+      mockUpstream(() => ({ breakercoin: { usd: 5 } }));
+      const { price } = await router.getTokenPrice('breakercoin');
+      const history = coingeckoBreaker()?.history.map((change) => change.to);
+      return price === 5 && history?.join(',') === 'open,half-open,closed';
+    })
+  );
+
+  await runTest(
+    'unknown tokens do not count as failures',
+    'breaker',
+    () =>
+      runWithSession(
+        testSession({ coingeckoApiKey: 'not-found-key', routingPolicies: { tokenPrice } }),
+        async () => {
+          mockUpstream(() => ({}));
+          for (let i = 0; i < 3; i++) await errorOf(router.getTokenPrice('missingcoin'));
+          return coingeckoBreaker();
+        }
+      ),
+    (r) => r?.state === 'closed' && r.failures === 0
+  );
+}
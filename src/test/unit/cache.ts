@@ -0,0 +1,95 @@
+import { errorOf, runTest } from './harness.js';
+
+import { Cache, cachedFetch, canonicalJson, requestCacheKey } from '../../utils/cache.js';
+import { runWithSignal, sleep } from '../../utils/context.js';
+
+export async function testCache(): Promise<void> {
+  console.log('\n[CACHE]');
+
+  await runTest('evicts least recently used past its size', 'cache', async () => {
+    const cache = new Cache<string>(10, 30);
+    cache.set('a', 'x'.repeat(10), 1000);
+    cache.set('b', 'x'.repeat(10), 1000);
+    cache.get('a');
+    cache.set('c', 'x'.repeat(10), 1000);
+    return cache.has('a') && !cache.has('b') && cache.has('c');
+  });
+
+  await runTest('serves a hit without fetching again', 'cache', async () => {
+    let fetches = 0;
+    const fetcher = async () => ++fetches;
+    await cachedFetch('unit:hit', 1000, fetcher);
+    const second = await cachedFetch('unit:hit', 1000, fetcher);
+    return second === 1 && fetches === 1;
+  });
+
+  await runTest('concurrent calls share one fetch', 'cache', async () => {
+    let fetches = 0;
+    const fetcher = async () => {
+      fetches++;
+      await sleep(20);
+      return 'shared';
+    };
+    const answers = await Promise.all(
+      [1, 2, 3].map(() => cachedFetch('unit:shared', 1000, fetcher))
+    );
+    return fetches === 1 && answers.every((answer) => answer === 'shared');
+  });
+
+  await runTest('a cancelled waiter stops waiting alone', 'cache', async () => {
+    const fetcher = async () => {
+      await sleep(50);
+      return 'done';
+    };
+    const first = cachedFetch('unit:cancel', 1000, fetcher);
+    const controller = new AbortController();
+    const waiter = runWithSignal(controller.signal, () =>
+      cachedFetch('unit:cancel', 1000, fetcher)
+    );
+    controller.abort(new Error('cancelled'));
+    const waiterError = await errorOf(waiter);
+    return waiterError === 'cancelled' && (await first) === 'done';
+  });
+
+  await runTest('serves stale values while refreshing in the background', 'cache', async () => {
+    let version = 0;
+    const fetcher = async () => ++version;
+    const options = { staleFor: 1000 };
+    await cachedFetch('unit:swr', 20, fetcher, false, options);
+    await sleep(40);
+    const stale = await cachedFetch('unit:swr', 20, fetcher, false, options);
+    await sleep(20);
+    const refreshed = await cachedFetch('unit:swr', 20, fetcher, false, options);
+    return stale === 1 && refreshed === 2;
+  });
+
+  await runTest('does not cache results given no TTL', 'cache', async () => {
+    let fetches = 0;
+    const options = { ttlFor: () => 0 };
+    await cachedFetch('unit:uncached', 1000, async () => ++fetches, false, options);
+    await cachedFetch('unit:uncached', 1000, async () => ++fetches, false, options);
+    return fetches === 2;
+  });
+
+  await runTest(
+    'writes the same value one way',
+    'cache',
+    async () =>
+      canonicalJson({ b: 1, a: { d: '0xABcd', c: undefined }, e: ['0xFF', 'ABC'] }) ===
+      '{"a":{"d":"0xabcd"},"b":1,"e":["0xff","ABC"]}'
+  );
+
+  await runTest('keys requests by everything that shapes the answer', 'cache', async () => {
+    const key = (endpoint: string, params: unknown, chain?: string) =>
+      requestCacheKey('unit', endpoint, params, chain);
+    const base = key('account/balance', { address: '0xAB', tag: 'latest' }, '1');
+    return (
+      base.startsWith('unit:1:account/balance:') &&
+      base === key('account/balance', { tag: 'latest', address: '0xab', page: undefined }, '1') &&
+      base !== key('account/balance', { address: '0xab', tag: 'pending' }, '1') &&
+      base !== key('account/balance', { address: '0xab', tag: 'latest' }, '8453') &&
+      key('/prices?coins=a&span=1', {}) === key('/prices?span=1&coins=a', {}) &&
+      key('/prices?coins=a', {}) !== key('/prices?coins=b', {})
+    );
+  });
+}
@@ -0,0 +1,94 @@
+import { errorOf, runTest } from './harness.js';
+import { tmpDir } from './setup.js';
+
+import { spawnSync } from 'node:child_process';
+import { readFileSync, statSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+import {
+  configPath,
+  configuredNodes,
+  getConfig,
+  getConfigStatus,
+  updateConfig,
+} from '../../utils/config.js';
+
+// getConfigStatus() in a fresh process reading this file, and what it printed to stderr
+function loadInChild(path: string): { status: any; stderr: string } {
+  const config = new URL('../../utils/config.js', import.meta.url).href;
+  const child = spawnSync(
+    process.execPath,
+    [
+      '--input-type=module',
+      '-e',
+      `const { getConfig, getConfigStatus } = await import(${JSON.stringify(config)});
+       console.log(JSON.stringify({ ...getConfigStatus(), config: getConfig() }));`,
+    ],
+    { env: { ...process.env, ETHEREUM_MCP_CONFIG: path }, encoding: 'utf8', timeout: 30_000 }
+  );
+  return { status: JSON.parse(child.stdout), stderr: child.stderr };
+}
+
+// Must run before testHttp(), which turns config writes off
+export async function testConfig(): Promise<void> {
+  console.log('\n[CONFIG]');
+
+  await runTest('loads the config file', 'config', async () => {
+    const status = getConfigStatus();
+    return (
+      status.exists &&
+      status.error === null &&
+      getConfig().retry?.default?.baseDelayMs === 1 &&
+      getConfig().rateLimits?.unittest?.burst === 2
+    );
+  });
+
+  await runTest('saves edits, keeping keys it does not know', 'config', async () => {
+    await updateConfig((config) => {
+      config.nodes = { base: 'http://base-node.test' };
+      config.futureSetting = { enabled: true };
+    });
+    try {
+      const saved = JSON.parse(readFileSync(configPath(), 'utf8'));
+      const nodes = configuredNodes();
+      return (
+        saved.futureSetting?.enabled === true &&
+        saved.retry.default.baseDelayMs === 1 &&
+        (statSync(configPath()).mode & 0o777) === 0o600 &&
+        nodes.length === 1 &&
+        nodes[0].url === 'http://base-node.test' &&
+        nodes[0].chainId === '8453'
+      );
+    } finally {
+      await updateConfig((config) => {
+        delete config.nodes;
+        delete config.futureSetting;
+      });
+    }
+  });
+
+  await runTest('refuses an edit that breaks the schema', 'config', async () => {
+    const before = readFileSync(configPath(), 'utf8');
+    const error = await errorOf(
+      updateConfig((config) => {
+        config.defaultChain = 'narnia';
+      })
+    );
+    return (
+      error === 'Invalid config: defaultChain: Unknown chain' &&
+      readFileSync(configPath(), 'utf8') === before &&
+      getConfig().defaultChain === undefined
+    );
+  });
+
+  await runTest('ignores a broken config file and says why', 'config', async () => {
+    const path = join(tmpDir, 'broken.json');
+    writeFileSync(path, JSON.stringify({ cache: { maxMb: -1 }, keys: { etherscan: 'key' } }));
+    const { status, stderr } = loadInChild(path);
+    return (
+      stderr.includes(`Ignoring config file ${path}: cache.maxMb:`) &&
+      status.error.startsWith('cache.maxMb:') &&
+      Object.keys(status.config).length === 0
+    );
+  });
+}
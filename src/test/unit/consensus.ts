@@ -0,0 +1,106 @@
+import { mockUpstream, now, requests, runTest, testSession } from './harness.js';
+
+import * as router from '../../router/index.js';
+import { runWithSession } from '../../utils/session.js';
+
+// Prices by source, with each source's update time
+const priceUpstream =
+  (prices: { coingecko?: number; defillama?: number; etherscan?: number }, updatedAt = now()) =>
+  (url: string) => {
+    if (url.includes('coingecko.com') && url.includes('/simple/price')) {
+      const id = new URL(url).searchParams.get('ids')!;
+      return { [id]: { usd: prices.coingecko, last_updated_at: now() } };
+    }
+    if (url.includes('llama.fi')) {
+      return { coins: { any: { price: prices.defillama, timestamp: updatedAt } } };
+    }
+    if (url.includes('action=ethprice')) {
+      return {
+        status: '1',
+        message: 'OK',
+        result: { ethusd: String(prices.etherscan), ethbtc: '0.05', ethusd_timestamp: now() },
+      };
+    }
+    throw new Error(`Unexpected request to ${url}`);
+  };
+
+export async function testPriceConsensus(): Promise<void> {
+  console.log('\n[PRICE CONSENSUS]');
+
+  await runTest(
+    'flags the source far from the median',
+    'consensus',
+    () =>
+      runWithSession(testSession({ etherscanApiKey: 'consensus-key' }), async () => {
+        mockUpstream(priceUpstream({ coingecko: 3000, defillama: 3001, etherscan: 3300 }));
+        return router.getPriceConsensus({ token: 'ETH' });
+      }),
+    (r) =>
+      r.price === 3001 &&
+      !r.insufficientSources &&
+      !r.disagreement &&
+      r.confidence === 0.67 &&
+      r.sources
+        .filter((source: any) => source.outlier)
+        .map((source: any) => source.source)
+        .join() === 'etherscan'
+  );
+
+  await runTest(
+    'takes the midpoint of two sources that agree, at half confidence',
+    'consensus',
+    () =>
+      runWithSession(testSession(), async () => {
+        mockUpstream(priceUpstream({ coingecko: 1, defillama: 1.01 }));
+        return router.getPriceConsensus({ token: 'DAI' });
+      }),
+    (r) =>
+      r.price === 1.005 &&
+      r.insufficientSources &&
+      !r.disagreement &&
+      r.confidence === 0.5 &&
+      r.sources.every((source: any) => !source.outlier)
+  );
+
+  await runTest(
+    'gives no price when two sources disagree',
+    'consensus',
+    () =>
+      runWithSession(testSession(), async () => {
+        mockUpstream(priceUpstream({ coingecko: 10, defillama: 5 }));
+        return router.getPriceConsensus({ token: 'RARECOIN' });
+      }),
+    (r) =>
+      r.price === null &&
+      r.disagreement &&
+      r.confidence === 0 &&
+      r.sources.every((source: any) => !source.outlier && source.deviationPct === 33.333)
+  );
+
+  await runTest(
+    'leaves stale prices out of the median',
+    'consensus',
+    () =>
+      runWithSession(testSession(), async () => {
+        mockUpstream(priceUpstream({ coingecko: 1, defillama: 2 }, now() - 2 * 60 * 60));
+        return router.getPriceConsensus({ token: 'USDC' });
+      }),
+    (r) =>
+      r.price === 1 &&
+      !r.disagreement &&
+      r.sources.find((source: any) => source.stale)?.source === 'defillama'
+  );
+
+  await runTest('skips the CoinGecko search when CoinGecko is disabled', 'consensus', () =>
+    runWithSession(
+      testSession({ routingPolicies: { tokenPrice: { disabled: ['coingecko'] } } }),
+      async () => {
+        mockUpstream(priceUpstream({ defillama: 7 }));
+        const consensus = await router.getPriceConsensus({ token: 'SOMECOIN' });
+        return (
+          consensus.token === 'somecoin' && requests.every((url) => !url.includes('coingecko.com'))
+        );
+      }
+    )
+  );
+}
@@ -0,0 +1,90 @@
+import { mockUpstream, runTest, testSession } from './harness.js';
+import { tmpDir } from './setup.js';
+
+import { join } from 'node:path';
+
+import { getContractSourceCode } from '../../adapters/etherscan.js';
+import {
+  apiCache,
+  cachedFetch,
+  DiskCache,
+  diskCache,
+  FOREVER,
+  requestCacheKey,
+} from '../../utils/cache.js';
+import { sleep } from '../../utils/context.js';
+import { runWithSession } from '../../utils/session.js';
+
+const CONTRACT = '0x3333333333333333333333333333333333333333';
+
+// The value under key once the background disk write lands, or undefined
+async function onDisk(key: string): Promise<unknown> {
+  for (let i = 0; i < 20; i++) {
+    const value = await diskCache?.get(key);
+    if (value !== undefined) return value;
+    await sleep(10);
+  }
+  return undefined;
+}
+
+// Whether getContractSourceCode() keeps Etherscan's answer on disk
+async function sourceOnDisk(proxy: string): Promise<boolean> {
+  mockUpstream(() => ({
+    status: '1',
+    message: 'OK',
+    result: [{ ContractName: 'Token', SourceCode: 'contract Token {}', Proxy: proxy }],
+  }));
+  const address = `${CONTRACT.slice(0, -1)}${proxy}`;
+  await runWithSession(testSession({ etherscanApiKey: 'key' }), () =>
+    getContractSourceCode(address)
+  );
+  const params = { module: 'contract', action: 'getsourcecode', address };
+  return (
+    (await onDisk(requestCacheKey('etherscan', 'contract/getsourcecode', params, '1'))) !==
+    undefined
+  );
+}
+
+export async function testDiskCache(): Promise<void> {
+  console.log('\n[DISK CACHE]');
+
+  await runTest(
+    'keeps results that never change on disk',
+    'disk',
+    async () => {
+      const options = { ttlFor: () => FOREVER };
+      await cachedFetch('unit:disk', 1000, async () => ({ abi: '[]' }), false, options);
+      await onDisk('unit:disk');
+      apiCache.clear();
+      return cachedFetch(
+        'unit:disk',
+        1000,
+        async () => {
+          throw new Error('Fetched although the value is on disk');
+        },
+        false,
+        options
+      );
+    },
+    (r) => r?.abi === '[]'
+  );
+
+  await runTest('disk tier evicts least recently used past its size', 'disk', async () => {
+    const disk = new DiskCache(join(tmpDir, 'evict'), 300);
+    await disk.set('first', 'x'.repeat(100));
+    await sleep(10);
+    await disk.set('second', 'x'.repeat(100));
+    await sleep(10);
+    await disk.set('third', 'x'.repeat(100));
+    const { bytes } = await disk.usage();
+    return (
+      bytes <= 300 &&
+      (await disk.get('first')) === undefined &&
+      (await disk.get('third')) !== undefined
+    );
+  });
+
+  await runTest('keeps verified source on disk, unless it is a proxy', 'disk', async () => {
+    return (await sourceOnDisk('0')) && !(await sourceOnDisk('1'));
+  });
+}
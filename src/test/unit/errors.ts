@@ -0,0 +1,69 @@
+import { connectClient, mockUpstream, runTest } from './harness.js';
+
+import { classifyError } from '../../utils/errors.js';
+
+const ADDRESS = '0x1111111111111111111111111111111111111111';
+
+// The reason a failing get_transactions call reports, or 'ok' if it succeeds. It asks
+// Etherscan alone, where routed tools would report every source failing.
+async function transactionsReason(env: Record<string, string> = { ETHERSCAN_API_KEY: 'key' }) {
+  const client = await connectClient(env);
+  const result = await client.callTool({
+    name: 'get_transactions',
+    arguments: { address: ADDRESS },
+  });
+  return result.isError ? result._meta?.reason : 'ok';
+}
+
+export async function testErrors(): Promise<void> {
+  console.log('\n[ERROR REASONS]');
+
+  await runTest(
+    'a missing key is missing_key',
+    'errors',
+    () => {
+      mockUpstream(() => ({ status: '1', message: 'OK', result: [] }));
+      return transactionsReason({});
+    },
+    (r) => r === 'missing_key'
+  );
+
+  await runTest(
+    'an Etherscan rate limit in an HTTP 200 body is rate_limited',
+    'errors',
+    () => {
+      mockUpstream(() => ({
+        status: '0',
+        message: 'NOTOK',
+        result: 'Max rate limit reached, please use API Key for higher rate limit',
+      }));
+      return transactionsReason();
+    },
+    (r) => r === 'rate_limited'
+  );
+
+  await runTest('the HTTP status gives the reason', 'errors', async () => {
+    const reasons: unknown[] = [];
+    for (const status of [401, 404, 400, 429, 503]) {
+      mockUpstream(() => new Response('error', { status }));
+      reasons.push(await transactionsReason());
+    }
+    return reasons.join(',') === 'missing_key,not_found,invalid_input,rate_limited,upstream_down';
+  });
+
+  await runTest('a network failure is upstream_down', 'errors', async () => {
+    mockUpstream(() => {
+      throw new TypeError('fetch failed');
+    });
+    return (await transactionsReason()) === 'upstream_down';
+  });
+
+  await runTest('classifies plain messages by their wording', 'errors', async () => {
+    return (
+      classifyError(new Error('Unknown chain: solana')) === 'invalid_input' &&
+      classifyError(new Error('Contract source code not verified')) === 'not_found' &&
+      classifyError(new Error('ETH_NODE_URL not set')) === 'missing_key' &&
+      classifyError(new Error('All sources failed')) === 'upstream_down'
+    );
+  });
+}
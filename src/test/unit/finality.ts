@@ -0,0 +1,63 @@
+import { now, runTest } from './harness.js';
+
+import { FOREVER, TTL } from '../../utils/cache.js';
+import { blockTagNumber, blockTtl, tagTtl, txTtl } from '../../utils/finality.js';
+
+export async function testFinality(): Promise<void> {
+  console.log('\n[FINALITY TTLS]');
+
+  const head = async () => 1000;
+  const hex = (n: number) => `0x${n.toString(16)}`;
+
+  await runTest(
+    'parses block tags',
+    'finality',
+    async () =>
+      blockTagNumber('0x10') === 16 &&
+      blockTagNumber('16') === 16 &&
+      blockTagNumber(16) === 16 &&
+      blockTagNumber('latest') === null
+  );
+
+  await runTest('caches blocks by their age', 'finality', async () => {
+    const old = { timestamp: hex(now() - 2 * 60 * 60) };
+    const recent = { timestamp: hex(now() - 60) };
+    return (
+      blockTtl('0x1', null) === 0 &&
+      blockTtl('earliest', old) === FOREVER &&
+      blockTtl('latest', old) === TTL.HEAD &&
+      blockTtl('0x1', old) === FOREVER &&
+      blockTtl('0x1', recent) === TTL.GAS
+    );
+  });
+
+  await runTest(
+    'caches transactions once their block is final',
+    'finality',
+    async () =>
+      (await txTtl(null, head)) === 0 &&
+      (await txTtl({ blockNumber: null }, head)) === TTL.HEAD &&
+      (await txTtl({ blockNumber: hex(900) }, head)) === FOREVER &&
+      (await txTtl({ blockNumber: hex(990) }, head)) === TTL.GAS
+  );
+
+  await runTest('treats blocks as recent when the head is unknown', 'finality', async () => {
+    const unknownHead = async (): Promise<number> => {
+      throw new Error('Head unavailable');
+    };
+    return (
+      (await txTtl({ blockNumber: hex(1) }, unknownHead)) === TTL.GAS &&
+      (await tagTtl(1, unknownHead)) === TTL.GAS
+    );
+  });
+
+  await runTest(
+    'caches data at a block tag by finality',
+    'finality',
+    async () =>
+      (await tagTtl('earliest', head)) === FOREVER &&
+      (await tagTtl('latest', head)) === TTL.HEAD &&
+      (await tagTtl(900, head)) === FOREVER &&
+      (await tagTtl(hex(999), head)) === TTL.GAS
+  );
+}
@@ -0,0 +1,139 @@
+// Shared helpers for the unit tests: a result collector, sessions without keys or nodes,
+// MCP clients with a server each, and a fake fetch() answering upstream requests
+import { tmpDir } from './setup.js';
+
+import { rmSync } from 'node:fs';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+
+import { createServer, McpEnv, ToolSelection } from '../../server.js';
+import { apiCache } from '../../utils/cache.js';
+import { createSession, SessionContext } from '../../utils/session.js';
+
+interface TestResult {
+  name: string;
+  area: string;
+  passed: boolean;
+  error?: string;
+  duration: number;
+}
+
+const results: TestResult[] = [];
+
+// Passes when the validator accepts what fn returns; by default fn returns true
+export async function runTest(
+  name: string,
+  area: string,
+  fn: () => Promise<any>,
+  validator: (result: any) => boolean = (r) => r === true
+): Promise<void> {
+  const start = Date.now();
+  try {
+    const result = await fn();
+    const duration = Date.now() - start;
+
+    if (validator(result)) {
+      results.push({ name, area, passed: true, duration });
+      console.log(`  [PASS] ${name} (${duration}ms)`);
+    } else {
+      const error = `Unexpected result: ${JSON.stringify(result)?.slice(0, 200)}`;
+      results.push({ name, area, passed: false, error, duration });
+      console.log(`  [FAIL] ${name} - ${error} (${duration}ms)`);
+    }
+  } catch (error: any) {
+    const duration = Date.now() - start;
+    const errorMsg = error.message || String(error);
+    results.push({ name, area, passed: false, error: errorMsg, duration });
+    console.log(`  [FAIL] ${name} - ${errorMsg.slice(0, 60)} (${duration}ms)`);
+  }
+}
+
+// The message the promise rejects with; throws if it resolves instead
+export async function errorOf(promise: Promise<unknown>): Promise<string> {
+  try {
+    await promise;
+  } catch (error: any) {
+    return error.message || String(error);
+  }
+  throw new Error('Expected an error');
+}
+
+// A session with no keys or nodes of its own, whatever the environment holds
+export function testSession(overrides: Partial<SessionContext> = {}): SessionContext {
+  return {
+    ...createSession(),
+    etherscanApiKey: '',
+    coingeckoApiKey: '',
+    defillamaApiKey: '',
+    duneApiKey: '',
+    nodes: [],
+    ...overrides,
+  };
+}
+
+// A client connected to a server of its own, as one MCP session
+export async function connectClient(env: McpEnv = {}, tools?: ToolSelection): Promise<Client> {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createServer(env, tools).connect(serverTransport);
+  const client = new Client({ name: 'unit-test', version: '1.0.0' });
+  await client.connect(clientTransport);
+  return client;
+}
+
+// Prints the summary, removes the temp directory and exits, failing if any test failed
+export function report(startTime: number): never {
+  const totalTime = ((Date.now() - startTime) / 1000).toFixed(1);
+  const passed = results.filter((r) => r.passed);
+  const failed = results.filter((r) => !r.passed);
+
+  console.log('\n===========================================================');
+  console.log(`  Total: ${passed.length}/${results.length} passed (${totalTime}s)`);
+
+  if (failed.length > 0) {
+    console.log('\n  FAILURES:');
+    for (const f of failed) {
+      console.log(`    • ${f.area}/${f.name}: ${f.error?.slice(0, 200)}`);
+    }
+  }
+
+  console.log('===========================================================\n');
+
+  rmSync(tmpDir, { recursive: true, force: true });
+  process.exit(failed.length > 0 ? 1 : 0);
+}
+
+// ============================================
+// FAKE UPSTREAM
+// ============================================
+
+// Answers a request by URL and parsed JSON body: a Response as is, anything else as JSON
+export type UpstreamHandler = (url: string, body: any) => unknown;
+
+let upstream: UpstreamHandler = () => {
+  throw new TypeError('fetch failed');
+};
+
+// URLs requested since the last mockUpstream()
+export const requests: string[] = [];
+
+globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+  const url = String(input);
+  requests.push(url);
+  const body = typeof init?.body === 'string' ? JSON.parse(init.body) : undefined;
+  const answer = await upstream(url, body);
+  return answer instanceof Response ? answer : Response.json(answer);
+}) as typeof fetch;
+
+// Starts a test on an empty memory cache with a new upstream
+export function mockUpstream(handler: UpstreamHandler): void {
+  apiCache.clear();
+  requests.length = 0;
+  upstream = handler;
+}
+
+export function rpcAnswer(body: any, result: unknown): unknown {
+  return { jsonrpc: '2.0', id: body.id, result };
+}
+
+// Unix seconds
+export const now = () => Math.floor(Date.now() / 1000);
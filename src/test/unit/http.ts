@@ -0,0 +1,114 @@
+import { runTest } from './harness.js';
+
+import { request } from 'node:http';
+import { createServer as createNetServer } from 'node:net';
+
+import { startHttpServer } from '../../http.js';
+
+const TOKEN = 'unit-test-token';
+
+const INITIALIZE = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'unit-test', version: '1.0.0' },
+  },
+};
+
+// A port nothing listens on
+async function freePort(): Promise<number> {
+  const server = createNetServer();
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as { port: number };
+  await new Promise((resolve) => server.close(resolve));
+  return port;
+}
+
+// POSTs to /mcp with exactly these headers (fetch() would not send a foreign Host)
+function post(
+  port: number,
+  headers: Record<string, string>,
+  body: unknown
+): Promise<{ status: number; sessionId?: string }> {
+  return new Promise((resolve, reject) => {
+    const req = request(
+      {
+        host: '127.0.0.1',
+        port,
+        path: '/mcp',
+        method: 'POST',
+        headers: {
+          'content-type': 'application/json',
+          accept: 'application/json, text/event-stream',
+          ...headers,
+        },
+      },
+      (res) => {
+        const sessionId = res.headers['mcp-session-id'];
+        resolve({
+          status: res.statusCode ?? 0,
+          sessionId: typeof sessionId === 'string' ? sessionId : undefined,
+        });
+        res.destroy();
+      }
+    );
+    req.on('error', reject);
+    req.end(JSON.stringify(body));
+  });
+}
+
+// Starting the server turns off config writes and cache clearing for the whole process,
+// so these run last
+export async function testHttp(): Promise<void> {
+  console.log('\n[HTTP TRANSPORT]');
+
+  const port = await freePort();
+  await startHttpServer({ port, host: '127.0.0.1', authToken: TOKEN });
+  const host = `127.0.0.1:${port}`;
+  const auth = `Bearer ${TOKEN}`;
+
+  await runTest(
+    'refuses a Host it is not served as',
+    'http',
+    () => post(port, { host: `attacker.example:${port}`, authorization: auth }, INITIALIZE),
+    (r) => r.status === 403
+  );
+
+  await runTest(
+    'refuses a foreign Origin',
+    'http',
+    () => post(port, { host, origin: 'http://attacker.example', authorization: auth }, INITIALIZE),
+    (r) => r.status === 403
+  );
+
+  await runTest(
+    'accepts a loopback Origin',
+    'http',
+    () => post(port, { host, origin: `http://localhost:${port}`, authorization: auth }, INITIALIZE),
+    (r) => r.status === 200
+  );
+
+  await runTest('requires the bearer token', 'http', async () => {
+    const missing = await post(port, { host }, INITIALIZE);
+    const wrong = await post(port, { host, authorization: 'Bearer wrong' }, INITIALIZE);
+    return missing.status === 401 && wrong.status === 401;
+  });
+
+  await runTest(
+    'starts a session on initialize',
+    'http',
+    () => post(port, { host, authorization: auth }, INITIALIZE),
+    (r) => r.status === 200 && r.sessionId !== undefined
+  );
+
+  await runTest(
+    'refuses other requests without a session',
+    'http',
+    () =>
+      post(port, { host, authorization: auth }, { jsonrpc: '2.0', id: 2, method: 'tools/list' }),
+    (r) => r.status === 400
+  );
+}
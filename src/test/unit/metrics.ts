@@ -0,0 +1,62 @@
+import { connectClient, errorOf, mockUpstream, runTest, testSession } from './harness.js';
+
+import * as etherscan from '../../adapters/etherscan.js';
+import * as jsonrpc from '../../adapters/jsonrpc.js';
+import { getSourceStats } from '../../utils/metrics.js';
+import { runWithSession } from '../../utils/session.js';
+
+// Metrics are process-wide, so these tests keep to Optimism, which no other test uses
+const statsFor = (source: string) =>
+  getSourceStats().find((stats) => stats.source === source && stats.chain === 'optimism');
+
+export async function testMetrics(): Promise<void> {
+  console.log('\n[SOURCE METRICS]');
+
+  const session = testSession({
+    etherscanApiKey: 'metrics-key',
+    defaultChainId: '10',
+    nodes: [{ url: 'http://metrics-node.test', chainId: '10' }],
+  });
+
+  await runTest('counts an Etherscan error answer as a failed request', 'metrics', () =>
+    runWithSession(session, async () => {
+      const params = { module: 'account', action: 'txlist', address: '0x1' };
+      mockUpstream(() => ({ status: '1', message: 'OK', result: [] }));
+      await etherscan.request(params);
+      mockUpstream(() => ({ status: '0', message: 'NOTOK', result: 'Invalid API Key' }));
+      await errorOf(etherscan.request(params));
+      const stats = statsFor('etherscan');
+      return stats?.requests === 2 && stats.errors === 1 && stats.p50LatencyMs !== null;
+    })
+  );
+
+  await runTest('counts a JSON-RPC error as a failed request', 'metrics', () =>
+    runWithSession(session, async () => {
+      mockUpstream((url, body) => ({
+        jsonrpc: '2.0',
+        id: body.id,
+        error: { code: -32000, message: 'header not found' },
+      }));
+      const error = await errorOf(jsonrpc.getBlockNumber());
+      const stats = statsFor('json-rpc');
+      return error === 'header not found' && stats?.requests === 1 && stats.errors === 1;
+    })
+  );
+
+  await runTest(
+    'source_stats takes the chain by name or ID',
+    'metrics',
+    async () => {
+      const client = await connectClient();
+      const byId = await client.callTool({ name: 'source_stats', arguments: { chain: '10' } });
+      const byName = await client.callTool({
+        name: 'source_stats',
+        arguments: { chain: 'Optimism' },
+      });
+      return [byId, byName].map((result: any) =>
+        result.structuredContent.data.map((stats: any) => `${stats.source}@${stats.chain}`).join()
+      );
+    },
+    ([byId, byName]) => byId === byName && byId.includes('etherscan@optimism')
+  );
+}
@@ -0,0 +1,21 @@
+import { connectClient, mockUpstream, rpcAnswer, runTest } from './harness.js';
+
+// An Alchemy-style key: not hex, so only hiding the whole path keeps it out
+const NODE_URL = 'https://eth-mainnet.node.test/v2/Secret_Key-123';
+
+export async function testNodes(): Promise<void> {
+  console.log('\n[NODES]');
+
+  await runTest('never shows the key in a node URL', 'nodes', async () => {
+    mockUpstream((url, body) => rpcAnswer(body, body.method === 'eth_chainId' ? '0x1' : '0x64'));
+    const client = await connectClient({ ETH_NODE_URL: NODE_URL });
+    const listed = await client.callTool({ name: 'list_nodes', arguments: {} });
+    const status = await client.callTool({ name: 'talk_to_ethereum', arguments: {} });
+    const text = JSON.stringify([listed, status]);
+    return (
+      !listed.isError &&
+      text.includes('https://eth-mainnet.node.test/[REDACTED]') &&
+      !text.includes('Secret_Key')
+    );
+  });
+}
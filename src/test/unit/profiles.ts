@@ -0,0 +1,58 @@
+import { connectClient, errorOf, runTest } from './harness.js';
+
+import { checkToolSelection } from '../../tools/index.js';
+import { ToolSelection } from '../../server.js';
+
+// The names of the tools a server with this selection lists
+async function listedTools(tools: ToolSelection): Promise<string[]> {
+  const client = await connectClient({}, tools);
+  return (await client.listTools()).tools.map((tool) => tool.name);
+}
+
+export async function testProfiles(): Promise<void> {
+  console.log('\n[TOOL PROFILES]');
+
+  await runTest('a profile lists its groups and extra tools', 'profiles', async () => {
+    const names = await listedTools({ profile: 'l2' });
+    return (
+      names.includes('smart_get_l2_tvl') &&
+      names.includes('talk_to_ethereum') &&
+      !names.includes('get_eth_balance') &&
+      !names.includes('smart_get_eth_price')
+    );
+  });
+
+  await runTest('an allow list alone replaces the full profile', 'profiles', async () => {
+    const names = await listedTools({ allow: ['get_eth_balance', 'dune'] });
+    return (
+      names.includes('get_eth_balance') &&
+      names.includes('run_dune_query') &&
+      !names.includes('get_gas_price') &&
+      !names.includes('talk_to_ethereum')
+    );
+  });
+
+  await runTest('the deny list wins over the profile', 'profiles', async () => {
+    const names = await listedTools({
+      profile: 'onchain',
+      deny: ['jsonrpc', 'get_gas_price', 'verify_onchain_read'],
+    });
+    return (
+      names.includes('get_eth_balance') &&
+      !names.includes('list_nodes') &&
+      !names.includes('get_gas_price') &&
+      !names.includes('verify_onchain_read')
+    );
+  });
+
+  await runTest('refuses unknown profiles and list entries at startup', 'profiles', async () => {
+    const check = async (selection: ToolSelection) => checkToolSelection(selection);
+    const profile = await errorOf(check({ profile: 'defy' }));
+    const deny = await errorOf(check({ deny: ['get_eth_balanse'] }));
+    checkToolSelection({ profile: 'market', allow: ['get_eth_balance'], deny: ['coingecko'] });
+    return (
+      profile.startsWith('Unknown tool profile: defy') &&
+      deny === 'Unknown tools or groups in allow/deny list: get_eth_balanse'
+    );
+  });
+}
@@ -0,0 +1,57 @@
+import { errorOf, runTest } from './harness.js';
+
+import { runInBackground, runWithSignal } from '../../utils/context.js';
+import { waitForSlot } from '../../utils/ratelimit.js';
+
+export async function testRateLimit(): Promise<void> {
+  console.log('\n[RATE LIMITS]');
+
+  // unittest: 20 requests per second, bursts of 2
+  await runTest('lets a burst through, then waits for tokens', 'ratelimit', async () => {
+    const start = Date.now();
+    await waitForSlot('unittest', 'burst', 'free');
+    await waitForSlot('unittest', 'burst', 'free');
+    const burstMs = Date.now() - start;
+    await waitForSlot('unittest', 'burst', 'free');
+    const waitedMs = Date.now() - start;
+    return burstMs < 20 && waitedMs >= 40;
+  });
+
+  await runTest('keeps a bucket per API key', 'ratelimit', async () => {
+    const start = Date.now();
+    await waitForSlot('unittest', 'key-a', 'free');
+    await waitForSlot('unittest', 'key-a', 'free');
+    await waitForSlot('unittest', 'key-b', 'free');
+    return Date.now() - start < 20;
+  });
+
+  await runTest('serves tool calls before background work', 'ratelimit', async () => {
+    await waitForSlot('unittest', 'priority', 'free');
+    await waitForSlot('unittest', 'priority', 'free');
+    const order: string[] = [];
+    const background = runInBackground(() => waitForSlot('unittest', 'priority', 'free')).then(() =>
+      order.push('background')
+    );
+    const interactive = waitForSlot('unittest', 'priority', 'free').then(() =>
+      order.push('interactive')
+    );
+    await Promise.all([background, interactive]);
+    return order.join(',') === 'interactive,background';
+  });
+
+  await runTest('a cancelled caller leaves the queue', 'ratelimit', async () => {
+    await waitForSlot('unittest', 'cancel', 'free');
+    await waitForSlot('unittest', 'cancel', 'free');
+    const controller = new AbortController();
+    const waiting = runWithSignal(controller.signal, () =>
+      waitForSlot('unittest', 'cancel', 'free')
+    );
+    const queued = waitForSlot('unittest', 'cancel', 'free');
+    controller.abort(new Error('cancelled'));
+    const error = await errorOf(waiting);
+    // The token the cancelled caller would have taken goes to the one behind it
+    const start = Date.now();
+    await queued;
+    return error === 'cancelled' && Date.now() - start < 75;
+  });
+}
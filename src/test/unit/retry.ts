@@ -0,0 +1,91 @@
+import { errorOf, runTest } from './harness.js';
+
+import { UpstreamHttpError } from '../../utils/errors.js';
+import { parseRetryAfter, withRetry } from '../../utils/retry.js';
+
+// Attempts withRetry() makes before giving up on these failures (the default policy
+// allows 3), and whether it gave up
+async function attemptsFor(
+  failures: unknown[],
+  options: { idempotent?: boolean } = {}
+): Promise<{ attempts: number; failed: boolean }> {
+  let attempts = 0;
+  try {
+    await withRetry(
+      'unit',
+      async () => {
+        const failure = failures[attempts++];
+        if (failure) throw failure;
+        return 'ok';
+      },
+      options
+    );
+    return { attempts, failed: false };
+  } catch {
+    return { attempts, failed: true };
+  }
+}
+
+export async function testRetry(): Promise<void> {
+  console.log('\n[RETRIES]');
+
+  const serverError = () => new UpstreamHttpError(503, 'Service Unavailable');
+  const networkError = () => new TypeError('fetch failed');
+
+  await runTest('retries server and network errors', 'retry', async () => {
+    const recovered = await attemptsFor([serverError(), networkError()]);
+    const exhausted = await attemptsFor([serverError(), serverError(), serverError(), null]);
+    return (
+      recovered.attempts === 3 && !recovered.failed && exhausted.attempts === 3 && exhausted.failed
+    );
+  });
+
+  await runTest('fails at once on client errors and error answers', 'retry', async () => {
+    const badRequest = await attemptsFor([new UpstreamHttpError(400, 'Bad Request')]);
+    const notok = await attemptsFor([new Error('Invalid address format')]);
+    return badRequest.attempts === 1 && notok.attempts === 1;
+  });
+
+  await runTest(
+    'retries only rate limits for requests that must not run twice',
+    'retry',
+    async () => {
+      const server = await attemptsFor([serverError()], { idempotent: false });
+      const network = await attemptsFor([networkError()], { idempotent: false });
+      const rateLimited = await attemptsFor([new UpstreamHttpError(429, 'Too Many Requests')], {
+        idempotent: false,
+      });
+      return server.attempts === 1 && network.attempts === 1 && rateLimited.attempts === 2;
+    }
+  );
+
+  // The unit test policy caps delays at 5ms
+  await runTest('waits as long as Retry-After says, up to the maximum delay', 'retry', async () => {
+    let attempts = 0;
+    const start = Date.now();
+    await withRetry('unit', async () => {
+      if (attempts++ === 0) throw new UpstreamHttpError(429, 'Too Many Requests', 5);
+    });
+    const waitedMs = Date.now() - start;
+    const error = await errorOf(
+      withRetry('unit', async () => {
+        throw new UpstreamHttpError(429, 'Too Many Requests', 60_000);
+      })
+    );
+    return (
+      attempts === 2 && waitedMs >= 4 && error === 'Too Many Requests' && Date.now() - start < 100
+    );
+  });
+
+  await runTest('reads Retry-After as seconds or a date', 'retry', async () => {
+    const inTenSeconds = new Date(Date.now() + 10_000).toUTCString();
+    const fromDate = parseRetryAfter(inTenSeconds)!;
+    return (
+      parseRetryAfter('2') === 2000 &&
+      fromDate > 8000 &&
+      fromDate <= 10_000 &&
+      parseRetryAfter('soon') === undefined &&
+      parseRetryAfter(null) === undefined
+    );
+  });
+}
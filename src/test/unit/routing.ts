@@ -0,0 +1,85 @@
+import { connectClient, errorOf, mockUpstream, now, runTest, testSession } from './harness.js';
+import { tmpDir } from './setup.js';
+
+import { join } from 'node:path';
+
+import * as router from '../../router/index.js';
+import { runWithSession } from '../../utils/session.js';
+
+// A session getting ETH prices from Etherscan alone
+const etherscanOnly = (etherscanApiKey: string) =>
+  testSession({
+    etherscanApiKey,
+    routingPolicies: { ethPrice: { disabled: ['coingecko', 'defillama'] } },
+  });
+
+// Etherscan's ETH price
+const ethPriceUpstream = (ethusd: number) => () => ({
+  status: '1',
+  message: 'OK',
+  result: { ethusd: String(ethusd), ethbtc: '0.05', ethusd_timestamp: now() },
+});
+
+const failingUpstream = () => {
+  throw new TypeError('fetch failed');
+};
+
+export async function testRouting(): Promise<void> {
+  console.log('\n[ROUTING POLICIES]');
+
+  await runTest('keeps the old policy when saving the new one fails', 'routing', async () => {
+    const client = await connectClient();
+    const configFile = process.env.ETHEREUM_MCP_CONFIG;
+    // A path under a file: the config directory can't be created
+    process.env.ETHEREUM_MCP_CONFIG = join(tmpDir, 'config.json', 'config.json');
+    let failed;
+    try {
+      failed = await client.callTool({
+        name: 'set_routing_policy',
+        arguments: { capability: 'ethPrice', order: ['coingecko'], persist: true },
+      });
+    } finally {
+      process.env.ETHEREUM_MCP_CONFIG = configFile;
+    }
+    const status = await client.callTool({
+      name: 'set_routing_policy',
+      arguments: { capability: 'ethPrice' },
+    });
+    return (
+      failed.isError === true && (status.structuredContent as any)?.policy?.order === undefined
+    );
+  });
+
+  await runTest(
+    "serves the session's last good result once every source fails",
+    'routing',
+    async () => {
+      const session = etherscanOnly('stale-a');
+      mockUpstream(ethPriceUpstream(3000));
+      await runWithSession(session, () => router.getEthPrice());
+      mockUpstream(failingUpstream);
+      const stale = await runWithSession(session, () => router.getEthPrice());
+      // Another session's result is not served to this one
+      const error = await errorOf(
+        runWithSession(etherscanOnly('stale-b'), () => router.getEthPrice())
+      );
+      return (
+        stale.price === 3000 && stale.stale !== undefined && error.startsWith('All sources failed')
+      );
+    }
+  );
+
+  await runTest('holds the last good result to the current bounds', 'routing', async () => {
+    const session = etherscanOnly('stale-c');
+    mockUpstream(ethPriceUpstream(3000));
+    await runWithSession(session, () => router.getEthPrice());
+    session.routingPolicies.ethPrice = { ...session.routingPolicies.ethPrice, maxValue: 2000 };
+    mockUpstream(ethPriceUpstream(3000));
+    const rejected = await errorOf(runWithSession(session, () => router.getEthPrice()));
+    mockUpstream(failingUpstream);
+    const failed = await errorOf(runWithSession(session, () => router.getEthPrice()));
+    return (
+      rejected.includes('above the policy maximum 2000') && failed.startsWith('All sources failed')
+    );
+  });
+}
@@ -0,0 +1,76 @@
+import { connectClient, mockUpstream, requests, runTest } from './harness.js';
+
+import { sleep } from '../../utils/context.js';
+import { createSession } from '../../utils/session.js';
+
+const ADDRESS_A = '0x1111111111111111111111111111111111111111';
+const ADDRESS_B = '0x2222222222222222222222222222222222222222';
+
+// Etherscan answering every balance with 1 ETH, slowly enough for calls to overlap
+async function etherscanBalance(): Promise<unknown> {
+  await sleep(20);
+  return { status: '1', message: 'OK', result: '1000000000000000000' };
+}
+
+// The API key and chain of the request for an address
+function requestFor(address: string): { apikey: string | null; chainid: string | null } {
+  const url = new URL(requests.find((request) => request.includes(address)) ?? 'http://none');
+  return { apikey: url.searchParams.get('apikey'), chainid: url.searchParams.get('chainid') };
+}
+
+export async function testSessions(): Promise<void> {
+  console.log('\n[SESSIONS]');
+
+  await runTest('concurrent sessions use their own API keys', 'session', async () => {
+    mockUpstream(etherscanBalance);
+    const a = await connectClient({ ETHERSCAN_API_KEY: 'key-a' });
+    const b = await connectClient({ ETHERSCAN_API_KEY: 'key-b' });
+    await Promise.all([
+      a.callTool({ name: 'get_eth_balance', arguments: { address: ADDRESS_A } }),
+      b.callTool({ name: 'get_eth_balance', arguments: { address: ADDRESS_B } }),
+    ]);
+    return requestFor(ADDRESS_A).apikey === 'key-a' && requestFor(ADDRESS_B).apikey === 'key-b';
+  });
+
+  await runTest("set_chain leaves other sessions' chain alone", 'session', async () => {
+    mockUpstream(etherscanBalance);
+    const a = await connectClient({ ETHERSCAN_API_KEY: 'key-a' });
+    const b = await connectClient({ ETHERSCAN_API_KEY: 'key-b' });
+    await a.callTool({ name: 'set_chain', arguments: { chain: 'base' } });
+    await Promise.all([
+      a.callTool({ name: 'get_eth_balance', arguments: { address: ADDRESS_A } }),
+      b.callTool({ name: 'get_eth_balance', arguments: { address: ADDRESS_B } }),
+    ]);
+    return requestFor(ADDRESS_A).chainid === '8453' && requestFor(ADDRESS_B).chainid === '1';
+  });
+
+  await runTest("reports balances in the chain's native currency", 'session', async () => {
+    mockUpstream(etherscanBalance);
+    const client = await connectClient({ ETHERSCAN_API_KEY: 'key-a' });
+    await client.callTool({ name: 'set_chain', arguments: { chain: 'polygon' } });
+    const polygon = await client.callTool({
+      name: 'get_eth_balance',
+      arguments: { address: ADDRESS_A },
+    });
+    const ethereum = await client.callTool({
+      name: 'get_eth_balance',
+      arguments: { address: ADDRESS_A, chain: 'ethereum' },
+    });
+    return (
+      (polygon.structuredContent as any)?.unit === 'POL' &&
+      (ethereum.structuredContent as any)?.unit === 'ETH'
+    );
+  });
+
+  await runTest('takes keys from the connection first, then the process', 'session', async () => {
+    process.env.ETHERSCAN_API_KEY = 'from-process';
+    try {
+      return (
+        createSession({ ETHERSCAN_API_KEY: 'from-connection' }).etherscanApiKey ===
+          'from-connection' && createSession().etherscanApiKey === 'from-process'
+      );
+    } finally {
+      delete process.env.ETHERSCAN_API_KEY;
+    }
+  });
+}
@@ -0,0 +1,36 @@
+// Gives the modules under test a config file of their own, in a temp directory with the
+// disk cache under it. utils/config.ts reads the file when it loads, so this module must
+// be imported before anything else.
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+export const tmpDir = mkdtempSync(join(tmpdir(), 'ethereum-mcp-test-'));
+
+export const TEST_CONFIG = {
+  cache: { diskDir: join(tmpDir, 'cache') },
+  retry: { default: { baseDelayMs: 1, maxDelayMs: 5 } },
+  circuitBreaker: { default: { failureThreshold: 2, recoveryMs: 200 } },
+  rateLimits: {
+    etherscan: { requestsPerSecond: 1000, burst: 1000 },
+    coingecko: { requestsPerSecond: 1000, burst: 1000 },
+    unittest: { requestsPerSecond: 20, burst: 2 },
+  },
+};
+
+process.env.ETHEREUM_MCP_CONFIG = join(tmpDir, 'config.json');
+writeFileSync(process.env.ETHEREUM_MCP_CONFIG, JSON.stringify(TEST_CONFIG));
+
+// Results must not depend on the keys, node or tool selection of whoever runs the tests
+for (const name of [
+  'ETHERSCAN_API_KEY',
+  'COINGECKO_API_KEY',
+  'DEFILLAMA_API_KEY',
+  'DUNE_API_KEY',
+  'ETH_NODE_URL',
+  'MCP_TOOL_PROFILE',
+  'MCP_TOOLS_ALLOW',
+  'MCP_TOOLS_DENY',
+]) {
+  delete process.env[name];
+}
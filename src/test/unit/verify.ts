@@ -0,0 +1,83 @@
+import {
+  errorOf,
+  mockUpstream,
+  rpcAnswer,
+  runTest,
+  testSession,
+  UpstreamHandler,
+} from './harness.js';
+
+import * as router from '../../router/index.js';
+import { runWithSession } from '../../utils/session.js';
+
+const ADDRESS = '0xd8dA6BF26964aF9D7eEd9e03E53415D37aA96045';
+
+const node = (name: string) => ({ url: `http://${name}.test`, chainId: '1' });
+
+export async function testVerifiedReads(): Promise<void> {
+  console.log('\n[VERIFIED READS]');
+
+  const session = testSession({ nodes: [node('node-a'), node('node-b'), node('node-c')] });
+  // Heads and balances by node
+  const heads: Record<string, number> = { 'node-a': 100, 'node-b': 101, 'node-c': 100 };
+  const balances: Record<string, string> = { 'node-a': '0x10', 'node-b': '0x10', 'node-c': '0x11' };
+  const tags: string[] = [];
+  const nodeUpstream: UpstreamHandler = (url, body) => {
+    const name = new URL(url).hostname.replace('.test', '');
+    if (body.method === 'eth_blockNumber') return rpcAnswer(body, `0x${heads[name].toString(16)}`);
+    if (body.method === 'eth_getBalance') {
+      tags.push(body.params[1]);
+      return rpcAnswer(body, balances[name]);
+    }
+    throw new Error(`Unexpected ${body.method}`);
+  };
+
+  await runTest('reads every node at the lowest head', 'verify', () =>
+    runWithSession(session, async () => {
+      mockUpstream(nodeUpstream);
+      const read = await router.verifyBalance(ADDRESS);
+      return read.block === 100 && tags.length === 3 && tags.every((tag) => tag === '0x64');
+    })
+  );
+
+  await runTest(
+    'flags nodes that disagree, going with the majority',
+    'verify',
+    () =>
+      runWithSession(session, async () => {
+        mockUpstream(nodeUpstream);
+        return router.verifyBalance(ADDRESS, 100);
+      }),
+    (r) =>
+      !r.agreed &&
+      r.result === '16' &&
+      r.agreeing === 2 &&
+      r.answered === 3 &&
+      r.sources
+        .filter((source: any) => !source.agrees)
+        .map((source: any) => source.value)
+        .join() === '17'
+  );
+
+  await runTest(
+    'agrees when every node matches',
+    'verify',
+    () =>
+      runWithSession(testSession({ nodes: [node('node-a'), node('node-b')] }), async () => {
+        mockUpstream(nodeUpstream);
+        return router.verifyBalance(ADDRESS, 100);
+      }),
+    (r) => r.agreed && r.agreeing === 2
+  );
+
+  await runTest(
+    'needs at least two sources',
+    'verify',
+    () =>
+      runWithSession(testSession({ nodes: [node('node-a')] }), async () => {
+        mockUpstream(nodeUpstream);
+        return errorOf(router.verifyBalance(ADDRESS));
+      }),
+    (r) => r.includes('at least two sources')
+  );
+}
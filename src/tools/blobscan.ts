@@ -0,0 +1,423 @@
+// Blobscan tools - EIP-4844 blob data (free, no key)
+import { z } from 'zod';
+
+import * as blobscan from '../adapters/blobscan.js';
+import { numeric, toolResult, ToolRegistrar } from './shared.js';
+
+// ============================================
+// DATA SHAPES
+// ============================================
+
+const blobSummary = z.object({
+  hash: z.string(),
+  size: z.number().describe('Bytes'),
+  block: z.number(),
+  timestamp: z.string(),
+  txHash: z.string(),
+});
+
+// Blobscan's own block and blob objects, passed through with their other fields
+const blobscanBlock = z.looseObject({
+  number: z.number().optional(),
+  hash: z.string().optional(),
+  slot: z.number().optional(),
+  timestamp: z.string().optional(),
+  blobGasUsed: numeric.optional(),
+  blobGasPrice: numeric.optional(),
+});
+
+const blobscanBlob = z.looseObject({
+  versionedHash: z.string().optional(),
+  size: z.number().optional(),
+  blockNumber: z.number().optional(),
+  txHash: z.string().optional(),
+});
+
+export function registerBlobscanTools(tool: ToolRegistrar): void {
+  tool(
+    'get_recent_blobs',
+    'Get recent EIP-4844 blobs posted to Ethereum',
+    {
+      limit: z.number().optional().default(10).describe('Number of blobs (default: 10, max: 100)'),
+    },
+    z.array(blobSummary),
+    async ({ limit }) => {
+      const blobs = await blobscan.getFormattedRecentBlobs(limit);
+      if (blobs.length === 0) {
+        return toolResult('Unable to fetch blob data. Try again later.\n\n[Source: Blobscan]', {
+          source: 'Blobscan',
+          unit: 'bytes',
+          data: blobs,
+        });
+      }
+      const formatted = blobs.map(
+        (b, i) =>
+          `${i + 1}. Block ${b.block} | ${b.size.toLocaleString()} bytes | ${b.hash.slice(0, 18)}...`
+      );
+      return toolResult(`Recent EIP-4844 Blobs:\n\n${formatted.join('\n')}\n\n[Source: Blobscan]`, {
+        source: 'Blobscan',
+        unit: 'bytes',
+        data: blobs,
+      });
+    }
+  );
+
+  tool(
+    'get_blob',
+    'Get details for a specific blob by versioned hash',
+    {
+      hash: z.string().describe('Blob versioned hash (0x...)'),
+    },
+    blobSummary.extend({ commitment: z.string() }).nullable(),
+    async ({ hash }) => {
+      const blob = await blobscan.getFormattedBlob(hash);
+      if (!blob) {
+        return toolResult(`Blob "${hash}" not found.\n\n[Source: Blobscan]`, {
+          source: 'Blobscan',
+          unit: 'bytes',
+          data: blob,
+        });
+      }
+      return toolResult(
+        `Blob Details:\n\n- Hash: ${blob.hash}\n- Size: ${blob.size.toLocaleString()} bytes\n- Block: ${blob.block}\n- Timestamp: ${blob.timestamp}\n- Transaction: ${blob.txHash}\n- Commitment: ${blob.commitment.slice(0, 20)}...\n\n[Source: Blobscan]`,
+        { source: 'Blobscan', unit: 'bytes', data: blob }
+      );
+    }
+  );
+
+  tool(
+    'get_blob_stats',
+    'Get aggregate statistics for EIP-4844 blobs',
+    {},
+    z
+      .object({
+        totalBlobs: z.number(),
+        totalSize: z.string().describe('Formatted, e.g. "1.20 GB"'),
+        avgBlobSize: z.number().describe('Bytes'),
+        totalTransactions: z.number(),
+      })
+      .nullable(),
+    async () => {
+      const stats = await blobscan.getFormattedBlobStats();
+      if (!stats) {
+        return toolResult('Unable to fetch blob stats. Try again later.\n\n[Source: Blobscan]', {
+          source: 'Blobscan',
+          data: stats,
+        });
+      }
+      return toolResult(
+        `EIP-4844 Blob Statistics:\n\n- Total Blobs: ${stats.totalBlobs.toLocaleString()}\n- Total Size: ${stats.totalSize}\n- Avg Blob Size: ${stats.avgBlobSize.toLocaleString()} bytes\n- Total Blob Transactions: ${stats.totalTransactions.toLocaleString()}\n\n[Source: Blobscan]`,
+        { source: 'Blobscan', data: stats }
+      );
+    }
+  );
+
+  tool(
+    'get_blob_transactions',
+    'Get recent transactions that posted blobs to Ethereum',
+    {
+      limit: z
+        .number()
+        .optional()
+        .default(10)
+        .describe('Number of transactions (default: 10, max: 100)'),
+    },
+    z.array(
+      z.object({
+        hash: z.string(),
+        block: z.number(),
+        from: z.string(),
+        blobCount: z.number(),
+        timestamp: z.string(),
+      })
+    ),
+    async ({ limit }) => {
+      const txs = await blobscan.getFormattedTransactions(limit);
+      if (txs.length === 0) {
+        return toolResult(
+          'Unable to fetch blob transactions. Try again later.\n\n[Source: Blobscan]',
+          { source: 'Blobscan', data: txs }
+        );
+      }
+      const formatted = txs.map(
+        (t, i) =>
+          `${i + 1}. Block ${t.block} | ${t.blobCount} blobs | From: ${t.from.slice(0, 10)}... | ${t.hash.slice(0, 18)}...`
+      );
+      return toolResult(
+        `Recent Blob Transactions:\n\n${formatted.join('\n')}\n\n[Source: Blobscan]`,
+        { source: 'Blobscan', data: txs }
+      );
+    }
+  );
+
+  tool(
+    'get_blob_transaction',
+    'Get details for a specific blob transaction by hash',
+    {
+      hash: z.string().describe('Transaction hash (0x...)'),
+    },
+    z
+      .object({
+        hash: z.string(),
+        block: z.number(),
+        from: z.string(),
+        to: z.string(),
+        blobCount: z.number(),
+        blobGasUsed: numeric,
+        blobGasPrice: numeric.describe('Wei'),
+        timestamp: z.string(),
+      })
+      .nullable(),
+    async ({ hash }) => {
+      const tx = await blobscan.getFormattedTransaction(hash);
+      if (!tx) {
+        return toolResult(`Transaction "${hash}" not found.\n\n[Source: Blobscan]`, {
+          source: 'Blobscan',
+          data: tx,
+        });
+      }
+      return toolResult(
+        `Blob Transaction Details:\n\n- Hash: ${tx.hash}\n- Block: ${tx.block}\n- From: ${tx.from}\n- To: ${tx.to}\n- Blob Count: ${tx.blobCount}\n- Blob Gas Used: ${tx.blobGasUsed.toLocaleString()}\n- Blob Gas Price: ${tx.blobGasPrice}\n- Timestamp: ${tx.timestamp}\n\n[Source: Blobscan]`,
+        { source: 'Blobscan', data: tx }
+      );
+    }
+  );
+
+  tool(
+    'get_blob_counts',
+    'Get total counts of blobs, blocks, and transactions',
+    {},
+    z.object({ blobs: z.number(), blocks: z.number(), transactions: z.number() }),
+    async () => {
+      const counts = await blobscan.getFormattedCounts();
+      return toolResult(
+        `Blobscan Counts:\n\n- Total Blobs: ${counts.blobs.toLocaleString()}\n- Blocks with Blobs: ${counts.blocks.toLocaleString()}\n- Blob Transactions: ${counts.transactions.toLocaleString()}\n\n[Source: Blobscan]`,
+        { source: 'Blobscan', data: counts }
+      );
+    }
+  );
+
+  tool(
+    'get_blob_daily_stats',
+    'Get daily blob statistics for the most recent day',
+    {},
+    z
+      .object({
+        date: z.string(),
+        latestBlock: z.number(),
+        latestSlot: z.number(),
+        recentBlobs: z.number(),
+        recentTransactions: z.number(),
+      })
+      .nullable(),
+    async () => {
+      const stats = await blobscan.getFormattedDailyStats();
+      if (!stats) {
+        return toolResult('Unable to fetch daily stats. Try again later.\n\n[Source: Blobscan]', {
+          source: 'Blobscan',
+          data: stats,
+        });
+      }
+      return toolResult(
+        `Latest Blob Activity (${stats.date}):\n\n- Latest Block: ${stats.latestBlock.toLocaleString()}\n- Latest Slot: ${stats.latestSlot.toLocaleString()}\n- Recent Blobs: ${stats.recentBlobs}\n- Recent Transactions: ${stats.recentTransactions}\n\n[Source: Blobscan]`,
+        { source: 'Blobscan', data: stats }
+      );
+    }
+  );
+
+  tool(
+    'get_blob_block_stats',
+    'Get block-level blob statistics',
+    {},
+    z
+      .object({
+        latestBlockNumber: z.number(),
+        blobGasUsed: numeric,
+        blobGasPrice: numeric.describe('Wei'),
+      })
+      .nullable(),
+    async () => {
+      const stats = await blobscan.getFormattedBlockStats();
+      if (!stats) {
+        return toolResult('Unable to fetch block stats. Try again later.\n\n[Source: Blobscan]', {
+          source: 'Blobscan',
+          data: stats,
+        });
+      }
+      return toolResult(
+        `Latest Block Blob Info:\n\n- Latest Block: ${stats.latestBlockNumber.toLocaleString()}\n- Blob Gas Used: ${stats.blobGasUsed}\n- Blob Gas Price: ${stats.blobGasPrice} wei\n\n[Source: Blobscan]`,
+        { source: 'Blobscan', data: stats }
+      );
+    }
+  );
+
+  tool(
+    'get_blob_tx_stats',
+    'Get transaction-level blob statistics',
+    {},
+    z
+      .object({
+        recentTransactions: z.number(),
+        totalBlobs: z.number(),
+        avgBlobsPerTx: z.string(),
+      })
+      .nullable(),
+    async () => {
+      const stats = await blobscan.getFormattedTransactionStats();
+      if (!stats) {
+        return toolResult(
+          'Unable to fetch transaction stats. Try again later.\n\n[Source: Blobscan]',
+          {
+            source: 'Blobscan',
+            data: stats,
+          }
+        );
+      }
+      return toolResult(
+        `Recent Blob Transactions:\n\n- Recent Transactions: ${stats.recentTransactions}\n- Total Blobs: ${stats.totalBlobs}\n- Avg Blobs/Transaction: ${stats.avgBlobsPerTx}\n\n[Source: Blobscan]`,
+        { source: 'Blobscan', data: stats }
+      );
+    }
+  );
+
+  tool(
+    'blobscan_search',
+    'Search Blobscan for blobs, blocks, transactions, or addresses',
+    {
+      query: z
+        .string()
+        .describe('Search query (blob hash, tx hash, block number, slot, or address)'),
+    },
+    z
+      .object({
+        blobs: z.array(z.object({ hash: z.string(), block: z.number() })),
+        blocks: z.array(z.object({ number: z.number(), slot: z.number() })),
+        transactions: z.array(z.object({ hash: z.string(), block: z.number() })),
+        addresses: z.array(z.object({ address: z.string() })),
+      })
+      .nullable(),
+    async ({ query }) => {
+      const results = await blobscan.getFormattedSearch(query);
+      if (!results) {
+        return toolResult(`No results found for "${query}".\n\n[Source: Blobscan]`, {
+          source: 'Blobscan',
+          data: results,
+        });
+      }
+
+      const sections: string[] = [];
+      if (results.blobs.length > 0) {
+        sections.push(
+          `Blobs (${results.blobs.length}):\n` +
+            results.blobs.map((b) => `  - ${b.hash.slice(0, 18)}... (block ${b.block})`).join('\n')
+        );
+      }
+      if (results.blocks.length > 0) {
+        sections.push(
+          `Blocks (${results.blocks.length}):\n` +
+            results.blocks.map((b) => `  - Block ${b.number} (slot ${b.slot})`).join('\n')
+        );
+      }
+      if (results.transactions.length > 0) {
+        sections.push(
+          `Transactions (${results.transactions.length}):\n` +
+            results.transactions
+              .map((t) => `  - ${t.hash.slice(0, 18)}... (block ${t.block})`)
+              .join('\n')
+        );
+      }
+      if (results.addresses.length > 0) {
+        sections.push(
+          `Addresses (${results.addresses.length}):\n` +
+            results.addresses.map((a) => `  - ${a.address}`).join('\n')
+        );
+      }
+
+      if (sections.length === 0) {
+        return toolResult(`No results found for "${query}".\n\n[Source: Blobscan]`, {
+          source: 'Blobscan',
+          data: results,
+        });
+      }
+
+      return toolResult(
+        `Search Results for "${query}":\n\n${sections.join('\n\n')}\n\n[Source: Blobscan]`,
+        { source: 'Blobscan', data: results }
+      );
+    }
+  );
+
+  tool(
+    'get_blobs_by_address',
+    'Get blobs posted by a specific address',
+    {
+      address: z.string().describe('Ethereum address (0x...)'),
+      limit: z.number().optional().default(10).describe('Number of blobs (default: 10, max: 100)'),
+    },
+    z.array(blobscanBlob),
+    async ({ address, limit }) => {
+      const blobs = await blobscan.getBlobsByAddress(address, limit);
+      if (blobs.length === 0) {
+        return toolResult(`No blobs found for address "${address}".\n\n[Source: Blobscan]`, {
+          source: 'Blobscan',
+          unit: 'bytes',
+          data: blobs,
+        });
+      }
+      const formatted = blobs.map(
+        (b: any, i: number) =>
+          `${i + 1}. Block ${b.blockNumber || 'N/A'} | ${(b.size || 0).toLocaleString()} bytes | ${(b.versionedHash || b.hash || '').slice(0, 18)}...`
+      );
+      return toolResult(
+        `Blobs from ${address.slice(0, 10)}...:\n\n${formatted.join('\n')}\n\n[Source: Blobscan]`,
+        { source: 'Blobscan', unit: 'bytes', data: blobs }
+      );
+    }
+  );
+
+  tool(
+    'get_blob_block',
+    'Get a specific block with its blob details',
+    {
+      block: z.union([z.number(), z.string()]).describe('Block number or hash'),
+    },
+    blobscanBlock.nullable(),
+    async ({ block }) => {
+      const blockData = await blobscan.getBlockBlobs(block);
+      if (!blockData) {
+        return toolResult(`Block "${block}" not found.\n\n[Source: Blobscan]`, {
+          source: 'Blobscan',
+          data: blockData,
+        });
+      }
+      const blobCount = blockData.blobs?.length || blockData.blobsCount || 0;
+      const txCount = blockData.transactions?.length || blockData.transactionsCount || 0;
+      return toolResult(
+        `Block ${blockData.number || block}:\n\n- Slot: ${blockData.slot || 'N/A'}\n- Hash: ${blockData.hash?.slice(0, 20) || 'N/A'}...\n- Blobs: ${blobCount}\n- Transactions: ${txCount}\n- Timestamp: ${blockData.timestamp || 'N/A'}\n- Blob Gas Used: ${blockData.blobGasUsed?.toLocaleString() || 'N/A'}\n\n[Source: Blobscan]`,
+        { source: 'Blobscan', data: blockData }
+      );
+    }
+  );
+
+  tool(
+    'get_latest_blob_block',
+    'Get the latest block with blob data',
+    {},
+    blobscanBlock.nullable(),
+    async () => {
+      const block = await blobscan.getLatestBlock();
+      if (!block) {
+        return toolResult('Unable to fetch latest block. Try again later.\n\n[Source: Blobscan]', {
+          source: 'Blobscan',
+          data: block,
+        });
+      }
+      const blobCount = block.blobs?.length || block.blobsCount || 0;
+      const txCount = block.transactions?.length || block.transactionsCount || 0;
+      return toolResult(
+        `Latest Block with Blobs:\n\n- Block: ${block.number}\n- Slot: ${block.slot || 'N/A'}\n- Blobs: ${blobCount}\n- Transactions: ${txCount}\n- Blob Gas Used: ${block.blobGasUsed?.toLocaleString() || 'N/A'}\n- Timestamp: ${block.timestamp || 'N/A'}\n\n[Source: Blobscan]`,
+        { source: 'Blobscan', data: block }
+      );
+    }
+  );
+}
@@ -0,0 +1,1003 @@
+// CoinGecko tools - market data, exchanges, derivatives, NFTs (free tier + optional Pro)
+import { z } from 'zod';
+
+import * as coingecko from '../adapters/coingecko.js';
+import {
+  formatUSD,
+  toolResult,
+  keyStatus,
+  numeric,
+  persistInput,
+  persistSetting,
+  SESSION_SETTING,
+  ToolRegistrar,
+} from './shared.js';
+
+// ============================================
+// DATA SHAPES
+// ============================================
+
+// CoinGecko payloads, passed through with their other fields. Values CoinGecko may send
+// as null (ranks, supplies, prices of thinly traded coins) are nullable.
+
+// Values keyed by currency ("usd", "eth", ...)
+const byCurrency = z.record(z.string(), z.number().nullable());
+
+// [unix ms, value] points
+const chartSeries = z.array(z.tuple([z.number(), z.number()]));
+
+// /simple/price and /simple/token_price entries
+const simplePrice = z.object({
+  usd: z.number().optional(),
+  usd_24h_change: z.number().nullish().describe('Percent'),
+  usd_market_cap: z.number().nullish(),
+  last_updated_at: z.number().optional().describe('Unix seconds'),
+});
+
+const coinDetails = z.looseObject({
+  id: z.string(),
+  symbol: z.string(),
+  name: z.string(),
+  market_cap_rank: z.number().nullish(),
+  market_data: z
+    .looseObject({
+      current_price: byCurrency.optional(),
+      market_cap: byCurrency.optional(),
+      total_volume: byCurrency.optional(),
+      circulating_supply: z.number().nullish(),
+      total_supply: z.number().nullish(),
+    })
+    .optional(),
+});
+
+const ticker = z.looseObject({
+  base: z.string(),
+  target: z.string(),
+  market: z.looseObject({ name: z.string(), identifier: z.string().optional() }).optional(),
+  last: z.number().nullish(),
+  volume: z.number().nullish(),
+  converted_last: byCurrency.optional(),
+  converted_volume: byCurrency.optional(),
+  trust_score: z.string().nullish(),
+});
+
+const moverCoin = z.looseObject({
+  id: z.string(),
+  symbol: z.string(),
+  name: z.string(),
+  usd: z.number().nullish(),
+  usd_24h_vol: z.number().nullish(),
+});
+
+export function registerCoinGeckoTools(tool: ToolRegistrar): void {
+  tool(
+    'set_coingecko_key',
+    'Set CoinGecko Pro API key for higher rate limits and Pro-only features. Get one at coingecko.com/api/pricing',
+    {
+      key: z.string().describe("The user's CoinGecko Pro API key"),
+      persist: persistInput,
+    },
+    keyStatus,
+    async ({ key, persist }) => {
+      coingecko.setApiKey(key);
+      const saved = await persistSetting(persist, (config) => {
+        config.keys = { ...config.keys, coingecko: key };
+      });
+      return toolResult(
+        `CoinGecko Pro API key set. You now have access to:\n- Higher rate limits (500 req/min vs 30)\n- Top gainers/losers\n- Recently added coins\n- NFT markets & charts\n- Global market cap history${saved}`,
+        { source: 'ethereum-mcp', data: { configured: true, persisted: !!persist } }
+      );
+    },
+    SESSION_SETTING
+  );
+
+  // ============================================
+  // COINGECKO FREE TOOLS
+  // ============================================
+
+  tool(
+    'get_token_price',
+    'Get current price for a cryptocurrency by name or symbol',
+    {
+      token: z.string().describe("Token name or symbol (e.g., 'bitcoin', 'eth', 'uniswap')"),
+    },
+    simplePrice.extend({ id: z.string() }).nullable(),
+    async ({ token }) => {
+      // First try direct lookup (works for well-known tokens)
+      let prices = await coingecko.getPrice(token.toLowerCase());
+      let data = prices[token.toLowerCase()];
+      let tokenId = token.toLowerCase();
+      let tokenName = token.toUpperCase();
+
+      // If direct lookup fails, search for the token
+      if (!data) {
+        const searchResults = await coingecko.searchCoins(token);
+        if (!searchResults.coins || searchResults.coins.length === 0) {
+          return toolResult(`Token "${token}" not found.\n\n[Source: CoinGecko]`, {
+            source: 'CoinGecko',
+            data: null,
+          });
+        }
+
+        // Use the top result (usually most relevant by market cap)
+        const match = searchResults.coins[0];
+        tokenId = match.id;
+        tokenName = `${match.name} (${match.symbol.toUpperCase()})`;
+
+        // Fetch price using the correct ID
+        prices = await coingecko.getPrice(tokenId);
+        data = prices[tokenId];
+      }
+
+      if (!data) {
+        return toolResult(`Could not fetch price for "${token}".\n\n[Source: CoinGecko]`, {
+          source: 'CoinGecko',
+          data: null,
+        });
+      }
+
+      return toolResult(
+        `${tokenName} Price:\n- USD: $${data.usd?.toLocaleString() || 'N/A'}\n- 24h Change: ${data.usd_24h_change?.toFixed(2) || 'N/A'}%\n- Market Cap: ${formatUSD(data.usd_market_cap || 0)}\n\n[Source: CoinGecko]`,
+        { source: 'CoinGecko', unit: 'USD', data: { id: tokenId, ...data } }
+      );
+    }
+  );
+
+  tool(
+    'get_token_price_by_contract',
+    'Get token price by contract address on a specific platform',
+    {
+      platform: z
+        .string()
+        .describe("Platform ID (e.g., 'ethereum', 'polygon-pos', 'arbitrum-one')"),
+      address: z.string().describe('Token contract address'),
+    },
+    z.record(z.string(), simplePrice).describe('Keyed by lowercase contract address'),
+    async ({ platform, address }) => {
+      const data = await coingecko.getTokenPriceByContract(platform, address);
+      const tokenData = data[address.toLowerCase()];
+      if (!tokenData) {
+        return toolResult(`Token not found at ${address} on ${platform}\n\n[Source: CoinGecko]`, {
+          source: 'CoinGecko',
+          data: {},
+        });
+      }
+      return toolResult(
+        `Token at ${address.slice(0, 10)}... on ${platform}:\n- USD: $${tokenData.usd?.toLocaleString() || 'N/A'}\n- 24h Change: ${tokenData.usd_24h_change?.toFixed(2) || 'N/A'}%\n- Market Cap: ${formatUSD(tokenData.usd_market_cap || 0)}\n\n[Source: CoinGecko]`,
+        { source: 'CoinGecko', unit: 'USD', data }
+      );
+    }
+  );
+
+  tool(
+    'get_top_tokens',
+    'Get top cryptocurrencies by market cap',
+    {
+      limit: z.number().optional().default(20).describe('Number of results (default: 20)'),
+    },
+    z.array(
+      z.object({
+        name: z.string(),
+        symbol: z.string(),
+        price: z.number().nullable(),
+        marketCap: z.number().nullable(),
+        change24h: z.number().describe('Percent'),
+      })
+    ),
+    async ({ limit }) => {
+      const coins = await coingecko.getFormattedTopCoins(limit);
+      const formatted = coins.map(
+        (c, i) =>
+          `${i + 1}. ${c.name} (${c.symbol}): $${c.price?.toLocaleString() ?? 'N/A'} | ${(Number(c.change24h) || 0) >= 0 ? '+' : ''}${(Number(c.change24h) || 0).toFixed(2)}% | MCap: ${formatUSD(c.marketCap)}`
+      );
+      return toolResult(
+        `Top ${limit} Cryptocurrencies:\n\n${formatted.join('\n')}\n\n[Source: CoinGecko]`,
+        { source: 'CoinGecko', unit: 'USD', data: coins }
+      );
+    }
+  );
+
+  tool(
+    'get_trending_tokens',
+    'Get trending cryptocurrencies on CoinGecko',
+    {},
+    z.array(
+      z.object({ name: z.string(), symbol: z.string(), marketCapRank: z.number().nullable() })
+    ),
+    async () => {
+      const trending = await coingecko.getFormattedTrending();
+      const formatted = trending.map(
+        (c, i) => `${i + 1}. ${c.name} (${c.symbol}) - Rank #${c.marketCapRank ?? 'N/A'}`
+      );
+      return toolResult(
+        `Trending Cryptocurrencies:\n\n${formatted.join('\n')}\n\n[Source: CoinGecko]`,
+        { source: 'CoinGecko', data: trending }
+      );
+    }
+  );
+
+  tool(
+    'get_global_market',
+    'Get global cryptocurrency market statistics',
+    {},
+    z.object({
+      totalMarketCap: z.number(),
+      totalVolume24h: z.number(),
+      btcDominance: z.number().describe('Percent'),
+      ethDominance: z.number().describe('Percent'),
+      activeCryptos: z.number(),
+    }),
+    async () => {
+      const data = await coingecko.getFormattedGlobalData();
+      return toolResult(
+        `Global Crypto Market:\n\n- Total Market Cap: ${formatUSD(data.totalMarketCap)}\n- 24h Volume: ${formatUSD(data.totalVolume24h)}\n- BTC Dominance: ${(Number(data.btcDominance) || 0).toFixed(1)}%\n- ETH Dominance: ${(Number(data.ethDominance) || 0).toFixed(1)}%\n- Active Cryptocurrencies: ${(data.activeCryptos || 0).toLocaleString()}\n\n[Source: CoinGecko]`,
+        { source: 'CoinGecko', unit: 'USD', data }
+      );
+    }
+  );
+
+  tool(
+    'get_global_defi',
+    'Get global DeFi market statistics',
+    {},
+    z.object({
+      data: z.looseObject({
+        defi_market_cap: numeric,
+        eth_market_cap: numeric,
+        defi_to_eth_ratio: numeric,
+        trading_volume_24h: numeric,
+        defi_dominance: numeric.describe('Percent'),
+        top_coin_name: z.string().nullish(),
+      }),
+    }),
+    async () => {
+      const data = await coingecko.getGlobalDefiData();
+      return toolResult(
+        `Global DeFi Market:\n\n- DeFi Market Cap: ${formatUSD(data.data.defi_market_cap)}\n- ETH Market Cap: ${formatUSD(data.data.eth_market_cap)}\n- DeFi/ETH Ratio: ${Number(data.data.defi_to_eth_ratio)?.toFixed(2) || 'N/A'}%\n- 24h Trading Volume: ${formatUSD(data.data.trading_volume_24h)}\n- DeFi Dominance: ${Number(data.data.defi_dominance)?.toFixed(2) || 'N/A'}%\n\n[Source: CoinGecko]`,
+        { source: 'CoinGecko', unit: 'USD', data }
+      );
+    }
+  );
+
+  tool(
+    'search_tokens',
+    'Search for cryptocurrencies by name or symbol',
+    {
+      query: z.string().describe('Search query (token name or symbol)'),
+    },
+    z.array(
+      z.looseObject({
+        id: z.string(),
+        name: z.string(),
+        symbol: z.string(),
+        market_cap_rank: z.number().nullish(),
+      })
+    ),
+    async ({ query }) => {
+      const results = await coingecko.searchCoins(query);
+      if (!results.coins || results.coins.length === 0) {
+        return toolResult(`No tokens found matching "${query}"\n\n[Source: CoinGecko]`, {
+          source: 'CoinGecko',
+          data: [],
+        });
+      }
+      const top = results.coins.slice(0, 10);
+      const formatted = top.map(
+        (c: any) =>
+          `${c.name} (${c.symbol.toUpperCase()}) - ID: ${c.id} - Rank #${c.market_cap_rank || 'N/A'}`
+      );
+      return toolResult(
+        `Tokens matching "${query}":\n\n${formatted.join('\n')}\n\nUse the ID with get_token_price for price data.\n\n[Source: CoinGecko]`,
+        { source: 'CoinGecko', data: top }
+      );
+    }
+  );
+
+  tool(
+    'get_coin_details',
+    'Get detailed information about a cryptocurrency',
+    {
+      id: z
+        .string()
+        .describe("Coin ID (e.g., 'bitcoin', 'ethereum') - use search_tokens to find IDs"),
+    },
+    coinDetails.nullable(),
+    async ({ id }) => {
+      const data = await coingecko.getCoinDetails(id);
+      if (!data) {
+        return toolResult(`Coin "${id}" not found.\n\n[Source: CoinGecko]`, {
+          source: 'CoinGecko',
+          data: null,
+        });
+      }
+      return toolResult(
+        `${data.name} (${data.symbol?.toUpperCase()}):\n\n- Current Price: $${data.market_data?.current_price?.usd?.toLocaleString() || 'N/A'}\n- Market Cap: ${formatUSD(data.market_data?.market_cap?.usd || 0)}\n- 24h High/Low: $${data.market_data?.high_24h?.usd?.toLocaleString() || 'N/A'} / $${data.market_data?.low_24h?.usd?.toLocaleString() || 'N/A'}\n- All-Time High: $${data.market_data?.ath?.usd?.toLocaleString() || 'N/A'}\n- Circulating Supply: ${data.market_data?.circulating_supply?.toLocaleString() || 'N/A'}\n- Total Supply: ${data.market_data?.total_supply?.toLocaleString() || 'N/A'}\n- Rank: #${data.market_cap_rank || 'N/A'}\n\n[Source: CoinGecko]`,
+        { source: 'CoinGecko', data }
+      );
+    }
+  );
+
+  tool(
+    'get_coin_history',
+    'Get historical data for a coin on a specific date',
+    {
+      id: z.string().describe("Coin ID (e.g., 'bitcoin')"),
+      date: z.string().describe('Date in dd-mm-yyyy format'),
+    },
+    z
+      .looseObject({
+        id: z.string(),
+        symbol: z.string(),
+        name: z.string(),
+        market_data: z
+          .looseObject({
+            current_price: byCurrency.optional(),
+            market_cap: byCurrency.optional(),
+            total_volume: byCurrency.optional(),
+          })
+          .optional(),
+      })
+      .nullable(),
+    async ({ id, date }) => {
+      const data = await coingecko.getCoinHistory(id, date);
+      if (!data || !data.market_data) {
+        return toolResult(`No data for ${id} on ${date}.\n\n[Source: CoinGecko]`, {
+          source: 'CoinGecko',
+          data: null,
+        });
+      }
+      return toolResult(
+        `${data.name} on ${date}:\n\n- Price: $${data.market_data.current_price?.usd?.toLocaleString() || 'N/A'}\n- Market Cap: ${formatUSD(data.market_data.market_cap?.usd || 0)}\n- Volume: ${formatUSD(data.market_data.total_volume?.usd || 0)}\n\n[Source: CoinGecko]`,
+        { source: 'CoinGecko', data }
+      );
+    }
+  );
+
+  tool(
+    'get_coin_chart',
+    'Get historical price chart data for a coin',
+    {
+      id: z.string().describe("Coin ID (e.g., 'bitcoin')"),
+      days: z.number().optional().default(30).describe('Number of days (1, 7, 30, 90, 365, max)'),
+    },
+    z.object({
+      prices: chartSeries,
+      market_caps: chartSeries.optional(),
+      total_volumes: chartSeries.optional(),
+    }),
+    async ({ id, days }) => {
+      const data = await coingecko.getCoinMarketChart(id, days);
+      if (!data.prices || data.prices.length === 0) {
+        return toolResult(`No chart data for ${id}.\n\n[Source: CoinGecko]`, {
+          source: 'CoinGecko',
+          data: { prices: [] },
+        });
+      }
+      const first = data.prices[0][1];
+      const last = data.prices[data.prices.length - 1][1];
+      const change = ((last - first) / first) * 100;
+      const high = Math.max(...data.prices.map((p: any) => p[1]));
+      const low = Math.min(...data.prices.map((p: any) => p[1]));
+      return toolResult(
+        `${id.toUpperCase()} ${days}-Day Chart:\n\n- Start: $${first.toLocaleString()}\n- End: $${last.toLocaleString()}\n- Change: ${change >= 0 ? '+' : ''}${change.toFixed(2)}%\n- High: $${high.toLocaleString()}\n- Low: $${low.toLocaleString()}\n- Data points: ${data.prices.length}\n\n[Source: CoinGecko]`,
+        { source: 'CoinGecko', unit: 'USD', data }
+      );
+    }
+  );
+
+  tool(
+    'get_coin_ohlc',
+    'Get OHLC (candlestick) data for a coin',
+    {
+      id: z.string().describe("Coin ID (e.g., 'bitcoin')"),
+      days: z.number().optional().default(30).describe('Days (1, 7, 14, 30, 90, 180, 365, max)'),
+    },
+    z
+      .array(z.tuple([z.number(), z.number(), z.number(), z.number(), z.number()]))
+      .describe('[unix ms, open, high, low, close]'),
+    async ({ id, days }) => {
+      const data = await coingecko.getCoinOHLC(id, days);
+      if (!data || data.length === 0) {
+        return toolResult(`No OHLC data for ${id}.\n\n[Source: CoinGecko]`, {
+          source: 'CoinGecko',
+          data: [],
+        });
+      }
+      const recent = data.slice(-5).map((d: any) => {
+        const date = new Date(d[0]).toLocaleDateString();
+        return `${date}: O:$${d[1].toLocaleString()} H:$${d[2].toLocaleString()} L:$${d[3].toLocaleString()} C:$${d[4].toLocaleString()}`;
+      });
+      return toolResult(
+        `${id.toUpperCase()} OHLC (${days} days, last 5):\n\n${recent.join('\n')}\n\nTotal candles: ${data.length}\n\n[Source: CoinGecko]`,
+        { source: 'CoinGecko', unit: 'USD', data }
+      );
+    }
+  );
+
+  tool(
+    'get_coin_tickers',
+    'Get exchanges and trading pairs for a coin',
+    {
+      id: z.string().describe("Coin ID (e.g., 'bitcoin')"),
+    },
+    z.array(ticker),
+    async ({ id }) => {
+      const data = await coingecko.getCoinTickers(id);
+      if (!data.tickers || data.tickers.length === 0) {
+        return toolResult(`No tickers found for ${id}.\n\n[Source: CoinGecko]`, {
+          source: 'CoinGecko',
+          data: [],
+        });
+      }
+      const top = data.tickers.slice(0, 15);
+      const formatted = top.map(
+        (t: any) =>
+          `${t.market.name}: ${t.base}/${t.target} @ $${t.converted_last?.usd?.toLocaleString() || 'N/A'} | Vol: ${formatUSD(t.converted_volume?.usd || 0)}`
+      );
+      return toolResult(
+        `${id.toUpperCase()} Trading Pairs:\n\n${formatted.join('\n')}\n\n[Source: CoinGecko]`,
+        { source: 'CoinGecko', data: top }
+      );
+    }
+  );
+
+  tool(
+    'get_coin_by_contract',
+    'Get coin data by contract address',
+    {
+      platform: z.string().describe("Platform ID (e.g., 'ethereum', 'polygon-pos')"),
+      address: z.string().describe('Token contract address'),
+    },
+    coinDetails.nullable(),
+    async ({ platform, address }) => {
+      const data = await coingecko.getCoinByContract(platform, address);
+      if (!data) {
+        return toolResult(`Token not found at ${address}.\n\n[Source: CoinGecko]`, {
+          source: 'CoinGecko',
+          data: null,
+        });
+      }
+      return toolResult(
+        `${data.name} (${data.symbol?.toUpperCase()}):\n\n- Price: $${data.market_data?.current_price?.usd?.toLocaleString() || 'N/A'}\n- Market Cap: ${formatUSD(data.market_data?.market_cap?.usd || 0)}\n- 24h Volume: ${formatUSD(data.market_data?.total_volume?.usd || 0)}\n- Contract: ${address}\n- Platform: ${platform}\n\n[Source: CoinGecko]`,
+        { source: 'CoinGecko', data }
+      );
+    }
+  );
+
+  // Categories & Platforms
+  tool(
+    'get_categories',
+    'Get crypto categories with market data',
+    {},
+    z.array(
+      z.looseObject({
+        id: z.string(),
+        name: z.string(),
+        market_cap: z.number().nullish(),
+        market_cap_change_24h: z.number().nullish().describe('Percent'),
+        volume_24h: z.number().nullish(),
+      })
+    ),
+    async () => {
+      const data = await coingecko.getCategories();
+      if (!data || data.length === 0) {
+        return toolResult('No categories found.\n\n[Source: CoinGecko]', {
+          source: 'CoinGecko',
+          data: [],
+        });
+      }
+      const top = data.slice(0, 20);
+      const formatted = top.map(
+        (c: any) =>
+          `${c.name}: ${formatUSD(c.market_cap || 0)} MCap | ${c.market_cap_change_24h?.toFixed(2) || 'N/A'}% 24h`
+      );
+      return toolResult(
+        `Crypto Categories (Top 20):\n\n${formatted.join('\n')}\n\n[Source: CoinGecko]`,
+        { source: 'CoinGecko', unit: 'USD', data: top }
+      );
+    }
+  );
+
+  tool(
+    'get_asset_platforms',
+    'Get list of blockchain platforms',
+    {},
+    z.array(
+      z.looseObject({
+        id: z.string(),
+        name: z.string(),
+        chain_identifier: z.number().nullish(),
+        shortname: z.string().nullish(),
+      })
+    ),
+    async () => {
+      const data = await coingecko.getAssetPlatforms();
+      if (!data || data.length === 0) {
+        return toolResult('No platforms found.\n\n[Source: CoinGecko]', {
+          source: 'CoinGecko',
+          data: [],
+        });
+      }
+      const top = data.filter((p: any) => p.id).slice(0, 30);
+      const formatted = top.map(
+        (p: any) =>
+          `${p.name || p.id}: ${p.id}${p.chain_identifier ? ` (Chain ${p.chain_identifier})` : ''}`
+      );
+      return toolResult(
+        `Asset Platforms:\n\n${formatted.join('\n')}\n\nUse platform ID with get_token_price_by_contract.\n\n[Source: CoinGecko]`,
+        { source: 'CoinGecko', data: top }
+      );
+    }
+  );
+
+  // Exchanges
+  tool(
+    'get_exchanges',
+    'Get top cryptocurrency exchanges by volume',
+    {
+      limit: z.number().optional().default(20).describe('Number of results (default: 20)'),
+    },
+    z.array(
+      z.looseObject({
+        id: z.string(),
+        name: z.string(),
+        country: z.string().nullish(),
+        year_established: z.number().nullish(),
+        trust_score: z.number().nullish(),
+        trade_volume_24h_btc: z.number().nullish(),
+      })
+    ),
+    async ({ limit }) => {
+      const data = await coingecko.getExchanges(limit);
+      if (!data || data.length === 0) {
+        return toolResult('No exchanges found.\n\n[Source: CoinGecko]', {
+          source: 'CoinGecko',
+          data: [],
+        });
+      }
+      const formatted = data.map(
+        (e: any, i: number) =>
+          `${i + 1}. ${e.name}: ${formatUSD((Number(e.trade_volume_24h_btc) || 0) * 40000)} (24h) | Trust: ${e.trust_score || 'N/A'}/10`
+      );
+      return toolResult(`Top Exchanges:\n\n${formatted.join('\n')}\n\n[Source: CoinGecko]`, {
+        source: 'CoinGecko',
+        unit: 'BTC',
+        data,
+      });
+    }
+  );
+
+  tool(
+    'get_exchange',
+    'Get detailed data for a specific exchange',
+    {
+      id: z.string().describe("Exchange ID (e.g., 'binance', 'coinbase-exchange')"),
+    },
+    z
+      .looseObject({
+        name: z.string(),
+        country: z.string().nullish(),
+        year_established: z.number().nullish(),
+        trust_score: z.number().nullish(),
+        trade_volume_24h_btc: z.number().nullish(),
+        tickers: z.array(ticker).optional(),
+      })
+      .nullable(),
+    async ({ id }) => {
+      const data = await coingecko.getExchange(id);
+      if (!data) {
+        return toolResult(`Exchange "${id}" not found.\n\n[Source: CoinGecko]`, {
+          source: 'CoinGecko',
+          data: null,
+        });
+      }
+      return toolResult(
+        `${data.name}:\n\n- Trust Score: ${data.trust_score}/10\n- 24h Volume (BTC): ${data.trade_volume_24h_btc?.toLocaleString() || 'N/A'}\n- Country: ${data.country || 'N/A'}\n- Year Established: ${data.year_established || 'N/A'}\n- Trading Pairs: ${data.tickers?.length || 'N/A'}\n\n[Source: CoinGecko]`,
+        { source: 'CoinGecko', unit: 'BTC', data }
+      );
+    }
+  );
+
+  tool(
+    'get_exchange_tickers',
+    'Get trading pairs for an exchange',
+    {
+      id: z.string().describe("Exchange ID (e.g., 'binance')"),
+    },
+    z.array(ticker),
+    async ({ id }) => {
+      const data = await coingecko.getExchangeTickers(id);
+      if (!data.tickers || data.tickers.length === 0) {
+        return toolResult(`No tickers for ${id}.\n\n[Source: CoinGecko]`, {
+          source: 'CoinGecko',
+          data: [],
+        });
+      }
+      const top = data.tickers.slice(0, 20);
+      const formatted = top.map(
+        (t: any) =>
+          `${t.base}/${t.target}: $${t.converted_last?.usd?.toLocaleString() || 'N/A'} | Vol: ${formatUSD(t.converted_volume?.usd || 0)}`
+      );
+      return toolResult(
+        `${data.name} Trading Pairs:\n\n${formatted.join('\n')}\n\n[Source: CoinGecko]`,
+        { source: 'CoinGecko', data: top }
+      );
+    }
+  );
+
+  tool(
+    'get_exchange_volume_chart',
+    'Get exchange volume history',
+    {
+      id: z.string().describe("Exchange ID (e.g., 'binance')"),
+      days: z.number().optional().default(30).describe('Number of days'),
+    },
+    z.array(z.tuple([z.number(), numeric])).describe('[unix ms, volume]'),
+    async ({ id, days }) => {
+      const data = await coingecko.getExchangeVolumeChart(id, days);
+      if (!data || data.length === 0) {
+        return toolResult(`No volume data for ${id}.\n\n[Source: CoinGecko]`, {
+          source: 'CoinGecko',
+          data: [],
+        });
+      }
+      const first = data[0][1];
+      const last = data[data.length - 1][1];
+      const change = ((last - first) / first) * 100;
+      return toolResult(
+        `${id} Volume (${days} days):\n\n- Start: ${first.toLocaleString()} BTC\n- End: ${last.toLocaleString()} BTC\n- Change: ${change >= 0 ? '+' : ''}${change.toFixed(2)}%\n- Data points: ${data.length}\n\n[Source: CoinGecko]`,
+        { source: 'CoinGecko', unit: 'BTC', data }
+      );
+    }
+  );
+
+  // Derivatives
+  tool(
+    'get_cg_derivatives',
+    'Get derivatives tickers from CoinGecko',
+    {},
+    z.array(
+      z.looseObject({
+        market: z.string(),
+        symbol: z.string(),
+        price: numeric.nullish(),
+        funding_rate: z.number().nullish().describe('Percent'),
+        open_interest: z.number().nullish(),
+        volume_24h: z.number().nullish(),
+      })
+    ),
+    async () => {
+      const data = await coingecko.getDerivatives();
+      if (!data || data.length === 0) {
+        return toolResult('No derivatives data.\n\n[Source: CoinGecko]', {
+          source: 'CoinGecko',
+          data: [],
+        });
+      }
+      const top = data.slice(0, 20);
+      const formatted = top.map(
+        (d: any) =>
+          `${d.symbol} on ${d.market}: $${d.price?.toLocaleString() || 'N/A'} | OI: ${formatUSD(d.open_interest || 0)} | Funding: ${d.funding_rate?.toFixed(4) || 'N/A'}%`
+      );
+      return toolResult(`Derivatives Tickers:\n\n${formatted.join('\n')}\n\n[Source: CoinGecko]`, {
+        source: 'CoinGecko',
+        unit: 'USD',
+        data: top,
+      });
+    }
+  );
+
+  tool(
+    'get_derivatives_exchanges',
+    'Get derivatives exchanges',
+    {},
+    z.array(
+      z.looseObject({
+        id: z.string(),
+        name: z.string(),
+        open_interest_btc: z.number().nullish(),
+        trade_volume_24h_btc: numeric.nullish(),
+        number_of_perpetual_pairs: z.number().nullish(),
+        number_of_futures_pairs: z.number().nullish(),
+      })
+    ),
+    async () => {
+      const data = await coingecko.getDerivativesExchanges();
+      if (!data || data.length === 0) {
+        return toolResult('No derivatives exchanges found.\n\n[Source: CoinGecko]', {
+          source: 'CoinGecko',
+          data: [],
+        });
+      }
+      const top = data.slice(0, 15);
+      const formatted = top.map(
+        (e: any) =>
+          `${e.name}: ${e.number_of_perpetual_pairs || 0} perps | OI: ${formatUSD(e.open_interest_btc * 40000 || 0)}`
+      );
+      return toolResult(
+        `Derivatives Exchanges:\n\n${formatted.join('\n')}\n\n[Source: CoinGecko]`,
+        {
+          source: 'CoinGecko',
+          unit: 'BTC',
+          data: top,
+        }
+      );
+    }
+  );
+
+  // NFTs (Free endpoints)
+  tool(
+    'get_nfts_list',
+    'Get list of NFT collections on CoinGecko',
+    {},
+    z.array(
+      z.looseObject({
+        id: z.string(),
+        name: z.string(),
+        symbol: z.string().nullish(),
+        asset_platform_id: z.string().nullish(),
+        contract_address: z.string().nullish(),
+      })
+    ),
+    async () => {
+      const data = await coingecko.getNftsList();
+      if (!data || data.length === 0) {
+        return toolResult('No NFT data available.\n\n[Source: CoinGecko]', {
+          source: 'CoinGecko',
+          data: [],
+        });
+      }
+      const top = data.slice(0, 20);
+      const formatted = top.map((n: any) => `${n.name}: ${n.id} (${n.asset_platform_id || 'N/A'})`);
+      return toolResult(
+        `NFT Collections:\n\n${formatted.join('\n')}\n\nUse ID with get_nft_details.\n\n[Source: CoinGecko]`,
+        { source: 'CoinGecko', data: top }
+      );
+    }
+  );
+
+  tool(
+    'get_nft_details',
+    'Get details for an NFT collection',
+    {
+      id: z.string().describe("NFT collection ID (e.g., 'cryptopunks', 'bored-ape-yacht-club')"),
+    },
+    z
+      .looseObject({
+        id: z.string(),
+        name: z.string(),
+        native_currency_symbol: z.string().nullish(),
+        floor_price: z
+          .object({ native_currency: z.number().nullish(), usd: z.number().nullish() })
+          .optional(),
+        market_cap: z.object({ usd: z.number().nullish() }).optional(),
+        volume_24h: z.object({ usd: z.number().nullish() }).optional(),
+        total_supply: z.number().nullish(),
+        number_of_unique_addresses: z.number().nullish(),
+      })
+      .nullable(),
+    async ({ id }) => {
+      const data = await coingecko.getNftDetails(id);
+      if (!data) {
+        return toolResult(`NFT collection "${id}" not found.\n\n[Source: CoinGecko]`, {
+          source: 'CoinGecko',
+          data: null,
+        });
+      }
+      return toolResult(
+        `${data.name}:\n\n- Floor Price: ${data.floor_price?.native_currency?.toFixed(4) || 'N/A'} ${data.native_currency_symbol || ''}\n- Floor (USD): $${data.floor_price?.usd?.toLocaleString() || 'N/A'}\n- Market Cap: ${formatUSD(data.market_cap?.usd || 0)}\n- 24h Volume: ${formatUSD(data.volume_24h?.usd || 0)}\n- Total Supply: ${data.total_supply?.toLocaleString() || 'N/A'}\n- Holders: ${data.number_of_unique_addresses?.toLocaleString() || 'N/A'}\n\n[Source: CoinGecko]`,
+        { source: 'CoinGecko', data }
+      );
+    }
+  );
+
+  tool(
+    'get_exchange_rates',
+    'Get BTC exchange rates to other currencies',
+    {},
+    z.object({
+      rates: z
+        .record(
+          z.string(),
+          z.object({ name: z.string(), unit: z.string(), value: z.number(), type: z.string() })
+        )
+        .optional()
+        .describe('Value of 1 BTC in each currency'),
+    }),
+    async () => {
+      const data = await coingecko.getExchangeRates();
+      if (!data.rates) {
+        return toolResult('Exchange rates unavailable.\n\n[Source: CoinGecko]', {
+          source: 'CoinGecko',
+          data: {},
+        });
+      }
+      const major = ['usd', 'eur', 'gbp', 'jpy', 'eth', 'xau'];
+      const formatted = major
+        .map((c) => {
+          const rate = data.rates[c];
+          return rate ? `${rate.name}: ${rate.value.toLocaleString()} ${rate.unit}` : null;
+        })
+        .filter(Boolean);
+      return toolResult(`BTC Exchange Rates:\n\n${formatted.join('\n')}\n\n[Source: CoinGecko]`, {
+        source: 'CoinGecko',
+        data,
+      });
+    }
+  );
+
+  // ============================================
+  // COINGECKO PRO TOOLS
+  // ============================================
+
+  tool(
+    'get_top_movers',
+    'Get top gaining and losing coins (Pro)',
+    {
+      duration: z
+        .string()
+        .optional()
+        .default('24h')
+        .describe("Duration: '1h', '24h', '7d', '14d', '30d', '60d', '1y'"),
+    },
+    z.object({
+      top_gainers: z.array(moverCoin).optional(),
+      top_losers: z.array(moverCoin).optional(),
+    }),
+    async ({ duration }) => {
+      const data = await coingecko.getTopMovers('usd', duration);
+      if (!data.top_gainers && !data.top_losers) {
+        return toolResult('No movers data available.\n\n[Source: CoinGecko Pro]', {
+          source: 'CoinGecko Pro',
+          data: {},
+        });
+      }
+      const gainers = (data.top_gainers || [])
+        .slice(0, 5)
+        .map(
+          (c: any) =>
+            `+${c.price_change_percentage_24h?.toFixed(2) || '?'}% ${c.name} (${c.symbol?.toUpperCase()}): $${c.usd?.toLocaleString() || 'N/A'}`
+        );
+      const losers = (data.top_losers || [])
+        .slice(0, 5)
+        .map(
+          (c: any) =>
+            `${c.price_change_percentage_24h?.toFixed(2) || '?'}% ${c.name} (${c.symbol?.toUpperCase()}): $${c.usd?.toLocaleString() || 'N/A'}`
+        );
+      return toolResult(
+        `Top Movers (${duration}):\n\n🟢 GAINERS:\n${gainers.join('\n') || 'None'}\n\n🔴 LOSERS:\n${losers.join('\n') || 'None'}\n\n[Source: CoinGecko Pro]`,
+        { source: 'CoinGecko Pro', unit: 'USD', data }
+      );
+    }
+  );
+
+  tool(
+    'get_new_coins',
+    'Get recently added coins (Pro)',
+    {},
+    z.array(
+      z.looseObject({
+        id: z.string(),
+        symbol: z.string(),
+        name: z.string(),
+        activated_at: z.number().nullish().describe('Unix seconds'),
+      })
+    ),
+    async () => {
+      const data = await coingecko.getNewCoins();
+      if (!data || data.length === 0) {
+        return toolResult('No new coins data.\n\n[Source: CoinGecko Pro]', {
+          source: 'CoinGecko Pro',
+          data: [],
+        });
+      }
+      const top = data.slice(0, 15);
+      const formatted = top.map(
+        (c: any) =>
+          `${c.name} (${c.symbol?.toUpperCase() || '?'}) - Added: ${c.activated_at || 'N/A'}`
+      );
+      return toolResult(
+        `Recently Added Coins:\n\n${formatted.join('\n')}\n\n[Source: CoinGecko Pro]`,
+        {
+          source: 'CoinGecko Pro',
+          data: top,
+        }
+      );
+    }
+  );
+
+  tool(
+    'get_nft_markets',
+    'Get NFT collections by market cap (Pro)',
+    {},
+    z.array(
+      z.looseObject({
+        id: z.string(),
+        name: z.string(),
+        native_currency_symbol: z.string().nullish(),
+        floor_price_in_native_currency: z.number().nullish(),
+        market_cap: z.object({ usd: z.number().nullish() }).optional(),
+      })
+    ),
+    async () => {
+      const data = await coingecko.getNftMarkets();
+      if (!data || data.length === 0) {
+        return toolResult('No NFT market data.\n\n[Source: CoinGecko Pro]', {
+          source: 'CoinGecko Pro',
+          data: [],
+        });
+      }
+      const top = data.slice(0, 15);
+      const formatted = top.map(
+        (n: any, i: number) =>
+          `${i + 1}. ${n.name}: Floor ${n.floor_price_in_native_currency?.toFixed(4) || 'N/A'} ${n.native_currency_symbol || ''} | MCap: ${formatUSD(n.market_cap?.usd || 0)}`
+      );
+      return toolResult(`NFT Markets:\n\n${formatted.join('\n')}\n\n[Source: CoinGecko Pro]`, {
+        source: 'CoinGecko Pro',
+        data: top,
+      });
+    }
+  );
+
+  tool(
+    'get_nft_chart',
+    'Get NFT collection price history (Pro)',
+    {
+      id: z.string().describe('NFT collection ID'),
+      days: z.number().optional().default(30).describe('Number of days'),
+    },
+    z.object({
+      floor_price_usd: chartSeries.optional(),
+      floor_price_native: chartSeries.optional(),
+      h24_volume_usd: chartSeries.optional(),
+      market_cap_usd: chartSeries.optional(),
+    }),
+    async ({ id, days }) => {
+      const data = await coingecko.getNftMarketChart(id, days);
+      if (!data.floor_price_usd || data.floor_price_usd.length === 0) {
+        return toolResult(`No chart data for ${id}.\n\n[Source: CoinGecko Pro]`, {
+          source: 'CoinGecko Pro',
+          data: {},
+        });
+      }
+      const prices = data.floor_price_usd;
+      const first = prices[0][1];
+      const last = prices[prices.length - 1][1];
+      const change = ((last - first) / first) * 100;
+      return toolResult(
+        `${id} NFT Floor (${days} days):\n\n- Start: $${first.toLocaleString()}\n- End: $${last.toLocaleString()}\n- Change: ${change >= 0 ? '+' : ''}${change.toFixed(2)}%\n\n[Source: CoinGecko Pro]`,
+        { source: 'CoinGecko Pro', data }
+      );
+    }
+  );
+
+  tool(
+    'get_global_chart',
+    'Get historical global market cap chart (Pro)',
+    {
+      days: z.number().optional().default(30).describe('Number of days'),
+    },
+    z.object({
+      market_cap_chart: z
+        .object({ market_cap: chartSeries, volume: chartSeries.optional() })
+        .optional(),
+    }),
+    async ({ days }) => {
+      const data = await coingecko.getGlobalMarketCapChart(days);
+      const chart = data.market_cap_chart?.market_cap;
+      if (!chart || chart.length === 0) {
+        return toolResult('No global chart data.\n\n[Source: CoinGecko Pro]', {
+          source: 'CoinGecko Pro',
+          data: {},
+        });
+      }
+      const first = chart[0][1];
+      const last = chart[chart.length - 1][1];
+      const change = ((last - first) / first) * 100;
+      return toolResult(
+        `Global Market Cap (${days} days):\n\n- Start: ${formatUSD(first)}\n- End: ${formatUSD(last)}\n- Change: ${change >= 0 ? '+' : ''}${change.toFixed(2)}%\n- Data points: ${chart.length}\n\n[Source: CoinGecko Pro]`,
+        { source: 'CoinGecko Pro', unit: 'USD', data }
+      );
+    }
+  );
+}
@@ -0,0 +1,1122 @@
+// DefiLlama tools - TVL, yields, stablecoins, DEX volumes, fees (free tier + optional Pro)
+import { z } from 'zod';
+
+import * as defillama from '../adapters/defillama.js';
+import {
+  formatUSD,
+  toolResult,
+  keyStatus,
+  numeric,
+  persistInput,
+  persistSetting,
+  SESSION_SETTING,
+  ToolRegistrar,
+} from './shared.js';
+
+// ============================================
+// DATA SHAPES
+// ============================================
+
+// DefiLlama payloads, passed through with their other fields. Amounts are USD unless
+// a field says otherwise.
+
+// [unix seconds, value] points
+const chartSeries = z.array(z.tuple([z.number(), z.number()]));
+
+const protocolSummary = z.looseObject({
+  name: z.string(),
+  slug: z.string().optional(),
+  category: z.string().nullish(),
+  tvl: z.number().nullish(),
+  chains: z.array(z.string()).optional(),
+});
+
+// Protocol entries of the /overview endpoints (DEX, options, fees, derivatives)
+const overviewProtocol = z.looseObject({
+  name: z.string(),
+  displayName: z.string().optional(),
+  total24h: z.number().nullish(),
+  total7d: z.number().nullish(),
+  change_1d: z.number().nullish().describe('Percent'),
+  chains: z.array(z.string()).optional(),
+});
+
+// /summary endpoints for a single protocol
+const protocolSummaryDetail = z.looseObject({
+  name: z.string().optional(),
+  total24h: z.number().nullish(),
+  total7d: z.number().nullish(),
+  totalAllTime: z.number().nullish(),
+  chains: z.array(z.string()).nullish(),
+  totalDataChart: chartSeries.optional(),
+});
+
+// Keyed by "chain:address"
+const coinPrices = z.record(
+  z.string(),
+  z.looseObject({
+    price: z.number(),
+    symbol: z.string().optional(),
+    decimals: z.number().optional(),
+    timestamp: z.number().describe('Unix seconds'),
+    confidence: z.number().optional(),
+  })
+);
+
+const yieldPool = z.looseObject({
+  pool: z.string(),
+  chain: z.string(),
+  project: z.string(),
+  symbol: z.string(),
+  tvlUsd: z.number(),
+  apy: z.number().nullish().describe('Percent'),
+});
+
+export function registerDefiLlamaTools(tool: ToolRegistrar): void {
+  tool(
+    'set_defillama_key',
+    'Set DefiLlama Pro API key for access to yields, derivatives, emissions, bridges, and more. Get one at defillama.com/subscription',
+    {
+      key: z.string().describe("The user's DefiLlama Pro API key"),
+      persist: persistInput,
+    },
+    keyStatus,
+    async ({ key, persist }) => {
+      defillama.setApiKey(key);
+      const saved = await persistSetting(persist, (config) => {
+        config.keys = { ...config.keys, defillama: key };
+      });
+      return toolResult(
+        `DefiLlama Pro API key set. You now have access to:\n- Yield pool charts & borrow rates\n- Perpetuals & LSD rates\n- Derivatives volumes\n- Token emissions/unlocks\n- Protocol treasuries, hacks, raises\n- Bridge data${saved}`,
+        { source: 'ethereum-mcp', data: { configured: true, persisted: !!persist } }
+      );
+    },
+    SESSION_SETTING
+  );
+
+  // ============================================
+  // DEFILLAMA PRO TOOLS (require API key)
+  // ============================================
+
+  // Yields Pro
+  tool(
+    'get_yield_pool_chart',
+    'Get historical APY chart data for a specific yield pool (Pro)',
+    {
+      pool: z.string().describe('Pool UUID from get_top_yields'),
+    },
+    z.object({
+      data: z.array(
+        z.looseObject({
+          timestamp: z.string(),
+          tvlUsd: z.number().nullish(),
+          apy: z.number().nullish().describe('Percent'),
+        })
+      ),
+    }),
+    async ({ pool }) => {
+      const data = await defillama.getYieldPoolChart(pool);
+      return toolResult(
+        `Yield Pool Chart for ${pool}:\n\n${JSON.stringify(data, null, 2)}\n\n[Source: DefiLlama Pro]`,
+        { source: 'DefiLlama Pro', unit: 'percent', data }
+      );
+    }
+  );
+
+  tool(
+    'get_borrow_rates',
+    'Get current borrow rates across lending protocols (Pro)',
+    {},
+    z.array(
+      z.looseObject({
+        pool: z.string(),
+        project: z.string(),
+        symbol: z.string(),
+        apyBaseBorrow: z.number().nullish().describe('Percent'),
+        totalBorrowUsd: z.number().nullish(),
+      })
+    ),
+    async () => {
+      const data = await defillama.getBorrowRates();
+      if (!data.data || data.data.length === 0) {
+        return toolResult('No borrow rate data available.\n\n[Source: DefiLlama Pro]', {
+          source: 'DefiLlama Pro',
+          data: [],
+        });
+      }
+      const top = data.data
+        .sort((a: any, b: any) => (b.apyBaseBorrow || 0) - (a.apyBaseBorrow || 0))
+        .slice(0, 20);
+      const formatted = top.map(
+        (p: any) =>
+          `${p.symbol} on ${p.project}: ${p.apyBaseBorrow?.toFixed(2) || 'N/A'}% borrow APY`
+      );
+      return toolResult(`Top Borrow Rates:\n\n${formatted.join('\n')}\n\n[Source: DefiLlama Pro]`, {
+        source: 'DefiLlama Pro',
+        unit: 'percent',
+        data: top,
+      });
+    }
+  );
+
+  tool(
+    'get_lend_borrow_chart',
+    'Get historical lend/borrow rates chart for a pool (Pro)',
+    {
+      pool: z.string().describe('Pool UUID from get_borrow_rates'),
+    },
+    z.object({
+      data: z.array(
+        z.looseObject({
+          timestamp: z.string(),
+          totalSupplyUsd: z.number().nullish(),
+          totalBorrowUsd: z.number().nullish(),
+          apyBase: z.number().nullish().describe('Percent'),
+          apyBaseBorrow: z.number().nullish().describe('Percent'),
+        })
+      ),
+    }),
+    async ({ pool }) => {
+      const data = await defillama.getLendBorrowChart(pool);
+      return toolResult(
+        `Lend/Borrow Chart for ${pool}:\n\n${JSON.stringify(data, null, 2)}\n\n[Source: DefiLlama Pro]`,
+        { source: 'DefiLlama Pro', unit: 'percent', data }
+      );
+    }
+  );
+
+  tool(
+    'get_perps_rates',
+    'Get perpetual futures funding rates across protocols (Pro)',
+    {},
+    z.array(
+      z.looseObject({
+        marketplace: z.string(),
+        symbol: z.string(),
+        fundingRate: z.number().nullish().describe('Percent'),
+        openInterest: z.number().nullish(),
+      })
+    ),
+    async () => {
+      const data = await defillama.getPerpsRates();
+      if (!data.data || data.data.length === 0) {
+        return toolResult('No perps rate data available.\n\n[Source: DefiLlama Pro]', {
+          source: 'DefiLlama Pro',
+          data: [],
+        });
+      }
+      const top = data.data.slice(0, 20);
+      const formatted = top.map(
+        (p: any) =>
+          `${p.symbol} on ${p.marketplace}: ${p.fundingRate?.toFixed(4) || 'N/A'}% funding`
+      );
+      return toolResult(
+        `Perpetual Funding Rates:\n\n${formatted.join('\n')}\n\n[Source: DefiLlama Pro]`,
+        { source: 'DefiLlama Pro', unit: 'percent', data: top }
+      );
+    }
+  );
+
+  tool(
+    'get_lsd_rates',
+    'Get liquid staking derivatives (LSD) rates (Pro)',
+    {},
+    z.array(
+      z.looseObject({
+        name: z.string(),
+        apy: z.number().nullish().describe('Percent'),
+        tvl: z.number().nullish(),
+      })
+    ),
+    async () => {
+      const data = await defillama.getLsdRates();
+      if (!data || data.length === 0) {
+        return toolResult('No LSD rate data available.\n\n[Source: DefiLlama Pro]', {
+          source: 'DefiLlama Pro',
+          data: [],
+        });
+      }
+      const top = data.slice(0, 20);
+      const formatted = top.map(
+        (p: any) => `${p.name}: ${p.apy?.toFixed(2) || 'N/A'}% APY | ${formatUSD(p.tvl || 0)} TVL`
+      );
+      return toolResult(
+        `Liquid Staking Rates:\n\n${formatted.join('\n')}\n\n[Source: DefiLlama Pro]`,
+        {
+          source: 'DefiLlama Pro',
+          unit: 'percent',
+          data: top,
+        }
+      );
+    }
+  );
+
+  // Derivatives Pro
+  tool(
+    'get_derivatives_volumes',
+    'Get derivatives trading volumes across protocols (Pro)',
+    {},
+    z.array(overviewProtocol),
+    async () => {
+      const data = await defillama.getDerivativesVolumes();
+      if (!data.protocols || data.protocols.length === 0) {
+        return toolResult('No derivatives volume data available.\n\n[Source: DefiLlama Pro]', {
+          source: 'DefiLlama Pro',
+          data: [],
+        });
+      }
+      const top = data.protocols
+        .sort((a: any, b: any) => (b.dailyVolume || 0) - (a.dailyVolume || 0))
+        .slice(0, 20);
+      const formatted = top.map((p: any) => `${p.name}: ${formatUSD(p.dailyVolume || 0)} (24h)`);
+      return toolResult(
+        `Derivatives Volumes (24h):\n\n${formatted.join('\n')}\n\n[Source: DefiLlama Pro]`,
+        { source: 'DefiLlama Pro', unit: 'USD', data: top }
+      );
+    }
+  );
+
+  tool(
+    'get_derivatives_protocol',
+    'Get detailed derivatives data for a specific protocol (Pro)',
+    {
+      protocol: z.string().describe("Protocol slug (e.g., 'gmx', 'dydx', 'synthetix')"),
+    },
+    protocolSummaryDetail,
+    async ({ protocol }) => {
+      const data = await defillama.getDerivativesProtocol(protocol);
+      return toolResult(
+        `${protocol} Derivatives Data:\n\n${JSON.stringify(data, null, 2)}\n\n[Source: DefiLlama Pro]`,
+        { source: 'DefiLlama Pro', unit: 'USD', data }
+      );
+    }
+  );
+
+  // Emissions Pro
+  tool(
+    'get_emissions',
+    'Get token emissions/unlocks overview for all protocols (Pro)',
+    {},
+    z.array(
+      z.looseObject({
+        name: z.string(),
+        token: z.string().nullish(),
+        nextUnlockValue: z.number().nullish(),
+      })
+    ),
+    async () => {
+      const data = await defillama.getEmissions();
+      if (!data || data.length === 0) {
+        return toolResult('No emissions data available.\n\n[Source: DefiLlama Pro]', {
+          source: 'DefiLlama Pro',
+          data: [],
+        });
+      }
+      const top = data.slice(0, 20);
+      const formatted = top.map(
+        (p: any) => `${p.name}: ${formatUSD(p.nextUnlockValue || 0)} next unlock`
+      );
+      return toolResult(
+        `Token Emissions/Unlocks:\n\n${formatted.join('\n')}\n\n[Source: DefiLlama Pro]`,
+        { source: 'DefiLlama Pro', unit: 'USD', data: top }
+      );
+    }
+  );
+
+  tool(
+    'get_emission',
+    'Get detailed emission/unlock schedule for a protocol (Pro)',
+    {
+      protocol: z.string().describe("Protocol slug (e.g., 'arbitrum', 'optimism')"),
+    },
+    z.looseObject({ name: z.string().optional() }),
+    async ({ protocol }) => {
+      const data = await defillama.getEmission(protocol);
+      return toolResult(
+        `${protocol} Emission Schedule:\n\n${JSON.stringify(data, null, 2)}\n\n[Source: DefiLlama Pro]`,
+        { source: 'DefiLlama Pro', data }
+      );
+    }
+  );
+
+  // Ecosystem Pro
+  tool(
+    'dl_get_categories',
+    'Get DeFi protocol categories and their TVL (Pro)',
+    {},
+    z.record(z.string(), z.number()).describe('TVL by category'),
+    async () => {
+      const data = await defillama.getCategories();
+      if (!data || Object.keys(data).length === 0) {
+        return toolResult('No category data available.\n\n[Source: DefiLlama Pro]', {
+          source: 'DefiLlama Pro',
+          data: {},
+        });
+      }
+      const formatted = Object.entries(data)
+        .map(([cat, tvl]) => `${cat}: ${formatUSD(tvl as number)}`)
+        .slice(0, 20);
+      return toolResult(
+        `DeFi Categories by TVL:\n\n${formatted.join('\n')}\n\n[Source: DefiLlama Pro]`,
+        { source: 'DefiLlama Pro', unit: 'USD', data }
+      );
+    }
+  );
+
+  tool(
+    'get_forks',
+    'Get protocol forks data (Pro)',
+    {},
+    z.looseObject({
+      chart: z.record(z.string(), z.record(z.string(), z.unknown())).optional(),
+    }),
+    async () => {
+      const data = await defillama.getForks();
+      return toolResult(
+        `Protocol Forks:\n\n${JSON.stringify(data, null, 2)}\n\n[Source: DefiLlama Pro]`,
+        { source: 'DefiLlama Pro', data }
+      );
+    }
+  );
+
+  tool(
+    'get_oracles',
+    'Get oracle usage data across DeFi (Pro)',
+    {},
+    z.looseObject({
+      oracles: z.record(z.string(), z.array(z.string())).optional(),
+      chart: z.record(z.string(), z.record(z.string(), z.unknown())).optional(),
+    }),
+    async () => {
+      const data = await defillama.getOracles();
+      return toolResult(
+        `Oracle Usage:\n\n${JSON.stringify(data, null, 2)}\n\n[Source: DefiLlama Pro]`,
+        { source: 'DefiLlama Pro', data }
+      );
+    }
+  );
+
+  tool(
+    'get_treasuries',
+    'Get protocol treasury holdings (Pro)',
+    {},
+    z.array(protocolSummary),
+    async () => {
+      const data = await defillama.getTreasuries();
+      if (!data || data.length === 0) {
+        return toolResult('No treasury data available.\n\n[Source: DefiLlama Pro]', {
+          source: 'DefiLlama Pro',
+          data: [],
+        });
+      }
+      const top = data.sort((a: any, b: any) => (b.tvl || 0) - (a.tvl || 0)).slice(0, 20);
+      const formatted = top.map((p: any) => `${p.name}: ${formatUSD(p.tvl || 0)} treasury`);
+      return toolResult(
+        `Protocol Treasuries:\n\n${formatted.join('\n')}\n\n[Source: DefiLlama Pro]`,
+        {
+          source: 'DefiLlama Pro',
+          unit: 'USD',
+          data: top,
+        }
+      );
+    }
+  );
+
+  tool(
+    'get_hacks',
+    'Get historical DeFi hacks and exploits (Pro)',
+    {},
+    z.array(
+      z.looseObject({
+        name: z.string(),
+        date: z.number().describe('Unix seconds'),
+        amount: z.number().nullish(),
+        technique: z.string().nullish(),
+        chain: z.array(z.string()).nullish(),
+      })
+    ),
+    async () => {
+      const data = await defillama.getHacks();
+      if (!data || data.length === 0) {
+        return toolResult('No hacks data available.\n\n[Source: DefiLlama Pro]', {
+          source: 'DefiLlama Pro',
+          data: [],
+        });
+      }
+      const top = data.sort((a: any, b: any) => (b.amount || 0) - (a.amount || 0)).slice(0, 20);
+      const formatted = top.map(
+        (h: any) =>
+          `${h.name} (${h.date}): ${formatUSD(h.amount || 0)} - ${h.technique || 'Unknown'}`
+      );
+      return toolResult(
+        `Largest DeFi Hacks:\n\n${formatted.join('\n')}\n\n[Source: DefiLlama Pro]`,
+        {
+          source: 'DefiLlama Pro',
+          unit: 'USD',
+          data: top,
+        }
+      );
+    }
+  );
+
+  tool(
+    'get_raises',
+    'Get crypto funding rounds and raises (Pro)',
+    {},
+    z.array(
+      z.looseObject({
+        name: z.string(),
+        date: z.number().describe('Unix seconds'),
+        amount: z.number().nullish().describe('Millions of USD'),
+        round: z.string().nullish(),
+        leadInvestors: z.array(z.string()).optional(),
+      })
+    ),
+    async () => {
+      const data = await defillama.getRaises();
+      if (!data.raises || data.raises.length === 0) {
+        return toolResult('No raises data available.\n\n[Source: DefiLlama Pro]', {
+          source: 'DefiLlama Pro',
+          data: [],
+        });
+      }
+      const top = data.raises
+        .sort((a: any, b: any) => (b.amount || 0) - (a.amount || 0))
+        .slice(0, 20);
+      const formatted = top.map(
+        (r: any) => `${r.name}: ${formatUSD(r.amount || 0)} (${r.round || 'Unknown round'})`
+      );
+      return toolResult(
+        `Recent Funding Rounds:\n\n${formatted.join('\n')}\n\n[Source: DefiLlama Pro]`,
+        { source: 'DefiLlama Pro', data: top }
+      );
+    }
+  );
+
+  // Bridges Pro
+  tool(
+    'get_bridges',
+    'Get all cross-chain bridges data (Pro)',
+    {},
+    z.array(
+      z.looseObject({
+        id: z.number(),
+        name: z.string(),
+        displayName: z.string(),
+        lastDayVolume: z.number().nullish(),
+        chains: z.array(z.string()).optional(),
+      })
+    ),
+    async () => {
+      const data = await defillama.getBridges();
+      if (!data.bridges || data.bridges.length === 0) {
+        return toolResult('No bridges data available.\n\n[Source: DefiLlama Pro]', {
+          source: 'DefiLlama Pro',
+          data: [],
+        });
+      }
+      const top = data.bridges
+        .sort((a: any, b: any) => (b.lastDayVolume || 0) - (a.lastDayVolume || 0))
+        .slice(0, 20);
+      const formatted = top.map(
+        (b: any) => `${b.displayName}: ${formatUSD(b.lastDayVolume || 0)} (24h)`
+      );
+      return toolResult(
+        `Bridge Volumes (24h):\n\n${formatted.join('\n')}\n\n[Source: DefiLlama Pro]`,
+        {
+          source: 'DefiLlama Pro',
+          unit: 'USD',
+          data: top,
+        }
+      );
+    }
+  );
+
+  tool(
+    'get_bridge',
+    'Get detailed data for a specific bridge (Pro)',
+    {
+      id: z.number().describe('Bridge ID from get_bridges'),
+    },
+    z.looseObject({
+      id: z.number().optional(),
+      displayName: z.string().optional(),
+      lastDailyVolume: z.number().nullish(),
+      chainBreakdown: z.record(z.string(), z.unknown()).optional(),
+    }),
+    async ({ id }) => {
+      const data = await defillama.getBridge(id);
+      return toolResult(
+        `Bridge Details (ID: ${id}):\n\n${JSON.stringify(data, null, 2)}\n\n[Source: DefiLlama Pro]`,
+        { source: 'DefiLlama Pro', unit: 'USD', data }
+      );
+    }
+  );
+
+  tool(
+    'get_bridge_volume',
+    'Get bridge volume for a specific chain (Pro)',
+    {
+      chain: z.string().describe("Chain name (e.g., 'ethereum', 'arbitrum', 'polygon')"),
+    },
+    z.array(
+      z.looseObject({
+        date: numeric.describe('Unix seconds'),
+        depositUSD: z.number().nullish(),
+        withdrawUSD: z.number().nullish(),
+        depositTxs: z.number().nullish(),
+        withdrawTxs: z.number().nullish(),
+      })
+    ),
+    async ({ chain }) => {
+      const data = await defillama.getBridgeVolume(chain);
+      return toolResult(
+        `Bridge Volume for ${chain}:\n\n${JSON.stringify(data, null, 2)}\n\n[Source: DefiLlama Pro]`,
+        { source: 'DefiLlama Pro', unit: 'USD', data }
+      );
+    }
+  );
+
+  // ============================================
+  // DEFILLAMA FREE TOOLS
+  // ============================================
+
+  tool(
+    'get_chain_tvl',
+    'Get total TVL (Total Value Locked) for all blockchain networks',
+    {},
+    z.array(z.object({ name: z.string(), tvl: z.number() })),
+    async () => {
+      const chains = await defillama.getTopChainsByTvl(20);
+      const formatted = chains.map((c) => `${c.name}: ${formatUSD(c.tvl)}`);
+      return toolResult(`Top 20 Chains by TVL:\n\n${formatted.join('\n')}\n\n[Source: DefiLlama]`, {
+        source: 'DefiLlama',
+        unit: 'USD',
+        data: chains,
+      });
+    }
+  );
+
+  tool(
+    'get_protocol_tvl',
+    "Get TVL for a specific DeFi protocol (e.g., 'aave', 'uniswap', 'lido')",
+    {
+      protocol: z.string().describe("Protocol name (e.g., 'aave', 'uniswap', 'lido')"),
+    },
+    z.object({ name: z.string(), slug: z.string(), tvl: z.number() }).nullable(),
+    async ({ protocol }) => {
+      // Search for the protocol to get the correct slug
+      const protocols = await defillama.searchProtocols(protocol, 10);
+      if (protocols.length === 0) {
+        return toolResult(
+          `Protocol "${protocol}" not found. Try a different name.\n\n[Source: DefiLlama]`,
+          { source: 'DefiLlama', data: null }
+        );
+      }
+
+      // Use the best match (highest TVL among matches)
+      const match = protocols[0];
+      const slug = match.slug || match.name.toLowerCase().replace(/\s+/g, '-');
+      const tvl = await defillama.getProtocolTvl(slug);
+
+      return toolResult(`${match.name} TVL: ${formatUSD(tvl)}\n\n[Source: DefiLlama]`, {
+        source: 'DefiLlama',
+        unit: 'USD',
+        data: { name: match.name, slug, tvl },
+      });
+    }
+  );
+
+  tool(
+    'get_protocol_info',
+    'Get detailed information about a DeFi protocol including TVL by chain',
+    {
+      protocol: z.string().describe("Protocol name (e.g., 'aave', 'uniswap', 'lido')"),
+    },
+    z
+      .object({
+        name: z.string(),
+        slug: z.string(),
+        category: z.string().nullable(),
+        tvl: z.number(),
+        chainTvls: z.record(z.string(), z.number()),
+      })
+      .nullable(),
+    async ({ protocol }) => {
+      // Search for the protocol to get the correct slug
+      const protocols = await defillama.searchProtocols(protocol, 10);
+      if (protocols.length === 0) {
+        return toolResult(
+          `Protocol "${protocol}" not found. Try a different name.\n\n[Source: DefiLlama]`,
+          { source: 'DefiLlama', data: null }
+        );
+      }
+
+      // Use the best match
+      const match = protocols[0];
+      const slug = match.slug || match.name.toLowerCase().replace(/\s+/g, '-');
+      const data = await defillama.getProtocol(slug);
+      const currentChainTvls: Record<string, number> = data.currentChainTvls || {};
+      const chainTvls = Object.entries(currentChainTvls)
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, 10)
+        .map(([chain, tvl]) => `  ${chain}: ${formatUSD(tvl)}`);
+      const totalTvl = Object.values(currentChainTvls).reduce((a, b) => a + (Number(b) || 0), 0);
+
+      return toolResult(
+        `Protocol: ${data.name}\nCategory: ${data.category || 'N/A'}\nTotal TVL: ${formatUSD(totalTvl)}\n\nTVL by Chain:\n${chainTvls.join('\n')}\n\n[Source: DefiLlama]`,
+        {
+          source: 'DefiLlama',
+          unit: 'USD',
+          data: {
+            name: data.name,
+            slug,
+            category: data.category ?? null,
+            tvl: totalTvl,
+            chainTvls: currentChainTvls,
+          },
+        }
+      );
+    }
+  );
+
+  tool(
+    'search_protocols',
+    'Search for DeFi protocols by name or category',
+    {
+      query: z
+        .string()
+        .describe("Search query (protocol name or category like 'dex', 'lending', 'yield')"),
+    },
+    z.array(protocolSummary),
+    async ({ query }) => {
+      const matches = await defillama.searchProtocols(query);
+      if (matches.length === 0) {
+        return toolResult(`No protocols found matching "${query}"\n\n[Source: DefiLlama]`, {
+          source: 'DefiLlama',
+          unit: 'USD',
+          data: matches,
+        });
+      }
+      const formatted = matches.map(
+        (p: any) => `${p.name} (${p.category || 'N/A'}): ${formatUSD(p.tvl)}`
+      );
+      return toolResult(
+        `Protocols matching "${query}":\n\n${formatted.join('\n')}\n\n[Source: DefiLlama]`,
+        { source: 'DefiLlama', unit: 'USD', data: matches }
+      );
+    }
+  );
+
+  tool(
+    'get_top_yields',
+    'Get top DeFi yield opportunities sorted by APY',
+    {
+      chain: z
+        .string()
+        .optional()
+        .describe("Filter by chain (e.g., 'Ethereum', 'Arbitrum', 'Base')"),
+      minTvl: z.number().optional().default(1000000).describe('Minimum TVL in USD (default: 1M)'),
+      limit: z.number().optional().default(20).describe('Number of results (default: 20)'),
+    },
+    z.array(yieldPool),
+    async ({ chain, minTvl, limit }) => {
+      const pools = await defillama.getTopYields(chain, minTvl, limit);
+      const formatted = pools.map(
+        (p: any) =>
+          `${p.symbol} on ${p.chain} (${p.project}): ${(Number(p.apy) || 0).toFixed(2)}% APY - TVL: ${formatUSD(p.tvlUsd)}`
+      );
+      return toolResult(
+        `Top Yield Opportunities${chain ? ` on ${chain}` : ''}:\n\n${formatted.join('\n')}\n\n[Source: DefiLlama]`,
+        { source: 'DefiLlama', unit: 'percent', data: pools }
+      );
+    }
+  );
+
+  tool(
+    'get_stablecoins',
+    'Get market data for stablecoins including market cap',
+    {},
+    z.array(z.object({ symbol: z.string(), name: z.string(), marketCap: z.number() })),
+    async () => {
+      const stables = await defillama.getTopStablecoins();
+      const formatted = stables.map(
+        (s) => `${s.symbol} (${s.name}): ${formatUSD(s.marketCap)} market cap`
+      );
+      return toolResult(
+        `Top 15 Stablecoins by Market Cap:\n\n${formatted.join('\n')}\n\n[Source: DefiLlama]`,
+        { source: 'DefiLlama', unit: 'USD', data: stables }
+      );
+    }
+  );
+
+  tool(
+    'get_dex_volumes',
+    'Get 24h trading volume for decentralized exchanges',
+    {},
+    z.array(z.object({ name: z.string(), dailyVolume: z.number() })),
+    async () => {
+      const dexes = await defillama.getTopDexes();
+      const formatted = dexes.map((d) => `${d.name}: ${formatUSD(d.dailyVolume)} (24h volume)`);
+      return toolResult(
+        `Top DEXs by 24h Volume:\n\n${formatted.join('\n')}\n\n[Source: DefiLlama]`,
+        {
+          source: 'DefiLlama',
+          unit: 'USD',
+          data: dexes,
+        }
+      );
+    }
+  );
+
+  tool(
+    'get_dex_volumes_by_chain',
+    'Get DEX trading volumes for a specific chain',
+    {
+      chain: z.string().describe("Chain name (e.g., 'ethereum', 'arbitrum', 'base')"),
+    },
+    z.array(overviewProtocol),
+    async ({ chain }) => {
+      const data = await defillama.getDexVolumesByChain(chain);
+      if (!data.protocols || data.protocols.length === 0) {
+        return toolResult(`No DEX data found for ${chain}\n\n[Source: DefiLlama]`, {
+          source: 'DefiLlama',
+          data: [],
+        });
+      }
+      const top = data.protocols
+        .sort((a: any, b: any) => (b.dailyVolume || 0) - (a.dailyVolume || 0))
+        .slice(0, 15);
+      const formatted = top.map((d: any) => `${d.name}: ${formatUSD(d.dailyVolume || 0)} (24h)`);
+      return toolResult(
+        `DEX Volumes on ${chain}:\n\n${formatted.join('\n')}\n\n[Source: DefiLlama]`,
+        { source: 'DefiLlama', unit: 'USD', data: top }
+      );
+    }
+  );
+
+  tool(
+    'get_dex_protocol',
+    'Get detailed volume data for a specific DEX protocol',
+    {
+      protocol: z.string().describe("Protocol slug (e.g., 'uniswap', 'curve', 'pancakeswap')"),
+    },
+    protocolSummaryDetail,
+    async ({ protocol }) => {
+      const data = await defillama.getDexProtocol(protocol);
+      return toolResult(
+        `${protocol} DEX Data:\n\n${JSON.stringify(data, null, 2)}\n\n[Source: DefiLlama]`,
+        { source: 'DefiLlama', unit: 'USD', data }
+      );
+    }
+  );
+
+  tool(
+    'get_historical_tvl',
+    'Get historical TVL data for all chains or a specific chain',
+    {
+      chain: z.string().optional().describe("Chain name (optional, e.g., 'ethereum', 'arbitrum')"),
+    },
+    z.array(z.object({ date: z.number().describe('Unix seconds'), tvl: z.number() })),
+    async ({ chain }) => {
+      const data = chain
+        ? await defillama.getHistoricalChainTvlByChain(chain)
+        : await defillama.getHistoricalChainTvl();
+      if (!Array.isArray(data) || data.length === 0) {
+        return toolResult(`No historical TVL data found\n\n[Source: DefiLlama]`, {
+          source: 'DefiLlama',
+          data: [],
+        });
+      }
+      // Return last 30 data points
+      const recent = data.slice(-30);
+      return toolResult(
+        `Historical TVL${chain ? ` for ${chain}` : ''} (last ${recent.length} data points):\n\n${JSON.stringify(recent, null, 2)}\n\n[Source: DefiLlama]`,
+        { source: 'DefiLlama', unit: 'USD', data: recent }
+      );
+    }
+  );
+
+  tool(
+    'get_coin_prices',
+    'Get current prices for tokens using DefiLlama. Format: "chain:address" (e.g., "ethereum:0x..." or "coingecko:bitcoin")',
+    {
+      coins: z
+        .string()
+        .describe(
+          'Comma-separated list of coins in format "chain:address" (e.g., "ethereum:0x6b175474e89094c44da98b954eedeac495271d0f,coingecko:bitcoin")'
+        ),
+    },
+    coinPrices,
+    async ({ coins }) => {
+      const data = await defillama.getCoinPrices(coins);
+      return toolResult(
+        `Token Prices:\n\n${JSON.stringify(data.coins, null, 2)}\n\n[Source: DefiLlama]`,
+        { source: 'DefiLlama', unit: 'USD', data: data.coins }
+      );
+    }
+  );
+
+  tool(
+    'get_coin_prices_historical',
+    'Get historical prices for tokens at a specific timestamp',
+    {
+      coins: z.string().describe('Comma-separated list of coins in format "chain:address"'),
+      timestamp: z.number().describe('Unix timestamp (seconds)'),
+    },
+    coinPrices,
+    async ({ coins, timestamp }) => {
+      const data = await defillama.getCoinPricesHistorical(coins, timestamp);
+      return toolResult(
+        `Token Prices at ${new Date(timestamp * 1000).toISOString()}:\n\n${JSON.stringify(data.coins, null, 2)}\n\n[Source: DefiLlama]`,
+        { source: 'DefiLlama', unit: 'USD', data: data.coins }
+      );
+    }
+  );
+
+  tool(
+    'dl_get_coin_chart',
+    'Get price chart data for a token over time (via DefiLlama)',
+    {
+      coins: z.string().describe('Coin in format "chain:address" (e.g., "ethereum:0x...")'),
+      period: z.string().optional().describe("Time period: '1d', '1w', '1m', '1y' (default: 1w)"),
+    },
+    z.object({
+      coins: z.record(
+        z.string(),
+        z.looseObject({
+          symbol: z.string().optional(),
+          prices: z.array(
+            z.object({ timestamp: z.number().describe('Unix seconds'), price: z.number() })
+          ),
+        })
+      ),
+    }),
+    async ({ coins, period }) => {
+      const data = await defillama.getCoinChart(
+        coins,
+        undefined,
+        undefined,
+        undefined,
+        period || '1w'
+      );
+      return toolResult(
+        `Price Chart for ${coins}:\n\n${JSON.stringify(data, null, 2)}\n\n[Source: DefiLlama]`,
+        { source: 'DefiLlama', unit: 'USD', data }
+      );
+    }
+  );
+
+  tool(
+    'get_coin_percent_change',
+    'Get price change percentages for tokens',
+    {
+      coins: z.string().describe('Comma-separated list of coins in format "chain:address"'),
+    },
+    z.object({
+      coins: z.record(z.string(), z.number()).describe('Percent change by coin'),
+    }),
+    async ({ coins }) => {
+      const data = await defillama.getCoinPercentChange(coins);
+      return toolResult(
+        `Price Changes:\n\n${JSON.stringify(data, null, 2)}\n\n[Source: DefiLlama]`,
+        {
+          source: 'DefiLlama',
+          unit: 'percent',
+          data,
+        }
+      );
+    }
+  );
+
+  tool(
+    'get_coin_first_price',
+    'Get the first recorded price for tokens',
+    {
+      coins: z.string().describe('Comma-separated list of coins in format "chain:address"'),
+    },
+    coinPrices,
+    async ({ coins }) => {
+      const data = await defillama.getCoinFirstPrice(coins);
+      return toolResult(
+        `First Recorded Prices:\n\n${JSON.stringify(data.coins, null, 2)}\n\n[Source: DefiLlama]`,
+        { source: 'DefiLlama', unit: 'USD', data: data.coins }
+      );
+    }
+  );
+
+  tool(
+    'dl_get_block_by_timestamp',
+    'Get block number closest to a timestamp (via DefiLlama)',
+    {
+      chain: z.string().describe("Chain name (e.g., 'ethereum', 'bsc', 'polygon')"),
+      timestamp: z.number().describe('Unix timestamp (seconds)'),
+    },
+    z.object({
+      height: z.number(),
+      timestamp: z.number().describe('Unix seconds'),
+    }),
+    async ({ chain, timestamp }) => {
+      const data = await defillama.getBlockByTimestamp(chain, timestamp);
+      return toolResult(
+        `Block on ${chain} at ${new Date(timestamp * 1000).toISOString()}: ${data.height}\n\n[Source: DefiLlama]`,
+        { source: 'DefiLlama', data }
+      );
+    }
+  );
+
+  tool(
+    'get_stablecoin_dominance',
+    'Get stablecoin market dominance for a specific chain',
+    {
+      chain: z.string().describe("Chain name (e.g., 'ethereum', 'tron', 'bsc')"),
+    },
+    z.array(
+      z.looseObject({
+        date: numeric.describe('Unix seconds'),
+        totalCirculatingUSD: z.record(z.string(), z.number()).optional(),
+        greatestMcap: z.looseObject({ symbol: z.string(), mcap: z.number() }).optional(),
+      })
+    ),
+    async ({ chain }) => {
+      const data = await defillama.getStablecoinDominance(chain);
+      return toolResult(
+        `Stablecoin Dominance on ${chain}:\n\n${JSON.stringify(data, null, 2)}\n\n[Source: DefiLlama]`,
+        { source: 'DefiLlama', unit: 'USD', data }
+      );
+    }
+  );
+
+  tool(
+    'get_stablecoin_detail',
+    'Get detailed data for a specific stablecoin',
+    {
+      asset: z.string().describe("Stablecoin ID (e.g., '1' for USDT, '2' for USDC)"),
+    },
+    z.looseObject({
+      id: z.string(),
+      name: z.string(),
+      symbol: z.string(),
+      pegType: z.string().optional(),
+      pegMechanism: z.string().optional(),
+    }),
+    async ({ asset }) => {
+      const data = await defillama.getStablecoinDetail(asset);
+      return toolResult(
+        `Stablecoin Details:\n\n${JSON.stringify(data, null, 2)}\n\n[Source: DefiLlama]`,
+        { source: 'DefiLlama', data }
+      );
+    }
+  );
+
+  tool(
+    'get_stablecoin_chains',
+    'List all chains with stablecoin data',
+    {},
+    z.array(
+      z.looseObject({
+        name: z.string(),
+        gecko_id: z.string().nullish(),
+        totalCirculatingUSD: z.record(z.string(), z.number()).optional(),
+      })
+    ),
+    async () => {
+      const chains = await defillama.getStablecoinChains();
+      return toolResult(
+        `Chains with Stablecoin Data:\n\n${JSON.stringify(chains, null, 2)}\n\n[Source: DefiLlama]`,
+        { source: 'DefiLlama', unit: 'USD', data: chains }
+      );
+    }
+  );
+
+  tool(
+    'get_options_volumes',
+    'Get options trading volumes overview',
+    {
+      chain: z.string().optional().describe("Filter by chain (e.g., 'ethereum', 'arbitrum')"),
+    },
+    z.array(overviewProtocol),
+    async ({ chain }) => {
+      const data = chain
+        ? await defillama.getOptionsVolumesByChain(chain)
+        : await defillama.getOptionsVolumes();
+      if (!data.protocols || data.protocols.length === 0) {
+        return toolResult(
+          `No options data found${chain ? ` for ${chain}` : ''}\n\n[Source: DefiLlama]`,
+          { source: 'DefiLlama', data: [] }
+        );
+      }
+      const top = data.protocols
+        .sort((a: any, b: any) => (b.dailyNotionalVolume || 0) - (a.dailyNotionalVolume || 0))
+        .slice(0, 15);
+      const formatted = top.map(
+        (p: any) => `${p.name}: ${formatUSD(p.dailyNotionalVolume || 0)} notional (24h)`
+      );
+      return toolResult(
+        `Options Volumes${chain ? ` on ${chain}` : ''}:\n\n${formatted.join('\n')}\n\n[Source: DefiLlama]`,
+        { source: 'DefiLlama', unit: 'USD', data: top }
+      );
+    }
+  );
+
+  tool(
+    'get_options_protocol',
+    'Get detailed data for a specific options protocol',
+    {
+      protocol: z.string().describe("Protocol slug (e.g., 'lyra', 'dopex', 'hegic')"),
+    },
+    protocolSummaryDetail,
+    async ({ protocol }) => {
+      const data = await defillama.getOptionsProtocol(protocol);
+      return toolResult(
+        `${protocol} Options Data:\n\n${JSON.stringify(data, null, 2)}\n\n[Source: DefiLlama]`,
+        { source: 'DefiLlama', unit: 'USD', data }
+      );
+    }
+  );
+
+  tool(
+    'get_fees',
+    'Get protocol fees and revenue overview',
+    {
+      chain: z.string().optional().describe("Filter by chain (e.g., 'ethereum', 'arbitrum')"),
+    },
+    z.array(overviewProtocol),
+    async ({ chain }) => {
+      const data = chain ? await defillama.getFeesByChain(chain) : await defillama.getFees();
+      if (!data.protocols || data.protocols.length === 0) {
+        return toolResult(
+          `No fees data found${chain ? ` for ${chain}` : ''}\n\n[Source: DefiLlama]`,
+          { source: 'DefiLlama', data: [] }
+        );
+      }
+      const top = data.protocols
+        .sort((a: any, b: any) => (b.dailyFees || 0) - (a.dailyFees || 0))
+        .slice(0, 20);
+      const formatted = top.map(
+        (p: any) =>
+          `${p.name}: ${formatUSD(p.dailyFees || 0)} fees | ${formatUSD(p.dailyRevenue || 0)} revenue (24h)`
+      );
+      return toolResult(
+        `Protocol Fees${chain ? ` on ${chain}` : ''} (24h):\n\n${formatted.join('\n')}\n\n[Source: DefiLlama]`,
+        { source: 'DefiLlama', unit: 'USD', data: top }
+      );
+    }
+  );
+
+  tool(
+    'get_protocol_fees',
+    'Get detailed fees and revenue for a specific protocol',
+    {
+      protocol: z.string().describe("Protocol slug (e.g., 'uniswap', 'aave', 'lido')"),
+    },
+    protocolSummaryDetail,
+    async ({ protocol }) => {
+      const data = await defillama.getProtocolFees(protocol);
+      return toolResult(
+        `${protocol} Fees & Revenue:\n\n${JSON.stringify(data, null, 2)}\n\n[Source: DefiLlama]`,
+        { source: 'DefiLlama', unit: 'USD', data }
+      );
+    }
+  );
+}
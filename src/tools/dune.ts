@@ -0,0 +1,281 @@
+// Dune tools - custom SQL queries and EigenLayer presets (optional, requires API key)
+import { z } from 'zod';
+
+import * as dune from '../adapters/dune.js';
+import {
+  toolResult,
+  jsonRecords,
+  keyStatus,
+  numeric,
+  persistInput,
+  persistSetting,
+  SESSION_SETTING,
+  ToolRegistrar,
+} from './shared.js';
+
+export function registerDuneTools(tool: ToolRegistrar): void {
+  tool(
+    'set_dune_key',
+    "Set Dune API key. When Dune tools fail due to missing key, ask user: 'What is your Dune API key?' (requires Dune Pro)",
+    {
+      key: z.string().describe("The user's Dune API key"),
+      persist: persistInput,
+    },
+    keyStatus,
+    async ({ key, persist }) => {
+      dune.setApiKey(key);
+      const saved = await persistSetting(persist, (config) => {
+        config.keys = { ...config.keys, dune: key };
+      });
+      return toolResult(`Dune API key configured. You can now run Dune queries.${saved}`, {
+        source: 'ethereum-mcp',
+        data: { configured: true, persisted: !!persist },
+      });
+    },
+    SESSION_SETTING
+  );
+
+  tool(
+    'run_dune_query',
+    'Execute a Dune Analytics query by ID and get results (requires Dune API key)',
+    {
+      queryId: z.number().describe('The Dune query ID (from the URL, e.g., 3237721)'),
+      parameters: z.record(z.string(), z.any()).optional().describe('Optional query parameters'),
+    },
+    jsonRecords,
+    async ({ queryId, parameters }) => {
+      const results = await dune.executeQuery(queryId, parameters);
+      if (results.length === 0) {
+        return toolResult(`Query ${queryId} returned no results.\n\n[Source: Dune]`, {
+          source: 'Dune',
+          data: results,
+        });
+      }
+      return toolResult(
+        `Dune Query ${queryId} Results:\n\n${JSON.stringify(results.slice(0, 50), null, 2)}\n\n[Source: Dune]`,
+        { source: 'Dune', data: results.slice(0, 50) }
+      );
+    },
+    { idempotentHint: false }
+  );
+
+  tool(
+    'get_dune_results',
+    'Get cached results from a Dune query (faster, no execution)',
+    {
+      queryId: z.number().describe('The Dune query ID'),
+    },
+    jsonRecords,
+    async ({ queryId }) => {
+      const results = await dune.getQueryResults(queryId);
+      if (results.length === 0) {
+        return toolResult(`No cached results for query ${queryId}.\n\n[Source: Dune]`, {
+          source: 'Dune',
+          data: results,
+        });
+      }
+      return toolResult(
+        `Dune Query ${queryId} Cached Results:\n\n${JSON.stringify(results.slice(0, 50), null, 2)}\n\n[Source: Dune]`,
+        { source: 'Dune', data: results.slice(0, 50) }
+      );
+    }
+  );
+
+  tool(
+    'get_dune_query_info',
+    'Get metadata about a Dune query (name, description, parameters)',
+    {
+      queryId: z.number().describe('The Dune query ID'),
+    },
+    z.looseObject({
+      query_id: z.number().optional(),
+      name: z.string().optional(),
+      description: z.string().nullish(),
+      owner: z.string().optional(),
+      parameters: z
+        .array(z.looseObject({ key: z.string(), type: z.string().optional(), value: z.unknown() }))
+        .optional(),
+      query_sql: z.string().optional(),
+      is_private: z.boolean().optional(),
+    }),
+    async ({ queryId }) => {
+      const info = await dune.getQueryInfo(queryId);
+      return toolResult(
+        `Dune Query ${queryId} Info:\n\n- Name: ${info.name || 'N/A'}\n- Description: ${info.description || 'N/A'}\n- Owner: ${info.owner || 'N/A'}\n- Parameters: ${JSON.stringify(info.parameters || [], null, 2)}\n- Is Private: ${info.is_private || false}\n\n[Source: Dune]`,
+        { source: 'Dune', data: info }
+      );
+    }
+  );
+
+  tool(
+    'get_dune_execution_status',
+    'Check the status of a Dune query execution',
+    {
+      executionId: z.string().describe('The execution ID returned from run_dune_query'),
+    },
+    z.looseObject({
+      execution_id: z.string().optional(),
+      query_id: z.number().optional(),
+      state: z.string(),
+      queue_position: z.number().nullish(),
+      submitted_at: z.string().optional(),
+      execution_started_at: z.string().optional(),
+      execution_ended_at: z.string().optional(),
+    }),
+    async ({ executionId }) => {
+      const status = await dune.getExecutionStatus(executionId);
+      return toolResult(
+        `Dune Execution ${executionId}:\n\n- State: ${status.state}\n- Queue Position: ${status.queue_position || 'N/A'}\n- Submitted At: ${status.submitted_at || 'N/A'}\n- Execution Started: ${status.execution_started_at || 'N/A'}\n- Execution Ended: ${status.execution_ended_at || 'N/A'}\n\n[Source: Dune]`,
+        { source: 'Dune', data: status }
+      );
+    }
+  );
+
+  tool(
+    'cancel_dune_execution',
+    'Cancel a running Dune query execution',
+    {
+      executionId: z.string().describe('The execution ID to cancel'),
+    },
+    z.object({ executionId: z.string(), cancelled: z.boolean() }),
+    async ({ executionId }) => {
+      await dune.cancelExecution(executionId);
+      return toolResult(`Dune execution ${executionId} cancelled.\n\n[Source: Dune]`, {
+        source: 'Dune',
+        data: { executionId, cancelled: true },
+      });
+    },
+    { readOnlyHint: false, destructiveHint: true }
+  );
+
+  tool(
+    'get_dune_results_csv',
+    'Get cached Dune query results as CSV format',
+    {
+      queryId: z.number().describe('The Dune query ID'),
+    },
+    z.string(),
+    async ({ queryId }) => {
+      const csv = await dune.getResultsCsv(queryId);
+      const lines = csv.split('\n');
+      const preview = lines.slice(0, 20).join('\n');
+      return toolResult(
+        `Dune Query ${queryId} CSV Results (first 20 rows):\n\n${preview}\n\n[Total: ${lines.length} rows]\n\n[Source: Dune]`,
+        { source: 'Dune', data: csv }
+      );
+    }
+  );
+
+  // Dune EigenLayer Preset Endpoints
+  tool(
+    'get_eigenlayer_avs',
+    'Get EigenLayer AVS (Actively Validated Services) metadata and metrics',
+    {},
+    jsonRecords,
+    async () => {
+      const [metadata, metrics] = await Promise.allSettled([
+        dune.getEigenLayerAvsMetadata(),
+        dune.getEigenLayerAvsMetrics(),
+      ]);
+
+      // Either query alone is enough; fail only if both did
+      if (metadata.status === 'rejected' && metrics.status === 'rejected') {
+        throw metadata.reason;
+      }
+      const rows = metadata.status === 'fulfilled' ? metadata.value?.result?.rows || [] : [];
+
+      const avsCount = rows.length;
+      const avsPreview = rows.slice(0, 10);
+
+      return toolResult(
+        `EigenLayer AVS Data:\n\n- Total AVSs: ${avsCount}\n\nTop AVSs:\n${JSON.stringify(avsPreview, null, 2)}\n\n[Source: Dune]`,
+        { source: 'Dune', data: avsPreview }
+      );
+    }
+  );
+
+  tool(
+    'get_eigenlayer_operators',
+    'Get EigenLayer operator metadata and metrics',
+    {},
+    jsonRecords,
+    async () => {
+      const [metadata, metrics] = await Promise.allSettled([
+        dune.getEigenLayerOperatorMetadata(),
+        dune.getEigenLayerOperatorMetrics(),
+      ]);
+
+      // Either query alone is enough; fail only if both did
+      if (metadata.status === 'rejected' && metrics.status === 'rejected') {
+        throw metadata.reason;
+      }
+      const rows = metadata.status === 'fulfilled' ? metadata.value?.result?.rows || [] : [];
+
+      const operatorCount = rows.length;
+      const operatorPreview = rows.slice(0, 10);
+
+      return toolResult(
+        `EigenLayer Operators:\n\n- Total Operators: ${operatorCount}\n\nTop Operators:\n${JSON.stringify(operatorPreview, null, 2)}\n\n[Source: Dune]`,
+        { source: 'Dune', data: operatorPreview }
+      );
+    }
+  );
+
+  tool(
+    'get_dune_token_balances',
+    'Get real-time token balances for an address using Dune Developer API',
+    {
+      address: z.string().describe('Ethereum address (0x...)'),
+      chainIds: z
+        .string()
+        .optional()
+        .describe("Comma-separated chain IDs (e.g., '1,137,42161') or 'all'"),
+      tokenType: z.enum(['erc20', 'native']).optional().describe('Filter by token type'),
+      excludeSpam: z.boolean().optional().default(true).describe('Exclude spam tokens'),
+    },
+    z
+      .looseObject({
+        wallet_address: z.string().optional(),
+        balances: z
+          .array(
+            z.looseObject({
+              chain: z.string().optional(),
+              chain_id: z.number().optional(),
+              address: z.string().optional(),
+              symbol: z.string().optional(),
+              decimals: z.number().optional(),
+              amount: numeric.optional().describe("Raw amount in the token's smallest unit"),
+              price_usd: z.number().optional(),
+              value_usd: z.number().optional(),
+            })
+          )
+          .optional(),
+      })
+      .nullable(),
+    async ({ address, chainIds, tokenType, excludeSpam }) => {
+      const balances = await dune.getTokenBalances(address, {
+        chainIds,
+        filters: tokenType,
+        excludeSpamTokens: excludeSpam,
+      });
+
+      const tokenList = balances?.balances || [];
+      if (tokenList.length === 0) {
+        return toolResult(`No token balances found for ${address}.\n\n[Source: Dune]`, {
+          source: 'Dune',
+          data: balances,
+        });
+      }
+
+      const formatted = tokenList.slice(0, 20).map((t: any) => {
+        const value = t.value_usd ? `$${t.value_usd.toFixed(2)}` : 'N/A';
+        return `- ${t.symbol || 'Unknown'}: ${t.amount || 0} (${value})`;
+      });
+
+      return toolResult(
+        `Token Balances for ${address.slice(0, 10)}...:\n\n${formatted.join('\n')}\n\n[Total: ${tokenList.length} tokens]\n\n[Source: Dune]`,
+        { source: 'Dune', data: balances }
+      );
+    }
+  );
+}
@@ -0,0 +1,1244 @@
+// Etherscan tools - accounts, transactions, tokens, contracts, blocks and daily stats
+import { z } from 'zod';
+
+import * as etherscan from '../adapters/etherscan.js';
+import * as router from '../router/index.js';
+import { nativeSymbol } from '../utils/chains.js';
+import { ClassifiedError } from '../utils/errors.js';
+import {
+  toolResult,
+  jsonRecords,
+  keyStatus,
+  persistInput,
+  persistSetting,
+  SESSION_SETTING,
+  LOCAL_TOOL,
+  rpcBlock,
+  rpcReceipt,
+  rpcTransaction,
+  ToolRegistrar,
+} from './shared.js';
+
+// Units of get_daily_stats' values, where the stat has one
+const DAILY_STAT_UNITS: Partial<Record<string, string>> = {
+  avgblocksize: 'bytes',
+  avgblocktime: 'seconds',
+  avggasprice: 'wei',
+  avggaslimit: 'gas',
+  gasused: 'gas',
+  blockrewards: 'ETH',
+  txnfee: 'ETH',
+  avghashrate: 'GH/s',
+};
+
+export function registerEtherscanTools(tool: ToolRegistrar): void {
+  tool(
+    'set_etherscan_key',
+    "Set Etherscan API key. When Etherscan tools fail due to missing key, simply ask the user: 'What is your Etherscan API key?' then call this tool with their response.",
+    {
+      key: z.string().describe("The user's Etherscan API key"),
+      persist: persistInput,
+    },
+    keyStatus,
+    async ({ key, persist }) => {
+      etherscan.setApiKey(key);
+      const saved = await persistSetting(persist, (config) => {
+        config.keys = { ...config.keys, etherscan: key };
+      });
+      return toolResult(`Key set. Now retry the query.${saved}`, {
+        source: 'ethereum-mcp',
+        data: { configured: true, persisted: !!persist },
+      });
+    },
+    SESSION_SETTING
+  );
+
+  tool(
+    'get_eth_balance',
+    "Get an address's balance in the chain's native currency (ETH on Ethereum and most L2s)",
+    {
+      address: z.string().describe('Ethereum address (0x...) or ENS name'),
+      chain: z
+        .string()
+        .optional()
+        .describe("Chain name or ID (default: the session's chain, see set_chain)"),
+    },
+    z.object({ address: z.string(), balance: z.string() }),
+    async ({ address, chain }) => {
+      // Resolve ENS first to show the resolved address
+      const resolvedAddress = await etherscan.resolveAddress(address);
+      const { result: balance, source } = await router.getBalance(resolvedAddress, chain);
+      const addressDisplay =
+        address !== resolvedAddress ? `${address} (${resolvedAddress})` : address;
+      const chainId = etherscan.getChainId(chain);
+      const unit = nativeSymbol(chainId);
+      return toolResult(
+        `Balance for ${addressDisplay}: ${balance} ${unit}\n\n[Source: ${source}]`,
+        {
+          source,
+          chain: chainId,
+          unit,
+          data: { address: resolvedAddress, balance },
+        }
+      );
+    }
+  );
+
+  tool(
+    'get_transactions',
+    'Get recent external transactions for an Ethereum address. For ETH sent via contracts, use get_internal_transactions.',
+    {
+      address: z.string().describe('Ethereum address (0x...) or ENS name'),
+      limit: z.number().optional().default(10).describe('Number of transactions (max 100)'),
+    },
+    jsonRecords,
+    async ({ address, limit }) => {
+      const txs = await etherscan.getTransactions(address, limit);
+      if (txs.length === 0) {
+        return toolResult(`No transactions found for ${address}\n\n[Source: Etherscan]`, {
+          source: 'Etherscan',
+          data: txs,
+        });
+      }
+      return toolResult(
+        `Recent transactions for ${address}:\n\n${JSON.stringify(txs, null, 2)}\n\nNote: This shows external transactions only. Use get_internal_transactions for ETH transfers via contracts.\n\n[Source: Etherscan]`,
+        { source: 'Etherscan', data: txs }
+      );
+    }
+  );
+
+  tool(
+    'get_internal_transactions',
+    'Get internal transactions (ETH transfers via contract calls) with aggregate totals. Use this for analyzing deposit/withdrawal history.',
+    {
+      address: z.string().describe('Ethereum address (0x...) or ENS name'),
+      limit: z.number().optional().default(100).describe('Number of transactions (max 10000)'),
+    },
+    z.object({
+      summary: z
+        .object({ totalIn: z.string(), totalOut: z.string(), netFlow: z.string() })
+        .describe('ETH totals over every transaction fetched, successful ones only'),
+      transactions: jsonRecords.describe('The 20 most recent'),
+    }),
+    async ({ address, limit }) => {
+      const result = await etherscan.getInternalTransactions(address, limit);
+      if (result.transactions.length === 0) {
+        return toolResult(`No internal transactions found for ${address}\n\n[Source: Etherscan]`, {
+          source: 'Etherscan',
+          unit: 'ETH',
+          data: result,
+        });
+      }
+
+      const summaryText = `Summary (from ${result.transactions.length} internal txs):
+• Total ETH In: ${result.summary.totalIn} ETH
+• Total ETH Out: ${result.summary.totalOut} ETH
+• Net Flow: ${result.summary.netFlow} ETH`;
+
+      return toolResult(
+        `Internal transactions for ${address}:\n\n${summaryText}\n\nRecent internal transactions:\n${JSON.stringify(result.transactions.slice(0, 20), null, 2)}\n\n[Source: Etherscan]`,
+        {
+          source: 'Etherscan',
+          unit: 'ETH',
+          data: { summary: result.summary, transactions: result.transactions.slice(0, 20) },
+        }
+      );
+    }
+  );
+
+  tool(
+    'get_gas_price',
+    'Get current gas prices (slow, average, fast)',
+    {
+      chain: z
+        .string()
+        .optional()
+        .describe("Chain name or ID (default: the session's chain, see set_chain)"),
+    },
+    z.object({ safe: z.string(), propose: z.string(), fast: z.string() }),
+    async ({ chain }) => {
+      const { result: gas, source } = await router.getGasPrice(chain);
+      const note =
+        source === 'JSON-RPC'
+          ? '\n\nNote: JSON-RPC returns a single gas price. Safe/Average/Fast are identical.'
+          : '';
+      return toolResult(
+        `Current Gas Prices:\n- Safe Low: ${gas.SafeGasPrice} Gwei\n- Average: ${gas.ProposeGasPrice} Gwei\n- Fast: ${gas.FastGasPrice} Gwei\n\n[Source: ${source}]${note}`,
+        {
+          source,
+          chain: etherscan.getChainId(chain),
+          unit: 'Gwei',
+          data: { safe: gas.SafeGasPrice, propose: gas.ProposeGasPrice, fast: gas.FastGasPrice },
+        }
+      );
+    }
+  );
+
+  tool(
+    'get_block_number',
+    'Get the latest block number',
+    {
+      chain: z
+        .string()
+        .optional()
+        .describe("Chain name or ID (default: the session's chain, see set_chain)"),
+    },
+    z.number(),
+    async ({ chain }) => {
+      const { result: blockNumber, source } = await router.getBlockNumber(chain);
+      return toolResult(`Latest block number: ${blockNumber}\n\n[Source: ${source}]`, {
+        source,
+        chain: etherscan.getChainId(chain),
+        block: blockNumber,
+        data: blockNumber,
+      });
+    }
+  );
+
+  tool(
+    'get_token_balance',
+    'Get ERC-20 token balance for an address',
+    {
+      address: z.string().describe('Ethereum address (0x...)'),
+      contractAddress: z.string().describe('Token contract address (0x...)'),
+    },
+    z.string(),
+    async ({ address, contractAddress }) => {
+      const balance = await etherscan.getTokenBalance(address, contractAddress);
+      return toolResult(
+        `Token balance for ${address}: ${balance} (raw units - divide by token decimals)\n\n[Source: Etherscan]`,
+        { source: 'Etherscan', data: balance }
+      );
+    }
+  );
+
+  tool(
+    'get_contract_abi',
+    'Get the ABI for a verified contract',
+    {
+      address: z.string().describe('Contract address (0x...)'),
+    },
+    z.string().describe('ABI as a JSON string'),
+    async ({ address }) => {
+      const abi = await etherscan.getContractAbi(address);
+      return toolResult(`Contract ABI for ${address}:\n\n${abi}\n\n[Source: Etherscan]`, {
+        source: 'Etherscan',
+        data: abi,
+      });
+    }
+  );
+
+  tool(
+    'get_eth_price',
+    'Get current ETH price in USD and BTC',
+    {},
+    z.object({
+      usd: z.number(),
+      btc: z.string(),
+      timestamp: z.number().describe('Unix seconds of the quote'),
+    }),
+    async () => {
+      const price = await etherscan.getEthPrice();
+      return toolResult(
+        `ETH Price:\n- USD: $${Number(price.usd || 0).toFixed(2)}\n- BTC: ${price.btc}\n\n[Source: Etherscan]`,
+        { source: 'Etherscan', unit: 'USD', data: price }
+      );
+    }
+  );
+
+  tool(
+    'get_token_transfers',
+    'Get ERC-20 token transfer history for an address. Shows all token movements with token names, symbols, and amounts.',
+    {
+      address: z.string().describe('Ethereum address (0x...) or ENS name'),
+      contractAddress: z.string().optional().describe('Filter by specific token contract address'),
+      limit: z.number().optional().default(100).describe('Number of transfers (max 10000)'),
+    },
+    jsonRecords,
+    async ({ address, contractAddress, limit }) => {
+      const transfers = await etherscan.getTokenTransfers(address, contractAddress, limit);
+      if (transfers.length === 0) {
+        return toolResult(`No token transfers found for ${address}\n\n[Source: Etherscan]`, {
+          source: 'Etherscan',
+          data: transfers,
+        });
+      }
+      return toolResult(
+        `Token transfers for ${address}:\n\n${JSON.stringify(transfers, null, 2)}\n\n[Source: Etherscan]`,
+        { source: 'Etherscan', data: transfers }
+      );
+    }
+  );
+
+  tool(
+    'get_nft_transfers',
+    'Get ERC-721 NFT transfer history for an address. Shows all NFT movements with token IDs and collection info.',
+    {
+      address: z.string().describe('Ethereum address (0x...) or ENS name'),
+      contractAddress: z.string().optional().describe('Filter by specific NFT contract address'),
+      limit: z.number().optional().default(100).describe('Number of transfers (max 10000)'),
+    },
+    jsonRecords,
+    async ({ address, contractAddress, limit }) => {
+      const transfers = await etherscan.getNFTTransfers(address, contractAddress, limit);
+      if (transfers.length === 0) {
+        return toolResult(`No NFT transfers found for ${address}\n\n[Source: Etherscan]`, {
+          source: 'Etherscan',
+          data: transfers,
+        });
+      }
+      return toolResult(
+        `NFT transfers for ${address}:\n\n${JSON.stringify(transfers, null, 2)}\n\n[Source: Etherscan]`,
+        { source: 'Etherscan', data: transfers }
+      );
+    }
+  );
+
+  tool(
+    'get_contract_source',
+    'Get verified source code and metadata for a contract. Returns compiler version, optimization settings, and full source.',
+    {
+      address: z.string().describe('Contract address (0x...)'),
+    },
+    z
+      .object({
+        contractName: z.string(),
+        compilerVersion: z.string(),
+        optimizationUsed: z.boolean(),
+        runs: z.number(),
+        sourceCode: z.string(),
+        abi: z.string(),
+        constructorArguments: z.string(),
+        evmVersion: z.string(),
+        library: z.string(),
+        licenseType: z.string(),
+        proxy: z.boolean(),
+        implementation: z.string(),
+      })
+      .nullable(),
+    async ({ address }) => {
+      const source = await etherscan.getContractSourceCode(address);
+      if (!source) {
+        return toolResult(
+          `Contract ${address} is not verified or not found.\n\n[Source: Etherscan]`,
+          { source: 'Etherscan', data: source }
+        );
+      }
+      return toolResult(
+        `Contract: ${source.contractName}\nCompiler: ${source.compilerVersion}\nOptimization: ${source.optimizationUsed ? `Yes (${source.runs} runs)` : 'No'}\nLicense: ${source.licenseType}\nProxy: ${source.proxy ? `Yes → ${source.implementation}` : 'No'}\n\nSource code length: ${source.sourceCode?.length || 0} chars\n\n[Source: Etherscan]`,
+        { source: 'Etherscan', data: source }
+      );
+    }
+  );
+
+  tool(
+    'get_contract_creator',
+    'Get the creator address and deployment transaction for a contract.',
+    {
+      address: z.string().describe('Contract address (0x...)'),
+    },
+    z
+      .object({ contractAddress: z.string(), creatorAddress: z.string(), txHash: z.string() })
+      .nullable(),
+    async ({ address }) => {
+      const results = await etherscan.getContractCreation([address]);
+      if (results.length === 0) {
+        return toolResult(
+          `Contract creation info not found for ${address}\n\n[Source: Etherscan]`,
+          {
+            source: 'Etherscan',
+            data: null,
+          }
+        );
+      }
+      const info = results[0];
+      return toolResult(
+        `Contract: ${info.contractAddress}\nCreator: ${info.creatorAddress}\nDeploy TX: ${info.txHash}\n\n[Source: Etherscan]`,
+        { source: 'Etherscan', data: info }
+      );
+    }
+  );
+
+  // ============================================
+  // ADDITIONAL ETHERSCAN TOOLS (multi-chain)
+  // ============================================
+
+  tool(
+    'list_chains',
+    'List all supported blockchain networks (60+ chains). Use set_chain to switch the default chain.',
+    {},
+    z.record(z.string(), z.string()),
+    async () => {
+      const chains = etherscan.getSupportedChains();
+      return toolResult(
+        `Supported chains (${chains.length}):\n\n${chains.join(', ')}\n\nUse set_chain to switch the default chain, or pass chain parameter to individual tools.\n\n[Source: Etherscan V2 API]`,
+        { source: 'Etherscan V2 API', data: etherscan.SUPPORTED_CHAINS }
+      );
+    },
+    LOCAL_TOOL
+  );
+
+  tool(
+    'set_chain',
+    'Set the default blockchain for subsequent queries. Affects all Etherscan tools.',
+    {
+      chain: z
+        .string()
+        .describe("Chain name (e.g., 'ethereum', 'polygon', 'base', 'arbitrum') or chain ID"),
+      persist: persistInput,
+    },
+    z.object({ chainId: z.string(), persisted: z.boolean() }),
+    async ({ chain, persist }) => {
+      const chainId = etherscan.getChainId(chain);
+      etherscan.setDefaultChain(chainId);
+      const saved = await persistSetting(persist, (config) => {
+        config.defaultChain = chain;
+      });
+      return toolResult(
+        `Default chain set to ${chain} (chain ID: ${chainId}). All subsequent queries will use this chain.${saved}`,
+        { source: 'ethereum-mcp', chain: chainId, data: { chainId, persisted: !!persist } }
+      );
+    },
+    SESSION_SETTING
+  );
+
+  tool(
+    'get_balance_history',
+    'Get the native balance of an address at a specific block number. Useful for snapshot analysis.',
+    {
+      address: z.string().describe('Ethereum address (0x...) or ENS name'),
+      blockno: z.number().describe('Block number to check balance at'),
+      chain: z
+        .string()
+        .optional()
+        .describe("Chain name or ID (default: the session's chain, see set_chain)"),
+    },
+    z.object({ address: z.string(), balance: z.string() }),
+    async ({ address, blockno, chain }) => {
+      const resolvedAddress = await etherscan.resolveAddress(address);
+      const balance = await etherscan.getBalanceHistory(resolvedAddress, blockno, false, chain);
+      const addressDisplay =
+        address !== resolvedAddress ? `${address} (${resolvedAddress})` : address;
+      const chainId = etherscan.getChainId(chain);
+      const unit = nativeSymbol(chainId);
+      return toolResult(
+        `Balance for ${addressDisplay} at block ${blockno}: ${balance} ${unit}\n\n[Source: Etherscan]`,
+        {
+          source: 'Etherscan',
+          chain: chainId,
+          block: blockno,
+          unit,
+          data: { address: resolvedAddress, balance },
+        }
+      );
+    }
+  );
+
+  tool(
+    'get_erc1155_transfers',
+    'Get ERC-1155 multi-token transfer history for an address. Shows NFT and semi-fungible token movements.',
+    {
+      address: z.string().describe('Ethereum address (0x...) or ENS name'),
+      contractAddress: z.string().optional().describe('Filter by specific ERC-1155 contract'),
+      limit: z.number().optional().default(100).describe('Number of transfers (max 10000)'),
+      chain: z
+        .string()
+        .optional()
+        .describe("Chain name or ID (default: the session's chain, see set_chain)"),
+    },
+    jsonRecords,
+    async ({ address, contractAddress, limit, chain }) => {
+      const transfers = await etherscan.getERC1155Transfers(
+        address,
+        contractAddress,
+        limit,
+        false,
+        chain
+      );
+      if (transfers.length === 0) {
+        return toolResult(`No ERC-1155 transfers found for ${address}\n\n[Source: Etherscan]`, {
+          source: 'Etherscan',
+          chain: etherscan.getChainId(chain),
+          data: transfers,
+        });
+      }
+      return toolResult(
+        `ERC-1155 transfers for ${address}:\n\n${JSON.stringify(transfers, null, 2)}\n\n[Source: Etherscan]`,
+        { source: 'Etherscan', chain: etherscan.getChainId(chain), data: transfers }
+      );
+    }
+  );
+
+  tool(
+    'get_beacon_withdrawals',
+    'Get Beacon Chain staking withdrawals for an address. Shows ETH withdrawn from validators.',
+    {
+      address: z.string().describe('Ethereum address (0x...) or ENS name'),
+      limit: z.number().optional().default(100).describe('Number of withdrawals (max 10000)'),
+      chain: z
+        .string()
+        .optional()
+        .describe("Chain name or ID (default: the session's chain, see set_chain)"),
+    },
+    z.array(
+      z.looseObject({
+        withdrawalIndex: z.string(),
+        validatorIndex: z.string(),
+        address: z.string(),
+        amount: z.string().describe('Gwei'),
+        blockNumber: z.string(),
+        timestamp: z.string(),
+      })
+    ),
+    async ({ address, limit, chain }) => {
+      const withdrawals = await etherscan.getBeaconWithdrawals(address, limit, false, chain);
+      if (withdrawals.length === 0) {
+        return toolResult(`No beacon withdrawals found for ${address}\n\n[Source: Etherscan]`, {
+          source: 'Etherscan',
+          chain: etherscan.getChainId(chain),
+          unit: 'Gwei',
+          data: withdrawals,
+        });
+      }
+      return toolResult(
+        `Beacon withdrawals for ${address}:\n\n${JSON.stringify(withdrawals, null, 2)}\n\n[Source: Etherscan]`,
+        { source: 'Etherscan', chain: etherscan.getChainId(chain), unit: 'Gwei', data: withdrawals }
+      );
+    }
+  );
+
+  tool(
+    'get_address_tokens',
+    'Get all ERC-20 tokens held by an address with balances. Shows complete token portfolio.',
+    {
+      address: z.string().describe('Ethereum address (0x...) or ENS name'),
+      chain: z
+        .string()
+        .optional()
+        .describe("Chain name or ID (default: the session's chain, see set_chain)"),
+    },
+    z.array(
+      z.looseObject({
+        TokenAddress: z.string(),
+        TokenName: z.string(),
+        TokenSymbol: z.string(),
+        TokenQuantity: z.string().describe('Raw units'),
+        TokenDivisor: z.string().describe('Decimals'),
+        TokenPriceUSD: z.string().optional(),
+      })
+    ),
+    async ({ address, chain }) => {
+      const tokens = await etherscan.getAddressTokenBalance(address, false, chain);
+      if (tokens.length === 0) {
+        return toolResult(`No tokens found for ${address}\n\n[Source: Etherscan]`, {
+          source: 'Etherscan',
+          chain: etherscan.getChainId(chain),
+          data: tokens,
+        });
+      }
+      return toolResult(
+        `Tokens held by ${address}:\n\n${JSON.stringify(tokens, null, 2)}\n\n[Source: Etherscan]`,
+        { source: 'Etherscan', chain: etherscan.getChainId(chain), data: tokens }
+      );
+    }
+  );
+
+  tool(
+    'get_address_nfts',
+    'Get all NFTs held by an address. Shows complete NFT collection.',
+    {
+      address: z.string().describe('Ethereum address (0x...) or ENS name'),
+      chain: z
+        .string()
+        .optional()
+        .describe("Chain name or ID (default: the session's chain, see set_chain)"),
+    },
+    z.array(
+      z.looseObject({
+        TokenAddress: z.string(),
+        TokenName: z.string(),
+        TokenSymbol: z.string(),
+        TokenQuantity: z.string(),
+      })
+    ),
+    async ({ address, chain }) => {
+      const nfts = await etherscan.getAddressNFTBalance(address, false, chain);
+      if (nfts.length === 0) {
+        return toolResult(`No NFTs found for ${address}\n\n[Source: Etherscan]`, {
+          source: 'Etherscan',
+          chain: etherscan.getChainId(chain),
+          data: nfts,
+        });
+      }
+      return toolResult(
+        `NFTs held by ${address}:\n\n${JSON.stringify(nfts, null, 2)}\n\n[Source: Etherscan]`,
+        { source: 'Etherscan', chain: etherscan.getChainId(chain), data: nfts }
+      );
+    }
+  );
+
+  tool(
+    'get_block_reward',
+    'Get block reward and uncle information for a specific block.',
+    {
+      blockno: z.number().describe('Block number'),
+      chain: z
+        .string()
+        .optional()
+        .describe("Chain name or ID (default: the session's chain, see set_chain)"),
+    },
+    z.looseObject({
+      blockNumber: z.string(),
+      timeStamp: z.string(),
+      blockMiner: z.string(),
+      blockReward: z.string().describe('Wei'),
+      uncles: z.array(z.record(z.string(), z.unknown())),
+      uncleInclusionReward: z.string().describe('Wei'),
+    }),
+    async ({ blockno, chain }) => {
+      const reward = await etherscan.getBlockReward(blockno, false, chain);
+      return toolResult(
+        `Block ${blockno} reward:\n\n${JSON.stringify(reward, null, 2)}\n\n[Source: Etherscan]`,
+        {
+          source: 'Etherscan',
+          chain: etherscan.getChainId(chain),
+          block: blockno,
+          unit: 'wei',
+          data: reward,
+        }
+      );
+    }
+  );
+
+  tool(
+    'get_block_countdown',
+    'Get estimated time remaining until a future block is mined.',
+    {
+      blockno: z.number().describe('Future block number'),
+      chain: z
+        .string()
+        .optional()
+        .describe("Chain name or ID (default: the session's chain, see set_chain)"),
+    },
+    z.looseObject({
+      CurrentBlock: z.string(),
+      CountdownBlock: z.string(),
+      RemainingBlock: z.string(),
+      EstimateTimeInSec: z.string(),
+    }),
+    async ({ blockno, chain }) => {
+      const countdown = await etherscan.getBlockCountdown(blockno, false, chain);
+      return toolResult(
+        `Block ${blockno} countdown:\n\n${JSON.stringify(countdown, null, 2)}\n\n[Source: Etherscan]`,
+        {
+          source: 'Etherscan',
+          chain: etherscan.getChainId(chain),
+          unit: 'seconds',
+          data: countdown,
+        }
+      );
+    }
+  );
+
+  tool(
+    'get_block_by_timestamp',
+    'Find the block number closest to a given timestamp.',
+    {
+      timestamp: z.number().describe('Unix timestamp (seconds)'),
+      closest: z
+        .enum(['before', 'after'])
+        .optional()
+        .default('before')
+        .describe('Find block before or after timestamp'),
+      chain: z
+        .string()
+        .optional()
+        .describe("Chain name or ID (default: the session's chain, see set_chain)"),
+    },
+    z.number(),
+    async ({ timestamp, closest, chain }) => {
+      const blockno = await etherscan.getBlockByTimestamp(
+        timestamp,
+        closest as 'before' | 'after',
+        false,
+        chain
+      );
+      return toolResult(
+        `Block ${closest} timestamp ${timestamp}: ${blockno}\n\n[Source: Etherscan]`,
+        { source: 'Etherscan', chain: etherscan.getChainId(chain), data: blockno }
+      );
+    }
+  );
+
+  tool(
+    'get_block',
+    'Get detailed block information by block number.',
+    {
+      blockNumber: z
+        .union([z.string(), z.number()])
+        .describe("Block number or 'latest', 'pending', 'earliest'"),
+      fullTx: z.boolean().optional().default(false).describe('Include full transaction objects'),
+      chain: z
+        .string()
+        .optional()
+        .describe("Chain name or ID (default: the session's chain, see set_chain)"),
+    },
+    rpcBlock.nullable(),
+    async ({ blockNumber, fullTx, chain }) => {
+      const { result: block, source } = await router.getBlock(blockNumber, fullTx, chain);
+      return toolResult(
+        `Block ${blockNumber}:\n\n${JSON.stringify(block, null, 2)}\n\n[Source: ${source}]`,
+        { source, chain: etherscan.getChainId(chain), data: block }
+      );
+    }
+  );
+
+  tool(
+    'get_transaction',
+    'Get detailed transaction information by hash.',
+    {
+      txhash: z.string().describe('Transaction hash (0x...)'),
+      chain: z
+        .string()
+        .optional()
+        .describe("Chain name or ID (default: the session's chain, see set_chain)"),
+    },
+    rpcTransaction.nullable(),
+    async ({ txhash, chain }) => {
+      const { result: tx, source } = await router.getTransaction(txhash, chain);
+      return toolResult(
+        `Transaction ${txhash}:\n\n${JSON.stringify(tx, null, 2)}\n\n[Source: ${source}]`,
+        { source, chain: etherscan.getChainId(chain), data: tx }
+      );
+    }
+  );
+
+  tool(
+    'get_tx_receipt',
+    'Get transaction receipt including gas used, logs, and status.',
+    {
+      txhash: z.string().describe('Transaction hash (0x...)'),
+      chain: z
+        .string()
+        .optional()
+        .describe("Chain name or ID (default: the session's chain, see set_chain)"),
+    },
+    rpcReceipt.nullable(),
+    async ({ txhash, chain }) => {
+      const { result: receipt, source } = await router.getTransactionReceipt(txhash, chain);
+      return toolResult(
+        `Transaction receipt for ${txhash}:\n\n${JSON.stringify(receipt, null, 2)}\n\n[Source: ${source}]`,
+        { source, chain: etherscan.getChainId(chain), data: receipt }
+      );
+    }
+  );
+
+  tool(
+    'eth_call',
+    'Execute a read-only contract call. Returns raw hex result.',
+    {
+      to: z.string().describe('Contract address (0x...)'),
+      data: z.string().describe('Encoded function call data (0x...)'),
+      tag: z
+        .string()
+        .optional()
+        .default('latest')
+        .describe("Block tag: 'latest', 'pending', or block number"),
+      chain: z
+        .string()
+        .optional()
+        .describe("Chain name or ID (default: the session's chain, see set_chain)"),
+    },
+    z.string(),
+    async ({ to, data, tag, chain }) => {
+      const { result, source } = await router.onChainEthCall(to, data, tag, chain);
+      return toolResult(`eth_call result: ${result}\n\n[Source: ${source}]`, {
+        source,
+        chain: etherscan.getChainId(chain),
+        data: result,
+      });
+    }
+  );
+
+  tool(
+    'get_code',
+    'Get bytecode at an address. Returns 0x if not a contract.',
+    {
+      address: z.string().describe('Address (0x...)'),
+      chain: z
+        .string()
+        .optional()
+        .describe("Chain name or ID (default: the session's chain, see set_chain)"),
+    },
+    z.string(),
+    async ({ address, chain }) => {
+      const { result: code, source } = await router.getCode(address, chain);
+      const isContract = code !== '0x' && code.length > 2;
+      return toolResult(
+        `Address ${address}: ${isContract ? `Contract (${code.length / 2 - 1} bytes)` : 'Not a contract (EOA)'}\n\nBytecode: ${code.length > 100 ? code.slice(0, 100) + '...' : code}\n\n[Source: ${source}]`,
+        { source, chain: etherscan.getChainId(chain), data: code }
+      );
+    }
+  );
+
+  tool(
+    'get_storage',
+    'Get storage at a specific slot for a contract.',
+    {
+      address: z.string().describe('Contract address (0x...)'),
+      position: z.string().describe('Storage slot position (hex)'),
+      chain: z
+        .string()
+        .optional()
+        .describe("Chain name or ID (default: the session's chain, see set_chain)"),
+    },
+    z.string(),
+    async ({ address, position, chain }) => {
+      const { result: value, source } = await router.getStorageAt(address, position, chain);
+      return toolResult(`Storage at ${address} slot ${position}: ${value}\n\n[Source: ${source}]`, {
+        source,
+        chain: etherscan.getChainId(chain),
+        data: value,
+      });
+    }
+  );
+
+  tool(
+    'estimate_gas',
+    'Estimate gas for a transaction.',
+    {
+      to: z.string().describe('Destination address (0x...)'),
+      data: z.string().describe('Transaction data (0x...)'),
+      value: z.string().optional().default('0x0').describe('ETH value in wei (hex)'),
+      chain: z
+        .string()
+        .optional()
+        .describe("Chain name or ID (default: the session's chain, see set_chain)"),
+    },
+    z.object({ hex: z.string(), gas: z.number() }),
+    async ({ to, data, value, chain }) => {
+      const { result: gas, source } = await router.onChainEstimateGas(to, data, value, chain);
+      const gasDecimal = parseInt(gas, 16);
+      return toolResult(
+        `Estimated gas: ${gasDecimal.toLocaleString()} (${gas})\n\n[Source: ${source}]`,
+        { source, unit: 'gas', data: { hex: gas, gas: gasDecimal } }
+      );
+    }
+  );
+
+  tool(
+    'get_logs',
+    'Get event logs matching filter criteria. Powerful for tracking contract events.',
+    {
+      address: z.string().describe('Contract address (0x...)'),
+      fromBlock: z.union([z.number(), z.string()]).optional().default(0).describe('Start block'),
+      toBlock: z.union([z.number(), z.string()]).optional().default('latest').describe('End block'),
+      topic0: z.string().optional().describe('Event signature hash (first topic)'),
+      topic1: z.string().optional().describe('Second topic (usually first indexed param)'),
+      topic2: z.string().optional().describe('Third topic'),
+      topic3: z.string().optional().describe('Fourth topic'),
+      chain: z
+        .string()
+        .optional()
+        .describe("Chain name or ID (default: the session's chain, see set_chain)"),
+    },
+    jsonRecords,
+    async ({ address, fromBlock, toBlock, topic0, topic1, topic2, topic3, chain }) => {
+      const { result: logs, source } = await router.onChainGetLogs(
+        address,
+        fromBlock,
+        toBlock,
+        topic0,
+        topic1,
+        topic2,
+        topic3,
+        chain
+      );
+      if (logs.length === 0) {
+        return toolResult(`No logs found for ${address}\n\n[Source: ${source}]`, {
+          source,
+          chain: etherscan.getChainId(chain),
+          data: logs,
+        });
+      }
+      return toolResult(
+        `Event logs for ${address} (${logs.length} found):\n\n${JSON.stringify(logs.slice(0, 50), null, 2)}\n\n[Source: ${source}]`,
+        { source, chain: etherscan.getChainId(chain), data: logs.slice(0, 50) }
+      );
+    }
+  );
+
+  tool(
+    'get_eth_supply',
+    'Get total ETH supply.',
+    {
+      chain: z
+        .string()
+        .optional()
+        .describe("Chain name or ID (default: the session's chain, see set_chain)"),
+    },
+    z.string(),
+    async ({ chain }) => {
+      const supply = await etherscan.getEthSupply(false, chain);
+      return toolResult(`Total ETH supply: ${supply} ETH\n\n[Source: Etherscan]`, {
+        source: 'Etherscan',
+        chain: etherscan.getChainId(chain),
+        unit: 'ETH',
+        data: supply,
+      });
+    }
+  );
+
+  tool(
+    'get_node_count',
+    'Get total number of discoverable Ethereum nodes.',
+    {
+      chain: z
+        .string()
+        .optional()
+        .describe("Chain name or ID (default: the session's chain, see set_chain)"),
+    },
+    z.looseObject({ UTCDate: z.string(), TotalNodeCount: z.string() }),
+    async ({ chain }) => {
+      const nodes = await etherscan.getNodeCount(false, chain);
+      return toolResult(
+        `Ethereum node count:\n\n${JSON.stringify(nodes, null, 2)}\n\n[Source: Etherscan]`,
+        { source: 'Etherscan', chain: etherscan.getChainId(chain), data: nodes }
+      );
+    }
+  );
+
+  tool(
+    'get_tx_status',
+    'Check if a transaction was successful or failed with error details.',
+    {
+      txhash: z.string().describe('Transaction hash (0x...)'),
+      chain: z
+        .string()
+        .optional()
+        .describe("Chain name or ID (default: the session's chain, see set_chain)"),
+    },
+    z.object({
+      isError: z.boolean(),
+      errDescription: z.string(),
+    }),
+    async ({ txhash, chain }) => {
+      const status = await etherscan.getTransactionStatus(txhash, false, chain);
+      return toolResult(
+        `Transaction ${txhash}:\nStatus: ${status.isError ? 'FAILED' : 'SUCCESS'}${status.errDescription ? `\nError: ${status.errDescription}` : ''}\n\n[Source: Etherscan]`,
+        { source: 'Etherscan', chain: etherscan.getChainId(chain), data: status }
+      );
+    }
+  );
+
+  tool(
+    'get_token_supply',
+    'Get total supply of an ERC-20 token.',
+    {
+      contractAddress: z.string().describe('Token contract address (0x...)'),
+      chain: z
+        .string()
+        .optional()
+        .describe("Chain name or ID (default: the session's chain, see set_chain)"),
+    },
+    z.string().describe('Raw units'),
+    async ({ contractAddress, chain }) => {
+      const supply = await etherscan.getTokenSupply(contractAddress, false, chain);
+      return toolResult(
+        `Token supply for ${contractAddress}: ${supply} (raw units)\n\n[Source: Etherscan]`,
+        { source: 'Etherscan', chain: etherscan.getChainId(chain), data: supply }
+      );
+    }
+  );
+
+  tool(
+    'get_token_info',
+    'Get token metadata including name, symbol, decimals, and total supply.',
+    {
+      contractAddress: z.string().describe('Token contract address (0x...)'),
+      chain: z
+        .string()
+        .optional()
+        .describe("Chain name or ID (default: the session's chain, see set_chain)"),
+    },
+    z
+      .looseObject({
+        contractAddress: z.string(),
+        tokenName: z.string(),
+        symbol: z.string(),
+        divisor: z.string().describe('Decimals'),
+        tokenType: z.string().optional(),
+        totalSupply: z.string().describe('Raw units'),
+        tokenPriceUSD: z.string().optional(),
+      })
+      .nullable(),
+    async ({ contractAddress, chain }) => {
+      const info = await etherscan.getTokenInfo(contractAddress, false, chain);
+      if (!info) {
+        return toolResult(`Token info not found for ${contractAddress}\n\n[Source: Etherscan]`, {
+          source: 'Etherscan',
+          chain: etherscan.getChainId(chain),
+          data: info,
+        });
+      }
+      return toolResult(
+        `Token info for ${contractAddress}:\n\n${JSON.stringify(info, null, 2)}\n\n[Source: Etherscan]`,
+        { source: 'Etherscan', chain: etherscan.getChainId(chain), data: info }
+      );
+    }
+  );
+
+  tool(
+    'get_token_holders',
+    'Get list of token holders with balances. Useful for distribution analysis.',
+    {
+      contractAddress: z.string().describe('Token contract address (0x...)'),
+      page: z.number().optional().default(1).describe('Page number'),
+      limit: z.number().optional().default(100).describe('Results per page (max 10000)'),
+      chain: z
+        .string()
+        .optional()
+        .describe("Chain name or ID (default: the session's chain, see set_chain)"),
+    },
+    z.array(
+      z.looseObject({
+        TokenHolderAddress: z.string(),
+        TokenHolderQuantity: z.string().describe('Raw units'),
+      })
+    ),
+    async ({ contractAddress, page, limit, chain }) => {
+      const holders = await etherscan.getTokenHolders(contractAddress, page, limit, false, chain);
+      if (holders.length === 0) {
+        return toolResult(`No holders found for ${contractAddress}\n\n[Source: Etherscan]`, {
+          source: 'Etherscan',
+          chain: etherscan.getChainId(chain),
+          data: holders,
+        });
+      }
+      return toolResult(
+        `Token holders for ${contractAddress} (page ${page}):\n\n${JSON.stringify(holders, null, 2)}\n\n[Source: Etherscan]`,
+        { source: 'Etherscan', chain: etherscan.getChainId(chain), data: holders }
+      );
+    }
+  );
+
+  // ============================================
+  // ADDITIONAL ETHERSCAN TOOLS (Account, Proxy, Gas, Daily Stats)
+  // ============================================
+
+  tool(
+    'get_balance_multi',
+    'Get native balances for multiple addresses at once (up to 20)',
+    {
+      addresses: z.array(z.string()).describe('Array of Ethereum addresses (max 20)'),
+      chain: z
+        .string()
+        .optional()
+        .describe("Chain name or ID (default: the session's chain, see set_chain)"),
+    },
+    jsonRecords,
+    async ({ addresses, chain }) => {
+      if (addresses.length > 20) {
+        throw new ClassifiedError('invalid_input', 'Maximum 20 addresses allowed per request.');
+      }
+      const { result: balances, source } = await router.onChainGetBalanceMulti(addresses, chain);
+      const chainId = etherscan.getChainId(chain);
+      const unit = nativeSymbol(chainId);
+      const formatted = balances.map((b: any) => `${b.account}: ${b.balance} ${unit}`);
+      return toolResult(`Balances:\n\n${formatted.join('\n')}\n\n[Source: ${source}]`, {
+        source,
+        chain: chainId,
+        unit,
+        data: balances,
+      });
+    }
+  );
+
+  tool(
+    'get_mined_blocks',
+    'Get blocks mined by an address (for miners/validators)',
+    {
+      address: z.string().describe('Miner/validator address'),
+      blocktype: z.enum(['blocks', 'uncles']).optional().default('blocks').describe('Block type'),
+      chain: z
+        .string()
+        .optional()
+        .describe("Chain name or ID (default: the session's chain, see set_chain)"),
+    },
+    z.array(
+      z.looseObject({
+        blockNumber: z.string(),
+        timeStamp: z.string(),
+        blockReward: z.string().describe('Wei'),
+      })
+    ),
+    async ({ address, blocktype, chain }) => {
+      const blocks = await etherscan.getMinedBlocks(
+        address,
+        blocktype as 'blocks' | 'uncles',
+        1,
+        100,
+        false,
+        chain
+      );
+      if (blocks.length === 0) {
+        return toolResult(`No mined ${blocktype} found for ${address}\n\n[Source: Etherscan]`, {
+          source: 'Etherscan',
+          chain: etherscan.getChainId(chain),
+          unit: 'wei',
+          data: blocks,
+        });
+      }
+      return toolResult(
+        `Mined ${blocktype} by ${address}:\n\n${JSON.stringify(blocks.slice(0, 20), null, 2)}\n\n[Source: Etherscan]`,
+        {
+          source: 'Etherscan',
+          chain: etherscan.getChainId(chain),
+          unit: 'wei',
+          data: blocks.slice(0, 20),
+        }
+      );
+    }
+  );
+
+  tool(
+    'get_transaction_count',
+    'Get the number of transactions (nonce) for an address',
+    {
+      address: z.string().describe('Ethereum address'),
+      chain: z
+        .string()
+        .optional()
+        .describe("Chain name or ID (default: the session's chain, see set_chain)"),
+    },
+    z.number(),
+    async ({ address, chain }) => {
+      const { result: count, source } = await router.onChainGetTransactionCount(address, chain);
+      return toolResult(
+        `Transaction count (nonce) for ${address}: ${count}\n\n[Source: ${source}]`,
+        {
+          source,
+          chain: etherscan.getChainId(chain),
+          data: count,
+        }
+      );
+    }
+  );
+
+  tool(
+    'get_gas_estimate',
+    'Get estimated confirmation time for a given gas price',
+    {
+      gasprice: z.number().describe('Gas price in Gwei'),
+      chain: z
+        .string()
+        .optional()
+        .describe("Chain name or ID (default: the session's chain, see set_chain)"),
+    },
+    z.string().describe('Estimated confirmation time'),
+    async ({ gasprice, chain }) => {
+      const estimate = await etherscan.getGasEstimate(gasprice, false, chain);
+      return toolResult(
+        `Estimated confirmation time at ${gasprice} Gwei: ${estimate} seconds\n\n[Source: Etherscan]`,
+        { source: 'Etherscan', chain: etherscan.getChainId(chain), unit: 'seconds', data: estimate }
+      );
+    }
+  );
+
+  tool(
+    'get_daily_stats',
+    'Get daily blockchain statistics for a date range. Returns metrics like block count, gas usage, tx fees, new addresses, etc.',
+    {
+      stat: z
+        .enum([
+          'avgblocksize',
+          'blockcount',
+          'blockrewards',
+          'avgblocktime',
+          'unclecount',
+          'avggaslimit',
+          'gasused',
+          'avggasprice',
+          'txnfee',
+          'newaddress',
+          'netutilization',
+          'avghashrate',
+          'txcount',
+        ])
+        .describe('Statistic to retrieve'),
+      startdate: z.string().describe('Start date (YYYY-MM-DD)'),
+      enddate: z.string().describe('End date (YYYY-MM-DD)'),
+      chain: z
+        .string()
+        .optional()
+        .describe("Chain name or ID (default: the session's chain, see set_chain)"),
+    },
+    z.array(z.looseObject({ UTCDate: z.string(), unixTimeStamp: z.string() })),
+    async ({ stat, startdate, enddate, chain }) => {
+      let data: any[];
+      switch (stat) {
+        case 'avgblocksize':
+          data = await etherscan.getDailyAvgBlockSize(startdate, enddate, 'asc', false, chain);
+          break;
+        case 'blockcount':
+          data = await etherscan.getDailyBlockCount(startdate, enddate, 'asc', false, chain);
+          break;
+        case 'blockrewards':
+          data = await etherscan.getDailyBlockRewards(startdate, enddate, 'asc', false, chain);
+          break;
+        case 'avgblocktime':
+          data = await etherscan.getDailyAvgBlockTime(startdate, enddate, 'asc', false, chain);
+          break;
+        case 'unclecount':
+          data = await etherscan.getDailyUncleCount(startdate, enddate, 'asc', false, chain);
+          break;
+        case 'avggaslimit':
+          data = await etherscan.getDailyAvgGasLimit(startdate, enddate, 'asc', false, chain);
+          break;
+        case 'gasused':
+          data = await etherscan.getDailyGasUsed(startdate, enddate, 'asc', false, chain);
+          break;
+        case 'avggasprice':
+          data = await etherscan.getDailyAvgGasPrice(startdate, enddate, 'asc', false, chain);
+          break;
+        case 'txnfee':
+          data = await etherscan.getDailyTxnFee(startdate, enddate, 'asc', false, chain);
+          break;
+        case 'newaddress':
+          data = await etherscan.getDailyNewAddress(startdate, enddate, 'asc', false, chain);
+          break;
+        case 'netutilization':
+          data = await etherscan.getDailyNetUtilization(startdate, enddate, 'asc', false, chain);
+          break;
+        case 'avghashrate':
+          data = await etherscan.getDailyAvgHashrate(startdate, enddate, 'asc', false, chain);
+          break;
+        case 'txcount':
+          data = await etherscan.getDailyTxCount(startdate, enddate, 'asc', false, chain);
+          break;
+        default:
+          data = [];
+      }
+      if (data.length === 0) {
+        return toolResult(
+          `No data found for ${stat} from ${startdate} to ${enddate}\n\n[Source: Etherscan]`,
+          {
+            source: 'Etherscan',
+            chain: etherscan.getChainId(chain),
+            unit: DAILY_STAT_UNITS[stat],
+            data,
+          }
+        );
+      }
+      return toolResult(
+        `Daily ${stat} from ${startdate} to ${enddate}:\n\n${JSON.stringify(data, null, 2)}\n\n[Source: Etherscan]`,
+        {
+          source: 'Etherscan',
+          chain: etherscan.getChainId(chain),
+          unit: DAILY_STAT_UNITS[stat],
+          data,
+        }
+      );
+    }
+  );
+}
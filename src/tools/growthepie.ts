@@ -0,0 +1,266 @@
+// growthepie tools - L2 metrics, fees, activity and blob costs (free, no key)
+import { z } from 'zod';
+
+import * as growthepie from '../adapters/growthepie.js';
+import { formatUSD, findBestMatch, toolResult, ToolRegistrar } from './shared.js';
+
+// A chain's value for one metric, as in the rankings
+const chainValue = z.object({ chain: z.string(), value: z.number() });
+
+// Units of growthepie's metrics: money in USD, throughput in Mgas/s
+const METRIC_UNITS: Record<string, string> = {
+  daa: 'addresses',
+  txcount: 'transactions',
+  throughput: 'Mgas/s',
+};
+
+export function registerGrowthepieTools(tool: ToolRegistrar): void {
+  tool(
+    'get_l2_overview',
+    'Get overview of Layer 2 networks including TVL, transactions, and activity',
+    {},
+    z.array(z.object({ chain: z.string(), tvl: z.number(), txcount: z.number() })),
+    async () => {
+      const chains = await growthepie.getL2Overview();
+      const formatted = chains.map(
+        (c) =>
+          `${c.chain}: TVL ${formatUSD(c.tvl)} | ${Math.round(Number(c.txcount) || 0).toLocaleString()} daily txs`
+      );
+      return toolResult(
+        `Layer 2 Overview (Top 15 by TVL):\n\n${formatted.join('\n')}\n\n[Source: growthepie]`,
+        { source: 'growthepie', unit: 'USD', data: chains }
+      );
+    }
+  );
+
+  tool(
+    'get_l2_fees',
+    'Compare transaction fees across Layer 2 networks',
+    {},
+    z.array(z.object({ chain: z.string(), fees: z.number() })),
+    async () => {
+      const chains = await growthepie.getL2Fees();
+      const formatted = chains.map(
+        (c) => `${c.chain}: $${(Number(c.fees) || 0).toFixed(4)} avg tx fee`
+      );
+      return toolResult(
+        `L2 Transaction Fees (Lowest to Highest):\n\n${formatted.join('\n')}\n\n[Source: growthepie]`,
+        { source: 'growthepie', unit: 'USD', data: chains }
+      );
+    }
+  );
+
+  tool(
+    'get_l2_chain',
+    'Get detailed metrics for a specific Layer 2 chain',
+    {
+      chain: z
+        .string()
+        .describe("L2 chain name (e.g., 'arbitrum', 'optimism', 'base', 'zksync era')"),
+    },
+    z
+      .object({
+        chain: z.string(),
+        tvl: z.number(),
+        txcount: z.number(),
+        fees: z.number().describe('Median transaction fee'),
+        daa: z.number().describe('Daily active addresses'),
+        stablesMcap: z.number(),
+        fdv: z.number(),
+        marketCap: z.number(),
+        profit: z.number(),
+        throughput: z.number().describe('Mgas/s'),
+        rentPaid: z.number().describe('Fees paid to L1'),
+      })
+      .nullable(),
+    async ({ chain }) => {
+      // Get available chains and find best match
+      const available = await growthepie.getAvailableChains();
+      const matchedChain = findBestMatch(chain, available);
+
+      if (!matchedChain) {
+        return toolResult(
+          `Chain "${chain}" not found. Available: ${available.slice(0, 20).join(', ')}...\n\n[Source: growthepie]`,
+          { source: 'growthepie', data: null }
+        );
+      }
+
+      const data = await growthepie.getL2Chain(matchedChain);
+      if (!data) {
+        return toolResult(`No data available for "${matchedChain}".\n\n[Source: growthepie]`, {
+          source: 'growthepie',
+          data: null,
+        });
+      }
+
+      return toolResult(
+        `${matchedChain.toUpperCase()} Metrics:\n\n- TVL: ${formatUSD(data.tvl)}\n- Market Cap: ${formatUSD(data.marketCap)}\n- FDV: ${formatUSD(data.fdv)}\n- Daily Transactions: ${Math.round(Number(data.txcount) || 0).toLocaleString()}\n- Daily Active Addresses: ${Math.round(Number(data.daa) || 0).toLocaleString()}\n- Avg Transaction Fee: $${(Number(data.fees) || 0).toFixed(4)}\n- Stablecoin Market Cap: ${formatUSD(data.stablesMcap)}\n- Onchain Profit: ${formatUSD(data.profit)}\n- Rent Paid to L1: ${formatUSD(data.rentPaid)}\n- Throughput: ${data.throughput?.toLocaleString() || 'N/A'}\n\n[Source: growthepie]`,
+        { source: 'growthepie', unit: 'USD', data: { ...data, chain: matchedChain } }
+      );
+    }
+  );
+
+  tool(
+    'get_blob_data',
+    'Get Ethereum blob data and costs for Layer 2s (EIP-4844)',
+    {},
+    z.array(z.object({ chain: z.string(), blobFees: z.number() })),
+    async () => {
+      const chains = await growthepie.getBlobData();
+      const formatted = chains.map((c) => `${c.chain}: ${formatUSD(c.blobFees)} blob fees (24h)`);
+      return toolResult(
+        `L2 Blob Fees Paid to Ethereum (EIP-4844):\n\n${formatted.join('\n')}\n\n[Source: growthepie]`,
+        { source: 'growthepie', unit: 'USD', data: chains }
+      );
+    }
+  );
+
+  tool(
+    'get_l2_metric_ranking',
+    'Get L2 chains ranked by a specific metric',
+    {
+      metric: z
+        .enum([
+          'daa',
+          'fdv',
+          'fees',
+          'market_cap',
+          'profit',
+          'rent_paid',
+          'stables_mcap',
+          'throughput',
+          'tvl',
+          'txcosts',
+          'txcount',
+        ])
+        .describe(
+          'Metric to rank by: daa (daily active addresses), fdv, fees, market_cap, profit, rent_paid (blob fees), stables_mcap, throughput, tvl, txcosts, txcount'
+        ),
+    },
+    z.array(chainValue),
+    async ({ metric }) => {
+      const ranking = await growthepie.getMetricRanking(metric, 20);
+      if (ranking.length === 0) {
+        return toolResult(`No data for metric "${metric}".\n\n[Source: growthepie]`, {
+          source: 'growthepie',
+          unit: METRIC_UNITS[metric] ?? 'USD',
+          data: ranking,
+        });
+      }
+
+      const metricLabels: Record<string, string> = {
+        daa: 'Daily Active Addresses',
+        fdv: 'Fully Diluted Valuation',
+        fees: 'Fees Paid',
+        market_cap: 'Market Cap',
+        profit: 'Onchain Profit',
+        rent_paid: 'Rent Paid to L1',
+        stables_mcap: 'Stablecoin Market Cap',
+        throughput: 'Throughput',
+        tvl: 'Total Value Locked',
+        txcosts: 'Median Transaction Cost',
+        txcount: 'Transaction Count',
+      };
+
+      const formatted = ranking.map((r, i) => {
+        const v = Number(r.value) || 0;
+        const value = ['txcosts'].includes(metric)
+          ? `$${v.toFixed(4)}`
+          : ['daa', 'txcount', 'throughput'].includes(metric)
+            ? Math.round(v).toLocaleString()
+            : formatUSD(v);
+        return `${i + 1}. ${r.chain}: ${value}`;
+      });
+
+      return toolResult(
+        `L2 Ranking by ${metricLabels[metric] || metric}:\n\n${formatted.join('\n')}\n\n[Source: growthepie]`,
+        { source: 'growthepie', unit: METRIC_UNITS[metric] ?? 'USD', data: ranking }
+      );
+    }
+  );
+
+  tool(
+    'get_l2_chains_list',
+    'List all L2 chains tracked by growthepie with metadata',
+    {},
+    z.array(z.object({ key: z.string(), name: z.string(), technology: z.string() })),
+    async () => {
+      const chains = await growthepie.listChains();
+      if (chains.length === 0) {
+        return toolResult('Could not fetch chain list.\n\n[Source: growthepie]', {
+          source: 'growthepie',
+          data: chains,
+        });
+      }
+      const formatted = chains.map((c) => `${c.name} (${c.key}): ${c.technology}`);
+      return toolResult(
+        `L2 Chains on growthepie:\n\n${formatted.join('\n')}\n\n[Source: growthepie]`,
+        { source: 'growthepie', data: chains }
+      );
+    }
+  );
+
+  tool(
+    'get_l2_all_metrics',
+    'Get all metrics for all L2 chains (comprehensive overview)',
+    {},
+    z.array(
+      z.object({
+        chain: z.string(),
+        tvl: z.number(),
+        txcount: z.number(),
+        fees: z.number(),
+        daa: z.number(),
+        stablesMcap: z.number(),
+        fdv: z.number(),
+        marketCap: z.number(),
+        profit: z.number(),
+      })
+    ),
+    async () => {
+      const chains = await growthepie.getAllL2Metrics();
+      const top = chains.slice(0, 15);
+      const formatted = top.map(
+        (c) =>
+          `${c.chain}: TVL ${formatUSD(c.tvl)} | MCap ${formatUSD(c.marketCap)} | DAA ${Math.round(Number(c.daa) || 0).toLocaleString()} | Profit ${formatUSD(c.profit)}`
+      );
+      return toolResult(
+        `L2 Comprehensive Metrics (Top 15):\n\n${formatted.join('\n')}\n\n[Source: growthepie]`,
+        { source: 'growthepie', unit: 'USD', data: top }
+      );
+    }
+  );
+
+  tool(
+    'get_l2_profitability',
+    'Compare L2 profitability (revenue - costs)',
+    {},
+    z.array(chainValue),
+    async () => {
+      const ranking = await growthepie.getMetricRanking('profit', 20);
+      const formatted = ranking.map((r, i) => `${i + 1}. ${r.chain}: ${formatUSD(r.value)} profit`);
+      return toolResult(
+        `L2 Profitability Ranking:\n\n${formatted.join('\n')}\n\n[Source: growthepie]`,
+        { source: 'growthepie', unit: 'USD', data: ranking }
+      );
+    }
+  );
+
+  tool(
+    'get_l2_activity',
+    'Compare L2 activity by daily active addresses',
+    {},
+    z.array(chainValue),
+    async () => {
+      const ranking = await growthepie.getMetricRanking('daa', 20);
+      const formatted = ranking.map(
+        (r, i) =>
+          `${i + 1}. ${r.chain}: ${Math.round(Number(r.value) || 0).toLocaleString()} daily active addresses`
+      );
+      return toolResult(
+        `L2 Activity Ranking (by DAA):\n\n${formatted.join('\n')}\n\n[Source: growthepie]`,
+        { source: 'growthepie', unit: 'addresses', data: ranking }
+      );
+    }
+  );
+}
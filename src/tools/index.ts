@@ -0,0 +1,174 @@
+// Tool registration - tools are grouped by adapter, and a profile plus allow/deny lists
+// decide which groups and tools a server exposes
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+
+import {
+  DEFAULT_ANNOTATIONS,
+  outputSchema,
+  ToolRegistrar,
+  withCallContext,
+  withErrorHandling,
+} from './shared.js';
+import { registerOnboardingTools } from './onboarding.js';
+import { registerEtherscanTools } from './etherscan.js';
+import { registerJsonRpcTools } from './jsonrpc.js';
+import { registerDefiLlamaTools } from './defillama.js';
+import { registerGrowthepieTools } from './growthepie.js';
+import { registerCoinGeckoTools } from './coingecko.js';
+import { registerBlobscanTools } from './blobscan.js';
+import { registerDuneTools } from './dune.js';
+import { registerRouterTools } from './router.js';
+
+export type ToolGroup =
+  | 'onboarding'
+  | 'etherscan'
+  | 'jsonrpc'
+  | 'defillama'
+  | 'growthepie'
+  | 'coingecko'
+  | 'blobscan'
+  | 'dune'
+  | 'router';
+
+const TOOL_GROUPS: Record<ToolGroup, (tool: ToolRegistrar) => void> = {
+  onboarding: registerOnboardingTools,
+  etherscan: registerEtherscanTools,
+  jsonrpc: registerJsonRpcTools,
+  defillama: registerDefiLlamaTools,
+  growthepie: registerGrowthepieTools,
+  coingecko: registerCoinGeckoTools,
+  blobscan: registerBlobscanTools,
+  dune: registerDuneTools,
+  router: registerRouterTools,
+};
+
+export interface ToolProfile {
+  description: string;
+  groups: ToolGroup[];
+  // Individual tools from groups outside the profile
+  tools?: string[];
+}
+
+export const TOOL_PROFILES: Record<string, ToolProfile> = {
+  onchain: {
+    description: 'Accounts, transactions, contracts, blocks and logs',
+    groups: ['onboarding', 'etherscan', 'jsonrpc', 'dune'],
+    tools: ['smart_get_eth_price', 'api_health_check', 'verify_onchain_read'],
+  },
+  defi: {
+    description: 'Protocols, TVL, yields, stablecoins, DEX volumes and fees',
+    groups: ['onboarding', 'defillama'],
+    tools: ['smart_get_price', 'smart_get_eth_price', 'get_price_consensus'],
+  },
+  l2: {
+    description: 'Layer 2 metrics, fees, activity and blob data',
+    groups: ['onboarding', 'growthepie', 'blobscan'],
+    tools: ['smart_get_l2_tvl'],
+  },
+  market: {
+    description: 'Prices, charts, exchanges, derivatives and NFT markets',
+    groups: ['onboarding', 'coingecko'],
+    tools: [
+      'smart_get_price',
+      'smart_get_eth_price',
+      'compare_eth_price_sources',
+      'get_price_consensus',
+    ],
+  },
+  full: {
+    description: 'Every tool',
+    groups: Object.keys(TOOL_GROUPS) as ToolGroup[],
+  },
+};
+
+export interface ToolSelection {
+  profile?: string;
+  // Tool names or group names (e.g. 'get_block', 'coingecko')
+  allow?: string[];
+  deny?: string[];
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+  const items = value
+    ?.split(',')
+    .map((s) => s.trim())
+    .filter(Boolean);
+  return items && items.length > 0 ? items : undefined;
+}
+
+export function toolSelectionFromEnv(env: NodeJS.ProcessEnv = process.env): ToolSelection {
+  return {
+    profile: env.MCP_TOOL_PROFILE || undefined,
+    allow: parseList(env.MCP_TOOLS_ALLOW),
+    deny: parseList(env.MCP_TOOLS_DENY),
+  };
+}
+
+// An allow list without a profile replaces the default `full` profile instead of adding to it
+function selectedProfile(selection: ToolSelection): ToolProfile {
+  const profileName = selection.profile ?? (selection.allow?.length ? undefined : 'full');
+  if (!profileName) return { description: 'Allow list only', groups: [] };
+  const profile = TOOL_PROFILES[profileName];
+  if (!profile) {
+    throw new Error(
+      `Unknown tool profile: ${profileName}. Use one of: ${Object.keys(TOOL_PROFILES).join(', ')}`
+    );
+  }
+  return profile;
+}
+
+// A typo in a deny list would silently expose the tool it meant to hide
+function checkListedNames(selection: ToolSelection, known: Set<string>): void {
+  const unknown = [...(selection.allow ?? []), ...(selection.deny ?? [])].filter(
+    (item) => !known.has(item)
+  );
+  if (unknown.length > 0) {
+    throw new Error(`Unknown tools or groups in allow/deny list: ${unknown.join(', ')}`);
+  }
+}
+
+// Throws for a profile, tool or group that doesn't exist. Run once at startup: servers are
+// created per session, so over HTTP a typo would otherwise fail every client's initialize.
+export function checkToolSelection(selection: ToolSelection = toolSelectionFromEnv()): void {
+  selectedProfile(selection);
+  const known = new Set<string>(Object.keys(TOOL_GROUPS));
+  for (const register of Object.values(TOOL_GROUPS)) {
+    register((name) => known.add(name));
+  }
+  checkListedNames(selection, known);
+}
+
+// A tool is exposed if its group or name is in the profile or the allow list, and
+// neither is in the deny list
+export function registerTools(server: McpServer, selection: ToolSelection = {}): void {
+  const allow = new Set(selection.allow ?? []);
+  const deny = new Set(selection.deny ?? []);
+  const profile = selectedProfile(selection);
+
+  const known = new Set<string>(Object.keys(TOOL_GROUPS));
+  for (const [group, register] of Object.entries(TOOL_GROUPS) as Array<
+    [ToolGroup, (tool: ToolRegistrar) => void]
+  >) {
+    register((name, description, inputSchema, data, handler, annotations) => {
+      known.add(name);
+      const selected =
+        profile.groups.includes(group) ||
+        profile.tools?.includes(name) ||
+        allow.has(group) ||
+        allow.has(name);
+      if (!selected || deny.has(group) || deny.has(name)) return;
+      server.registerTool(
+        name,
+        {
+          description,
+          inputSchema,
+          outputSchema: outputSchema(data),
+          annotations: { ...DEFAULT_ANNOTATIONS, ...annotations },
+        },
+        withErrorHandling(withCallContext(handler))
+      );
+    });
+  }
+
+  checkListedNames(selection, known);
+}
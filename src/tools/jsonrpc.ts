@@ -0,0 +1,211 @@
+// JSON-RPC tools - connect a local or self-hosted node as the primary on-chain source
+import { z } from 'zod';
+
+import * as etherscan from '../adapters/etherscan.js';
+import * as jsonrpc from '../adapters/jsonrpc.js';
+import { isKnownChain, resolveChainId } from '../utils/chains.js';
+import { ClassifiedError } from '../utils/errors.js';
+import { redactUrl } from '../utils/security.js';
+import { toolResult, persistInput, persistSetting, ToolRegistrar } from './shared.js';
+
+const CONNECT_TROUBLESHOOTING = `Troubleshooting:\n- Verify the URL is correct and the node is running\n- Check that the node accepts JSON-RPC connections\n- Try: curl -X POST -H "Content-Type: application/json" --data '{"jsonrpc":"2.0","method":"eth_chainId","params":[],"id":1}' <your-url>`;
+
+function connectError(error: Error): ClassifiedError {
+  return new ClassifiedError(
+    /invalid url/i.test(error.message) ? 'invalid_input' : 'upstream_down',
+    `Failed to connect to node: ${error.message}\n\n${CONNECT_TROUBLESHOOTING}`
+  );
+}
+
+// Reverse-lookup chain name from Etherscan's supported chains
+function chainNameOf(chainId: string | null): string {
+  return (
+    Object.entries(etherscan.SUPPORTED_CHAINS).find(([, id]) => id === chainId)?.[0] || 'unknown'
+  );
+}
+
+// Sets the config file's node list under one key. A single node is saved as a plain string.
+function setConfigNodes(config: Record<string, any>, key: string, urls: string[]): void {
+  const nodes: Record<string, string | string[]> = { ...config.nodes };
+  if (urls.length === 0) {
+    delete nodes[key];
+  } else {
+    nodes[key] = urls.length === 1 ? urls[0] : urls;
+  }
+  config.nodes = nodes;
+}
+
+// Edits the config file's node list for a chain, under whichever name or ID the file
+// already uses for it
+function editConfigNodes(
+  config: Record<string, any>,
+  chainId: string,
+  edit: (urls: string[]) => string[]
+): void {
+  const key =
+    Object.keys(config.nodes ?? {}).find(
+      (name) => isKnownChain(name) && resolveChainId(name) === chainId
+    ) ?? chainId;
+  setConfigNodes(config, key, edit([config.nodes?.[key] ?? []].flat()));
+}
+
+export function registerJsonRpcTools(tool: ToolRegistrar): void {
+  tool(
+    'set_node_url',
+    'Set a local/self-hosted Ethereum node URL for JSON-RPC queries. When configured, on-chain queries (balances, blocks, transactions, gas, logs) use the node as primary source with Etherscan as fallback.',
+    {
+      url: z.string().describe('Node JSON-RPC URL (e.g. http://localhost:8545)'),
+      persist: persistInput,
+    },
+    z.object({
+      url: z.string(),
+      chainName: z.string(),
+      connected: z.boolean(),
+      persisted: z.boolean(),
+    }),
+    async ({ url, persist }) => {
+      const { chainId, blockNumber } = await jsonrpc.setNodeUrl(url).catch((error: Error) => {
+        throw connectError(error);
+      });
+      const chainName = chainNameOf(chainId);
+
+      // Saved first under the chain the node reported, next to any nodes for other chains
+      const saved = await persistSetting(persist, (config) => {
+        editConfigNodes(config, chainId, (urls) => [url, ...urls.filter((u) => u !== url)]);
+      });
+
+      const displayUrl = jsonrpc.getNodeUrlDisplay();
+      // Queries without a chain go to the default chain, whatever chain the node is on
+      const defaultChainId = etherscan.getChainId();
+      const usage =
+        chainId === defaultChainId
+          ? 'On-chain queries will now use this node as primary source with Etherscan as fallback.'
+          : `On-chain queries for ${chainName} will now use this node as primary source with Etherscan as fallback. Queries without a chain still go to the default chain (ID ${defaultChainId}); change it with set_chain.`;
+      return toolResult(
+        `Node connected: ${displayUrl}\nChain: ${chainName} (ID ${chainId})\nBlock: ${blockNumber}\n\n${usage}${saved}`,
+        {
+          source: 'JSON-RPC',
+          chain: chainId,
+          block: blockNumber,
+          data: { url: displayUrl, chainName, connected: true, persisted: !!persist },
+        }
+      );
+    },
+    { readOnlyHint: false, destructiveHint: false }
+  );
+
+  tool(
+    'add_node',
+    'Add another JSON-RPC node, as a backup for the same chain or for a different chain. Calls go to the healthiest node on their chain and fail over to the next one when a node stops answering.',
+    {
+      url: z.string().describe('Node JSON-RPC URL (e.g. https://rpc.example.com)'),
+      chain: z
+        .string()
+        .optional()
+        .describe(
+          'Chain the node must be on (name or ID); the node is rejected if it reports another'
+        ),
+      persist: persistInput,
+    },
+    z.object({ id: z.string(), url: z.string(), chainName: z.string(), persisted: z.boolean() }),
+    async ({ url, chain, persist }) => {
+      const { id, chainId, blockNumber, nodesOnChain } = await jsonrpc
+        .addNode(url, chain)
+        .catch((error: Error) => {
+          if (/unknown chain|invalid node/i.test(error.message)) throw error;
+          throw connectError(error);
+        });
+      const chainName = chainNameOf(chainId);
+
+      const saved = await persistSetting(persist, (config) => {
+        editConfigNodes(config, chainId, (urls) => (urls.includes(url) ? urls : [...urls, url]));
+      });
+
+      return toolResult(
+        `Node added: ${id}\nChain: ${chainName} (ID ${chainId})\nBlock: ${blockNumber}\nNodes on this chain: ${nodesOnChain}${saved}`,
+        {
+          source: 'JSON-RPC',
+          chain: chainId,
+          block: blockNumber,
+          data: { id, url: redactUrl(url), chainName, persisted: !!persist },
+        }
+      );
+    },
+    { readOnlyHint: false, destructiveHint: false }
+  );
+
+  tool(
+    'remove_node',
+    'Remove a JSON-RPC node by its ID (from list_nodes) or URL. Removing the primary node makes the next one primary.',
+    {
+      node: z.string().describe('Node ID (e.g. node-3f2a9c1b7d4e) or URL'),
+      persist: z
+        .boolean()
+        .optional()
+        .describe('Also remove it from the config file (default: false)'),
+    },
+    z.object({ id: z.string(), remaining: z.number(), persisted: z.boolean() }),
+    async ({ node, persist }) => {
+      const { id, url, remaining } = jsonrpc.removeNode(node);
+      const saved = await persistSetting(persist, (config) => {
+        for (const [key, urls] of Object.entries<string | string[]>(config.nodes ?? {})) {
+          setConfigNodes(
+            config,
+            key,
+            [urls].flat().filter((u) => u !== url)
+          );
+        }
+      });
+
+      return toolResult(
+        `Node removed: ${id}\nNodes left: ${remaining}${remaining === 0 ? ' (on-chain queries use Etherscan)' : ''}${saved}`,
+        {
+          source: 'ethereum-mcp',
+          data: { id, remaining, persisted: !!persist },
+        }
+      );
+    },
+    { readOnlyHint: false, destructiveHint: true, idempotentHint: false, openWorldHint: false }
+  );
+
+  tool(
+    'list_nodes',
+    "List this session's JSON-RPC nodes with their chain, head block, latency, error rate and health. Calls that don't name a chain go to the default chain's nodes (set_chain), healthiest first; the primary node is the one set_node_url set last.",
+    {},
+    z.object({
+      nodes: z.array(
+        z.object({
+          id: z.string(),
+          url: z.string(),
+          chainId: z.string().nullable(),
+          primary: z.boolean(),
+          blockNumber: z.number().nullable(),
+          healthy: z.boolean(),
+          latencyMs: z.number().nullable(),
+          errorRate: z.number(),
+          requests: z.number(),
+          lastError: z.string().nullable(),
+          score: z.number(),
+        })
+      ),
+    }),
+    async () => {
+      const nodes = await jsonrpc.listNodes();
+      if (nodes.length === 0) {
+        return toolResult('No JSON-RPC nodes set. Call set_node_url or add_node to add one.', {
+          source: 'ethereum-mcp',
+          data: { nodes },
+        });
+      }
+
+      const lines = nodes.map(
+        (node) =>
+          `* ${node.id}${node.primary ? ' (primary)' : ''}: ${node.url}\n  Chain: ${chainNameOf(node.chainId)} (ID ${node.chainId ?? '?'}), block ${node.blockNumber ?? '-'}\n  ${node.healthy ? '[OK]' : '[X] down'} latency ${node.latencyMs === null ? '-' : `${node.latencyMs} ms`}, error rate ${(node.errorRate * 100).toFixed(0)}% recently, ${node.requests} request${node.requests === 1 ? '' : 's'}${node.lastError ? `, last error: ${node.lastError}` : ''}`
+      );
+      return toolResult(`JSON-RPC NODES (${nodes.length})\n\n${lines.join('\n')}`, {
+        source: 'JSON-RPC',
+        data: { nodes },
+      });
+    }
+  );
+}
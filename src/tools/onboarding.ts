@@ -0,0 +1,321 @@
+// Onboarding tools - introduction, source status, effective config, cache and example queries
+import { z } from 'zod';
+
+import * as etherscan from '../adapters/etherscan.js';
+import * as jsonrpc from '../adapters/jsonrpc.js';
+import * as defillama from '../adapters/defillama.js';
+import * as coingecko from '../adapters/coingecko.js';
+import {
+  CACHE_MAX_BYTES,
+  CACHE_MAX_ENTRIES,
+  clearCache,
+  DISK_CACHE_DIR,
+  DISK_CACHE_MAX_BYTES,
+  diskCache,
+  getCacheStats,
+  TTL,
+} from '../utils/cache.js';
+import * as router from '../router/index.js';
+import {
+  getConfig,
+  getConfigStatus,
+  ROUTING_CAPABILITIES,
+  RoutingCapability,
+  routingPolicySchema,
+} from '../utils/config.js';
+import { redactUrl } from '../utils/security.js';
+import { getSession, McpEnv } from '../utils/session.js';
+import { formatBytes, toolResult, LOCAL_TOOL, ToolRegistrar } from './shared.js';
+
+// Where a key in effect came from; the value itself is never reported
+function keySource(value: string, envName: keyof McpEnv, configValue?: string) {
+  if (!value) return { configured: false, source: null };
+  const source =
+    value === process.env[envName]
+      ? 'environment'
+      : value === configValue
+        ? 'config file'
+        : 'session';
+  return { configured: true, source };
+}
+
+export function registerOnboardingTools(tool: ToolRegistrar): void {
+  tool(
+    'talk_to_ethereum',
+    'Start here - introduction and example queries for Ethereum researchers',
+    {},
+    z.object({
+      etherscan: z.boolean(),
+      jsonrpc: z.boolean(),
+      nodeChainId: z.string().nullable(),
+      defillamaPro: z.boolean(),
+      coingeckoPro: z.boolean(),
+    }),
+    async () => {
+      const etherscanStatus = etherscan.isConfigured() ? '[OK] Ready' : '[X] Need API key';
+      const nodeChainId = jsonrpc.getNodeChainId();
+      const jsonrpcDisplay = jsonrpc.getNodeUrlDisplay();
+      const jsonrpcStatus = jsonrpc.isConfigured()
+        ? `[OK] ${jsonrpcDisplay}${nodeChainId ? ` (chain ${nodeChainId})` : ''}`
+        : '(Optional, use set_node_url)';
+      const defillamaProStatus = defillama.isProConfigured()
+        ? '[OK] Pro enabled'
+        : '(Pro optional)';
+      const coingeckoProStatus = coingecko.isProConfigured()
+        ? '[OK] Pro enabled'
+        : '(Pro optional)';
+      return toolResult(
+        `* ETHEREUM MCP — Ready
+
+Query Ethereum and DeFi data in plain English. Built by ECF for researchers.
+
+STATUS:
+* Etherscan: ${etherscanStatus} (balances, transactions, gas, contracts)
+* JSON-RPC Node: ${jsonrpcStatus} (local/self-hosted node, fallback with Etherscan)
+* DefiLlama: [OK] Ready ${defillamaProStatus} (TVL, yields, stablecoins, DEX volumes)
+* CoinGecko: [OK] Ready ${coingeckoProStatus} (prices, exchanges, NFTs, derivatives)
+* growthepie: [OK] Ready (L2 metrics, fees, activity)
+* Blobscan: [OK] Ready (EIP-4844 blob data)
+* Dune: Optional (custom queries, free API key available)
+
+WHAT I CAN DO:
+• Query 60+ blockchains (Ethereum, Polygon, Base, Arbitrum, etc.)
+• Resolve ENS names automatically (vitalik.eth → 0xd8dA6BF...)
+• Look up any address or ENS name (e.g., "vitalik.eth balance")
+• Get transaction history including internal/contract transfers (up to 10k)
+• Track ERC-20/721/1155 token transfers and NFT movements
+• Get all tokens and NFTs held by an address
+• Get event logs, block info, transaction receipts
+• Compare L2 fees, TVL, activity across chains
+• Find yield opportunities by chain or protocol
+• Get contract source code, ABI, and deployment info
+
+LIMITATIONS:
+• Price data may lag 1-5 minutes
+• Some queries limited to 10k results (use Dune for complete history)
+
+TRY THESE:
+• "Balance of vitalik.eth"
+• "What tokens does vitalik.eth hold?"
+• "Token transfers for vitalik.eth"
+• "Which L2 has the lowest fees?"
+• "Internal transactions for 0x..."
+• "Who deployed this contract?"
+• "List supported chains" or "Switch to Base"
+
+WORKFLOW PROMPTS:
+• wallet_due_diligence, compare_l2s, protocol_deep_dive, investigate_failed_tx
+
+github.com/ethcf/ethereum-mcp`,
+        {
+          source: 'ethereum-mcp',
+          data: {
+            etherscan: etherscan.isConfigured(),
+            jsonrpc: jsonrpc.isConfigured(),
+            nodeChainId,
+            defillamaPro: defillama.isProConfigured(),
+            coingeckoPro: coingecko.isProConfigured(),
+          },
+        }
+      );
+    },
+    LOCAL_TOOL
+  );
+
+  tool(
+    'get_server_status',
+    'Show the effective server configuration: where each API key comes from, node, default chain, cache and routing settings, and the config file in use. Secrets are redacted.',
+    {},
+    z.object({
+      configFile: z.object({
+        path: z.string(),
+        exists: z.boolean(),
+        error: z.string().nullable(),
+        writable: z.boolean(),
+      }),
+      keys: z.record(
+        z.string(),
+        z.object({ configured: z.boolean(), source: z.string().nullable() })
+      ),
+      defaultChain: z.string(),
+      node: z.object({
+        url: z.string().nullable(),
+        chainId: z.string().nullable(),
+        count: z.number(),
+      }),
+      configuredNodes: z.record(z.string(), z.array(z.string())),
+      cache: z.object({
+        maxEntries: z.number(),
+        maxMb: z.number(),
+        ttlSeconds: z.record(z.string(), z.number()),
+        disk: z.object({ enabled: z.boolean(), dir: z.string(), maxMb: z.number() }),
+      }),
+      routing: z.object({
+        preferredSources: z.array(z.string()),
+        disabledSources: z.array(z.string()),
+        nodeSelection: z.enum(['best', 'round-robin']),
+        // Effective per-capability policies (config file and this session), where set
+        policies: z.record(z.string(), routingPolicySchema),
+      }),
+    }),
+    async () => {
+      const session = getSession();
+      const config = getConfig();
+      const configFile = getConfigStatus();
+      const keys = {
+        etherscan: keySource(session.etherscanApiKey, 'ETHERSCAN_API_KEY', config.keys?.etherscan),
+        coingecko: keySource(session.coingeckoApiKey, 'COINGECKO_API_KEY', config.keys?.coingecko),
+        defillama: keySource(session.defillamaApiKey, 'DEFILLAMA_API_KEY', config.keys?.defillama),
+        dune: keySource(session.duneApiKey, 'DUNE_API_KEY', config.keys?.dune),
+      };
+      // The primary node; list_nodes shows all of them
+      const primary = session.nodes[0];
+      const node = {
+        url: primary ? redactUrl(primary.url) : null,
+        chainId: primary?.chainId ?? null,
+        count: session.nodes.length,
+      };
+      const configuredNodes = Object.fromEntries(
+        Object.entries(config.nodes ?? {}).map(([chain, urls]) => [
+          chain,
+          [urls].flat().map(redactUrl),
+        ])
+      );
+      const ttlSeconds = Object.fromEntries(
+        Object.entries(TTL).map(([name, ms]) => [name.toLowerCase(), ms / 1000])
+      );
+      const disk = {
+        enabled: diskCache !== null,
+        dir: DISK_CACHE_DIR,
+        maxMb: DISK_CACHE_MAX_BYTES / 1024 / 1024,
+      };
+      const routing = {
+        preferredSources: config.routing?.preferredSources ?? [],
+        disabledSources: config.routing?.disabledSources ?? [],
+        nodeSelection: config.routing?.nodeSelection ?? 'best',
+        policies: Object.fromEntries(
+          ROUTING_CAPABILITIES.map((capability) => [
+            capability,
+            router.routingPolicy(capability),
+          ]).filter(([, policy]) => Object.keys(policy).length > 0)
+        ),
+      };
+
+      const keyLines = Object.entries(keys).map(
+        ([name, key]) => `* ${name}: ${key.configured ? `set (${key.source})` : 'not set'}`
+      );
+      const text = [
+        `SERVER STATUS`,
+        ``,
+        `Config file: ${configFile.path} (${configFile.exists ? 'loaded' : 'not found'}${configFile.writable ? '' : ', read-only'})`,
+        ...(configFile.error ? [`[X] Config file ignored: ${configFile.error}`] : []),
+        ``,
+        `API keys:`,
+        ...keyLines,
+        ``,
+        `Default chain: ${session.defaultChainId}`,
+        `Node: ${node.url ? `${node.url}${node.chainId ? ` (chain ${node.chainId})` : ''}` : 'not set'}${node.count > 1 ? `, plus ${node.count - 1} more (see list_nodes)` : ''}`,
+        ...Object.entries(configuredNodes).map(
+          ([chain, urls]) => `* config nodes for ${chain}: ${urls.join(', ')}`
+        ),
+        ``,
+        `Cache: up to ${CACHE_MAX_ENTRIES} entries or ${CACHE_MAX_BYTES / 1024 / 1024} MB, TTLs ${Object.entries(
+          ttlSeconds
+        )
+          .map(([name, seconds]) => `${name} ${seconds}s`)
+          .join(', ')}`,
+        `Disk cache: ${disk.enabled ? `${disk.dir} (up to ${disk.maxMb} MB)` : 'off'}`,
+        `Routing: preferred [${routing.preferredSources.join(', ')}], disabled [${routing.disabledSources.join(', ')}], node selection ${routing.nodeSelection}`,
+        ...Object.keys(routing.policies).map(
+          (capability) =>
+            `* ${capability}: ${router.routingOrder(capability as RoutingCapability).join(' -> ')} ${JSON.stringify(routing.policies[capability])}`
+        ),
+      ].join('\n');
+
+      return toolResult(text, {
+        source: 'ethereum-mcp',
+        chain: session.defaultChainId,
+        data: {
+          configFile,
+          keys,
+          defaultChain: session.defaultChainId,
+          node,
+          configuredNodes,
+          cache: {
+            maxEntries: CACHE_MAX_ENTRIES,
+            maxMb: CACHE_MAX_BYTES / 1024 / 1024,
+            ttlSeconds,
+            disk,
+          },
+          routing,
+        },
+      });
+    },
+    LOCAL_TOOL
+  );
+  tool(
+    'cache_stats',
+    'Show what the response cache holds: entries, approximate size and hit/miss rates per source (etherscan, jsonrpc, defillama, ...), plus the disk tier.',
+    {},
+    z.object({
+      entries: z.number(),
+      bytes: z.number(),
+      maxBytes: z.number(),
+      namespaces: z.array(
+        z.object({
+          namespace: z.string(),
+          entries: z.number(),
+          bytes: z.number(),
+          hits: z.number(),
+          misses: z.number(),
+          hitRate: z.number().nullable(),
+        })
+      ),
+      disk: z.object({ entries: z.number(), bytes: z.number(), maxBytes: z.number() }).nullable(),
+    }),
+    async () => {
+      const stats = await getCacheStats();
+      const lines = [
+        `CACHE`,
+        ``,
+        `Memory: ${stats.entries} entries, ${formatBytes(stats.bytes)} of ${formatBytes(stats.maxBytes)}`,
+        `Disk: ${stats.disk ? `${stats.disk.entries} entries, ${formatBytes(stats.disk.bytes)} of ${formatBytes(stats.disk.maxBytes)}` : 'off'}`,
+        ``,
+        ...stats.namespaces.map(
+          (ns) =>
+            `* ${ns.namespace}: ${ns.entries} entries, ${formatBytes(ns.bytes)}, ${ns.hits} hits / ${ns.misses} misses${ns.hitRate === null ? '' : ` (${(ns.hitRate * 100).toFixed(1)}% hit rate)`}`
+        ),
+      ];
+      return toolResult(lines.join('\n'), { source: 'ethereum-mcp', data: stats });
+    },
+    LOCAL_TOOL
+  );
+
+  tool(
+    'cache_clear',
+    'Clear cached responses whose key starts with a prefix (e.g. "defillama:", "etherscan:1:"), or everything. The disk tier only holds data that cannot change and is kept unless includeDisk is set. Disabled on shared HTTP servers.',
+    {
+      prefix: z
+        .string()
+        .optional()
+        .default('')
+        .describe('Key prefix, usually a source name like "coingecko:" (default: everything)'),
+      includeDisk: z
+        .boolean()
+        .optional()
+        .default(false)
+        .describe('Also clear matching entries from the disk tier (default: false)'),
+    },
+    z.object({ prefix: z.string(), memory: z.number(), disk: z.number() }),
+    async ({ prefix, includeDisk }) => {
+      const removed = await clearCache(prefix, includeDisk);
+      const scope = prefix ? ` matching "${prefix}"` : '';
+      const disk = includeDisk ? ` and ${removed.disk} from disk` : '';
+      return toolResult(`Cleared ${removed.memory} cached entries${scope}${disk}.`, {
+        source: 'ethereum-mcp',
+        data: { prefix, ...removed },
+      });
+    },
+    { readOnlyHint: false, destructiveHint: true, openWorldHint: false }
+  );
+}
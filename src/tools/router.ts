@@ -0,0 +1,611 @@
+// Smart routed tools - prices and TVL with automatic fallbacks, source health
+import { z } from 'zod';
+
+import * as etherscan from '../adapters/etherscan.js';
+import * as router from '../router/index.js';
+import { chainName, resolveChainId } from '../utils/chains.js';
+import { ROUTING_CAPABILITIES, RoutingPolicy, routingPolicySchema } from '../utils/config.js';
+import { ClassifiedError } from '../utils/errors.js';
+import { getSourceStats } from '../utils/metrics.js';
+import { getSession } from '../utils/session.js';
+import {
+  formatUSD,
+  toolResult,
+  persistInput,
+  persistSetting,
+  LOCAL_TOOL,
+  SESSION_SETTING,
+  ToolRegistrar,
+} from './shared.js';
+
+// ============================================
+// DATA SHAPES
+// ============================================
+
+const staleInfo = z.object({ ageSeconds: z.number(), reason: z.string() });
+
+const priceResult = z.object({
+  price: z.number(),
+  currency: z.string(),
+  source: z.string(),
+  change24h: z.number().optional().describe('Percent'),
+  marketCap: z.number().optional(),
+  fallbacksUsed: z.number().describe('Sources that failed or were skipped first'),
+  stale: staleInfo.optional(),
+});
+
+// Served from an earlier call: say so, and how old it is
+function staleNote(stale: router.StaleInfo): string {
+  return `_Stale: every source failed, showing the value from ${stale.ageSeconds}s ago_`;
+}
+
+export function registerRouterTools(tool: ToolRegistrar): void {
+  tool(
+    'smart_get_price',
+    'Get price for any token with automatic fallbacks between CoinGecko and DefiLlama. More reliable than single-source tools.',
+    {
+      token: z
+        .string()
+        .describe('Token name (e.g., "bitcoin", "ethereum") or contract address (0x...)'),
+      chain: z
+        .string()
+        .optional()
+        .default('ethereum')
+        .describe('Chain for contract addresses (default: ethereum)'),
+    },
+    priceResult,
+    async ({ token, chain }) => {
+      const result = await router.getTokenPrice(token, chain);
+      const lines = [
+        `**${token.toUpperCase()}**: $${result.price.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 6 })}`,
+      ];
+      if (result.change24h != null) {
+        const ch = Number(result.change24h);
+        const changeStr = ch >= 0 ? `+${ch.toFixed(2)}%` : `${ch.toFixed(2)}%`;
+        lines.push(`24h Change: ${changeStr}`);
+      }
+      if (result.marketCap != null) {
+        lines.push(`Market Cap: ${formatUSD(result.marketCap)}`);
+      }
+      if (result.stale) {
+        lines.push(`\n${staleNote(result.stale)}`);
+      } else if (result.fallbacksUsed > 0) {
+        lines.push(`\n_Note: Primary source unavailable, used ${result.source} as fallback_`);
+      }
+      lines.push(`\n[Source: ${result.source}]`);
+      return toolResult(lines.join('\n'), {
+        source: result.source,
+        unit: 'USD',
+        stale: result.stale,
+        data: result,
+      });
+    }
+  );
+
+  tool(
+    'smart_get_eth_price',
+    'Get ETH price with automatic fallbacks: Etherscan → CoinGecko → DefiLlama',
+    {},
+    priceResult,
+    async () => {
+      const result = await router.getEthPrice();
+      const lines = [
+        `**ETH**: $${result.price.toLocaleString(undefined, { minimumFractionDigits: 2 })}`,
+      ];
+      if (result.change24h != null) {
+        const ch = Number(result.change24h);
+        const changeStr = ch >= 0 ? `+${ch.toFixed(2)}%` : `${ch.toFixed(2)}%`;
+        lines.push(`24h Change: ${changeStr}`);
+      }
+      if (result.stale) {
+        lines.push(`\n${staleNote(result.stale)}`);
+      } else if (result.fallbacksUsed > 0) {
+        lines.push(`\n_Note: Used ${result.source} (fallback #${result.fallbacksUsed})_`);
+      }
+      lines.push(`\n[Source: ${result.source}]`);
+      return toolResult(lines.join('\n'), {
+        source: result.source,
+        unit: 'USD',
+        stale: result.stale,
+        data: result,
+      });
+    }
+  );
+
+  tool(
+    'smart_get_l2_tvl',
+    'Get L2 TVL with automatic fallbacks: growthepie → DefiLlama',
+    {
+      chain: z.string().describe('L2 chain name (e.g., "arbitrum", "optimism", "base")'),
+    },
+    z.object({
+      tvl: z.number(),
+      source: z.string(),
+      fallbacksUsed: z.number(),
+      breakdown: z.record(z.string(), z.number()).optional(),
+      stale: staleInfo.optional(),
+    }),
+    async ({ chain }) => {
+      const result = await router.getL2Tvl(chain);
+      const lines = [`**${chain.toUpperCase()} TVL**: ${formatUSD(result.tvl)}`];
+      if (result.stale) {
+        lines.push(`\n${staleNote(result.stale)}`);
+      } else if (result.fallbacksUsed > 0) {
+        lines.push(`\n_Note: Used ${result.source} (fallback #${result.fallbacksUsed})_`);
+      }
+      lines.push(`\n[Source: ${result.source}]`);
+      return toolResult(lines.join('\n'), {
+        source: result.source,
+        unit: 'USD',
+        stale: result.stale,
+        data: result,
+      });
+    }
+  );
+
+  tool(
+    'verify_onchain_read',
+    'Read on-chain data from every available source (each healthy JSON-RPC node on the chain, plus Etherscan) at the same block and check that they agree. Slower than the regular tools; use it when data integrity matters more than latency. Balances are in wei and compared between nodes only.',
+    {
+      method: z
+        .enum(['balance', 'block', 'eth_call', 'code', 'storage', 'nonce'])
+        .describe('What to read'),
+      address: z
+        .string()
+        .optional()
+        .describe(
+          'Account or contract (0x...) for balance, code, storage and nonce; ENS names work for balance and nonce'
+        ),
+      to: z.string().optional().describe('Contract address (0x...) for eth_call'),
+      data: z.string().optional().describe('Encoded call data (0x...) for eth_call'),
+      position: z.string().optional().describe('Storage slot (hex) for storage'),
+      blockNumber: z
+        .union([z.string(), z.number()])
+        .optional()
+        .default('latest')
+        .describe(
+          "Block to read at. 'latest' reads at the lowest head among the sources, so every one has the block"
+        ),
+      chain: z
+        .string()
+        .optional()
+        .describe("Chain name or ID (default: the session's chain, see set_chain)"),
+    },
+    z.object({
+      result: z.unknown(),
+      chainId: z.string(),
+      block: z.number(),
+      agreed: z.boolean(),
+      agreeing: z.number(),
+      answered: z.number(),
+      sources: z.array(
+        z.object({
+          source: z.string(),
+          value: z.unknown(),
+          agrees: z.boolean(),
+          latencyMs: z.number(),
+          error: z.string().optional(),
+        })
+      ),
+    }),
+    async ({ method, address, to, data, position, blockNumber, chain }) => {
+      const required = (value: string | undefined, name: string): string => {
+        if (!value) {
+          throw new ClassifiedError('invalid_input', `${method} needs "${name}"`);
+        }
+        return value;
+      };
+
+      let verified: router.VerifiedRead<unknown>;
+      switch (method) {
+        case 'balance':
+          verified = await router.verifyBalance(
+            await etherscan.resolveAddress(required(address, 'address')),
+            blockNumber,
+            chain
+          );
+          break;
+        case 'block':
+          verified = await router.verifyBlock(blockNumber, chain);
+          break;
+        case 'eth_call':
+          verified = await router.verifyEthCall(
+            required(to, 'to'),
+            required(data, 'data'),
+            blockNumber,
+            chain
+          );
+          break;
+        case 'code':
+          verified = await router.verifyCode(required(address, 'address'), blockNumber, chain);
+          break;
+        case 'storage':
+          verified = await router.verifyStorageAt(
+            required(address, 'address'),
+            required(position, 'position'),
+            blockNumber,
+            chain
+          );
+          break;
+        case 'nonce':
+          verified = await router.verifyTransactionCount(
+            await etherscan.resolveAddress(required(address, 'address')),
+            blockNumber,
+            chain
+          );
+          break;
+      }
+
+      // Blocks are long: show their hash
+      const show = (value: unknown) => {
+        const text = method === 'block' ? ((value as any)?.hash ?? 'null') : JSON.stringify(value);
+        return text.length > 80 ? `${text.slice(0, 80)}...` : text;
+      };
+      const lines = [
+        `**Verified ${method}** at block ${verified.block} (chain ${verified.chainId})`,
+        verified.agreed
+          ? `[OK] All ${verified.answered} sources agree`
+          : `[X] Sources diverge: ${verified.agreeing} of ${verified.sources.length} agree${verified.answered < verified.sources.length ? `, ${verified.sources.length - verified.answered} failed` : ''}`,
+        ``,
+        `Result: ${show(verified.result)}`,
+        ``,
+        ...verified.sources.map((s) =>
+          s.error
+            ? `[X] **${s.source}**: Error - ${s.error}`
+            : `${s.agrees ? '[OK]' : '[X]'} **${s.source}**: ${show(s.value)} (${s.latencyMs}ms)`
+        ),
+      ];
+      return toolResult(lines.join('\n'), {
+        source: verified.sources
+          .filter((s) => s.agrees)
+          .map((s) => s.source)
+          .join(', '),
+        chain: verified.chainId,
+        block: verified.block,
+        data: verified,
+      });
+    }
+  );
+
+  tool(
+    'set_routing_policy',
+    'Change how the smart routed tools pick sources for one kind of data: source order, disabled sources, a per-source timeout, and bounds a result must fall within. E.g. make CoinGecko primary for ETH prices, or keep on-chain reads off Etherscan. Fields left out keep their current value.',
+    {
+      capability: z
+        .enum(ROUTING_CAPABILITIES)
+        .describe(
+          'ethPrice, tokenPrice, l2Tvl, blobStats, or onChain (balances, blocks, transactions, calls, logs)'
+        ),
+      order: z.array(z.string()).optional().describe('Sources to try first, in this order'),
+      disabled: z.array(z.string()).optional().describe('Sources never to call'),
+      timeoutMs: z
+        .number()
+        .int()
+        .positive()
+        .optional()
+        .describe('Per source: a slower answer counts as a failure and the next source is tried'),
+      minValue: z
+        .number()
+        .optional()
+        .describe('Reject results below this (price, TVL or blob count) and try the next source'),
+      maxValue: z.number().optional().describe('Reject results above this'),
+      reset: z
+        .boolean()
+        .optional()
+        .describe(
+          'Clear earlier changes for this capability first (with persist, the saved policy too)'
+        ),
+      persist: persistInput,
+    },
+    z.object({
+      capability: z.string(),
+      policy: routingPolicySchema,
+      sourceOrder: z.array(z.string()),
+    }),
+    async ({ capability, reset, persist, ...fields }) => {
+      const known = router.ROUTING_SOURCES[capability];
+      for (const name of [...(fields.order ?? []), ...(fields.disabled ?? [])]) {
+        if (!known.includes(name.toLowerCase())) {
+          throw new ClassifiedError(
+            'invalid_input',
+            `Unknown source "${name}" for ${capability}. Use one of: ${known.join(', ')}`
+          );
+        }
+      }
+      const changes: RoutingPolicy = Object.fromEntries(
+        Object.entries(fields).filter(([, value]) => value !== undefined)
+      );
+
+      const session = getSession();
+      const previous = session.routingPolicies[capability];
+      session.routingPolicies[capability] = { ...(reset ? {} : previous), ...changes };
+      if (router.routingOrder(capability).length === 0) {
+        session.routingPolicies[capability] = previous;
+        throw new ClassifiedError(
+          'invalid_input',
+          `That would disable every source for ${capability}`
+        );
+      }
+
+      // A policy that could not be saved is not applied either
+      let saved: string;
+      try {
+        saved = await persistSetting(persist, (config) => {
+          const { [capability]: current, ...others } = config.routing?.policies ?? {};
+          config.routing = {
+            ...config.routing,
+            policies: {
+              ...others,
+              [capability]: { ...(reset ? {} : current), ...session.routingPolicies[capability] },
+            },
+          };
+        });
+      } catch (error) {
+        session.routingPolicies[capability] = previous;
+        throw error;
+      }
+
+      const policy = router.routingPolicy(capability);
+      const sourceOrder = router.routingOrder(capability);
+      const settings = Object.entries(policy).map(
+        ([name, value]) => `${name}: ${JSON.stringify(value)}`
+      );
+      return toolResult(
+        `Routing policy for ${capability}: ${settings.length > 0 ? settings.join(', ') : 'defaults'}\nSources tried: ${sourceOrder.join(' -> ')}${saved}`,
+        { source: 'ethereum-mcp', data: { capability, policy, sourceOrder } }
+      );
+    },
+    SESSION_SETTING
+  );
+
+  tool(
+    'api_health_check',
+    'Check health status and latency of all data sources (Etherscan, DefiLlama, CoinGecko, growthepie, Blobscan), with the state and recent history of every circuit breaker',
+    {},
+    z.object({
+      sources: z.array(
+        z.object({
+          source: z.string(),
+          healthy: z.boolean(),
+          latencyMs: z.number(),
+          error: z.string().optional(),
+        })
+      ),
+      circuits: z.array(
+        z.object({
+          source: z.string(),
+          chain: z.string(),
+          capability: z.enum(ROUTING_CAPABILITIES),
+          state: z.enum(['closed', 'open', 'half-open']),
+          failures: z.number(),
+          failureThreshold: z.number(),
+          recoveryMs: z.number(),
+          retryAt: z.string().nullable(),
+          lastError: z.string().nullable(),
+          history: z.array(
+            z.object({
+              at: z.string(),
+              from: z.string(),
+              to: z.string(),
+              reason: z.string(),
+            })
+          ),
+        })
+      ),
+    }),
+    async () => {
+      const health = await router.checkHealth();
+      const circuits = router.getCircuitStatus();
+      const tripped = circuits.filter(({ state }) => state !== 'closed');
+
+      const lines = ['**API Health Status**\n'];
+      for (const h of health) {
+        const status = h.healthy ? '[OK]' : '[X]';
+        const notClosed = tripped.filter(({ source }) => source === h.source);
+        const circuitInfo =
+          notClosed.length > 0
+            ? ` [CIRCUIT ${notClosed.map((c) => `${c.state.toUpperCase()}: ${c.chain}/${c.capability}`).join(', ')}]`
+            : '';
+        lines.push(
+          `${status} **${h.source}**: ${h.healthy ? `${h.latencyMs}ms` : h.error}${circuitInfo}`
+        );
+      }
+
+      lines.push('\n**Circuit Breakers**');
+      for (const c of tripped) {
+        const trial = c.retryAt ? `trial call after ${c.retryAt}` : 'one trial call allowed';
+        lines.push(
+          `[${c.state.toUpperCase()}] ${c.source} / ${c.chain} / ${c.capability}: ${c.failures} consecutive failures, ${trial}. Last error: ${c.lastError}`
+        );
+      }
+      lines.push(`${circuits.length - tripped.length} of ${circuits.length} breakers closed`);
+      return toolResult(lines.join('\n'), {
+        source: 'ethereum-mcp',
+        data: { sources: health, circuits },
+      });
+    }
+  );
+
+  tool(
+    'source_stats',
+    'Show request count, error rate, p50/p95 latency and fallback frequency per data source and chain over the last hour of upstream requests (cache hits excluded). Use it to judge whether a Pro tier or a backup node would pay off.',
+    {
+      source: z.string().optional().describe('Only this source (e.g. "etherscan", "json-rpc")'),
+      chain: z.string().optional().describe('Only this chain, by name or ID (e.g. "base" or 8453)'),
+    },
+    z.array(
+      z.object({
+        source: z.string(),
+        chain: z.string(),
+        requests: z.number(),
+        errors: z.number(),
+        errorRate: z.number(),
+        p50LatencyMs: z.number().nullable(),
+        p95LatencyMs: z.number().nullable(),
+        fallbacks: z.number(),
+        fallbackRate: z.number(),
+        skipped: z.number(),
+      })
+    ),
+    async ({ source, chain }) => {
+      // Metrics are kept by chain name, whether the chain was given by name or ID
+      const name = chain ? chainName(resolveChainId(chain)) : undefined;
+      const stats = getSourceStats().filter(
+        (s) => (!source || s.source === source.toLowerCase()) && (!name || s.chain === name)
+      );
+      if (stats.length === 0) {
+        return toolResult('No upstream requests in the last hour', {
+          source: 'ethereum-mcp',
+          data: stats,
+        });
+      }
+
+      const percent = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+      const lines = ['**Source Stats** (last hour)\n'];
+      for (const s of stats) {
+        const latency =
+          s.p50LatencyMs === null
+            ? 'no answers'
+            : `p50 ${s.p50LatencyMs}ms, p95 ${s.p95LatencyMs}ms`;
+        const skipped = s.skipped > 0 ? `, skipped ${s.skipped}x (circuit open)` : '';
+        lines.push(
+          `**${s.source}** (${s.chain}): ${s.requests} requests, ${percent(s.errorRate)} errors, ${latency}, ${s.fallbacks} fallback answers (${percent(s.fallbackRate)})${skipped}`
+        );
+      }
+      return toolResult(lines.join('\n'), { source: 'ethereum-mcp', data: stats });
+    },
+    LOCAL_TOOL
+  );
+
+  tool(
+    'compare_eth_price_sources',
+    'Compare ETH price across all available sources (Etherscan, CoinGecko, DefiLlama) to verify data consistency',
+    {},
+    z.object({
+      query: z.string(),
+      results: z.array(
+        z.object({
+          source: z.string(),
+          value: z.number().nullable(),
+          latencyMs: z.number(),
+          error: z.string().optional(),
+        })
+      ),
+    }),
+    async () => {
+      const comparison = await router.compareEthPrice();
+      const lines = ['**ETH Price Comparison**\n'];
+
+      for (const r of comparison.results) {
+        if (r.error) {
+          lines.push(`[X] **${r.source}**: Error - ${r.error}`);
+        } else {
+          lines.push(
+            `[OK] **${r.source}**: $${r.value?.toLocaleString(undefined, { minimumFractionDigits: 2 })} (${r.latencyMs}ms)`
+          );
+        }
+      }
+
+      // Calculate variance if we have multiple valid prices
+      const validPrices = comparison.results.filter((r) => r.value != null).map((r) => r.value);
+      if (validPrices.length >= 2) {
+        const avg = validPrices.reduce((a, b) => a + b, 0) / validPrices.length;
+        const maxDiff = Math.max(...validPrices.map((p) => Math.abs(p - avg)));
+        const diffPct = ((maxDiff / avg) * 100).toFixed(3);
+        lines.push(`\nMax variance: ${diffPct}%`);
+      }
+
+      return toolResult(lines.join('\n'), {
+        source: 'ethereum-mcp',
+        unit: 'USD',
+        data: comparison,
+      });
+    }
+  );
+
+  tool(
+    'get_price_consensus',
+    'Get a token price from every price source at once (CoinGecko, DefiLlama, and Etherscan for ETH): the median, sources that disagree beyond a threshold, and a confidence score. Safer than one source for illiquid tokens.',
+    {
+      token: z.string().optional().describe('Symbol (e.g. "UNI") or CoinGecko id (e.g. "uniswap")'),
+      contract: z.string().optional().describe('Token contract address (0x...), instead of token'),
+      chain: z
+        .string()
+        .optional()
+        .default('ethereum')
+        .describe('Chain of the contract (default: ethereum)'),
+      outlierThresholdPct: z
+        .number()
+        .positive()
+        .optional()
+        .default(2)
+        .describe(
+          'Flag sources further than this from the median, in percent (default: 2). Needs at least 3 sources with a current price; 2 further apart than this are reported as disagreeing.'
+        ),
+    },
+    z.object({
+      token: z.string(),
+      price: z.number().nullable(),
+      currency: z.string(),
+      confidence: z.number(),
+      outlierThresholdPct: z.number(),
+      insufficientSources: z.boolean(),
+      disagreement: z.boolean(),
+      sources: z.array(
+        z.object({
+          source: z.string(),
+          price: z.number().nullable(),
+          timestamp: z.string().nullable(),
+          deviationPct: z.number().nullable(),
+          outlier: z.boolean(),
+          stale: z.boolean(),
+          latencyMs: z.number(),
+          error: z.string().optional(),
+        })
+      ),
+    }),
+    async ({ token, contract, chain, outlierThresholdPct }) => {
+      if (!token === !contract) {
+        throw new ClassifiedError('invalid_input', 'Give either token or contract');
+      }
+      const consensus = await router.getPriceConsensus(
+        { token, contract, chain },
+        outlierThresholdPct
+      );
+      const format = (price: number) =>
+        `$${price.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 6 })}`;
+
+      const lines = [
+        `**${(token ?? consensus.token).toUpperCase()}**: ${consensus.price !== null ? format(consensus.price) : consensus.disagreement ? 'no consensus' : 'no current price'} (median, confidence ${consensus.confidence})\n`,
+      ];
+      if (consensus.disagreement) {
+        lines.push(
+          `Sources disagree: the only 2 current prices are more than ${consensus.outlierThresholdPct}% apart, so neither is taken.\n`
+        );
+      } else if (consensus.insufficientSources) {
+        lines.push(
+          'Insufficient sources: fewer than 3 have a current price, so outliers are not flagged.\n'
+        );
+      }
+      for (const s of consensus.sources) {
+        if (s.price === null) {
+          lines.push(`[X] **${s.source}**: ${s.error}`);
+          continue;
+        }
+        const flags = [s.outlier && 'OUTLIER', s.stale && 'STALE'].filter(Boolean).join(', ');
+        const deviation = s.deviationPct === null ? '' : `, ${s.deviationPct}% off`;
+        lines.push(
+          `[${flags || 'OK'}] **${s.source}**: ${format(s.price)}${deviation}${s.timestamp ? ` (as of ${s.timestamp})` : ''}`
+        );
+      }
+      return toolResult(lines.join('\n'), {
+        source: consensus.sources
+          .filter((s) => s.price !== null)
+          .map((s) => s.source)
+          .join(', '),
+        unit: consensus.currency,
+        data: consensus,
+      });
+    }
+  );
+}
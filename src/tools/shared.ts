@@ -0,0 +1,244 @@
+// Helpers shared by the tool modules: formatting and the structured output envelope
+import { ToolCallback } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { RequestHandlerExtra } from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type {
+  CallToolResult,
+  ServerNotification,
+  ServerRequest,
+  ToolAnnotations,
+} from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+
+import { classifyError, ErrorReason } from '../utils/errors.js';
+import { ProgressReporter, runWithCallContext } from '../utils/context.js';
+import { updateConfig } from '../utils/config.js';
+
+// Helper for formatting
+export function formatUSD(value: number | null | undefined): string {
+  const n = Number(value) || 0;
+  if (n >= 1e9) return `$${(n / 1e9).toFixed(2)}B`;
+  if (n >= 1e6) return `$${(n / 1e6).toFixed(2)}M`;
+  if (n >= 1e3) return `$${(n / 1e3).toFixed(2)}K`;
+  return `$${n.toFixed(2)}`;
+}
+
+// Binary units, like the MB limits in the config file
+export function formatBytes(bytes: number): string {
+  if (bytes >= 1024 ** 3) return `${(bytes / 1024 ** 3).toFixed(2)} GB`;
+  if (bytes >= 1024 ** 2) return `${(bytes / 1024 ** 2).toFixed(2)} MB`;
+  if (bytes >= 1024) return `${(bytes / 1024).toFixed(2)} KB`;
+  return `${bytes} B`;
+}
+
+// Fuzzy matching helper - finds best match from a list
+export function findBestMatch(query: string, items: string[]): string | null {
+  const q = query.toLowerCase().trim();
+
+  // Exact match first
+  const exact = items.find((i) => i.toLowerCase() === q);
+  if (exact) return exact;
+
+  // Starts with match
+  const startsWith = items.find((i) => i.toLowerCase().startsWith(q));
+  if (startsWith) return startsWith;
+
+  // Contains match (prefer shorter matches)
+  const contains = items
+    .filter((i) => i.toLowerCase().includes(q))
+    .sort((a, b) => a.length - b.length);
+  if (contains.length > 0) return contains[0];
+
+  // Reverse contains (query contains item name)
+  const reverseContains = items
+    .filter((i) => q.includes(i.toLowerCase()))
+    .sort((a, b) => b.length - a.length);
+  if (reverseContains.length > 0) return reverseContains[0];
+
+  return null;
+}
+
+// ============================================
+// STRUCTURED OUTPUT
+// ============================================
+
+// Every tool returns the same envelope as structuredContent alongside its text:
+// the values in `data`, plus where they came from and what they refer to
+export type ToolOutput = {
+  source: string;
+  chain?: string;
+  block?: number;
+  unit?: string;
+  // Set when every source failed and an earlier result was served instead
+  stale?: { ageSeconds: number; reason: string };
+  data: unknown;
+};
+
+export function outputSchema(data: z.ZodType) {
+  return {
+    source: z.string().describe('Data source that produced the result'),
+    chain: z.string().optional().describe('Chain ID the data refers to'),
+    block: z.number().optional().describe('Block number the data refers to'),
+    unit: z.string().optional().describe('Unit of the values in data (e.g. ETH, Gwei, USD)'),
+    stale: z
+      .object({ ageSeconds: z.number(), reason: z.string() })
+      .optional()
+      .describe('Present when every source failed and an earlier result was served instead'),
+    data,
+  };
+}
+
+// Reusable data shapes for upstream payloads passed through as-is
+export const jsonRecords = z.array(z.record(z.string(), z.unknown()));
+// Amounts APIs send either as numbers or, when too big for one, as decimal strings
+export const numeric = z.union([z.number(), z.string()]);
+export const keyStatus = z.object({ configured: z.boolean(), persisted: z.boolean() });
+
+// JSON-RPC objects as nodes (and Etherscan's proxy module) return them: quantities are
+// hex strings. Other fields vary by chain and client, so they are kept as they come.
+export const rpcBlock = z.looseObject({
+  number: z.string().nullable(),
+  hash: z.string().nullable(),
+  parentHash: z.string(),
+  timestamp: z.string(),
+  miner: z.string().optional(),
+  gasUsed: z.string(),
+  gasLimit: z.string(),
+  baseFeePerGas: z.string().optional(),
+  // Hashes, or whole transactions when asked for
+  transactions: z.array(z.union([z.string(), z.looseObject({ hash: z.string() })])),
+});
+
+export const rpcTransaction = z.looseObject({
+  hash: z.string(),
+  from: z.string(),
+  to: z.string().nullable(),
+  value: z.string().describe('Wei, hex'),
+  nonce: z.string(),
+  input: z.string(),
+  // null while pending
+  blockNumber: z.string().nullable(),
+});
+
+export const rpcReceipt = z.looseObject({
+  transactionHash: z.string(),
+  blockNumber: z.string(),
+  from: z.string(),
+  to: z.string().nullable(),
+  status: z.string().optional().describe('0x1 on success, 0x0 on revert'),
+  gasUsed: z.string(),
+  contractAddress: z.string().nullable().optional(),
+  logs: z.array(z.record(z.string(), z.unknown())),
+});
+
+// Signature of the registration callback each adapter's register*Tools() receives
+export type ToolRegistrar = <Args extends z.ZodRawShape>(
+  name: string,
+  description: string,
+  inputSchema: Args,
+  data: z.ZodType,
+  handler: ToolCallback<Args>,
+  annotations?: ToolAnnotations
+) => void;
+
+export function toolResult(text: string, output: ToolOutput) {
+  return {
+    content: [{ type: 'text' as const, text }],
+    structuredContent: output,
+  };
+}
+
+// ============================================
+// PERSISTED SETTINGS
+// ============================================
+
+// Input shared by the set_* tools
+export const persistInput = z
+  .boolean()
+  .optional()
+  .describe('Also save to the config file so the setting survives restarts (default: false)');
+
+// Saves a setting to the config file when asked to; returns a note for the tool's reply
+export async function persistSetting(
+  persist: boolean | undefined,
+  edit: (config: Record<string, any>) => void
+): Promise<string> {
+  if (!persist) return '';
+  const path = await updateConfig(edit);
+  return `\n\nSaved to ${path}.`;
+}
+
+// ============================================
+// ERRORS AND ANNOTATIONS
+// ============================================
+
+const REASON_LABELS: Record<ErrorReason, string> = {
+  missing_key: 'missing API key',
+  rate_limited: 'rate limited',
+  not_found: 'not found',
+  upstream_down: 'upstream unavailable',
+  invalid_input: 'invalid input',
+};
+
+export function errorResult(error: unknown): CallToolResult {
+  const reason = classifyError(error);
+  const message = error instanceof Error ? error.message : String(error);
+  return {
+    content: [{ type: 'text' as const, text: `Error (${REASON_LABELS[reason]}): ${message}` }],
+    isError: true,
+    _meta: { reason },
+  };
+}
+
+// Adapter failures become isError results instead of protocol errors, so the model
+// sees why the call failed and can react (ask for a key, retry later, fix the input)
+export function withErrorHandling<Args extends z.ZodRawShape>(
+  handler: ToolCallback<Args>
+): ToolCallback<Args> {
+  const run = handler as (...args: unknown[]) => CallToolResult | Promise<CallToolResult>;
+  return (async (...args: unknown[]) => {
+    try {
+      return await run(...args);
+    } catch (error) {
+      return errorResult(error);
+    }
+  }) as ToolCallback<Args>;
+}
+
+// Runs the handler with the call's AbortSignal and, if the client sent a progress token,
+// a reporter that turns reportProgress() calls into notifications/progress
+export function withCallContext<Args extends z.ZodRawShape>(
+  handler: ToolCallback<Args>
+): ToolCallback<Args> {
+  const run = handler as (...args: unknown[]) => CallToolResult | Promise<CallToolResult>;
+  return ((...args: unknown[]) => {
+    // extra is always the last argument, whether or not the tool takes input
+    const extra = args[args.length - 1] as RequestHandlerExtra<ServerRequest, ServerNotification>;
+    const progressToken = extra._meta?.progressToken;
+    const reportProgress: ProgressReporter | undefined =
+      progressToken === undefined
+        ? undefined
+        : (progress, total, message) =>
+            extra.sendNotification({
+              method: 'notifications/progress',
+              params: { progressToken, progress, total, message },
+            });
+    return runWithCallContext({ signal: extra.signal, reportProgress }, () => run(...args));
+  }) as ToolCallback<Args>;
+}
+
+// Most tools only read from external APIs; the exceptions pass overrides
+export const DEFAULT_ANNOTATIONS: ToolAnnotations = {
+  readOnlyHint: true,
+  openWorldHint: true,
+  idempotentHint: true,
+};
+
+// Answered from local state without calling any API
+export const LOCAL_TOOL: ToolAnnotations = { openWorldHint: false };
+
+// Changes this session's settings (keys, default chain)
+export const SESSION_SETTING: ToolAnnotations = {
+  readOnlyHint: false,
+  destructiveHint: false,
+  openWorldHint: false,
+};
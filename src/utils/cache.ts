@@ -1,16 +1,45 @@
-// Simple LRU cache with TTL support
+// Simple LRU cache with TTL support, backed by a disk tier for immutable data
+import { createHash } from 'node:crypto';
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  stat,
+  unlink,
+  utimes,
+  writeFile,
+} from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+
+import { configPath, getConfig } from './config.js';
+import { currentSignal, runInBackground, runWithSignal, untilAborted } from './context.js';
+import { ClassifiedError, classifyError } from './errors.js';
+import { currentTrace, log, withTrace } from './logging.js';
+import { sanitizeError } from './security.js';
+import { getSession, SessionContext } from './session.js';
 
 interface CacheEntry<T> {
   value: T;
+  // Approximate: the length of the value as JSON
+  size: number;
+  storedAt: number;
   expiry: number;
+  // Until then an expired value may still be served, marked stale
+  staleUntil: number;
 }
 
+// LRU bounded by entry count and by approximate size: one DefiLlama payload can weigh
+// megabytes while a block number is a few bytes
 export class Cache<T = any> {
   private cache = new Map<string, CacheEntry<T>>();
   private maxSize: number;
+  private maxBytes: number;
+  private totalBytes = 0;
 
-  constructor(maxSize: number = 100) {
+  constructor(maxSize: number = 100, maxBytes: number = Infinity) {
     this.maxSize = maxSize;
+    this.maxBytes = maxBytes;
   }
 
   get(key: string): T | undefined {
@@ -18,7 +47,7 @@ export class Cache<T = any> {
     if (!entry) return undefined;
 
     if (Date.now() > entry.expiry) {
-      this.cache.delete(key);
+      if (Date.now() > entry.staleUntil) this.delete(key);
       return undefined;
     }
 
@@ -28,30 +57,229 @@ export class Cache<T = any> {
     return entry.value;
   }
 
-  set(key: string, value: T, ttlMs: number): void {
-    // Evict oldest if at capacity
-    if (this.cache.size >= this.maxSize) {
-      const oldestKey = this.cache.keys().next().value;
-      if (oldestKey) this.cache.delete(oldestKey);
+  // The value even if expired, as long as it is within its stale window
+  getStale(key: string): { value: T; ageMs: number; stale: boolean } | undefined {
+    const entry = this.cache.get(key);
+    if (!entry) return undefined;
+
+    const now = Date.now();
+    if (now > entry.staleUntil) {
+      this.delete(key);
+      return undefined;
+    }
+    return { value: entry.value, ageMs: now - entry.storedAt, stale: now > entry.expiry };
+  }
+
+  set(key: string, value: T, ttlMs: number, staleMs: number = 0): void {
+    this.delete(key);
+    const size = approximateSize(value);
+    if (size > this.maxBytes) return;
+
+    // Evict least recently used until it fits
+    while (
+      this.cache.size > 0 &&
+      (this.cache.size >= this.maxSize || this.totalBytes + size > this.maxBytes)
+    ) {
+      this.delete(this.cache.keys().next().value!);
     }
 
+    const now = Date.now();
     this.cache.set(key, {
       value,
-      expiry: Date.now() + ttlMs,
+      size,
+      storedAt: now,
+      expiry: now + ttlMs,
+      staleUntil: now + ttlMs + staleMs,
     });
+    this.totalBytes += size;
   }
 
   has(key: string): boolean {
     return this.get(key) !== undefined;
   }
 
+  delete(key: string): boolean {
+    const entry = this.cache.get(key);
+    if (!entry) return false;
+    this.cache.delete(key);
+    this.totalBytes -= entry.size;
+    return true;
+  }
+
+  // Removes every key starting with prefix; returns how many were removed
+  deletePrefix(prefix: string): number {
+    let removed = 0;
+    for (const key of [...this.cache.keys()]) {
+      if (key.startsWith(prefix) && this.delete(key)) removed++;
+    }
+    return removed;
+  }
+
+  // Approximate size of each entry, stale ones included
+  sizes(): Array<{ key: string; bytes: number }> {
+    return [...this.cache].map(([key, entry]) => ({ key, bytes: entry.size }));
+  }
+
+  get bytes(): number {
+    return this.totalBytes;
+  }
+
   clear(): void {
     this.cache.clear();
+    this.totalBytes = 0;
   }
 }
 
+function approximateSize(value: unknown): number {
+  try {
+    return JSON.stringify(value)?.length ?? 0;
+  } catch {
+    return 0;
+  }
+}
+
+// ============================================
+// DISK TIER
+// ============================================
+
+interface DiskEntry {
+  size: number;
+  lastAccess: number;
+}
+
+// One JSON file per key under a cache directory, evicting least recently used files once
+// the total passes maxBytes. File mtimes record use, so recency survives restarts.
+export class DiskCache {
+  private index: Promise<Map<string, DiskEntry>> | null = null;
+  private totalBytes = 0;
+
+  constructor(
+    private readonly dir: string,
+    private readonly maxBytes: number
+  ) {}
+
+  async get(key: string): Promise<unknown> {
+    const index = await this.load();
+    const name = fileName(key);
+    const entry = index.get(name);
+    if (!entry) return undefined;
+
+    const path = join(this.dir, name);
+    try {
+      const stored = JSON.parse(await readFile(path, 'utf8'));
+      if (stored.key !== key) return undefined;
+      entry.lastAccess = Date.now();
+      await utimes(path, new Date(), new Date());
+      return stored.value;
+    } catch {
+      // Evicted by another server sharing the directory, or a partial file
+      this.forget(index, name);
+      return undefined;
+    }
+  }
+
+  async set(key: string, value: unknown): Promise<void> {
+    const index = await this.load();
+    const name = fileName(key);
+    const data = JSON.stringify({ key, value });
+    const size = Buffer.byteLength(data);
+    if (size > this.maxBytes) return;
+
+    // Write then rename, so readers never see a half-written file
+    const path = join(this.dir, name);
+    const tmpPath = `${path}.${process.pid}.tmp`;
+    await writeFile(tmpPath, data, { mode: 0o600 });
+    await rename(tmpPath, path);
+
+    this.forget(index, name);
+    index.set(name, { size, lastAccess: Date.now() });
+    this.totalBytes += size;
+    await this.evict(index);
+  }
+
+  async usage(): Promise<{ entries: number; bytes: number }> {
+    const index = await this.load();
+    return { entries: index.size, bytes: this.totalBytes };
+  }
+
+  // File names are hashes, so matching a prefix means reading each file's key.
+  // Returns how many files were removed.
+  async deletePrefix(prefix: string): Promise<number> {
+    const index = await this.load();
+    let removed = 0;
+    for (const name of [...index.keys()]) {
+      const path = join(this.dir, name);
+      if (prefix) {
+        const stored = await readFile(path, 'utf8')
+          .then(JSON.parse)
+          .catch(() => null);
+        if (typeof stored?.key !== 'string' || !stored.key.startsWith(prefix)) continue;
+      }
+      this.forget(index, name);
+      await unlink(path).catch(() => {});
+      removed++;
+    }
+    return removed;
+  }
+
+  // Builds the index from the directory on first use
+  private load(): Promise<Map<string, DiskEntry>> {
+    this.index ??= (async () => {
+      await mkdir(this.dir, { recursive: true, mode: 0o700 });
+      const index = new Map<string, DiskEntry>();
+      for (const name of await readdir(this.dir)) {
+        if (!name.endsWith('.json')) continue;
+        const info = await stat(join(this.dir, name)).catch(() => null);
+        if (!info) continue;
+        index.set(name, { size: info.size, lastAccess: info.mtimeMs });
+        this.totalBytes += info.size;
+      }
+      return index;
+    })();
+    return this.index;
+  }
+
+  private forget(index: Map<string, DiskEntry>, name: string): void {
+    const entry = index.get(name);
+    if (!entry) return;
+    index.delete(name);
+    this.totalBytes -= entry.size;
+  }
+
+  // Evicts down to 90% of the limit, so a full cache doesn't evict on every write
+  private async evict(index: Map<string, DiskEntry>): Promise<void> {
+    if (this.totalBytes <= this.maxBytes) return;
+    const leastRecentFirst = [...index.entries()].sort((a, b) => a[1].lastAccess - b[1].lastAccess);
+    for (const [name] of leastRecentFirst) {
+      if (this.totalBytes <= this.maxBytes * 0.9) break;
+      this.forget(index, name);
+      await unlink(join(this.dir, name)).catch(() => {});
+    }
+  }
+}
+
+function fileName(key: string): string {
+  return `${createHash('sha256').update(key).digest('hex')}.json`;
+}
+
+// ============================================
+// SHARED INSTANCES
+// ============================================
+
+const cacheConfig = getConfig().cache;
+
+export const CACHE_MAX_ENTRIES = cacheConfig?.maxEntries ?? 5000;
+export const CACHE_MAX_BYTES = (cacheConfig?.maxMb ?? 64) * 1024 * 1024;
+
 // Shared cache instance
-export const apiCache = new Cache(200);
+export const apiCache = new Cache(CACHE_MAX_ENTRIES, CACHE_MAX_BYTES);
+
+export const DISK_CACHE_DIR = cacheConfig?.diskDir ?? join(dirname(configPath()), 'cache');
+export const DISK_CACHE_MAX_BYTES = (cacheConfig?.diskMaxMb ?? 256) * 1024 * 1024;
+
+// Immutable data that survives restarts; off with "disk": false in the config file
+export const diskCache =
+  cacheConfig?.disk === false ? null : new DiskCache(DISK_CACHE_DIR, DISK_CACHE_MAX_BYTES);
 
 // TTL constants (in milliseconds)
 export const TTL = {
@@ -60,21 +288,288 @@ export const TTL = {
   TVL: 60 * 1000, // 1 minute - TVL data
   PROTOCOL: 5 * 60 * 1000, // 5 minutes - protocol info
   STATIC: 15 * 60 * 1000, // 15 minutes - rarely changing data
+  HEAD: 2 * 1000, // 2 seconds - data at "latest", "pending" or "safe"
+  STALE_IF_ERROR: 60 * 60 * 1000, // 1 hour - oldest value served once every source failed
 };
 
+// Results cached with this TTL never change: they never expire and are also kept on disk
+export const FOREVER = Infinity;
+
+// Overrides from the config file, e.g. "ttlSeconds": { "price": 60 }
+for (const name of Object.keys(TTL) as Array<keyof typeof TTL>) {
+  const seconds = cacheConfig?.ttlSeconds?.[name.toLowerCase()];
+  if (seconds !== undefined) TTL[name] = seconds * 1000;
+}
+
+export interface CacheOptions<T> {
+  // TTL picked from the result, replacing `ttl`: FOREVER for data that can no longer
+  // change (a verified ABI, a block past any reorg), 0 to not cache it at all
+  ttlFor?: (result: T) => number | Promise<number>;
+  // How long past its TTL the value is still returned right away while a refresh runs in
+  // the background (stale-while-revalidate)
+  staleFor?: number;
+}
+
+// ============================================
+// KEYS
+// ============================================
+
+// Cache key for an upstream request, derived from everything that shapes the response:
+// the adapter's namespace, the chain (or node) it targets, the endpoint or method and the
+// complete params, with a query string in the endpoint counted as params. Keys read
+// "namespace:chain:endpoint:hash", so they can still be matched by prefix.
+export function requestCacheKey(
+  namespace: string,
+  endpoint: string,
+  params: unknown = {},
+  chain?: string
+): string {
+  const queryStart = endpoint.indexOf('?');
+  const path = queryStart === -1 ? endpoint : endpoint.slice(0, queryStart);
+  const query =
+    queryStart === -1 ? [] : [...new URLSearchParams(endpoint.slice(queryStart + 1))].sort();
+  const hash = createHash('sha256')
+    .update(canonicalJson({ chain, path, query, params }))
+    .digest('hex')
+    .slice(0, 32);
+  return [namespace, chain, path.slice(0, 80), hash].filter(Boolean).join(':');
+}
+
+// JSON with sorted object keys, undefined fields dropped and hex strings lowercased, so
+// the same request (or response) written two ways gets the same key
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const fields = Object.entries(value)
+      .filter(([, field]) => field !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+      .map(([name, field]) => `${JSON.stringify(name)}:${canonicalJson(field)}`);
+    return `{${fields.join(',')}}`;
+  }
+  if (typeof value === 'string' && /^0x[0-9a-fA-F]*$/.test(value)) {
+    return JSON.stringify(value.toLowerCase());
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+// Pending fetches by key, so concurrent callers share one upstream request
+interface InFlight {
+  promise: Promise<unknown>;
+  // Signal of the call that started the fetch: it cancels the fetch for everyone
+  signal: AbortSignal | undefined;
+  // Session of that call, whose API keys and nodes the fetch uses
+  session: SessionContext;
+}
+
+const inFlight = new Map<string, InFlight>();
+
 // Helper to wrap API calls with caching
 export async function cachedFetch<T>(
   key: string,
   ttl: number,
   fetcher: () => Promise<T>,
-  noCache: boolean = false
+  noCache: boolean = false,
+  options: CacheOptions<T> = {}
 ): Promise<T> {
-  if (!noCache) {
-    const cached = apiCache.get(key);
-    if (cached) return cached as T;
+  // noCache callers asked for a fresh response, not one already on its way
+  if (noCache) return fetchAndStore(key, ttl, fetcher, true, options);
+
+  const cached = apiCache.get(key);
+  if (cached) {
+    recordHit(key, 'memory');
+    return cached as T;
+  }
+
+  const stale = options.staleFor ? apiCache.getStale(key) : undefined;
+  if (stale) {
+    recordHit(key, 'stale');
+    refreshInBackground(key, ttl, fetcher, options);
+    return stale.value as T;
   }
 
-  const result = await fetcher();
-  apiCache.set(key, result, ttl);
+  const pending = inFlight.get(key);
+  if (pending) {
+    recordHit(key, 'in-flight');
+    try {
+      // A waiter that is cancelled stops waiting; the fetch goes on for the others
+      return (await untilAborted(pending.promise)) as T;
+    } catch (error) {
+      if (currentSignal()?.aborted) throw error;
+      // The caller that started the fetch gave up, or its session's key was refused: this
+      // one still wants the result, fetched with its own credentials
+      const refusedKey = pending.session !== getSession() && classifyError(error) === 'missing_key';
+      if (pending.signal?.aborted || refusedKey) {
+        return cachedFetch(key, ttl, fetcher, noCache, options);
+      }
+      throw error;
+    }
+  }
+
+  const promise = fetchAndStore(key, ttl, fetcher, false, options);
+  inFlight.set(key, { promise, signal: currentSignal(), session: getSession() });
+  try {
+    return await promise;
+  } finally {
+    inFlight.delete(key);
+  }
+}
+
+// Refreshes a stale entry for the callers after this one. Not tied to the current call's
+// signal: that call already has its answer.
+function refreshInBackground<T>(
+  key: string,
+  ttl: number,
+  fetcher: () => Promise<T>,
+  options: CacheOptions<T>
+): void {
+  if (inFlight.has(key)) return;
+  const promise = runWithSignal(undefined, () =>
+    runInBackground(() => fetchAndStore(key, ttl, fetcher, false, options))
+  );
+  inFlight.set(key, { promise, signal: undefined, session: getSession() });
+  promise
+    .catch((error) => {
+      log('warning', { event: 'refresh_failed', endpoint: key, error: sanitizeError(error) });
+    })
+    .finally(() => inFlight.delete(key));
+}
+
+async function fetchAndStore<T>(
+  key: string,
+  ttl: number,
+  fetcher: () => Promise<T>,
+  noCache: boolean,
+  options: CacheOptions<T>
+): Promise<T> {
+  // Only results picked per call can have been cached forever
+  if (!noCache && options.ttlFor && diskCache) {
+    const stored = await diskCache.get(key).catch(() => undefined);
+    if (stored !== undefined) {
+      recordHit(key, 'disk');
+      apiCache.set(key, stored, FOREVER);
+      return stored as T;
+    }
+  }
+
+  if (!noCache) countLookup(key, false);
+  const result = await withTrace({ cache: noCache ? 'bypass' : 'miss' }, fetcher);
+  const resultTtl = options.ttlFor ? await options.ttlFor(result) : ttl;
+  if (resultTtl <= 0) return result;
+  apiCache.set(key, result, resultTtl, options.staleFor);
+
+  // Written in the background: the caller already has its result
+  if (diskCache && resultTtl === FOREVER) {
+    diskCache.set(key, result).catch((error) => {
+      log('warning', { event: 'disk_cache_error', endpoint: key, error: sanitizeError(error) });
+    });
+  }
   return result;
 }
+
+// 'in-flight': joined a fetch another call already started; 'stale': past its TTL, being
+// refreshed
+function recordHit(key: string, tier: 'memory' | 'disk' | 'in-flight' | 'stale'): void {
+  countLookup(key, true);
+  log('debug', {
+    event: 'cache_hit',
+    source: namespaceOf(key),
+    endpoint: key,
+    cache: 'hit',
+    tier,
+    latencyMs: 0,
+    ...currentTrace(),
+  });
+}
+
+// ============================================
+// STATS AND MANAGEMENT
+// ============================================
+
+// Hits and misses per namespace since the server started
+const lookups = new Map<string, { hits: number; misses: number }>();
+
+// Keys start with their adapter's name: "etherscan:1:...", "jsonrpc:node-...:..."
+function namespaceOf(key: string): string {
+  return key.split(':')[0];
+}
+
+function countLookup(key: string, hit: boolean): void {
+  const namespace = namespaceOf(key);
+  const counts = lookups.get(namespace) ?? { hits: 0, misses: 0 };
+  if (hit) counts.hits++;
+  else counts.misses++;
+  lookups.set(namespace, counts);
+}
+
+export interface NamespaceStats {
+  namespace: string;
+  entries: number;
+  bytes: number;
+  hits: number;
+  misses: number;
+  // null until the namespace has been looked up
+  hitRate: number | null;
+}
+
+export interface CacheStats {
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+  namespaces: NamespaceStats[];
+  disk: { entries: number; bytes: number; maxBytes: number } | null;
+}
+
+export async function getCacheStats(): Promise<CacheStats> {
+  const byNamespace = new Map<string, NamespaceStats>();
+  const statsFor = (namespace: string) => {
+    let stats = byNamespace.get(namespace);
+    if (!stats) {
+      stats = { namespace, entries: 0, bytes: 0, hits: 0, misses: 0, hitRate: null };
+      byNamespace.set(namespace, stats);
+    }
+    return stats;
+  };
+
+  const sizes = apiCache.sizes();
+  for (const { key, bytes } of sizes) {
+    const stats = statsFor(namespaceOf(key));
+    stats.entries++;
+    stats.bytes += bytes;
+  }
+  for (const [namespace, { hits, misses }] of lookups) {
+    const stats = statsFor(namespace);
+    stats.hits = hits;
+    stats.misses = misses;
+    stats.hitRate = hits + misses > 0 ? hits / (hits + misses) : null;
+  }
+
+  const disk = diskCache ? { ...(await diskCache.usage()), maxBytes: DISK_CACHE_MAX_BYTES } : null;
+  return {
+    entries: sizes.length,
+    bytes: apiCache.bytes,
+    maxBytes: CACHE_MAX_BYTES,
+    namespaces: [...byNamespace.values()].sort((a, b) => b.bytes - a.bytes),
+    disk,
+  };
+}
+
+let clearingEnabled = true;
+
+// Shared HTTP servers share one cache between all their clients, so clients may not clear it
+export function disableCacheClearing(): void {
+  clearingEnabled = false;
+}
+
+// Removes cached entries whose key starts with prefix ('' for everything). The disk tier
+// only holds data that can't change, so it is left alone unless asked for.
+export async function clearCache(
+  prefix: string,
+  includeDisk: boolean = false
+): Promise<{ memory: number; disk: number }> {
+  if (!clearingEnabled) {
+    throw new ClassifiedError('invalid_input', 'Clearing the cache is disabled on this server');
+  }
+  const memory = apiCache.deletePrefix(prefix);
+  const disk = includeDisk && diskCache ? await diskCache.deletePrefix(prefix) : 0;
+  return { memory, disk };
+}
@@ -0,0 +1,94 @@
+// Chains known by name, shared by the adapters, the session and the config file
+
+// Supported chains with their chain IDs (Etherscan V2 chainid values)
+export const SUPPORTED_CHAINS: Record<string, string> = {
+  // Mainnets
+  ethereum: '1',
+  bnb: '56',
+  polygon: '137',
+  base: '8453',
+  arbitrum: '42161',
+  'arbitrum-nova': '42170',
+  optimism: '10',
+  linea: '59144',
+  blast: '81457',
+  avalanche: '43114',
+  gnosis: '100',
+  celo: '42220',
+  mantle: '5000',
+  scroll: '534352',
+  taiko: '167000',
+  moonbeam: '1284',
+  moonriver: '1285',
+  fantom: '250',
+  cronos: '25',
+  fraxtal: '252',
+  opbnb: '204',
+  world: '480',
+  sonic: '146',
+  unichain: '130',
+  abstract: '2741',
+  berachain: '80094',
+  sei: '1329',
+  apechain: '33139',
+  xdc: '50',
+  bittorrent: '199',
+  // Testnets
+  sepolia: '11155111',
+  holesky: '17000',
+  'base-sepolia': '84532',
+  'arbitrum-sepolia': '421614',
+  'optimism-sepolia': '11155420',
+};
+
+// Native currency by chain ID, for the chains whose gas token is not ETH
+const NATIVE_SYMBOLS: Record<string, string> = {
+  '56': 'BNB',
+  '137': 'POL',
+  '43114': 'AVAX',
+  '100': 'xDAI',
+  '42220': 'CELO',
+  '5000': 'MNT',
+  '1284': 'GLMR',
+  '1285': 'MOVR',
+  '250': 'FTM',
+  '25': 'CRO',
+  '252': 'FRAX',
+  '204': 'BNB',
+  '146': 'S',
+  '80094': 'BERA',
+  '1329': 'SEI',
+  '33139': 'APE',
+  '50': 'XDC',
+  '199': 'BTT',
+};
+
+// Chain ID for a chain name or numeric ID
+export function resolveChainId(chainNameOrId: string): string {
+  // If it's already a number, use it directly
+  if (/^\d+$/.test(chainNameOrId)) return chainNameOrId;
+  // Otherwise look up by name
+  if (!isKnownChain(chainNameOrId)) {
+    throw new Error(
+      `Unknown chain: ${chainNameOrId}. Use chain ID directly or one of: ${Object.keys(SUPPORTED_CHAINS).join(', ')}`
+    );
+  }
+  return SUPPORTED_CHAINS[chainNameOrId.toLowerCase()];
+}
+
+export function isKnownChain(chainNameOrId: string): boolean {
+  return (
+    /^\d+$/.test(chainNameOrId) || Object.hasOwn(SUPPORTED_CHAINS, chainNameOrId.toLowerCase())
+  );
+}
+
+// Name of a chain given by name or ID; chains not listed here keep what was given
+export function chainName(chainNameOrId: string): string {
+  const lower = chainNameOrId.toLowerCase();
+  return Object.entries(SUPPORTED_CHAINS).find(([, id]) => id === lower)?.[0] ?? lower;
+}
+
+// Symbol of a chain's native currency, given by name or ID; ETH for chains not listed
+export function nativeSymbol(chainNameOrId: string): string {
+  return NATIVE_SYMBOLS[resolveChainId(chainNameOrId)] ?? 'ETH';
+}
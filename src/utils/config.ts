@@ -0,0 +1,222 @@
+// Config file: keys, nodes, default chain, cache and routing settings that survive restarts
+//
+// Read once at startup from ~/.ethereum-mcp/config.json (or the path in ETHEREUM_MCP_CONFIG).
+// Env vars and per-connection settings take priority over it. The set_* tools write back to
+// it when called with persist: true.
+import { existsSync, readFileSync } from 'node:fs';
+import { chmod, mkdir, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { dirname, join } from 'node:path';
+import { z } from 'zod';
+
+import { isKnownChain, resolveChainId } from './chains.js';
+import { ClassifiedError } from './errors.js';
+
+const chain = z.string().refine(isKnownChain, { message: 'Unknown chain' });
+
+// Kinds of data the router has a fallback chain for
+export const ROUTING_CAPABILITIES = [
+  'ethPrice',
+  'tokenPrice',
+  'l2Tvl',
+  'blobStats',
+  'onChain',
+] as const;
+export type RoutingCapability = (typeof ROUTING_CAPABILITIES)[number];
+
+export const routingPolicySchema = z
+  .object({
+    // Tried first, in this order; the others follow in their default order
+    order: z.array(z.string()),
+    // Never called for this capability
+    disabled: z.array(z.string()),
+    // Per source: a slower answer counts as a failure and the next source is tried
+    timeoutMs: z.number().int().positive(),
+    // Results outside these bounds (price, TVL or blob count) count as failures too
+    minValue: z.number(),
+    maxValue: z.number(),
+  })
+  .partial();
+
+export type RoutingPolicy = z.infer<typeof routingPolicySchema>;
+
+const retryPolicySchema = z
+  .object({
+    // Attempts in all, so 1 turns retries off
+    maxAttempts: z.number().int().positive(),
+    // Backoff before the first retry, doubling with each one (with jitter)
+    baseDelayMs: z.number().nonnegative(),
+    // Longest wait between attempts; a longer Retry-After fails the request instead
+    maxDelayMs: z.number().nonnegative(),
+  })
+  .partial();
+
+export type RetryPolicy = z.infer<typeof retryPolicySchema>;
+
+const circuitBreakerPolicySchema = z
+  .object({
+    // Consecutive failures before the router stops calling the source
+    failureThreshold: z.number().int().positive(),
+    // How long it stays skipped before a single trial call is let through
+    recoveryMs: z.number().int().positive(),
+  })
+  .partial();
+
+export type CircuitBreakerPolicy = z.infer<typeof circuitBreakerPolicySchema>;
+
+export const RATE_LIMIT_TIERS = ['free', 'pro'] as const;
+export type RateLimitTier = (typeof RATE_LIMIT_TIERS)[number];
+
+const rateLimitSchema = z
+  .object({
+    // Plan the API key is on, which picks the default limits
+    tier: z.enum(RATE_LIMIT_TIERS),
+    requestsPerSecond: z.number().positive(),
+    // Requests that may go out back to back after a quiet spell
+    burst: z.number().int().positive(),
+  })
+  .partial();
+
+export type RateLimit = z.infer<typeof rateLimitSchema>;
+
+const configSchema = z.object({
+  keys: z
+    .object({
+      etherscan: z.string(),
+      coingecko: z.string(),
+      defillama: z.string(),
+      dune: z.string(),
+    })
+    .partial()
+    .optional(),
+  // Node JSON-RPC URLs per chain name or ID, tried in order of health
+  nodes: z.record(chain, z.union([z.string(), z.array(z.string())])).optional(),
+  defaultChain: chain.optional(),
+  cache: z
+    .object({
+      maxEntries: z.number().int().positive(),
+      // Memory limit: least recently used entries are evicted past it
+      maxMb: z.number().positive(),
+      // Overrides for the TTL constants in utils/cache.ts, by lowercase name (e.g. "price")
+      ttlSeconds: z.record(z.string(), z.number().nonnegative()),
+      // Disk tier for immutable data (on by default)
+      disk: z.boolean(),
+      diskDir: z.string(),
+      diskMaxMb: z.number().positive(),
+    })
+    .partial()
+    .optional(),
+  // Retry limits by source (etherscan, coingecko, jsonrpc, ...), over those under "default"
+  retry: z.record(z.string(), retryPolicySchema).optional(),
+  // Circuit-breaker thresholds by routing source (etherscan, json-rpc, ...), over "default"
+  circuitBreaker: z.record(z.string(), circuitBreakerPolicySchema).optional(),
+  // Rate limits by source (etherscan, coingecko, defillama, blobscan, dune)
+  rateLimits: z.record(z.string(), rateLimitSchema).optional(),
+  routing: z
+    .object({
+      // Tried first, in this order, wherever they appear in a fallback chain
+      preferredSources: z.array(z.string()),
+      // Never called by the router
+      disabledSources: z.array(z.string()),
+      // How calls pick among a chain's healthy nodes: fastest first, or taking turns
+      nodeSelection: z.enum(['best', 'round-robin']),
+      // Per capability, on top of the lists above
+      policies: z.partialRecord(z.enum(ROUTING_CAPABILITIES), routingPolicySchema),
+    })
+    .partial()
+    .optional(),
+});
+
+export type ServerConfig = z.infer<typeof configSchema>;
+
+export function configPath(): string {
+  return process.env.ETHEREUM_MCP_CONFIG || join(homedir(), '.ethereum-mcp', 'config.json');
+}
+
+let config: ServerConfig = {};
+let loadError: string | null = null;
+let writesEnabled = true;
+
+function readConfigFile(path: string): Record<string, any> {
+  if (!existsSync(path)) return {};
+  return JSON.parse(readFileSync(path, 'utf8'));
+}
+
+function formatIssues(error: z.ZodError): string {
+  return error.issues
+    .map((issue) => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+    .join('; ');
+}
+
+// A broken config file must not stop the server: report it and run on env vars alone
+function loadConfig(): void {
+  const path = configPath();
+  try {
+    const parsed = configSchema.safeParse(readConfigFile(path));
+    if (!parsed.success) {
+      throw new Error(formatIssues(parsed.error));
+    }
+    config = parsed.data;
+    loadError = null;
+  } catch (error) {
+    config = {};
+    loadError = error instanceof Error ? error.message : String(error);
+    console.error(`Ignoring config file ${path}: ${loadError}`);
+  }
+}
+
+loadConfig();
+
+export function getConfig(): ServerConfig {
+  return config;
+}
+
+export function getConfigStatus(): {
+  path: string;
+  exists: boolean;
+  error: string | null;
+  writable: boolean;
+} {
+  const path = configPath();
+  return { path, exists: existsSync(path), error: loadError, writable: writesEnabled };
+}
+
+// Every configured node with its chain ID, whichever name or ID the file uses for the chain
+export function configuredNodes(): Array<{ url: string; chainId: string }> {
+  return Object.entries(config.nodes ?? {}).flatMap(([chainNameOrId, urls]) =>
+    [urls].flat().map((url) => ({ url, chainId: resolveChainId(chainNameOrId) }))
+  );
+}
+
+// Shared HTTP servers serve many users from one config file, so clients may not write to it
+export function disableConfigWrites(): void {
+  writesEnabled = false;
+}
+
+// Applies an edit to the file on disk (keeping anything this version doesn't know about)
+// and to the loaded config. Returns the path written.
+export async function updateConfig(edit: (config: Record<string, any>) => void): Promise<string> {
+  if (!writesEnabled) {
+    throw new ClassifiedError(
+      'invalid_input',
+      'Saving settings to the config file is disabled on this server'
+    );
+  }
+  const path = configPath();
+  const raw = readConfigFile(path);
+  edit(raw);
+
+  const parsed = configSchema.safeParse(raw);
+  if (!parsed.success) {
+    throw new Error(`Invalid config: ${formatIssues(parsed.error)}`);
+  }
+
+  // The file holds API keys: keep it private to the user. writeFile() only applies the mode
+  // to a file it creates, so one written by hand is tightened too.
+  await mkdir(dirname(path), { recursive: true, mode: 0o700 });
+  await writeFile(path, `${JSON.stringify(raw, null, 2)}\n`, { mode: 0o600 });
+  await chmod(path, 0o600);
+  config = parsed.data;
+  loadError = null;
+  return path;
+}
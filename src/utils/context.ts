@@ -0,0 +1,108 @@
+// Per-call context: cancellation and progress for the tool call being handled
+//
+// Like the session, this travels with the async call chain, so adapters deep below a
+// tool handler can honour cancellation and report progress without extra parameters.
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+export type ProgressReporter = (
+  progress: number,
+  total?: number,
+  message?: string
+) => Promise<void>;
+
+// Background work waits behind tool calls for rate-limited APIs
+export type CallPriority = 'interactive' | 'background';
+
+export interface CallContext {
+  signal?: AbortSignal;
+  reportProgress?: ProgressReporter;
+  priority?: CallPriority;
+}
+
+const storage = new AsyncLocalStorage<CallContext>();
+
+export function runWithCallContext<T>(context: CallContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+// Signal of the current tool call, for passing to fetch(); undefined outside a call
+export function currentSignal(): AbortSignal | undefined {
+  return storage.getStore()?.signal;
+}
+
+// Runs fn with a different signal but the same progress reporter
+export function runWithSignal<T>(signal: AbortSignal | undefined, fn: () => T): T {
+  return storage.run({ ...storage.getStore(), signal }, fn);
+}
+
+// Runs fn as background work: a cache refresh, or the polling of a long-running job, where
+// a short wait matters less than for a tool call
+export function runInBackground<T>(fn: () => T): T {
+  return storage.run({ ...storage.getStore(), priority: 'background' }, fn);
+}
+
+export function currentPriority(): CallPriority {
+  return storage.getStore()?.priority ?? 'interactive';
+}
+
+// Progress is best-effort: a client that went away must not fail the work itself
+export async function reportProgress(
+  progress: number,
+  total?: number,
+  message?: string
+): Promise<void> {
+  try {
+    await storage.getStore()?.reportProgress?.(progress, total, message);
+  } catch {
+    // ignore
+  }
+}
+
+// Waits ms, rejecting early with the abort reason if the call is cancelled
+export function sleep(
+  ms: number,
+  signal: AbortSignal | undefined = currentSignal()
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Waits for work another call started, rejecting early with the abort reason if this call
+// is cancelled first. The work itself carries on for whoever else is waiting.
+export function untilAborted<T>(
+  promise: Promise<T>,
+  signal: AbortSignal | undefined = currentSignal()
+): Promise<T> {
+  if (!signal) return promise;
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+// The current call's signal combined with a per-request timeout
+export function timeoutSignal(
+  ms: number,
+  signal: AbortSignal | undefined = currentSignal()
+): AbortSignal {
+  const timeout = AbortSignal.timeout(ms);
+  return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
@@ -0,0 +1,83 @@
+// Error classification for tool results
+
+export type ErrorReason =
+  'missing_key' | 'rate_limited' | 'not_found' | 'upstream_down' | 'invalid_input';
+
+// Thrown where the reason is known up front, so it doesn't have to be guessed from the message
+export class ClassifiedError extends Error {
+  constructor(
+    public readonly reason: ErrorReason,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ClassifiedError';
+  }
+}
+
+// An upstream's error response. Its status gives the reason, and tells the retry policy
+// (utils/retry.ts) whether trying again may help.
+export class UpstreamHttpError extends ClassifiedError {
+  constructor(
+    public readonly status: number,
+    message: string,
+    // From the response's Retry-After header
+    public readonly retryAfterMs?: number
+  ) {
+    super(reasonForStatus(status), message);
+    this.name = 'UpstreamHttpError';
+  }
+}
+
+// An upstream failure another attempt may fix that has no HTTP status of its own: a
+// connection failure or timeout, or every node of a pool failing that way
+export class TransientUpstreamError extends ClassifiedError {
+  constructor(message: string) {
+    super('upstream_down', message);
+    this.name = 'TransientUpstreamError';
+  }
+}
+
+// The request never got an answer: fetch() couldn't connect or lost the connection, or
+// the per-request timeout fired
+export function isNetworkError(error: unknown): boolean {
+  if (error instanceof TransientUpstreamError) return true;
+  if (!(error instanceof Error)) return false;
+  return (
+    (error instanceof TypeError && error.message === 'fetch failed') ||
+    error.name === 'TimeoutError'
+  );
+}
+
+function reasonForStatus(status: number): ErrorReason {
+  if (status === 429) return 'rate_limited';
+  if (status === 401 || status === 403) return 'missing_key';
+  if (status === 404) return 'not_found';
+  if (status >= 400 && status < 500 && status !== 408) return 'invalid_input';
+  return 'upstream_down';
+}
+
+// Checked in order: rate limit messages often mention API keys too
+// (e.g. Etherscan's "Max rate limit reached, please use API Key for higher rate limit")
+const REASON_PATTERNS: Array<[ErrorReason, RegExp]> = [
+  ['rate_limited', /rate limit|too many requests|\b429\b/i],
+  // Etherscan answers paid-plan endpoints with "...trying to access an API Pro endpoint"
+  [
+    'missing_key',
+    /api key|API Pro endpoint|ETH_NODE_URL not set|unauthori[sz]ed|forbidden|\b40[13]\b/i,
+  ],
+  [
+    'invalid_input',
+    /\binvalid\b|unknown chain|expected .+ got|block range too large|maximum \d+|validation failed/i,
+  ],
+  ['not_found', /not found|not verified|could not resolve|no data|does not exist|\b404\b/i],
+];
+
+export function classifyError(error: unknown): ErrorReason {
+  if (error instanceof ClassifiedError) return error.reason;
+  const message = error instanceof Error ? error.message : String(error);
+  for (const [reason, pattern] of REASON_PATTERNS) {
+    if (pattern.test(message)) return reason;
+  }
+  // Network failures, timeouts, 5xx and "All sources failed"
+  return 'upstream_down';
+}
@@ -0,0 +1,63 @@
+// Finality-aware cache TTLs for block-scoped data
+//
+// Data at a block number, or about a transaction, only stops changing once its block is
+// past any reorg: until then it gets a short TTL, after that it is cached forever (and on
+// disk). Data at "latest", "pending" or "safe" follows the head and is barely cached.
+import { FOREVER, TTL } from './cache.js';
+
+// Blocks this far below the head are past any reorg (two epochs on Ethereum)
+const FINALITY_DEPTH = 64;
+
+// Blocks older than this are past any reorg on the supported chains
+const SETTLED_BLOCK_AGE_S = 60 * 60;
+
+// Returns the chain's current block number; callers pass their adapter's cached lookup
+export type HeadLookup = () => Promise<number>;
+
+// Block number of a tag given as a number, hex or decimal string; null for named tags
+export function blockTagNumber(tag: string | number): number | null {
+  if (typeof tag === 'number') return tag;
+  if (/^0x[0-9a-fA-F]+$/.test(tag)) return parseInt(tag, 16);
+  if (/^\d+$/.test(tag)) return parseInt(tag, 10);
+  return null;
+}
+
+async function isFinalBlock(blockNumber: number, head: HeadLookup): Promise<boolean> {
+  try {
+    return (await head()) - blockNumber >= FINALITY_DEPTH;
+  } catch {
+    // Head unknown: treat the block as recent
+    return false;
+  }
+}
+
+// Whether an eth_getBlockByNumber result is old enough to never change
+function isSettledBlock(block: any): boolean {
+  const timestamp = parseInt(block?.timestamp, 16);
+  return Number.isFinite(timestamp) && Date.now() / 1000 - timestamp > SETTLED_BLOCK_AGE_S;
+}
+
+// TTL for an eth_getBlockByNumber result. The block's own timestamp tells its age,
+// so no head lookup is needed.
+export function blockTtl(tag: string | number, block: any): number {
+  if (!block) return 0; // Not produced yet
+  if (tag === 'earliest') return FOREVER;
+  if (blockTagNumber(tag) === null) return TTL.HEAD;
+  return isSettledBlock(block) ? FOREVER : TTL.GAS;
+}
+
+// TTL for a transaction or receipt by hash: unknown ones aren't cached (they may show up
+// any moment), pending ones barely, mined ones forever once their block is final
+export async function txTtl(result: any, head: HeadLookup): Promise<number> {
+  if (!result) return 0;
+  if (!result.blockNumber) return TTL.HEAD;
+  return (await isFinalBlock(parseInt(result.blockNumber, 16), head)) ? FOREVER : TTL.GAS;
+}
+
+// TTL for data at a block tag (code, logs up to toBlock)
+export async function tagTtl(tag: string | number, head: HeadLookup): Promise<number> {
+  if (tag === 'earliest') return FOREVER;
+  const blockNumber = blockTagNumber(tag);
+  if (blockNumber === null) return TTL.HEAD;
+  return (await isFinalBlock(blockNumber, head)) ? FOREVER : TTL.GAS;
+}
@@ -0,0 +1,100 @@
+// Upstream call tracing, sent to the client as MCP log messages (notifications/message)
+//
+// Adapters fetch through tracedFetch(). The cache and the router add what they know
+// (cache hit/miss, fallback reason, circuit-breaker state) to the trace of the calls they
+// wrap, so every upstream call produces one entry with everything needed to debug it.
+// Clients pick how much they see with logging/setLevel; until they do, they get info and
+// above, so the per-request debug entries are opt-in.
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { LoggingLevel, LoggingLevelSchema } from '@modelcontextprotocol/sdk/types.js';
+
+import { chainName } from './chains.js';
+import { currentSignal } from './context.js';
+import { RecordedRequest, recordSourceRequest } from './metrics.js';
+import { sanitizeError } from './security.js';
+import { getSession } from './session.js';
+
+// 'bypass' is a noCache call; 'uncached' a call that never goes through the cache
+export type CacheStatus = 'hit' | 'miss' | 'bypass' | 'uncached';
+
+export type CircuitStateName = 'closed' | 'open' | 'half-open';
+
+export interface UpstreamTrace {
+  cache?: CacheStatus;
+  // Chain name the request is for, for the metrics; the session's default chain if unset
+  chain?: string;
+  // Why the router is on this source: the previous source's failure
+  fallbackReason?: string;
+  circuit?: CircuitStateName;
+}
+
+const storage = new AsyncLocalStorage<UpstreamTrace>();
+
+export function withTrace<T>(fields: UpstreamTrace, fn: () => T): T {
+  return storage.run({ ...storage.getStore(), ...fields }, fn);
+}
+
+export function currentTrace(): UpstreamTrace {
+  return storage.getStore() ?? {};
+}
+
+const DEFAULT_LOG_LEVEL: LoggingLevel = 'info';
+
+// Least to most severe
+const LOG_LEVELS = LoggingLevelSchema.options;
+
+// Best-effort: logging must never fail, or slow down, the call it describes
+export function log(level: LoggingLevel, data: Record<string, unknown>): void {
+  const session = getSession();
+  const threshold = session.logLevel ?? DEFAULT_LOG_LEVEL;
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(threshold)) return;
+  session.log?.(level, data).catch(() => {});
+}
+
+// Successful responses until the adapter reads them, with the request's log entry
+const recordedResponses = new WeakMap<
+  Response,
+  { request: RecordedRequest; entry: Record<string, unknown> }
+>();
+
+// fetch() for adapters, logging the request and recording it in the source's metrics.
+// `endpoint` is what gets logged, so it must never be a URL that carries an API key.
+export async function tracedFetch(
+  source: string,
+  endpoint: string,
+  url: string,
+  init?: RequestInit
+): Promise<Response> {
+  const { cache = 'uncached', fallbackReason, circuit, chain } = currentTrace();
+  const entry = { event: 'request', source, endpoint, cache, fallbackReason, circuit };
+  const metricsChain = chain ?? chainName(getSession().defaultChainId);
+  // The router only moves on to another source after the one before it failed
+  const fallback = fallbackReason !== undefined;
+  const start = Date.now();
+  try {
+    const response = await fetch(url, init);
+    const latencyMs = Date.now() - start;
+    log(response.ok ? 'debug' : 'warning', { ...entry, status: response.status, latencyMs });
+    const request = recordSourceRequest(source, metricsChain, response.ok, latencyMs, fallback);
+    if (response.ok) recordedResponses.set(response, { request, entry });
+    return response;
+  } catch (error) {
+    const latencyMs = Date.now() - start;
+    log('warning', { ...entry, latencyMs, error: sanitizeError(error) });
+    // A cancelled call says nothing about the source
+    if (!currentSignal()?.aborted) {
+      recordSourceRequest(source, metricsChain, false, latencyMs);
+    }
+    throw error;
+  }
+}
+
+// For a response from tracedFetch() whose HTTP 200 body is an error (Etherscan's status "0",
+// a JSON-RPC error): the request counts as failed in the source's metrics
+export function reportBodyError(response: Response, error: string): void {
+  const recorded = recordedResponses.get(response);
+  if (!recorded) return;
+  recordedResponses.delete(response);
+  recorded.request.fail();
+  log('warning', { ...recorded.entry, status: response.status, error: sanitizeError(error) });
+}
@@ -0,0 +1,132 @@
+// Rolling per-source metrics from real upstream traffic: request count, error rate,
+// latency percentiles and how often each source answered as a fallback
+//
+// Recorded by tracedFetch() for every upstream request, whether a routed call or a tool
+// calling an adapter directly made it. Adapters whose upstreams answer errors with HTTP 200
+// mark those requests failed once they have read the body (reportBodyError()). Answers served from the cache never reach the
+// upstream and are left out. Kept per source and chain for the last hour, process-wide
+// like the circuit breakers.
+
+// Samples older than this are dropped
+const WINDOW_MS = 60 * 60 * 1000;
+// Newest samples kept per source and chain, whatever their age
+const MAX_SAMPLES = 1000;
+
+interface Sample {
+  at: number;
+  ok: boolean;
+  latencyMs: number;
+  // Answered after an earlier source in the chain failed or was skipped
+  fallback: boolean;
+}
+
+interface SourceMetrics {
+  source: string;
+  chain: string;
+  samples: Sample[];
+  // Calls that skipped the source because its circuit breaker was open
+  skips: number[];
+}
+
+export interface SourceStats {
+  source: string;
+  chain: string;
+  requests: number;
+  errors: number;
+  errorRate: number;
+  // Of successful requests; null until there is one
+  p50LatencyMs: number | null;
+  p95LatencyMs: number | null;
+  // Answers given after an earlier source failed, and their share of all answers
+  fallbacks: number;
+  fallbackRate: number;
+  skipped: number;
+}
+
+const metrics = new Map<string, SourceMetrics>();
+
+// Adapters trace under their own names; stats use the routing sources' names
+const SOURCE_NAMES: Record<string, string> = { jsonrpc: 'json-rpc' };
+
+function metricsFor(source: string, chain: string): SourceMetrics {
+  const name = SOURCE_NAMES[source.toLowerCase()] ?? source.toLowerCase();
+  const key = `${name}:${chain}`;
+  let entry = metrics.get(key);
+  if (!entry) {
+    entry = { source: name, chain, samples: [], skips: [] };
+    metrics.set(key, entry);
+  }
+  return entry;
+}
+
+function prune(entry: SourceMetrics, now = Date.now()): void {
+  const cutoff = now - WINDOW_MS;
+  const firstKept = entry.samples.findIndex((sample) => sample.at >= cutoff);
+  entry.samples.splice(0, firstKept === -1 ? entry.samples.length : firstKept);
+  if (entry.samples.length > MAX_SAMPLES) {
+    entry.samples.splice(0, entry.samples.length - MAX_SAMPLES);
+  }
+  entry.skips = entry.skips.filter((at) => at >= cutoff);
+}
+
+// A recorded request, for marking it failed once its body turns out to be an error
+export interface RecordedRequest {
+  fail(): void;
+}
+
+export function recordSourceRequest(
+  source: string,
+  chain: string,
+  ok: boolean,
+  latencyMs: number,
+  fallback = false
+): RecordedRequest {
+  const entry = metricsFor(source, chain);
+  const sample = { at: Date.now(), ok, latencyMs, fallback: ok && fallback };
+  entry.samples.push(sample);
+  prune(entry);
+  return {
+    fail: () => {
+      sample.ok = false;
+      sample.fallback = false;
+    },
+  };
+}
+
+export function recordSourceSkipped(source: string, chain: string): void {
+  const entry = metricsFor(source, chain);
+  entry.skips.push(Date.now());
+  prune(entry);
+}
+
+// Nearest-rank percentile of sorted values
+function percentile(sorted: number[], p: number): number | null {
+  if (sorted.length === 0) return null;
+  return sorted[Math.max(0, Math.ceil((p / 100) * sorted.length) - 1)];
+}
+
+// Stats over the window, busiest source first
+export function getSourceStats(): SourceStats[] {
+  const now = Date.now();
+  return Array.from(metrics.values(), (entry) => {
+    prune(entry, now);
+    const successes = entry.samples.filter((sample) => sample.ok);
+    const latencies = successes.map((sample) => sample.latencyMs).sort((a, b) => a - b);
+    const fallbacks = successes.filter((sample) => sample.fallback).length;
+    const requests = entry.samples.length;
+    return {
+      source: entry.source,
+      chain: entry.chain,
+      requests,
+      errors: requests - successes.length,
+      errorRate: requests > 0 ? (requests - successes.length) / requests : 0,
+      p50LatencyMs: percentile(latencies, 50),
+      p95LatencyMs: percentile(latencies, 95),
+      fallbacks,
+      fallbackRate: successes.length > 0 ? fallbacks / successes.length : 0,
+      skipped: entry.skips.length,
+    };
+  })
+    .filter((stats) => stats.requests > 0 || stats.skipped > 0)
+    .sort((a, b) => b.requests - a.requests);
+}
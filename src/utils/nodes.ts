@@ -0,0 +1,126 @@
+// JSON-RPC node health: latency and error rate per node, and the order a chain's nodes
+// are tried in
+//
+// Sessions own their list of nodes (see NodeEntry in session.ts). Health is tracked per
+// URL for the whole process, since every session using a node sees the same node.
+import { createHash } from 'node:crypto';
+
+import { getConfig } from './config.js';
+
+// Outcomes kept per node for its error rate
+const OUTCOME_WINDOW = 20;
+// Consecutive failures before a node is considered down
+const UNHEALTHY_AFTER = 3;
+// A down node is tried again after this long
+const RETRY_AFTER_MS = 30 * 1000;
+// Weight of the newest sample in the latency average
+const LATENCY_SMOOTHING = 0.3;
+// Assumed latency of a node that hasn't answered yet
+const UNMEASURED_LATENCY_MS = 1000;
+
+interface HealthState {
+  latencyMs: number | null;
+  // true for a success, newest last
+  outcomes: boolean[];
+  consecutiveFailures: number;
+  lastFailure: number;
+  lastError: string | null;
+  requests: number;
+}
+
+export interface NodeHealth {
+  healthy: boolean;
+  // Smoothed latency of successful requests; null until the node has answered
+  latencyMs: number | null;
+  // Share of the last requests that failed
+  errorRate: number;
+  requests: number;
+  lastError: string | null;
+  // Lower is better: latency, inflated by the error rate
+  score: number;
+}
+
+const health = new Map<string, HealthState>();
+
+function stateFor(url: string): HealthState {
+  let state = health.get(url);
+  if (!state) {
+    state = {
+      latencyMs: null,
+      outcomes: [],
+      consecutiveFailures: 0,
+      lastFailure: 0,
+      lastError: null,
+      requests: 0,
+    };
+    health.set(url, state);
+  }
+  return state;
+}
+
+function recordOutcome(state: HealthState, ok: boolean): void {
+  state.requests++;
+  state.outcomes.push(ok);
+  if (state.outcomes.length > OUTCOME_WINDOW) state.outcomes.shift();
+}
+
+// Stable, key-free name for a node: node URLs often embed API keys
+export function nodeId(url: string): string {
+  return `node-${createHash('sha256').update(url).digest('hex').slice(0, 12)}`;
+}
+
+export function recordNodeSuccess(url: string, latencyMs: number): void {
+  const state = stateFor(url);
+  recordOutcome(state, true);
+  state.consecutiveFailures = 0;
+  state.latencyMs =
+    state.latencyMs === null
+      ? latencyMs
+      : state.latencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING;
+}
+
+// `error` must already be sanitized: it is shown by list_nodes
+export function recordNodeFailure(url: string, error: string): void {
+  const state = stateFor(url);
+  recordOutcome(state, false);
+  state.consecutiveFailures++;
+  state.lastFailure = Date.now();
+  state.lastError = error;
+}
+
+export function getNodeHealth(url: string): NodeHealth {
+  const state = stateFor(url);
+  const failures = state.outcomes.filter((ok) => !ok).length;
+  const errorRate = state.outcomes.length > 0 ? failures / state.outcomes.length : 0;
+  const healthy =
+    state.consecutiveFailures < UNHEALTHY_AFTER || Date.now() - state.lastFailure > RETRY_AFTER_MS;
+  return {
+    healthy,
+    latencyMs: state.latencyMs === null ? null : Math.round(state.latencyMs),
+    errorRate,
+    requests: state.requests,
+    lastError: state.lastError,
+    score: Math.round((state.latencyMs ?? UNMEASURED_LATENCY_MS) * (1 + 4 * errorRate)),
+  };
+}
+
+let rotation = 0;
+
+// Order to try nodes in: healthy ones first, then the ones that are down (least recently
+// failed first, as a last resort). Healthy nodes go best score first, or take turns when
+// routing.nodeSelection is "round-robin". Ties keep the given order.
+export function rankNodes<T extends { url: string }>(nodes: T[]): T[] {
+  const scored = nodes.map((node) => ({ node, health: getNodeHealth(node.url) }));
+  const up = scored.filter(({ health }) => health.healthy);
+  const down = scored
+    .filter(({ health }) => !health.healthy)
+    .sort((a, b) => stateFor(a.node.url).lastFailure - stateFor(b.node.url).lastFailure);
+
+  if (getConfig().routing?.nodeSelection === 'round-robin' && up.length > 1) {
+    const start = rotation++ % up.length;
+    up.push(...up.splice(0, start));
+  } else {
+    up.sort((a, b) => a.health.score - b.health.score);
+  }
+  return [...up, ...down].map(({ node }) => node);
+}
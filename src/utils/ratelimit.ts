@@ -0,0 +1,155 @@
+// Shared rate limiting for upstream APIs: a token bucket per source and API key
+//
+// Adapters call waitForSlot() before each request (each retry included). Tokens refill at
+// the key's rate up to its burst; callers without one wait in FIFO order, with tool calls
+// ahead of background work (see runInBackground). Limits depend on the key's tier and can
+// be overridden in the config file's `rateLimits` section.
+import { createHash } from 'node:crypto';
+
+import { currentPriority, currentSignal, CallPriority } from './context.js';
+import { getConfig, RateLimit, RateLimitTier } from './config.js';
+import { log } from './logging.js';
+
+type Limit = Required<Omit<RateLimit, 'tier'>>;
+
+// Published limits per plan. DefiLlama only limits its Pro API; the free one isn't limited here.
+const DEFAULT_LIMITS: Record<string, Partial<Record<RateLimitTier, Limit>>> = {
+  etherscan: {
+    free: { requestsPerSecond: 5, burst: 5 },
+    pro: { requestsPerSecond: 20, burst: 20 },
+  },
+  coingecko: {
+    free: { requestsPerSecond: 30 / 60, burst: 5 },
+    pro: { requestsPerSecond: 500 / 60, burst: 10 },
+  },
+  defillama: {
+    pro: { requestsPerSecond: 1000 / 60, burst: 20 },
+  },
+  blobscan: {
+    free: { requestsPerSecond: 50 / 60, burst: 5 },
+    pro: { requestsPerSecond: 50 / 60, burst: 5 },
+  },
+  dune: {
+    free: { requestsPerSecond: 40 / 60, burst: 5 },
+    pro: { requestsPerSecond: 200 / 60, burst: 10 },
+  },
+};
+
+// For sources and tiers missing above
+const FALLBACK_LIMIT: Limit = { requestsPerSecond: 5, burst: 5 };
+
+interface Waiter {
+  resolve: () => void;
+  reject: (reason: unknown) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+class TokenBucket {
+  private tokens: number;
+  private updatedAt = Date.now();
+  private queues: Record<CallPriority, Waiter[]> = { interactive: [], background: [] };
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(private limit: Limit) {
+    this.tokens = limit.burst;
+  }
+
+  // Config changes apply from the next request on
+  setLimit(limit: Limit): void {
+    this.refill();
+    this.limit = limit;
+    this.tokens = Math.min(this.tokens, limit.burst);
+  }
+
+  take(priority: CallPriority, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return Promise.reject(signal.reason);
+
+    this.refill();
+    if (this.waiting() === 0 && this.tokens >= 1) {
+      this.tokens--;
+      return Promise.resolve();
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { resolve, reject, signal };
+      const queue = this.queues[priority];
+      if (signal) {
+        waiter.onAbort = () => {
+          queue.splice(queue.indexOf(waiter), 1);
+          reject(signal.reason);
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+      queue.push(waiter);
+      this.schedule();
+    });
+  }
+
+  private waiting(): number {
+    return this.queues.interactive.length + this.queues.background.length;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    const earned = ((now - this.updatedAt) / 1000) * this.limit.requestsPerSecond;
+    this.tokens = Math.min(this.limit.burst, this.tokens + earned);
+    this.updatedAt = now;
+  }
+
+  // Hands out the tokens there are, then sleeps until the next one for whoever is left
+  private schedule(): void {
+    if (this.timer) return;
+    this.refill();
+    while (this.tokens >= 1 && this.waiting() > 0) {
+      const waiter = this.queues.interactive.shift() ?? this.queues.background.shift()!;
+      if (waiter.onAbort) waiter.signal!.removeEventListener('abort', waiter.onAbort);
+      this.tokens--;
+      waiter.resolve();
+    }
+    if (this.waiting() > 0) {
+      const delayMs = Math.ceil(((1 - this.tokens) / this.limit.requestsPerSecond) * 1000);
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.schedule();
+      }, delayMs);
+    }
+  }
+}
+
+const buckets = new Map<string, TokenBucket>();
+
+// The configured limit for a source, over the defaults for its tier. `tier` is the
+// adapter's guess (e.g. "pro" when a Pro key is set); the config file's tier wins.
+export function rateLimit(source: string, tier: RateLimitTier): Limit {
+  const { tier: configuredTier = tier, ...overrides } = getConfig().rateLimits?.[source] ?? {};
+  const defaults = DEFAULT_LIMITS[source]?.[configuredTier] ?? FALLBACK_LIMIT;
+  return { ...defaults, ...overrides };
+}
+
+// Waits for the source's rate limit to allow one more request with this key (empty for
+// keyless calls). Rejects with the abort reason if the current call is cancelled first.
+export async function waitForSlot(
+  source: string,
+  apiKey: string,
+  tier: RateLimitTier
+): Promise<void> {
+  // Keys are hashed so the map doesn't hold them
+  const id = `${source}:${createHash('sha256').update(apiKey).digest('hex').slice(0, 12)}`;
+  const limit = rateLimit(source, tier);
+  let bucket = buckets.get(id);
+  if (bucket) {
+    bucket.setLimit(limit);
+  } else {
+    bucket = new TokenBucket(limit);
+    buckets.set(id, bucket);
+  }
+
+  const priority = currentPriority();
+  const start = Date.now();
+  await bucket.take(priority, currentSignal());
+  const waitedMs = Date.now() - start;
+  if (waitedMs > 0) {
+    log('debug', { event: 'rate_limit_wait', source, priority, waitedMs });
+  }
+}
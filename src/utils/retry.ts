@@ -0,0 +1,90 @@
+// Retries for upstream requests: exponential backoff with jitter, honouring Retry-After
+//
+// Adapters run their requests through withRetry(). Only failures another attempt may fix
+// are retried: rate limits (429 or a rate limit message), 408, 5xx, timeouts and network
+// errors. Anything else (other 4xx, error answers like Etherscan's NOTOK, invalid input,
+// missing keys) fails on the first attempt. Limits come from the config file's `retry`
+// section, per source.
+import { currentSignal, sleep } from './context.js';
+import { getConfig, RetryPolicy } from './config.js';
+import { classifyError, isNetworkError, UpstreamHttpError } from './errors.js';
+import { log } from './logging.js';
+import { sanitizeError } from './security.js';
+
+const DEFAULT_POLICY: Required<RetryPolicy> = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10 * 1000,
+};
+
+export interface RetryOptions {
+  // false for requests that must not run twice (e.g. starting a Dune execution): only
+  // rate limits are retried, since those mean the request was turned away
+  idempotent?: boolean;
+}
+
+export function retryPolicy(source: string): Required<RetryPolicy> {
+  const { retry = {} } = getConfig();
+  return { ...DEFAULT_POLICY, ...retry.default, ...retry[source] };
+}
+
+// Retry-After in ms, given as seconds or an HTTP date; undefined when missing or unreadable
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  if (/^\d+$/.test(header.trim())) return parseInt(header, 10) * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// Error for a non-2xx response, with its status and Retry-After
+export function httpError(response: Response, message: string): UpstreamHttpError {
+  return new UpstreamHttpError(
+    response.status,
+    message,
+    parseRetryAfter(response.headers.get('retry-after'))
+  );
+}
+
+export function isRetryable(error: unknown, idempotent = true): boolean {
+  if (error instanceof UpstreamHttpError) {
+    if (error.status === 429) return true;
+    return idempotent && (error.status >= 500 || error.status === 408);
+  }
+  if (classifyError(error) === 'rate_limited') return true;
+  return idempotent && isNetworkError(error);
+}
+
+// Up to base * 2^(attempt - 1), capped at maxDelayMs, picked at random so clients that
+// failed together don't retry together
+function backoffDelay(attempt: number, policy: Required<RetryPolicy>): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(ceiling / 2 + (Math.random() * ceiling) / 2);
+}
+
+export async function withRetry<T>(
+  source: string,
+  fn: () => Promise<T>,
+  { idempotent = true }: RetryOptions = {}
+): Promise<T> {
+  const policy = retryPolicy(source);
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      // A cancelled call (or one past its routing timeout) is not retried
+      const signal = currentSignal();
+      if (signal?.aborted || attempt >= policy.maxAttempts || !isRetryable(error, idempotent)) {
+        throw error;
+      }
+      // Waiting longer than the policy allows would stall the call: fail now, so the
+      // router can move on to another source
+      const retryAfterMs = error instanceof UpstreamHttpError ? error.retryAfterMs : undefined;
+      if (retryAfterMs !== undefined && retryAfterMs > policy.maxDelayMs) {
+        throw error;
+      }
+      const delayMs = retryAfterMs ?? backoffDelay(attempt, policy);
+      log('warning', { event: 'retry', source, attempt, delayMs, error: sanitizeError(error) });
+      await sleep(delayMs, signal);
+    }
+  }
+}
@@ -17,31 +17,15 @@ export function sanitizeError(error: unknown, sensitiveKeys: string[] = []): str
   return message;
 }
 
-// Rate limiting helper
-export class RateLimiter {
-  private requests: number[] = [];
-  private maxRequests: number;
-  private windowMs: number;
-
-  constructor(maxRequests: number, windowMs: number) {
-    this.maxRequests = maxRequests;
-    this.windowMs = windowMs;
-  }
-
-  canMakeRequest(): boolean {
-    const now = Date.now();
-    this.requests = this.requests.filter((t) => now - t < this.windowMs);
-    return this.requests.length < this.maxRequests;
-  }
-
-  recordRequest(): void {
-    this.requests.push(Date.now());
-  }
-
-  async waitForSlot(): Promise<void> {
-    while (!this.canMakeRequest()) {
-      await new Promise((r) => setTimeout(r, 100));
-    }
-    this.recordRequest();
+// Keeps only the scheme and host of a URL: node URLs often carry API keys in the
+// path, query or credentials, in formats that sanitizeError's hex pattern misses
+export function redactUrl(raw: string): string {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    return '[invalid URL]';
   }
+  const hasSecrets = url.username || url.password || url.pathname !== '/' || url.search;
+  return `${url.protocol}//${url.host}${hasSecrets ? '/[REDACTED]' : ''}`;
 }
@@ -0,0 +1,86 @@
+// Per-session configuration state
+//
+// Each MCP session (one stdio process, or one HTTP connection) owns its API keys,
+// default chain and JSON-RPC nodes. createServer() creates the session and runs every
+// request inside it; adapters read the active session via getSession().
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
+
+import { resolveChainId } from './chains.js';
+import { configuredNodes, getConfig, RoutingCapability, RoutingPolicy } from './config.js';
+
+export interface McpEnv {
+  ETHERSCAN_API_KEY?: string;
+  COINGECKO_API_KEY?: string;
+  DEFILLAMA_API_KEY?: string;
+  DUNE_API_KEY?: string;
+  ETH_NODE_URL?: string;
+}
+
+export interface NodeEntry {
+  url: string;
+  // null until the node has been asked: ETH_NODE_URL comes without its chain
+  chainId: string | null;
+  // Set for the operator's nodes (process env and config file). Answers from other nodes
+  // are cached for the sessions using those nodes only.
+  shared?: boolean;
+}
+
+export interface SessionContext {
+  etherscanApiKey: string;
+  coingeckoApiKey: string;
+  defillamaApiKey: string;
+  duneApiKey: string;
+  defaultChainId: string;
+  // The first node is the primary one, the last set with set_node_url. Calls that don't name a
+  // chain go to the default chain's nodes, whichever of them is healthiest.
+  nodes: NodeEntry[];
+  // set_routing_policy overrides, field by field over the config file's policies
+  routingPolicies: Partial<Record<RoutingCapability, RoutingPolicy>>;
+  // Sends an MCP log message to this session's client; set once the server is connected
+  log?: (level: LoggingLevel, data: unknown) => Promise<void>;
+  // Lowest level sent, from the client's logging/setLevel; utils/logging.ts has the default
+  logLevel?: LoggingLevel;
+}
+
+// Values from env take priority, then process env, then the config file
+export function createSession(env: McpEnv = {}): SessionContext {
+  const config = getConfig();
+  const defaultChainId = config.defaultChain ? resolveChainId(config.defaultChain) : '1'; // Ethereum mainnet
+  const envNodeUrl = env.ETH_NODE_URL || process.env.ETH_NODE_URL || '';
+  // A node sent by an HTTP client (x-eth-node-url) is that client's own
+  const envNodeShared = !env.ETH_NODE_URL;
+  // ETH_NODE_URL comes first, then the config file's nodes with the default chain's up front
+  const fromConfig = configuredNodes()
+    .filter(({ url }) => url !== envNodeUrl)
+    .sort((a, b) => Number(b.chainId === defaultChainId) - Number(a.chainId === defaultChainId));
+  const nodes: NodeEntry[] = [
+    ...(envNodeUrl ? [{ url: envNodeUrl, chainId: null, shared: envNodeShared }] : []),
+    ...fromConfig.map((node) => ({ ...node, shared: true })),
+  ];
+  return {
+    etherscanApiKey:
+      env.ETHERSCAN_API_KEY || process.env.ETHERSCAN_API_KEY || config.keys?.etherscan || '',
+    coingeckoApiKey:
+      env.COINGECKO_API_KEY || process.env.COINGECKO_API_KEY || config.keys?.coingecko || '',
+    defillamaApiKey:
+      env.DEFILLAMA_API_KEY || process.env.DEFILLAMA_API_KEY || config.keys?.defillama || '',
+    duneApiKey: env.DUNE_API_KEY || process.env.DUNE_API_KEY || config.keys?.dune || '',
+    defaultChainId,
+    nodes,
+    routingPolicies: {},
+  };
+}
+
+const storage = new AsyncLocalStorage<SessionContext>();
+
+// Used when adapters are called outside an MCP session (tests, scripts)
+const defaultSession = createSession();
+
+export function getSession(): SessionContext {
+  return storage.getStore() ?? defaultSession;
+}
+
+export function runWithSession<T>(session: SessionContext, fn: () => T): T {
+  return storage.run(session, fn);
+}